@@ -0,0 +1,218 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, Check, X, MessageSquareWarning, Loader2, Receipt, ClipboardCheck, RefreshCw } from "lucide-react";
+import { useApprovalInbox } from "@/hooks/useApprovalInbox";
+import { useToast } from "@/hooks/use-toast";
+import { useHaptic } from "@/hooks/use-haptic";
+import { formatCurrency } from "@/lib/currency";
+import {
+  APPROVAL_DECISION_LABELS,
+  APPROVAL_STATUS_LABELS,
+  groupInboxByReport,
+  requiresComment,
+  type ApprovalDecision,
+  type ApprovalStatus,
+  type InboxEntry,
+} from "@/lib/approvals";
+import { cn } from "@/lib/utils";
+
+const APPROVAL_STATUS_STYLES: Record<ApprovalStatus, string> = {
+  pending: "bg-secondary/60 text-muted-foreground",
+  approved: "bg-emerald-500/10 text-emerald-600",
+  rejected: "bg-red-500/10 text-red-600",
+  changes_requested: "bg-amber-500/10 text-amber-600",
+};
+
+interface PendingDecision {
+  expenseId: string;
+  decision: ApprovalDecision;
+}
+
+export function ApprovalInbox() {
+  const navigate = useNavigate();
+  const { entries, loading, decide, refetch } = useApprovalInbox();
+  const { toast } = useToast();
+  const { trigger: haptic } = useHaptic();
+
+  const [draft, setDraft] = useState<PendingDecision | null>(null);
+  const [comment, setComment] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const reports = useMemo(() => groupInboxByReport(entries), [entries]);
+
+  const submitDecision = async (entry: InboxEntry, decision: ApprovalDecision, text = "") => {
+    setBusyId(entry.expense_id);
+    try {
+      const reportStatus = await decide(entry.expense_id, decision, text);
+      haptic(decision === "approved" ? "success" : "warning");
+      setDraft(null);
+      setComment("");
+      if (reportStatus === "approved") {
+        toast({ title: "Nota spese approvata", description: entry.report_title });
+      } else if (reportStatus === "draft") {
+        toast({ title: "Nota spese restituita", description: "Il richiedente vedrà le spese da correggere." });
+      }
+    } catch (error) {
+      console.error("Error deciding expense:", error);
+      toast({ title: "Decisione non registrata", description: error instanceof Error ? error.message : "Riprova.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startDecision = (entry: InboxEntry, decision: ApprovalDecision) => {
+    if (!requiresComment(decision)) {
+      submitDecision(entry, decision);
+      return;
+    }
+    setDraft({ expenseId: entry.expense_id, decision });
+    setComment("");
+  };
+
+  return (
+    <div className="min-h-screen bg-transparent animate-fade-in">
+      <header className="sticky top-0 z-40 flex items-center gap-3 px-6 pt-safe-top py-4 bg-background/60 backdrop-blur-xl border-b border-border/20">
+        <button onClick={() => navigate("/")} className="p-2 -ml-2 rounded-full hover:bg-secondary transition-colors">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h1 className="flex-1 text-xl font-bold text-foreground">Approvazioni</h1>
+        <button onClick={() => refetch()} className="p-2 rounded-full hover:bg-secondary transition-colors text-muted-foreground">
+          <RefreshCw className={cn("w-5 h-5", loading && "animate-spin")} />
+        </button>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 md:p-8 space-y-6 pb-24">
+        {loading && entries.length === 0 ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : reports.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 py-24 text-center">
+            <ClipboardCheck className="w-10 h-10 text-muted-foreground/50" />
+            <p className="text-sm text-muted-foreground max-w-xs">
+              Nessuna nota spese da approvare. Le vedrai qui quando ne invia una un collega che ti indica tra i destinatari o di cui approvi le spese nella tua organizzazione.
+            </p>
+          </div>
+        ) : (
+          reports.map(report => (
+            <section key={report.report_id} className="bg-card/80 backdrop-blur-md rounded-3xl border border-border/30 card-shadow overflow-hidden">
+              <div className="p-5 border-b border-border/50">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-xs font-bold text-muted-foreground uppercase tracking-wider">
+                      {report.submitter_name || "Collega"}
+                    </p>
+                    <h2 className="text-lg font-bold text-foreground truncate">{report.report_title}</h2>
+                    <p className="text-xs text-muted-foreground">
+                      {report.protocol_number}
+                      {report.submitted_at && ` · inviata il ${format(new Date(report.submitted_at), "d MMMM yyyy", { locale: it })}`}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-xl font-black tabular-nums text-foreground">{formatCurrency(report.total_eur)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {report.pending > 0 ? `${report.pending} da decidere` : "Tutte decise"}
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="divide-y divide-border/50">
+                {report.entries.map(entry => {
+                  const isDrafting = draft?.expenseId === entry.expense_id;
+                  const isBusy = busyId === entry.expense_id;
+                  return (
+                    <div key={entry.expense_id} className="p-4 space-y-3">
+                      <div className="flex items-center gap-3">
+                        {entry.image_url ? (
+                          <a href={entry.image_url} target="_blank" rel="noreferrer" className="shrink-0">
+                            <img src={entry.image_url} alt="" className="w-12 h-12 rounded-xl object-cover bg-secondary/40" />
+                          </a>
+                        ) : (
+                          <div className="w-12 h-12 rounded-xl bg-secondary/40 flex items-center justify-center shrink-0">
+                            <Receipt className="w-5 h-5 text-muted-foreground" />
+                          </div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-semibold text-foreground truncate">{entry.merchant || "Sconosciuto"}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {entry.expense_date ? format(new Date(entry.expense_date), "d MMM yyyy", { locale: it }) : "—"} · {entry.category || "Spesa"}
+                          </p>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <p className="text-sm font-bold tabular-nums">{formatCurrency(entry.total, entry.currency)}</p>
+                          <span className={cn("inline-block mt-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider", APPROVAL_STATUS_STYLES[entry.approval_status])}>
+                            {APPROVAL_STATUS_LABELS[entry.approval_status]}
+                          </span>
+                        </div>
+                      </div>
+
+                      {isDrafting ? (
+                        <div className="space-y-2 animate-slide-up">
+                          <Textarea
+                            autoFocus
+                            value={comment}
+                            onChange={e => setComment(e.target.value)}
+                            placeholder={draft.decision === "rejected" ? "Motivo del rifiuto" : "Cosa va corretto?"}
+                            className="rounded-2xl bg-secondary/30 border-transparent"
+                          />
+                          <div className="flex gap-2">
+                            <Button variant="outline" onClick={() => setDraft(null)} className="flex-1 rounded-full h-11">
+                              Annulla
+                            </Button>
+                            <Button
+                              onClick={() => submitDecision(entry, draft.decision, comment)}
+                              disabled={isBusy || !comment.trim()}
+                              className={cn(
+                                "flex-1 rounded-full h-11 font-bold text-white",
+                                draft.decision === "rejected" ? "bg-red-500 hover:bg-red-500/90" : "bg-amber-500 hover:bg-amber-500/90"
+                              )}
+                            >
+                              {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : APPROVAL_DECISION_LABELS[draft.decision]}
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            onClick={() => startDecision(entry, "rejected")}
+                            disabled={isBusy}
+                            className="rounded-full h-10 px-3 text-red-600 border-red-500/20 hover:bg-red-500/10 hover:text-red-600"
+                          >
+                            <X className="w-4 h-4 mr-1" />
+                            {APPROVAL_DECISION_LABELS.rejected}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={() => startDecision(entry, "changes_requested")}
+                            disabled={isBusy}
+                            className="rounded-full h-10 px-3 text-amber-600 border-amber-500/20 hover:bg-amber-500/10 hover:text-amber-600"
+                          >
+                            <MessageSquareWarning className="w-4 h-4 mr-1" />
+                            Modifiche
+                          </Button>
+                          <Button
+                            onClick={() => startDecision(entry, "approved")}
+                            disabled={isBusy || entry.approval_status === "approved"}
+                            className="flex-1 rounded-full h-10 bg-emerald-500 hover:bg-emerald-500/90 text-white font-bold"
+                          >
+                            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Check className="w-4 h-4 mr-1" />{APPROVAL_DECISION_LABELS.approved}</>}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
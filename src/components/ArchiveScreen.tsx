@@ -1,11 +1,18 @@
 import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { useExpenses, Expense } from "@/hooks/useExpenses";
-import { Moon, Plus, Check, Search, Sun, LayoutDashboard, Settings, Menu } from "lucide-react";
+import { Moon, Plus, Check, Search, Sun, LayoutDashboard, Settings, Menu, FileCode2, Upload, Car, Luggage, ClipboardList, Loader2 } from "lucide-react";
 import { useTheme } from "@/hooks/useTheme";
 import { useHaptic } from "@/hooks/use-haptic";
 import { SettingsSheet } from "./SettingsSheet";
 import { ImageAnalyzer } from "./ImageAnalyzer";
+import { InvoiceImporter } from "./InvoiceImporter";
+import { MileageExpenseForm } from "./MileageExpenseForm";
+import { PerDiemCalculator } from "./PerDiemCalculator";
+import { ExpenseReportsPanel } from "./ExpenseReportsPanel";
+import { BatchCapture } from "./BatchCapture";
+import { formatCurrency, sumAmountsEur } from "@/lib/currency";
 import { OdometerValue } from "./OdometerValue";
+import { BudgetRing } from "./BudgetRing";
 import { ExpenseDetail } from "./ExpenseDetail";
 import { SearchBar } from "./SearchBar";
 import { VirtualizedExpenseList } from "./VirtualizedExpenseList";
@@ -16,16 +23,38 @@ import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { UserAvatar } from "@/components/UserAvatar";
+import { isFatturaPAFile } from "@/lib/fatturapa";
+import { useExpenseReports } from "@/hooks/useExpenseReports";
+import { useBudgets } from "@/hooks/useBudgets";
+import { headlineBudget } from "@/lib/budgets";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { defaultReportTitle, isReportLocked, type ExpenseReport } from "@/lib/expenseReports";
 
 export function ArchiveScreen() {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const invoiceInputRef = useRef<HTMLInputElement>(null);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
+  const [selectedInvoice, setSelectedInvoice] = useState<File | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [showMileageForm, setShowMileageForm] = useState(false);
+  const [showPerDiem, setShowPerDiem] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [selectedExpense, setSelectedExpense] = useState<Expense | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearch, setDebouncedSearch] = useState("");
   const [showSearchBar, setShowSearchBar] = useState(false);
+
+  // Note spese: pannello e composizione dall'archivio
+  const [showReports, setShowReports] = useState(false);
+  const [reportPanelId, setReportPanelId] = useState<string | null>(null);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [reportTitle, setReportTitle] = useState("");
+  const [creatingReport, setCreatingReport] = useState(false);
   
   // Auth & Profile
   const { user } = useAuth();
@@ -41,6 +70,10 @@ export function ArchiveScreen() {
 
   const { theme, toggleTheme } = useTheme();
   const { trigger: haptic } = useHaptic();
+  const { toast } = useToast();
+  const { reports, createReport, refetch: refetchReports } = useExpenseReports();
+  const { statuses: budgetStatuses, refetch: refetchBudgets } = useBudgets(currentDate);
+  const monthBudget = headlineBudget(budgetStatuses);
 
   // RULER CONFIGURATION
   const ITEM_WIDTH = 120; // Larghezza fissa di ogni blocco mese in pixel
@@ -78,9 +111,11 @@ export function ArchiveScreen() {
 
   // Fetch available months from DB
   const fetchAvailableMonths = useCallback(async () => {
+    if (!user) return;
     const { data } = await supabase
       .from('expenses') // Updated to expenses
       .select('expense_date') // Updated to expense_date
+      .eq('user_id', user.id)
       .not('expense_date', 'is', null)
       .order('expense_date', { ascending: false });
 
@@ -124,7 +159,7 @@ export function ArchiveScreen() {
     } else {
       setAvailableMonths([new Date()]);
     }
-  }, [currentDate]);
+  }, [currentDate, user]);
 
   useEffect(() => {
     fetchAvailableMonths();
@@ -180,25 +215,146 @@ export function ArchiveScreen() {
     });
   }, [expenses, currentDate, debouncedSearch]);
 
+  // Totale in EUR: le spese in valuta estera contano con il controvalore al cambio BCE
   const currentMonthTotal = useMemo(() => {
-    return filteredExpenses.reduce((sum, e) => sum + (e.amount || 0), 0);
+    return sumAmountsEur(filteredExpenses).total;
   }, [filteredExpenses]);
 
+  const reportsById = useMemo(() => new Map<string, ExpenseReport>(reports.map(r => [r.id, r])), [reports]);
+
+  const lockingReport = (expense: Expense) => {
+    const report = expense.report_id ? reportsById.get(expense.report_id) : undefined;
+    return report && isReportLocked(report.status) ? report : null;
+  };
+
+  const selectedExpenses = useMemo(
+    () => expenses.filter(e => selectedIds.has(e.id)),
+    [expenses, selectedIds]
+  );
+
   const handleSelectPhoto = () => fileInputRef.current?.click();
 
+  const handleSelectInvoice = () => invoiceInputRef.current?.click();
+
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1) {
+      const [file] = files;
+      // Una fattura elettronica scelta dal selettore foto va comunque all'importazione XML
+      if (isFatturaPAFile(file)) setSelectedInvoice(file);
+      else setSelectedImage(file);
+      return;
+    }
+    // Più file: coda di acquisizione (le fatture XML si importano una alla volta)
+    const receipts = files.filter(file => !isFatturaPAFile(file));
+    if (receipts.length === 1) setSelectedImage(receipts[0]);
+    else if (receipts.length > 1) setBatchFiles(receipts);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.[0]) setSelectedImage(e.target.files[0]);
+    handleFiles(Array.from(e.target.files || []));
     e.target.value = "";
   };
 
+  // Drag & drop (desktop): trascinando file sulla finestra si apre la stessa coda
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (e.currentTarget === e.target) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    const files = Array.from(e.dataTransfer.files).filter(file =>
+      file.type.startsWith("image/") || file.type === "application/pdf" || isFatturaPAFile(file)
+    );
+    handleFiles(files);
+  };
+
   const handleSuccess = useCallback(() => {
     setSelectedImage(null);
+    setSelectedInvoice(null);
+    setBatchFiles(null);
+    setShowMileageForm(false);
+    setShowPerDiem(false);
     refetch();
     fetchAvailableMonths(); 
+    refetchBudgets();
     setShowSuccess(true);
     haptic('success');
     setTimeout(() => setShowSuccess(false), 2500);
-  }, [refetch, fetchAvailableMonths, haptic]);
+  }, [refetch, fetchAvailableMonths, refetchBudgets, haptic]);
+
+  const handleExpenseClick = (expense: Expense) => {
+    if (!selectionMode) {
+      setSelectedExpense(expense);
+      return;
+    }
+    // Una spesa appartiene al massimo a una nota spese
+    if (expense.report_id && reportsById.has(expense.report_id)) {
+      toast({ title: "Spesa già in una nota spese", description: reportsById.get(expense.report_id)?.title });
+      return;
+    }
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(expense.id)) next.delete(expense.id);
+      else next.add(expense.id);
+      return next;
+    });
+  };
+
+  const handleExpenseDelete = (id: string) => {
+    const expense = expenses.find(e => e.id === id);
+    const report = expense ? lockingReport(expense) : null;
+    if (report) {
+      toast({ title: "Spesa bloccata", description: `Fa parte della nota spese ${report.protocol_number} già inviata.`, variant: "destructive" });
+      return;
+    }
+    deleteExpense(id);
+  };
+
+  const startReportSelection = () => {
+    setShowReports(false);
+    setSelectedExpense(null);
+    setSelectedIds(new Set());
+    setReportTitle("");
+    setSelectionMode(true);
+  };
+
+  const cancelReportSelection = () => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleCreateReport = async () => {
+    setCreatingReport(true);
+    try {
+      const report = await createReport(reportTitle || defaultReportTitle(selectedExpenses), selectedExpenses);
+      haptic('success');
+      cancelReportSelection();
+      refetch();
+      if (report) {
+        setReportPanelId(report.id);
+        setShowReports(true);
+      }
+    } catch (error) {
+      console.error("Error creating report:", error);
+      toast({ title: "Nota spese non creata", description: error instanceof Error ? error.message : "Riprova.", variant: "destructive" });
+    } finally {
+      setCreatingReport(false);
+    }
+  };
+
+  const openReports = () => {
+    haptic('light');
+    setReportPanelId(null);
+    setShowReports(true);
+  };
 
   const toggleSearchBar = () => {
     haptic('light');
@@ -245,6 +401,38 @@ export function ArchiveScreen() {
           <Plus className="w-6 h-6" />
         </button>
 
+        <button 
+          onClick={() => { haptic('light'); handleSelectInvoice(); }}
+          title="Importa fattura elettronica"
+          className="w-10 h-10 rounded-xl flex items-center justify-center transition-colors hover:bg-secondary/50 text-muted-foreground"
+        >
+          <FileCode2 className="w-5 h-5" />
+        </button>
+
+        <button 
+          onClick={() => { haptic('light'); setShowMileageForm(true); }}
+          title="Rimborso chilometrico"
+          className="w-10 h-10 rounded-xl flex items-center justify-center transition-colors hover:bg-secondary/50 text-muted-foreground"
+        >
+          <Car className="w-5 h-5" />
+        </button>
+
+        <button 
+          onClick={() => { haptic('light'); setShowPerDiem(true); }}
+          title="Indennità di trasferta"
+          className="w-10 h-10 rounded-xl flex items-center justify-center transition-colors hover:bg-secondary/50 text-muted-foreground"
+        >
+          <Luggage className="w-5 h-5" />
+        </button>
+
+        <button 
+          onClick={openReports}
+          title="Note spese"
+          className={cn("w-10 h-10 rounded-xl flex items-center justify-center transition-colors hover:bg-secondary/50", selectionMode ? "bg-secondary text-primary" : "text-muted-foreground")}
+        >
+          <ClipboardList className="w-5 h-5" />
+        </button>
+
         <button 
            onClick={toggleSearchBar}
            className={cn("w-10 h-10 rounded-xl flex items-center justify-center transition-colors hover:bg-secondary/50", showSearchBar ? "bg-secondary text-primary" : "text-muted-foreground")}
@@ -289,14 +477,18 @@ export function ArchiveScreen() {
             currentDate={currentDate} 
             total={currentMonthTotal}
             onMonthChange={handleReportMonthChange}
+            budgets={budgetStatuses}
         >
           <div className="w-full bg-card/60 backdrop-blur-md p-6 rounded-3xl border border-border/30 shadow-sm text-left group hover:bg-card/80 transition-all cursor-pointer">
             <p className="text-xs font-bold text-muted-foreground uppercase tracking-wider mb-2">Saldo Mensile</p>
-            <div className="flex items-baseline text-gradient-bronze-rich">
-                <span className="text-2xl font-medium mr-1 opacity-60">€</span>
-                <span className="text-4xl font-black tracking-tighter tabular-nums">
-                  <OdometerValue value={currentMonthTotal} />
-                </span>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-baseline text-gradient-bronze-rich">
+                  <span className="text-2xl font-medium mr-1 opacity-60">€</span>
+                  <span className="text-4xl font-black tracking-tighter tabular-nums">
+                    <OdometerValue value={currentMonthTotal} />
+                  </span>
+              </div>
+              {monthBudget && <BudgetRing budget={monthBudget} />}
             </div>
             <div className="flex items-center gap-2 mt-4 text-xs font-medium text-primary">
                <LayoutDashboard className="w-4 h-4" />
@@ -333,8 +525,14 @@ export function ArchiveScreen() {
 
 
   return (
-    <div className="h-screen flex flex-col md:flex-row overflow-hidden relative font-sans bg-transparent animate-fade-in">
-      <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+    <div
+      className="h-screen flex flex-col md:flex-row overflow-hidden relative font-sans bg-transparent animate-fade-in"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <input ref={fileInputRef} type="file" accept="image/*,application/pdf" multiple onChange={handleFileChange} className="hidden" />
+      <input ref={invoiceInputRef} type="file" accept=".xml,.p7m,text/xml,application/xml,application/pkcs7-mime" onChange={handleFileChange} className="hidden" />
 
       {/* --- MOBILE COMPONENTS --- */}
       
@@ -349,16 +547,26 @@ export function ArchiveScreen() {
            <span className="text-xl font-bold text-foreground">Ciao, {userName}</span>
         </div>
 
-        <button
-          onClick={() => { haptic('light'); setSettingsOpen(true); }}
-          className="relative group transition-transform active:scale-95"
-        >
-          <div className="absolute inset-0 bg-background/50 rounded-full blur-md" />
-          <UserAvatar className="w-10 h-10 border-2 border-white/20 shadow-sm relative z-10" />
-          <div className="absolute -bottom-1 -right-1 bg-card rounded-full p-0.5 border border-border shadow-sm z-20">
-             <Menu className="w-3 h-3 text-muted-foreground" />
-          </div>
-        </button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={openReports}
+            aria-label="Note spese"
+            className="w-10 h-10 rounded-full flex items-center justify-center bg-background/20 backdrop-blur-md border border-foreground/5 shadow-sm text-muted-foreground transition-all active:scale-95"
+          >
+            <ClipboardList className="w-5 h-5" strokeWidth={2} />
+          </button>
+
+          <button
+            onClick={() => { haptic('light'); setSettingsOpen(true); }}
+            className="relative group transition-transform active:scale-95"
+          >
+            <div className="absolute inset-0 bg-background/50 rounded-full blur-md" />
+            <UserAvatar className="w-10 h-10 border-2 border-white/20 shadow-sm relative z-10" />
+            <div className="absolute -bottom-1 -right-1 bg-card rounded-full p-0.5 border border-border shadow-sm z-20">
+               <Menu className="w-3 h-3 text-muted-foreground" />
+            </div>
+          </button>
+        </div>
       </div>
 
       <header className="md:hidden fixed top-0 left-0 right-0 z-50 flex flex-col items-center pt-safe-top pointer-events-none mt-14">
@@ -449,6 +657,7 @@ export function ArchiveScreen() {
             currentDate={currentDate} 
             total={currentMonthTotal}
             onMonthChange={handleReportMonthChange}
+            budgets={budgetStatuses}
           >
             <div 
               className="flex items-baseline text-gradient-bronze-rich drop-shadow-sm scale-90 cursor-pointer hover:opacity-80 transition-opacity"
@@ -458,6 +667,7 @@ export function ArchiveScreen() {
               <span className="text-6xl font-black tracking-tighter tabular-nums text-shadow-sm">
                 <OdometerValue value={currentMonthTotal} />
               </span>
+              {monthBudget && <BudgetRing budget={monthBudget} size={40} className="ml-3 self-center" />}
             </div>
           </MonthlyReport>
 
@@ -477,6 +687,30 @@ export function ArchiveScreen() {
         >
           <Plus className="w-10 h-10 text-white drop-shadow-sm" strokeWidth={2.5} />
         </button>
+
+        <button
+          onClick={() => { haptic('light'); handleSelectInvoice(); }}
+          aria-label="Importa fattura elettronica"
+          className="absolute left-full top-1/2 -translate-y-1/2 ml-5 w-11 h-11 rounded-full bg-background/40 backdrop-blur-md border border-foreground/10 shadow-lg flex items-center justify-center text-muted-foreground transition-all active:scale-95"
+        >
+          <FileCode2 className="w-5 h-5" strokeWidth={2} />
+        </button>
+
+        <button
+          onClick={() => { haptic('light'); setShowMileageForm(true); }}
+          aria-label="Rimborso chilometrico"
+          className="absolute right-full top-1/2 -translate-y-1/2 mr-5 w-11 h-11 rounded-full bg-background/40 backdrop-blur-md border border-foreground/10 shadow-lg flex items-center justify-center text-muted-foreground transition-all active:scale-95"
+        >
+          <Car className="w-5 h-5" strokeWidth={2} />
+        </button>
+
+        <button
+          onClick={() => { haptic('light'); setShowPerDiem(true); }}
+          aria-label="Indennità di trasferta"
+          className="absolute right-full top-1/2 -translate-y-1/2 mr-[4.75rem] w-11 h-11 rounded-full bg-background/40 backdrop-blur-md border border-foreground/10 shadow-lg flex items-center justify-center text-muted-foreground transition-all active:scale-95"
+        >
+          <Luggage className="w-5 h-5" strokeWidth={2} />
+        </button>
       </div>
 
       {/* --- DESKTOP STRUCTURE --- */}
@@ -527,14 +761,17 @@ export function ArchiveScreen() {
           <VirtualizedExpenseList
             expenses={filteredExpenses}
             lastAddedId={lastAddedId}
-            onExpenseClick={setSelectedExpense}
-            onExpenseDelete={deleteExpense}
+            onExpenseClick={handleExpenseClick}
+            onExpenseDelete={handleExpenseDelete}
             onExpenseEdit={(expense) => setSelectedExpense(expense)}
             hasMore={hasMore}
             loadingMore={loadingMore}
             onLoadMore={loadMore}
             paddingClassName={isDesktop ? "h-24" : topSpacerHeight}
             columns={columns}
+            reportsById={reportsById}
+            selectionMode={selectionMode}
+            selectedIds={selectedIds}
           />
         )}
       </div>
@@ -571,12 +808,83 @@ export function ArchiveScreen() {
           onClose={() => setSelectedExpense(null)}
           onDelete={() => deleteExpense(selectedExpense.id)}
           onUpdate={refetch}
+          lockedBy={lockingReport(selectedExpense)?.protocol_number}
         />
       )}
 
       {selectedImage && (
         <ImageAnalyzer imageFile={selectedImage} onClose={() => setSelectedImage(null)} onSuccess={handleSuccess} />
       )}
+
+      {batchFiles && (
+        <BatchCapture files={batchFiles} onClose={() => setBatchFiles(null)} onSuccess={handleSuccess} />
+      )}
+
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-[90] pointer-events-none flex items-center justify-center bg-background/60 backdrop-blur-sm animate-fade-in">
+          <div className="flex flex-col items-center gap-3 px-10 py-8 rounded-3xl border-2 border-dashed border-primary/50 bg-card/80">
+            <Upload className="w-10 h-10 text-primary" />
+            <p className="text-foreground font-bold">Rilascia gli scontrini</p>
+            <p className="text-xs text-muted-foreground">Foto, PDF o fatture elettroniche</p>
+          </div>
+        </div>
+      )}
+
+      {selectedInvoice && (
+        <InvoiceImporter file={selectedInvoice} onClose={() => setSelectedInvoice(null)} onSuccess={handleSuccess} />
+      )}
+
+      {showMileageForm && (
+        <MileageExpenseForm onClose={() => setShowMileageForm(false)} onSuccess={handleSuccess} />
+      )}
+
+      {showPerDiem && (
+        <PerDiemCalculator onClose={() => setShowPerDiem(false)} onSuccess={handleSuccess} />
+      )}
+
+      {/* Composizione della nota spese: barra sopra la lista */}
+      {selectionMode && (
+        <div className={cn(
+          "fixed z-[60] bottom-6 animate-slide-up",
+          isDesktop ? "left-[calc(25%_+_80px)] right-0 flex justify-center px-8" : "left-4 right-4"
+        )}>
+          <div className="w-full max-w-xl flex flex-col gap-3 p-4 rounded-3xl bg-card/95 backdrop-blur-md border border-border/50 shadow-2xl">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-semibold text-foreground">
+                {selectedExpenses.length} spese · {formatCurrency(sumAmountsEur(selectedExpenses).total)}
+              </span>
+              <span className="text-xs text-muted-foreground">Tocca le spese da includere</span>
+            </div>
+            <Input
+              value={reportTitle}
+              onChange={e => setReportTitle(e.target.value)}
+              placeholder={defaultReportTitle(selectedExpenses)}
+              className="rounded-2xl h-11 bg-secondary/30 border-transparent"
+            />
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={cancelReportSelection} className="flex-1 rounded-full h-12">
+                Annulla
+              </Button>
+              <Button
+                onClick={handleCreateReport}
+                disabled={creatingReport || selectedExpenses.length === 0}
+                className="flex-1 rounded-full h-12 bg-primary text-primary-foreground font-bold"
+              >
+                {creatingReport ? <Loader2 className="w-5 h-5 animate-spin" /> : "Crea nota spese"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showReports && (
+        <ExpenseReportsPanel
+          initialReportId={reportPanelId}
+          onClose={() => { setShowReports(false); refetchReports(); }}
+          onCreateNew={startReportSelection}
+          onChanged={() => { refetchReports(); refetch(); }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
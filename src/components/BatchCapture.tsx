@@ -0,0 +1,569 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from "@/components/ui/carousel";
+import { X, Loader2, Check, AlertTriangle, Copy, SkipForward, Undo2, Send } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useExpenses } from "@/hooks/useExpenses";
+import { useBudgetAlerts } from "@/hooks/useBudgetAlerts";
+import { useToast } from "@/hooks/use-toast";
+import { CategoryPicker } from "./CategoryPicker";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { computeImageHash } from "@/lib/imageHash";
+import { DUPLICATE_REASON_LABELS, findDuplicates, type DuplicateMatch } from "@/lib/duplicates";
+import { FAILED_ANALYSIS_CONFIDENCE, fieldsToReview, type AnalyzedField, type FieldConfidenceMap } from "@/lib/confidence";
+import {
+  analysisErrorMessage,
+  analyzeReceiptPages,
+  emailErrorDescription,
+  sendExpenseEmail,
+  emptyReceiptDraft,
+  prepareReceipt,
+  skippedPageCount,
+  uploadReceiptFiles,
+  type ReceiptDraft,
+  type UploadedReceipt,
+} from "@/lib/receipts";
+import { formatCurrency } from "@/lib/currency";
+import { isValidPartitaIva } from "@/lib/vat";
+import { captureDateOf, readPhotoMetadata } from "@/lib/exif";
+import { resolveReceiptLocation, type ReceiptLocation } from "@/lib/location";
+import { cn } from "@/lib/utils";
+
+// Analisi contemporanee: oltre, il provider IA inizia a rispondere 429
+const ANALYSIS_CONCURRENCY = 3;
+
+type EntryStatus = "queued" | "analyzing" | "ready" | "failed" | "saving" | "saved" | "skipped";
+
+interface BatchEntry {
+  id: string;
+  file: File;
+  status: EntryStatus;
+  pages: string[];
+  pageCount: number; // pagine totali del documento (solo PDF)
+  imageHash: string | null;
+  draft: ReceiptDraft;
+  totalString: string;
+  confidence: FieldConfidenceMap;
+  confirmedFields: AnalyzedField[]; // campi incerti confermati o corretti a mano
+  duplicates: DuplicateMatch[];
+  duplicatesChecked: boolean;
+  location: ReceiptLocation | null;
+  savedId?: string;
+  uploaded?: UploadedReceipt;
+  errorMessage?: string;
+}
+
+interface BatchCaptureProps {
+  files: File[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const formatTotal = (total: number) =>
+  total ? total.toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "";
+
+const parseTotal = (value: string) => parseFloat(value.replace(/\./g, '').replace(',', '.')) || 0;
+
+export function BatchCapture({ files, onClose, onSuccess }: BatchCaptureProps) {
+  const { session } = useAuth();
+  const { profile } = useProfile();
+  const { addExpense, fetchDuplicateCandidates } = useExpenses();
+  const { warnIfOverBudget } = useBudgetAlerts();
+  const { toast } = useToast();
+
+  const [entries, setEntries] = useState<BatchEntry[]>(() =>
+    files.map((file, index) => ({
+      id: `${index}-${file.name}`,
+      file,
+      status: "queued",
+      pages: [],
+      pageCount: 0,
+      imageHash: null,
+      draft: emptyReceiptDraft(),
+      totalString: "",
+      confidence: {},
+      confirmedFields: [],
+      duplicates: [],
+      duplicatesChecked: false,
+      location: null,
+    }))
+  );
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const [sending, setSending] = useState(false);
+  const cancelledRef = useRef(false);
+
+  const recipientEmails = profile?.default_emails?.length
+    ? profile.default_emails
+    : ["wdellavedova@j-invest.eu"];
+
+  const updateEntry = (id: string, patch: Partial<BatchEntry>) => {
+    if (cancelledRef.current) return;
+    setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+  };
+
+  // CODA DI ANALISI con concorrenza limitata
+  useEffect(() => {
+    cancelledRef.current = false;
+    const queue = entries.map(entry => ({ id: entry.id, file: entry.file }));
+
+    mapWithConcurrency(queue, ANALYSIS_CONCURRENCY, async ({ id, file }) => {
+      if (cancelledRef.current) return;
+      updateEntry(id, { status: "analyzing" });
+
+      // La posizione arriva quando arriva: non rallenta la coda
+      resolveReceiptLocation(file).then(location => updateEntry(id, { location }));
+
+      let pages: string[] = [];
+      try {
+        const [prepared, metadata] = await Promise.all([prepareReceipt(file), readPhotoMetadata(file)]);
+        pages = prepared.pages;
+        const imageHash = await computeImageHash(pages[0]).catch(() => null);
+        updateEntry(id, { pages, pageCount: prepared.pageCount, imageHash });
+
+        const analysis = await analyzeReceiptPages(pages, session?.access_token, {
+          fallbackDate: captureDateOf(metadata),
+        });
+        updateEntry(id, {
+          status: "ready",
+          draft: analysis.draft,
+          totalString: formatTotal(analysis.draft.total),
+          confidence: analysis.confidence,
+        });
+      } catch (error) {
+        console.error(`Batch analysis error (${file.name}):`, error);
+        // Resta revisionabile a mano, con tutti i campi da confermare
+        updateEntry(id, {
+          status: "failed",
+          pages,
+          confidence: FAILED_ANALYSIS_CONFIDENCE,
+          errorMessage: analysisErrorMessage(error).title
+        });
+      }
+    });
+
+    return () => {
+      cancelledRef.current = true;
+    };
+    // La coda parte una sola volta per i file ricevuti
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [files]);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  const analyzedCount = entries.filter(e => !["queued", "analyzing"].includes(e.status)).length;
+  const savedEntries = entries.filter(e => e.status === "saved");
+  const reviewedCount = entries.filter(e => e.status === "saved" || e.status === "skipped").length;
+  const allReviewed = reviewedCount === entries.length;
+
+  const goToNextPending = (fromIndex: number) => {
+    const next = entries.findIndex((e, i) => i > fromIndex && !["saved", "skipped"].includes(e.status));
+    if (next !== -1) api?.scrollTo(next);
+  };
+
+  const pendingFieldsOf = (entry: BatchEntry) =>
+    fieldsToReview(entry.confidence).filter(field => !entry.confirmedFields.includes(field));
+
+  const confirmedWith = (entry: BatchEntry, field: AnalyzedField) =>
+    entry.confirmedFields.includes(field) ? entry.confirmedFields : [...entry.confirmedFields, field];
+
+  // Modificare un campo vale come conferma
+  const editDraft = (entry: BatchEntry, field: AnalyzedField, patch: Partial<ReceiptDraft>) => {
+    updateEntry(entry.id, { draft: { ...entry.draft, ...patch }, confirmedFields: confirmedWith(entry, field) });
+  };
+
+  async function handleConfirm(entry: BatchEntry, index: number) {
+    if (!session || pendingFieldsOf(entry).length > 0) return;
+    const total = parseTotal(entry.totalString);
+
+    updateEntry(entry.id, { status: "saving" });
+    try {
+      // CONTROLLO DUPLICATI: comprende anche gli scontrini già confermati in questa sessione
+      if (!entry.duplicatesChecked) {
+        try {
+          const candidates = await fetchDuplicateCandidates(entry.draft.expense_date);
+          const matches = findDuplicates({
+            merchant: entry.draft.merchant,
+            date: entry.draft.expense_date,
+            amount: total,
+            image_hash: entry.imageHash
+          }, candidates);
+          if (matches.length > 0) {
+            updateEntry(entry.id, {
+              status: entry.status,
+              duplicates: matches,
+              duplicatesChecked: true
+            });
+            return;
+          }
+        } catch (error) {
+          console.warn("Duplicate check error:", error);
+        }
+      }
+
+      const prepared = entry.pages.length > 0 ? entry : await prepareReceipt(entry.file);
+      const pages = prepared.pages;
+      const uploaded = await uploadReceiptFiles(session.user.id, entry.file, pages[0]);
+      const items = entry.draft.items.filter(item => item.name.trim().length > 0);
+      const currency = entry.draft.currency.length === 3 ? entry.draft.currency : "EUR";
+
+      // L'eventuale email parte una sola volta, a fine revisione
+      const saved = await addExpense({
+        merchant: entry.draft.merchant,
+        date: entry.draft.expense_date,
+        amount: total,
+        currency,
+        category: entry.draft.category,
+        vat_number: entry.draft.vat_number,
+        address: entry.draft.address,
+        items,
+        image_url: uploaded.imageUrl,
+        image_hash: entry.imageHash,
+        document_url: uploaded.documentUrl,
+        skipped_pages: skippedPageCount(prepared),
+        latitude: entry.location?.latitude ?? null,
+        longitude: entry.location?.longitude ?? null,
+        location_source: entry.location?.location_source ?? null,
+        captured_at: entry.location?.captured_at ?? null,
+      });
+      if (saved) warnIfOverBudget(saved);
+
+      updateEntry(entry.id, {
+        status: "saved",
+        pages,
+        pageCount: prepared.pageCount,
+        uploaded,
+        savedId: saved?.id,
+        draft: { ...entry.draft, total, currency, items },
+      });
+      goToNextPending(index);
+    } catch (error) {
+      console.error("Batch save error:", error);
+      updateEntry(entry.id, { status: entry.status });
+      toast({ title: "Errore salvataggio", description: "Riprova.", variant: "destructive" });
+    }
+  }
+
+  const handleSkip = (entry: BatchEntry, index: number) => {
+    updateEntry(entry.id, { status: "skipped" });
+    goToNextPending(index);
+  };
+
+  async function handleSendSummary() {
+    if (!session || savedEntries.length === 0) return;
+
+    setSending(true);
+    try {
+      const batch = savedEntries.map(entry => ({
+        expense: { ...entry.draft, date: entry.draft.expense_date },
+        imageBase64: entry.pages[0],
+        documentBase64: entry.uploaded?.documentBase64,
+      }));
+
+      await sendExpenseEmail({ to: recipientEmails, batch }, session.access_token);
+
+      const ids = savedEntries.map(entry => entry.savedId).filter((id): id is string => !!id);
+      const { error } = await supabase
+        .from("expenses")
+        .update({ sent_to_email: recipientEmails.join(", "), sent_at: new Date().toISOString() })
+        .in("id", ids);
+      if (error) console.warn("sent_at update failed", error);
+
+      onSuccess();
+    } catch (error) {
+      console.error("Batch email error:", error);
+      toast({ title: "Errore invio", description: emailErrorDescription(error, "Le spese sono salvate: riprova l'invio."), variant: "destructive" });
+    } finally {
+      setSending(false);
+    }
+  }
+
+  // Riepilogo via email solo se il profilo lo richiede: di norma le spese partono con la nota spese
+  const emailSummary = !!profile?.email_each_expense;
+  const handleFinish = () => (emailSummary ? handleSendSummary() : onSuccess());
+
+  // Chiudendo senza inviare, le spese già confermate restano salvate
+  const handleClose = () => (savedEntries.length > 0 ? onSuccess() : onClose());
+
+  const isPending = (entry: BatchEntry, field: AnalyzedField) =>
+    !["saved", "skipped"].includes(entry.status) && pendingFieldsOf(entry).includes(field);
+
+  const fieldClass = (entry: BatchEntry, field: AnalyzedField) =>
+    isPending(entry, field) ? "ring-2 ring-amber-500/60 bg-amber-500/5" : "";
+
+  const reviewLabel = (entry: BatchEntry, field: AnalyzedField, text: string) => (
+    <div className="flex items-center justify-between gap-2 min-h-[1.25rem]">
+      <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">{text}</Label>
+      {isPending(entry, field) && (
+        <button
+          type="button"
+          onClick={() => updateEntry(entry.id, { confirmedFields: confirmedWith(entry, field) })}
+          title={entry.confidence[field]?.defaulted ? "Valore non letto dal documento" : "Lettura incerta"}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-500/15 text-amber-600 text-[10px] font-bold uppercase tracking-wider hover:bg-amber-500/25 transition-colors"
+        >
+          <Check className="w-3 h-3" strokeWidth={3} />
+          Conferma
+        </button>
+      )}
+    </div>
+  );
+
+  const inputClass = "rounded-2xl h-12 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm appearance-none";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-md" onClick={handleClose} />
+
+      <div className="relative w-full max-w-md max-h-[90vh] bg-card text-card-foreground rounded-3xl shadow-2xl overflow-hidden animate-scale-in flex flex-col">
+        {/* Header */}
+        <header className="px-6 py-4 border-b border-border/50 shrink-0 bg-card/80 backdrop-blur-md z-10 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-bold text-foreground">Acquisizione multipla</h2>
+              <p className="text-xs text-muted-foreground">
+                Scontrino {current + 1} di {entries.length} · {reviewedCount} revisionati
+              </p>
+            </div>
+            <button onClick={handleClose} className="p-2 rounded-full hover:bg-secondary transition-colors"><X className="w-5 h-5 text-muted-foreground" /></button>
+          </div>
+          <Progress value={(analyzedCount / entries.length) * 100} className="h-1.5" />
+        </header>
+
+        {/* Review carousel */}
+        <div className="flex-1 overflow-y-auto overflow-x-hidden p-4 scrollbar-hide">
+          <Carousel setApi={setApi} opts={{ watchDrag: false }}>
+            <CarouselContent>
+              {entries.map((entry, index) => {
+                const busy = entry.status === "queued" || entry.status === "analyzing" || entry.status === "saving";
+                const locked = entry.status === "saved" || entry.status === "skipped";
+                return (
+                  <CarouselItem key={entry.id}>
+                    <div className="flex flex-col gap-4">
+                      <div className="relative aspect-video rounded-2xl overflow-hidden bg-secondary/30 border border-border/50">
+                        {entry.pages[0] && <img src={entry.pages[0]} alt={entry.file.name} className="w-full h-full object-contain" />}
+                        {(entry.status === "queued" || entry.status === "analyzing") && (
+                          <div className="absolute inset-0 bg-background/50 flex items-center justify-center backdrop-blur-sm">
+                            <div className="text-center">
+                              <Loader2 className="w-8 h-8 animate-spin mx-auto mb-2 text-primary" />
+                              <p className="text-sm font-medium">{entry.status === "queued" ? "In coda..." : "Analisi IA in corso..."}</p>
+                            </div>
+                          </div>
+                        )}
+                        {entry.status === "saved" && (
+                          <div className="absolute inset-0 bg-success/20 flex items-center justify-center backdrop-blur-sm">
+                            <Check className="w-14 h-14 text-success animate-scale-in" />
+                          </div>
+                        )}
+                        {entry.status === "skipped" && (
+                          <div className="absolute inset-0 bg-background/60 flex items-center justify-center backdrop-blur-sm">
+                            <p className="text-sm font-bold uppercase tracking-wider text-muted-foreground">Saltato</p>
+                          </div>
+                        )}
+                      </div>
+
+                      {entry.status === "failed" && (
+                        <p className="flex items-center gap-2 text-xs font-medium text-amber-600">
+                          <AlertTriangle className="w-4 h-4 shrink-0" />
+                          {entry.errorMessage || "Analisi non riuscita"}: compila i dati a mano.
+                        </p>
+                      )}
+
+                      {skippedPageCount(entry) > 0 && (
+                        <p className="flex items-center gap-2 text-xs font-medium text-amber-600">
+                          <AlertTriangle className="w-4 h-4 shrink-0" />
+                          Analizzate le prime {entry.pages.length} pagine di {entry.pageCount}: controlla i dati sul PDF originale.
+                        </p>
+                      )}
+
+                      {!["queued", "analyzing"].includes(entry.status) && (
+                        <fieldset disabled={locked || busy} className="flex flex-col gap-3">
+                          <div className="space-y-1.5">
+                            {reviewLabel(entry, "description", "Esercente")}
+                            <Input
+                              value={entry.draft.merchant}
+                              onChange={(e) => editDraft(entry, "description", { merchant: e.target.value })}
+                              className={cn(inputClass, fieldClass(entry, "description"))}
+                              placeholder="Nome Esercente"
+                            />
+                          </div>
+                          <div className="flex gap-3">
+                            <div className="space-y-1.5 flex-1 min-w-0">
+                              {reviewLabel(entry, "date", "Data")}
+                              <Input
+                                type="date"
+                                value={entry.draft.expense_date}
+                                onChange={(e) => editDraft(entry, "date", { expense_date: e.target.value })}
+                                className={cn(inputClass, "min-w-0", fieldClass(entry, "date"))}
+                              />
+                            </div>
+                            <div className="space-y-1.5 flex-1 min-w-0">
+                              {reviewLabel(entry, "amount", "Totale")}
+                              <Input
+                                inputMode="decimal"
+                                placeholder="0,00"
+                                value={entry.totalString}
+                                onChange={(e) => /^[0-9.,]*$/.test(e.target.value) && updateEntry(entry.id, { totalString: e.target.value, confirmedFields: confirmedWith(entry, "amount") })}
+                                className={cn(inputClass, "font-bold text-right min-w-0", fieldClass(entry, "amount"))}
+                              />
+                            </div>
+                            <div className="space-y-1.5 flex-none w-20">
+                              {reviewLabel(entry, "currency", "Valuta")}
+                              <Input
+                                value={entry.draft.currency}
+                                onChange={(e) => editDraft(entry, "currency", { currency: e.target.value.toUpperCase().replace(/[^A-Z]/g, "").slice(0, 3) })}
+                                className={cn(inputClass, "font-mono uppercase text-center px-2", fieldClass(entry, "currency"))}
+                                placeholder="EUR"
+                              />
+                            </div>
+                          </div>
+                          <div className="space-y-1.5">
+                            {reviewLabel(entry, "category", "Categoria")}
+                            <CategoryPicker
+                              value={entry.draft.category}
+                              onChange={(category) => editDraft(entry, "category", { category })}
+                              className={cn(inputClass, fieldClass(entry, "category"))}
+                            />
+                          </div>
+                          <div className="space-y-1.5">
+                            {reviewLabel(entry, "vat_number", "Partita IVA")}
+                            <Input
+                              value={entry.draft.vat_number || ""}
+                              onChange={(e) => editDraft(entry, "vat_number", { vat_number: e.target.value })}
+                              inputMode="numeric"
+                              className={cn(inputClass, "font-mono", fieldClass(entry, "vat_number"))}
+                              placeholder="01234567890"
+                            />
+                            {entry.draft.vat_number && !isValidPartitaIva(entry.draft.vat_number) && (
+                              <p className="text-xs text-destructive ml-1">Partita IVA non valida</p>
+                            )}
+                          </div>
+                          <div className="space-y-1.5">
+                            {reviewLabel(entry, "address", "Indirizzo")}
+                            <Input
+                              value={entry.draft.address || ""}
+                              onChange={(e) => editDraft(entry, "address", { address: e.target.value })}
+                              className={cn(inputClass, fieldClass(entry, "address"))}
+                              placeholder="Via, CAP, Città"
+                            />
+                          </div>
+                        </fieldset>
+                      )}
+
+                      {entry.duplicates.length > 0 && !locked && (
+                        <div className="rounded-2xl border border-amber-500/30 bg-amber-500/10 p-3 space-y-1">
+                          <p className="flex items-center gap-2 text-xs font-bold text-amber-600">
+                            <Copy className="w-4 h-4 shrink-0" />
+                            Possibile duplicato di {entry.duplicates[0].expense.merchant || "una spesa"} ({formatCurrency(entry.duplicates[0].expense.amount, entry.duplicates[0].expense.currency)})
+                          </p>
+                          <p className="text-[11px] text-muted-foreground">
+                            {entry.duplicates[0].reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(", ")}
+                          </p>
+                        </div>
+                      )}
+
+                      {!locked && pendingFieldsOf(entry).length > 0 && (
+                        <p className="flex items-center justify-center gap-2 text-xs font-medium text-amber-600">
+                          <AlertTriangle className="w-4 h-4 shrink-0" />
+                          {pendingFieldsOf(entry).length === 1
+                            ? "Conferma o correggi il campo evidenziato"
+                            : `Conferma o correggi i ${pendingFieldsOf(entry).length} campi evidenziati`}
+                        </p>
+                      )}
+
+                      {!["queued", "analyzing"].includes(entry.status) && (
+                        <div className="flex gap-3">
+                          {entry.status === "skipped" ? (
+                            <Button variant="outline" onClick={() => updateEntry(entry.id, { status: "ready" })} className="flex-1 rounded-full h-12">
+                              <Undo2 className="w-4 h-4 mr-2" />
+                              Ripristina
+                            </Button>
+                          ) : entry.status !== "saved" && (
+                            <>
+                              <Button variant="outline" onClick={() => handleSkip(entry, index)} disabled={busy} className="flex-1 rounded-full h-12">
+                                <SkipForward className="w-4 h-4 mr-2" />
+                                Salta
+                              </Button>
+                              <Button onClick={() => handleConfirm(entry, index)} disabled={busy || pendingFieldsOf(entry).length > 0} className="flex-1 rounded-full h-12 font-bold">
+                                {entry.status === "saving" ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : entry.duplicates.length > 0 ? "Salva comunque" : "Conferma"}
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </CarouselItem>
+                );
+              })}
+            </CarouselContent>
+          </Carousel>
+
+          {/* Miniature per saltare tra gli scontrini */}
+          <div className="flex gap-2 overflow-x-auto scrollbar-hide mt-4">
+            {entries.map((entry, index) => (
+              <button
+                key={entry.id}
+                onClick={() => api?.scrollTo(index)}
+                className={cn(
+                  "relative w-12 h-12 shrink-0 rounded-lg overflow-hidden border-2 bg-secondary/30 transition-colors",
+                  current === index ? "border-primary" : "border-transparent"
+                )}
+              >
+                {entry.pages[0] && <img src={entry.pages[0]} alt="" className="w-full h-full object-cover" />}
+                {entry.status === "saved" && (
+                  <span className="absolute inset-0 bg-success/40 flex items-center justify-center"><Check className="w-4 h-4 text-white" strokeWidth={3} /></span>
+                )}
+                {entry.status === "skipped" && <span className="absolute inset-0 bg-background/70" />}
+                {(entry.status === "queued" || entry.status === "analyzing") && (
+                  <span className="absolute inset-0 flex items-center justify-center"><Loader2 className="w-4 h-4 animate-spin text-muted-foreground" /></span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer - Fixed */}
+        <div className="p-5 border-t border-border/50 bg-card/80 backdrop-blur-md shrink-0 z-10">
+          <Button
+            onClick={handleFinish}
+            disabled={!allReviewed || savedEntries.length === 0 || sending}
+            className="w-full h-14 rounded-full font-bold text-base bg-primary text-primary-foreground hover:opacity-90 shadow-lg active:scale-95 transition-all"
+          >
+            {sending ? (
+              <>
+                <Loader2 className="animate-spin mr-2" />
+                Invio in corso...
+              </>
+            ) : allReviewed && emailSummary ? (
+              <>
+                <Send className="w-4 h-4 mr-2" />
+                Invia riepilogo ({savedEntries.length})
+              </>
+            ) : allReviewed ? (
+              <>
+                <Check className="w-4 h-4 mr-2" />
+                Fine ({savedEntries.length} salvate)
+              </>
+            ) : (
+              `Da revisionare: ${entries.length - reviewedCount}`
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
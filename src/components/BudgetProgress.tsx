@@ -0,0 +1,39 @@
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/currency";
+import { BUDGET_PERIOD_LABELS, budgetLevel, type BudgetLevel, type BudgetStatus } from "@/lib/budgets";
+
+const LEVEL_STYLES: Record<BudgetLevel, { bar: string; text: string }> = {
+  ok: { bar: "[&>div]:bg-emerald-500", text: "text-emerald-600" },
+  warning: { bar: "[&>div]:bg-amber-500", text: "text-amber-600" },
+  exceeded: { bar: "[&>div]:bg-red-500", text: "text-red-600" },
+};
+
+interface BudgetProgressProps {
+  budget: BudgetStatus;
+  label: string;
+  className?: string;
+}
+
+export function BudgetProgress({ budget, label, className }: BudgetProgressProps) {
+  const level = budgetLevel(budget.ratio);
+  const styles = LEVEL_STYLES[level];
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-baseline justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-semibold text-foreground truncate">{label}</p>
+          <p className="text-xs text-muted-foreground">{BUDGET_PERIOD_LABELS[budget.period]}</p>
+        </div>
+        <div className="text-right shrink-0">
+          <p className={cn("font-mono text-sm font-medium", styles.text)}>{Math.round(budget.ratio * 100)}%</p>
+          <p className="text-xs text-muted-foreground tabular-nums">
+            {formatCurrency(budget.spent)} / {formatCurrency(budget.amount)}
+          </p>
+        </div>
+      </div>
+      <Progress value={Math.min(budget.ratio, 1) * 100} className={cn("h-2", styles.bar)} />
+    </div>
+  );
+}
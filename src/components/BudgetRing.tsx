@@ -0,0 +1,49 @@
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/currency";
+import { budgetLevel, type BudgetLevel, type BudgetStatus } from "@/lib/budgets";
+
+const LEVEL_STROKES: Record<BudgetLevel, string> = {
+  ok: "stroke-emerald-500",
+  warning: "stroke-amber-500",
+  exceeded: "stroke-red-500",
+};
+
+interface BudgetRingProps {
+  budget: BudgetStatus;
+  size?: number;
+  className?: string;
+}
+
+// Anello di avanzamento del budget mensile, da affiancare al saldo del mese
+export function BudgetRing({ budget, size = 44, className }: BudgetRingProps) {
+  const stroke = 4;
+  const radius = (size - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const progress = Math.min(budget.ratio, 1);
+  const percent = Math.round(budget.ratio * 100);
+
+  return (
+    <div
+      className={cn("relative inline-flex items-center justify-center shrink-0", className)}
+      style={{ width: size, height: size }}
+      title={`Budget: ${formatCurrency(budget.spent)} su ${formatCurrency(budget.amount)}`}
+      aria-label={`Budget al ${percent}%`}
+    >
+      <svg width={size} height={size} className="-rotate-90">
+        <circle cx={size / 2} cy={size / 2} r={radius} fill="none" strokeWidth={stroke} className="stroke-muted" />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={stroke}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - progress)}
+          className={cn("transition-all duration-700", LEVEL_STROKES[budgetLevel(budget.ratio)])}
+        />
+      </svg>
+      <span className="absolute text-[10px] font-bold tabular-nums text-foreground">{percent}%</span>
+    </div>
+  );
+}
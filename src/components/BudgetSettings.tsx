@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, X } from "lucide-react";
+import { useBudgets } from "@/hooks/useBudgets";
+import { useCategories } from "@/hooks/useCategories";
+import { useProjects } from "@/hooks/useProjects";
+import { useOrganizations } from "@/hooks/useOrganizations";
+import { useToast } from "@/hooks/use-toast";
+import { BudgetProgress } from "./BudgetProgress";
+import { BUDGET_PERIOD_LABELS, BudgetError, budgetLabel, type BudgetPeriod } from "@/lib/budgets";
+import { canManageMembers } from "@/lib/organizations";
+import { parseDecimal } from "@/lib/mileage";
+import { projectLabel } from "@/lib/projects";
+import { cn } from "@/lib/utils";
+
+// Ambito del budget nella Select: tutte le spese, "category:<nome>" o "project:<id>"
+const ALL = "all";
+const PERSONAL = "personal";
+
+const inputClassName = "bg-secondary/50 border-0 rounded-xl h-12 px-4 text-foreground placeholder:text-muted-foreground focus-visible:ring-1 focus-visible:ring-primary";
+
+export function BudgetSettings() {
+  const { budgets, statuses, loading, addBudget, deleteBudget } = useBudgets();
+  const { categories } = useCategories();
+  const { projects, activeProjects } = useProjects();
+  const { currentOrganization, currentRole } = useOrganizations();
+  const { toast } = useToast();
+
+  const [scope, setScope] = useState(ALL);
+  const [period, setPeriod] = useState<BudgetPeriod>("monthly");
+  const [amount, setAmount] = useState("");
+  const [owner, setOwner] = useState(PERSONAL);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const isAdmin = canManageMembers(currentRole);
+  const statusById = new Map(statuses.map(s => [s.id, s]));
+
+  const handleAdd = async () => {
+    setSaving("add");
+    try {
+      await addBudget({
+        period,
+        category: scope.startsWith("category:") ? scope.slice("category:".length) : null,
+        project_id: scope.startsWith("project:") ? scope.slice("project:".length) : null,
+        amount: parseDecimal(amount) ?? 0,
+        organization_id: owner === PERSONAL ? null : owner,
+      });
+      setAmount("");
+      setScope(ALL);
+    } catch (error) {
+      console.error("Budget settings error:", error);
+      toast({
+        title: "Errore",
+        description: error instanceof BudgetError ? error.message : "Impossibile aggiungere il budget (ne esiste già uno per questo ambito?)",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setSaving(id);
+    try {
+      await deleteBudget(id);
+    } catch (error) {
+      console.error("Budget settings error:", error);
+      toast({ title: "Errore", description: "Impossibile eliminare il budget", variant: "destructive" });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-10">
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Budget attivi</h3>
+        {budgets.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nessun budget</p>
+        ) : (
+          <div className="bg-card rounded-2xl card-shadow divide-y divide-border/50">
+            {budgets.map(budget => {
+              const status = statusById.get(budget.id);
+              const canDelete = budget.organization_id ? isAdmin && budget.organization_id === currentOrganization?.id : true;
+              const label = budgetLabel(budget, projects) + (budget.organization_id ? " · Organizzazione" : "");
+              return (
+                <div key={budget.id} className="flex items-center gap-3 px-4 py-3">
+                  {status ? (
+                    <BudgetProgress budget={status} label={label} className="flex-1 min-w-0" />
+                  ) : (
+                    <p className="flex-1 text-sm font-medium text-foreground truncate">{label}</p>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={() => handleDelete(budget.id)}
+                      disabled={saving === budget.id}
+                      className="w-8 h-8 rounded-full bg-red-500/10 text-red-500 flex items-center justify-center hover:bg-red-500 hover:text-white transition-colors shrink-0"
+                      title="Elimina"
+                    >
+                      <X className="w-4 h-4" strokeWidth={2.5} />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Un avviso compare quando una nuova spesa porta un budget oltre l'80% e quando lo supera.
+          I budget dell'organizzazione contano le spese di tutti i membri.
+        </p>
+      </section>
+
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Nuovo budget</h3>
+        <div className="bg-card rounded-2xl p-4 card-shadow space-y-4">
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className={cn(inputClassName, "text-left")}>
+              <SelectValue />
+            </SelectTrigger>
+            {/* z-index sopra i modali (z-[100]) */}
+            <SelectContent className="z-[200] rounded-2xl">
+              <SelectItem value={ALL}>Tutte le spese</SelectItem>
+              {categories.map(category => (
+                <SelectItem key={category.name} value={`category:${category.name}`}>{category.name}</SelectItem>
+              ))}
+              {activeProjects.map(project => (
+                <SelectItem key={project.id} value={`project:${project.id}`}>{projectLabel(project)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Select value={period} onValueChange={value => setPeriod(value as BudgetPeriod)}>
+              <SelectTrigger className={cn(inputClassName, "w-36 text-left")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[200] rounded-2xl">
+                {(Object.keys(BUDGET_PERIOD_LABELS) as BudgetPeriod[]).map(key => (
+                  <SelectItem key={key} value={key}>{BUDGET_PERIOD_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Importo €"
+              inputMode="decimal"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              className={cn(inputClassName, "flex-1 font-mono")}
+            />
+          </div>
+          {isAdmin && currentOrganization && (
+            <Select value={owner} onValueChange={setOwner}>
+              <SelectTrigger className={cn(inputClassName, "text-left")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[200] rounded-2xl">
+                <SelectItem value={PERSONAL}>Solo le mie spese</SelectItem>
+                <SelectItem value={currentOrganization.id}>Tutta l'organizzazione ({currentOrganization.name})</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            onClick={handleAdd}
+            disabled={saving === "add" || !amount.trim()}
+            className="w-full h-12 rounded-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium"
+          >
+            {saving === "add" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Aggiungi budget"}
+          </Button>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import { CATEGORY_ICONS, findCategory, groupCategories } from "@/lib/categories";
+import { Receipt } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface CategoryPickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+export function CategoryPicker({ value, onChange, className }: CategoryPickerProps) {
+  const { categories } = useCategories();
+  const groups = groupCategories(categories);
+
+  // Categoria salvata in passato ma non più presente nella tassonomia
+  const isUnknown = !!value && !findCategory(categories, value);
+
+  return (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger className={cn("text-left", className)}>
+        <SelectValue placeholder="Seleziona categoria" />
+      </SelectTrigger>
+      {/* z-index sopra i modali (z-[100]) */}
+      <SelectContent className="z-[200] max-h-[50vh] rounded-2xl">
+        {isUnknown && (
+          <SelectItem value={value}>{value}</SelectItem>
+        )}
+        {groups.map(({ group, categories: groupItems }) => (
+          <SelectGroup key={group}>
+            <SelectLabel className="text-[10px] uppercase tracking-wider text-muted-foreground">{group}</SelectLabel>
+            {groupItems.map(category => {
+              const Icon = CATEGORY_ICONS[category.icon] || Receipt;
+              return (
+                <SelectItem key={category.id} value={category.name}>
+                  <span className="flex items-center gap-2">
+                    <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: category.color }} />
+                    <Icon className="w-4 h-4 text-muted-foreground" strokeWidth={1.5} />
+                    {category.name}
+                  </span>
+                </SelectItem>
+              );
+            })}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
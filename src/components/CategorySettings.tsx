@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Lock, Receipt, X } from "lucide-react";
+import { useCategories } from "@/hooks/useCategories";
+import { useToast } from "@/hooks/use-toast";
+import { CATEGORY_ICONS, groupCategories } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+
+export function CategorySettings() {
+  const { categories, loading, addCategory, deleteCategory } = useCategories();
+  const { toast } = useToast();
+
+  const [name, setName] = useState("");
+  const [group, setGroup] = useState("");
+  const [color, setColor] = useState("#0ea5e9");
+  const [icon, setIcon] = useState("receipt");
+  const [saving, setSaving] = useState(false);
+
+  const groups = groupCategories(categories);
+
+  const handleAdd = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      await addCategory({
+        name: name.trim(),
+        parent_group: group.trim() || "Altro",
+        color,
+        icon,
+      });
+      setName("");
+      toast({ title: "Categoria aggiunta", description: name.trim() });
+    } catch (error) {
+      console.error("Add category error:", error);
+      toast({ title: "Errore", description: "Impossibile aggiungere la categoria", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteCategory(id);
+    } catch (error) {
+      console.error("Delete category error:", error);
+      toast({ title: "Errore", description: "Impossibile eliminare la categoria", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-8 pb-10">
+      {/* New Category */}
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          Nuova Categoria
+        </h3>
+        <div className="bg-card rounded-2xl p-4 card-shadow space-y-4">
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={color}
+              onChange={e => setColor(e.target.value)}
+              className="w-12 h-12 rounded-xl border-0 bg-transparent cursor-pointer shrink-0"
+              aria-label="Colore"
+            />
+            <Input
+              placeholder="Nome categoria"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="flex-1 bg-secondary/50 border-0 rounded-xl h-12 px-4 text-foreground placeholder:text-muted-foreground focus-visible:ring-1 focus-visible:ring-primary"
+            />
+          </div>
+          <Input
+            placeholder="Gruppo (es. Vitto, Trasporti)"
+            value={group}
+            onChange={e => setGroup(e.target.value)}
+            list="category-groups"
+            className="bg-secondary/50 border-0 rounded-xl h-12 px-4 text-foreground placeholder:text-muted-foreground focus-visible:ring-1 focus-visible:ring-primary"
+          />
+          <datalist id="category-groups">
+            {groups.map(g => <option key={g.group} value={g.group} />)}
+          </datalist>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+              <button
+                key={key}
+                onClick={() => setIcon(key)}
+                className={cn(
+                  "w-10 h-10 rounded-xl flex items-center justify-center transition-colors",
+                  icon === key ? "bg-primary text-primary-foreground" : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
+                )}
+                aria-label={key}
+              >
+                <Icon className="w-4 h-4" strokeWidth={1.5} />
+              </button>
+            ))}
+          </div>
+          <Button
+            onClick={handleAdd}
+            disabled={saving || !name.trim()}
+            className="w-full h-12 rounded-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Aggiungi"}
+          </Button>
+        </div>
+      </section>
+
+      {/* Taxonomy */}
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        groups.map(({ group: groupName, categories: groupItems }) => (
+          <section key={groupName} className="space-y-3">
+            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              {groupName}
+            </h3>
+            <div className="bg-card rounded-2xl card-shadow divide-y divide-border/50">
+              {groupItems.map(category => {
+                const Icon = CATEGORY_ICONS[category.icon] || Receipt;
+                return (
+                  <div key={category.id} className="flex items-center gap-3 px-4 py-3">
+                    <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: category.color }} />
+                    <Icon className="w-4 h-4 text-muted-foreground shrink-0" strokeWidth={1.5} />
+                    <span className="text-sm font-medium text-foreground flex-1 truncate">{category.name}</span>
+                    {category.user_id ? (
+                      <button
+                        onClick={() => handleDelete(category.id)}
+                        className="w-8 h-8 rounded-full bg-red-500/10 text-red-500 flex items-center justify-center hover:bg-red-500 hover:text-white transition-colors"
+                        title="Elimina"
+                      >
+                        <X className="w-4 h-4" strokeWidth={2.5} />
+                      </button>
+                    ) : (
+                      <Lock className="w-3.5 h-3.5 text-muted-foreground/60" strokeWidth={1.5} />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { X, Loader2, Wand2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { detectCorners, enhanceReceipt, loadImage, type Quad } from "@/lib/imageProcessing";
+
+interface CropEditorProps {
+  imageUrl: string; // foto originale
+  corners: Quad; // ritaglio attuale
+  onApply: (corners: Quad) => void;
+  onClose: () => void;
+}
+
+type PreviewMode = "before" | "after";
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export function CropEditor({ imageUrl, corners: initialCorners, onApply, onClose }: CropEditorProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [corners, setCorners] = useState<Quad>(initialCorners);
+  const [mode, setMode] = useState<PreviewMode>("before");
+  const [preview, setPreview] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl).then(img => { if (!cancelled) setImage(img); }).catch(console.error);
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  // Anteprima "dopo" ricalcolata solo a trascinamento finito (l'elaborazione è pesante)
+  useEffect(() => {
+    if (mode !== "after" || !image || dragging !== null) return;
+    setPreview(null);
+    const timer = setTimeout(() => setPreview(enhanceReceipt(image, corners)), 50);
+    return () => clearTimeout(timer);
+  }, [mode, image, corners, dragging]);
+
+  const moveCorner = (e: React.PointerEvent) => {
+    if (dragging === null || !frameRef.current) return;
+    const rect = frameRef.current.getBoundingClientRect();
+    const point = { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+    setCorners(prev => prev.map((p, i) => (i === dragging ? point : p)) as Quad);
+  };
+
+  const autoDetect = () => {
+    if (image) setCorners(detectCorners(image));
+  };
+
+  const polygon = corners.map(p => `${p.x},${p.y}`).join(" ");
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose} />
+
+      <div className="relative w-full max-w-md max-h-[90vh] bg-card text-card-foreground rounded-3xl shadow-2xl overflow-hidden animate-scale-in flex flex-col">
+        <header className="flex items-center justify-between px-6 py-4 border-b border-border/50 shrink-0">
+          <h2 className="text-lg font-bold text-foreground">Ritaglia Scontrino</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-secondary transition-colors"><X className="w-5 h-5 text-muted-foreground" /></button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* Prima / Dopo */}
+          <div className="grid grid-cols-2 gap-1 p-1 rounded-xl bg-secondary/50">
+            {(["before", "after"] as PreviewMode[]).map(value => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={cn(
+                  "py-1.5 rounded-lg text-sm font-semibold transition-colors",
+                  mode === value ? "bg-card text-foreground shadow-sm" : "text-muted-foreground"
+                )}
+              >
+                {value === "before" ? "Originale" : "Risultato"}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-center min-h-[240px] rounded-2xl bg-secondary/30 border border-border/50 p-3">
+            {mode === "before" ? (
+              <div
+                ref={frameRef}
+                className="relative inline-block touch-none select-none"
+                onPointerMove={moveCorner}
+                onPointerUp={() => setDragging(null)}
+                onPointerCancel={() => setDragging(null)}
+              >
+                <img src={imageUrl} alt="Originale" draggable={false} className="block max-h-[55vh] w-auto max-w-full" />
+                <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                  <polygon points={polygon} fill="hsl(var(--primary) / 0.15)" stroke="hsl(var(--primary))" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                </svg>
+                {corners.map((p, i) => (
+                  <button
+                    key={i}
+                    aria-label={`Angolo ${i + 1}`}
+                    onPointerDown={(e) => {
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      setDragging(i);
+                    }}
+                    className={cn(
+                      "absolute w-7 h-7 -ml-3.5 -mt-3.5 rounded-full border-2 border-primary bg-background/80 shadow-lg touch-none",
+                      dragging === i && "scale-125 bg-primary/30"
+                    )}
+                    style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+                  />
+                ))}
+              </div>
+            ) : preview ? (
+              <img src={preview} alt="Risultato" className="block max-h-[55vh] w-auto max-w-full bg-white" />
+            ) : (
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground text-center">
+            Trascina gli angoli sui bordi del foglio: la prospettiva viene corretta e il testo raddrizzato.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 p-4 border-t border-border/50 shrink-0">
+          <Button variant="outline" onClick={autoDetect} disabled={!image}>
+            <Wand2 className="w-4 h-4 mr-1" /> Automatico
+          </Button>
+          <Button variant="ghost" onClick={onClose}>Annulla</Button>
+          <Button onClick={() => onApply(corners)}>Applica</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useRef, useState } from "react";
+import { format, subYears } from "date-fns";
+import { it } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileUp, Loader2, RefreshCw } from "lucide-react";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { useToast } from "@/hooks/use-toast";
+import { ExchangeRateImportError } from "@/lib/currency";
+
+// Periodo da scaricare: solo i nuovi tassi oppure lo storico degli ultimi anni
+const LATEST = "latest";
+const HISTORY_OPTIONS: Record<string, string> = {
+  [LATEST]: "Solo i nuovi tassi",
+  "1": "Ultimo anno",
+  "5": "Ultimi 5 anni",
+};
+
+export function ExchangeRateSettings() {
+  const { latestRates, loading, importRates, importRatesCsv, canImportCsv } = useExchangeRates();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [history, setHistory] = useState(LATEST);
+  const [importing, setImporting] = useState<"download" | "csv" | null>(null);
+
+  const runImport = async (kind: "download" | "csv", action: () => ReturnType<typeof importRates>) => {
+    setImporting(kind);
+    try {
+      const { imported, currencies } = await action();
+      toast({
+        title: "Cambi aggiornati",
+        description: imported > 0 ? `${imported} tassi per ${currencies} valute` : "Nessun nuovo tasso pubblicato"
+      });
+    } catch (error) {
+      console.error("Exchange rate import error:", error);
+      toast({
+        title: "Errore",
+        description: error instanceof ExchangeRateImportError ? error.message : "Impossibile aggiornare i tassi di cambio",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const handleImport = () => {
+    const startDate = history === LATEST ? undefined : format(subYears(new Date(), Number(history)), "yyyy-MM-dd");
+    return runImport("download", () => importRates(startDate));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const text = await file.text();
+    await runImport("csv", () => importRatesCsv(text));
+  };
+
+  return (
+    <div className="space-y-8 pb-10">
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          Aggiorna dalla BCE
+        </h3>
+        <div className="bg-card rounded-2xl p-4 card-shadow space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Scarica i cambi di riferimento pubblicati dalla Banca Centrale Europea.
+            Le spese in valuta estera vengono convertite in euro con il tasso del giorno della spesa.
+          </p>
+          <Select value={history} onValueChange={setHistory} disabled={!!importing}>
+            <SelectTrigger className="bg-secondary/50 border-0 rounded-xl h-12 px-4 text-left">
+              <SelectValue />
+            </SelectTrigger>
+            {/* z-index sopra i modali (z-[100]) */}
+            <SelectContent className="z-[200] rounded-2xl">
+              {Object.entries(HISTORY_OPTIONS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleImport} disabled={!!importing} className="w-full rounded-xl h-12 gap-2">
+            {importing === "download" ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            {importing === "download" ? "Download in corso..." : "Aggiorna tassi"}
+          </Button>
+        </div>
+      </section>
+
+      {canImportCsv && (
+        <section className="space-y-4">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+          <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Importa da file CSV
+          </h3>
+          <div className="bg-card rounded-2xl p-4 card-shadow space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Carica il file CSV dei cambi di riferimento della BCE (eurofxref.csv, eurofxref-hist.csv
+              o l'export del Data Portal). I tassi valgono per tutti gli utenti.
+            </p>
+            <Button onClick={() => fileInputRef.current?.click()} disabled={!!importing} variant="outline" className="w-full rounded-xl h-12 gap-2">
+              {importing === "csv" ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+              {importing === "csv" ? "Importazione in corso..." : "Scegli file CSV"}
+            </Button>
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          Ultimi tassi (1 EUR =)
+        </h3>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : latestRates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nessun tasso importato</p>
+        ) : (
+          <div className="bg-card rounded-2xl card-shadow divide-y divide-border/50">
+            {latestRates.map(rate => (
+              <div key={rate.currency} className="flex items-center justify-between px-4 py-3">
+                <span className="font-mono font-bold text-foreground">{rate.currency}</span>
+                <div className="text-right">
+                  <p className="font-mono text-sm text-foreground">
+                    {rate.rate.toLocaleString("it-IT", { maximumFractionDigits: 4 })}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {format(new Date(rate.rate_date), "d MMM yyyy", { locale: it })}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -3,17 +3,44 @@ import { format } from "date-fns";
 import { it } from "date-fns/locale";
 import type { Expense } from "@/hooks/useExpenses";
 import { cn } from "@/lib/utils";
-import { Trash2, Pencil, Eye, Check, X } from "lucide-react";
+import { currencySymbol, formatCurrency, isBaseCurrency } from "@/lib/currency";
+import { formatKm, isMileageExpense } from "@/lib/mileage";
+import { APPROVAL_STATUS_LABELS, type ApprovalStatus } from "@/lib/approvals";
+import { Trash2, Pencil, Eye, Check, X, Car, AlertTriangle, Lock, ClipboardList, Clock, CheckCircle2, XCircle, MessageSquareWarning, type LucideIcon } from "lucide-react";
+
+// Esito dell'approvazione, visibile a chi ha inviato la nota spese
+const APPROVAL_BADGES: Record<ApprovalStatus, { icon: LucideIcon; className: string }> = {
+  pending: { icon: Clock, className: "bg-secondary/30 border-border/50 text-muted-foreground" },
+  approved: { icon: CheckCircle2, className: "bg-emerald-500/10 border-emerald-500/20 text-emerald-600" },
+  rejected: { icon: XCircle, className: "bg-red-500/10 border-red-500/20 text-red-600" },
+  changes_requested: { icon: MessageSquareWarning, className: "bg-amber-500/10 border-amber-500/20 text-amber-600" },
+};
 
 interface ExpenseCardProps {
   expense: Expense;
   onClick?: () => void;
   onDelete?: () => void;
   onEdit?: () => void;
+  hasPerDiemConflict?: boolean; // stesso giorno di una diaria che comprende i pasti
+  reportLabel?: string | null; // protocollo (o "Bozza") della nota spese di appartenenza
+  locked?: boolean; // nota spese inviata: niente modifica né eliminazione
+  selectionMode?: boolean; // composizione di una nota spese dall'archivio
+  selected?: boolean;
   className?: string;
 }
 
-export function ExpenseCard({ expense, onClick, onDelete, onEdit, className }: ExpenseCardProps) {
+export function ExpenseCard({
+  expense,
+  onClick,
+  onDelete,
+  onEdit,
+  hasPerDiemConflict,
+  reportLabel,
+  locked,
+  selectionMode,
+  selected,
+  className,
+}: ExpenseCardProps) {
   const expenseDate = expense.date ? new Date(expense.date) : null;
   
   // Calendar Widget Data
@@ -39,6 +66,15 @@ export function ExpenseCard({ expense, onClick, onDelete, onEdit, className }: E
   const [integerPart, decimalPart] = rawFormatted.split(",");
   const isIncome = (expense.amount || 0) < 0; 
 
+  // Valuta estera: importo originale in evidenza, controvalore in EUR sotto
+  const isForeign = !isBaseCurrency(expense.currency);
+  const symbol = currencySymbol(expense.currency).trim();
+
+  const isMileage = isMileageExpense(expense);
+  const showActions = !locked && !selectionMode;
+  const approvalStatus = expense.approval_status;
+  const ApprovalIcon = approvalStatus ? APPROVAL_BADGES[approvalStatus].icon : null;
+
   // Organic Rotation Calculation
   const { rotation, offsetX } = useMemo(() => {
     const seed = expense.id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
@@ -68,6 +104,7 @@ export function ExpenseCard({ expense, onClick, onDelete, onEdit, className }: E
   };
 
   const handleTouchMove = (e: React.TouchEvent) => {
+    if (!showActions) return;
     if (touchStartX.current === null || touchStartY.current === null) return;
     
     // If we determined this is a vertical scroll, stop processing swipe
@@ -168,48 +205,60 @@ export function ExpenseCard({ expense, onClick, onDelete, onEdit, className }: E
         className={cn(
           "chunky-card-3d group relative flex flex-col p-5 w-full h-full",
           "rounded-[2.5rem] cursor-pointer z-20",
+          selectionMode && selected && "ring-2 ring-primary",
           className
         )}
       >
+        {selectionMode && (
+          <div className={cn(
+            "absolute -top-2 -right-2 z-50 w-8 h-8 rounded-full flex items-center justify-center shadow-md border-2 transition-colors",
+            selected ? "bg-primary border-primary text-primary-foreground" : "bg-background/90 border-border text-transparent"
+          )}>
+            <Check className="w-4 h-4" strokeWidth={3} />
+          </div>
+        )}
+
         {/* DESKTOP HOVER ACTIONS (Only visible on MD+ screens on hover) */}
-        <div className="hidden md:flex absolute -top-2 -right-2 gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-50">
-          {isConfirmingDelete ? (
-            <div className="flex items-center gap-2 bg-background/90 backdrop-blur-sm p-1.5 rounded-full border border-red-500/20 pl-3 shadow-xl animate-scale-in">
-              <span className="text-[10px] font-bold text-red-500 uppercase mr-1">Sicuro?</span>
-              <button 
-                onClick={(e) => { e.stopPropagation(); onDelete?.(); setIsConfirmingDelete(false); }}
-                className="w-7 h-7 rounded-full bg-red-500 text-white flex items-center justify-center hover:scale-110 transition-transform shadow-sm"
-                title="Conferma"
-              >
-                <Check className="w-4 h-4" strokeWidth={3} />
-              </button>
-              <button 
-                onClick={(e) => { e.stopPropagation(); setIsConfirmingDelete(false); }}
-                className="w-7 h-7 rounded-full bg-secondary text-foreground flex items-center justify-center hover:scale-110 transition-transform shadow-sm"
-                title="Annulla"
-              >
-                <X className="w-4 h-4" strokeWidth={3} />
-              </button>
-            </div>
-          ) : (
-            <>
-              <button 
-                onClick={(e) => { e.stopPropagation(); onEdit?.(); }}
-                className="w-8 h-8 rounded-full bg-amber-400 text-white flex items-center justify-center shadow-md hover:scale-110 transition-transform"
-                title="Modifica"
-              >
-                <Pencil className="w-4 h-4" />
-              </button>
-              <button 
-                onClick={(e) => { e.stopPropagation(); setIsConfirmingDelete(true); }}
-                className="w-8 h-8 rounded-full bg-red-500 text-white flex items-center justify-center shadow-md hover:scale-110 transition-transform"
-                title="Elimina"
-              >
-                <Trash2 className="w-4 h-4" />
-              </button>
-            </>
-          )}
-        </div>
+        {showActions && (
+          <div className="hidden md:flex absolute -top-2 -right-2 gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-50">
+            {isConfirmingDelete ? (
+              <div className="flex items-center gap-2 bg-background/90 backdrop-blur-sm p-1.5 rounded-full border border-red-500/20 pl-3 shadow-xl animate-scale-in">
+                <span className="text-[10px] font-bold text-red-500 uppercase mr-1">Sicuro?</span>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); onDelete?.(); setIsConfirmingDelete(false); }}
+                  className="w-7 h-7 rounded-full bg-red-500 text-white flex items-center justify-center hover:scale-110 transition-transform shadow-sm"
+                  title="Conferma"
+                >
+                  <Check className="w-4 h-4" strokeWidth={3} />
+                </button>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); setIsConfirmingDelete(false); }}
+                  className="w-7 h-7 rounded-full bg-secondary text-foreground flex items-center justify-center hover:scale-110 transition-transform shadow-sm"
+                  title="Annulla"
+                >
+                  <X className="w-4 h-4" strokeWidth={3} />
+                </button>
+              </div>
+            ) : (
+              <>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); onEdit?.(); }}
+                  className="w-8 h-8 rounded-full bg-amber-400 text-white flex items-center justify-center shadow-md hover:scale-110 transition-transform"
+                  title="Modifica"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); setIsConfirmingDelete(true); }}
+                  className="w-8 h-8 rounded-full bg-red-500 text-white flex items-center justify-center shadow-md hover:scale-110 transition-transform"
+                  title="Elimina"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        )}
 
         {/* TOP ROW: Calendar & Price */}
         <div className="flex justify-between items-start w-full mb-1">
@@ -229,15 +278,22 @@ export function ExpenseCard({ expense, onClick, onDelete, onEdit, className }: E
           </div>
 
           {/* Price (Moved to Top) */}
-          <div className="flex-1 flex justify-end pt-1">
+          <div className="flex-1 flex flex-col items-end pt-1">
             <div className={cn(
               "font-black tracking-tighter flex items-baseline gap-1",
               isIncome ? "text-emerald-500" : "text-price-solid"
             )}>
               <span className="text-4xl">{integerPart}</span>
               <span className="text-xl opacity-60">,{decimalPart}</span>
-              <span className="text-lg opacity-60 font-bold ml-0.5">€</span>
+              <span className="text-lg opacity-60 font-bold ml-0.5">{symbol}</span>
             </div>
+            {isForeign && (
+              <span className="text-xs font-semibold text-muted-foreground mt-0.5">
+                {expense.amount_eur !== null && expense.amount_eur !== undefined
+                  ? `≈ ${formatCurrency(expense.amount_eur)}`
+                  : "cambio non disponibile"}
+              </span>
+            )}
           </div>
 
         </div>
@@ -248,12 +304,39 @@ export function ExpenseCard({ expense, onClick, onDelete, onEdit, className }: E
               {expense.merchant || "Sconosciuto"}
             </h3>
             
-            <div className="flex mt-2">
+            <div className="flex flex-wrap gap-2 mt-2">
               <div className="inline-flex items-center justify-center px-2.5 py-1 rounded-full bg-secondary/30 border border-border/50">
                 <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground/80">
                   {expense.category || "Spesa"}
                 </span>
               </div>
+              {isMileage && (
+                <div className="inline-flex items-center justify-center gap-1 px-2.5 py-1 rounded-full bg-sky-500/10 border border-sky-500/20 text-sky-600">
+                  <Car className="w-3 h-3" strokeWidth={2} />
+                  <span className="text-[10px] font-bold tracking-wider">{formatKm(expense.distance_km)}</span>
+                </div>
+              )}
+              {hasPerDiemConflict && (
+                <div className="inline-flex items-center justify-center gap-1 px-2.5 py-1 rounded-full bg-amber-500/10 border border-amber-500/20 text-amber-600" title="Vitto già compreso nella diaria del giorno">
+                  <AlertTriangle className="w-3 h-3" strokeWidth={2} />
+                  <span className="text-[10px] font-bold uppercase tracking-wider">Diaria + vitto</span>
+                </div>
+              )}
+              {reportLabel && (
+                <div
+                  className="inline-flex items-center justify-center gap-1 px-2.5 py-1 rounded-full bg-secondary/30 border border-border/50 text-muted-foreground"
+                  title={locked ? "Nota spese inviata: spesa bloccata" : "In una nota spese in bozza"}
+                >
+                  {locked ? <Lock className="w-3 h-3" strokeWidth={2} /> : <ClipboardList className="w-3 h-3" strokeWidth={2} />}
+                  <span className="text-[10px] font-bold tracking-wider">{reportLabel}</span>
+                </div>
+              )}
+              {approvalStatus && ApprovalIcon && (
+                <div className={cn("inline-flex items-center justify-center gap-1 px-2.5 py-1 rounded-full border", APPROVAL_BADGES[approvalStatus].className)}>
+                  <ApprovalIcon className="w-3 h-3" strokeWidth={2} />
+                  <span className="text-[10px] font-bold uppercase tracking-wider">{APPROVAL_STATUS_LABELS[approvalStatus]}</span>
+                </div>
+              )}
             </div>
         </div>
       </div>
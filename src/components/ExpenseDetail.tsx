@@ -1,20 +1,32 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { format } from "date-fns";
 import { it } from "date-fns/locale";
-import { X, Trash2, Pencil, Receipt, Check, Loader2 } from "lucide-react";
+import { X, Trash2, Pencil, Receipt, Check, Loader2, MapPin, Building2, FileText, AlertTriangle, Car, Lock, MessageSquare, FolderKanban } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { supabase } from "@/integrations/supabase/client";
-import type { Expense } from "@/hooks/useExpenses";
+import type { Json } from "@/integrations/supabase/types";
+import type { Expense, ExpenseItem } from "@/hooks/useExpenses";
+import { ExpenseItemsTable } from "./ExpenseItemsTable";
+import { CategoryPicker } from "./CategoryPicker";
+import { ProjectPicker } from "./ProjectPicker";
+import { useProjects } from "@/hooks/useProjects";
+import { isValidPartitaIva } from "@/lib/vat";
+import { formatCurrency, isBaseCurrency } from "@/lib/currency";
+import { geocodeAddress, placeColumns } from "@/lib/geocoding";
+import { computeMileageAmount, formatCostPerKm, formatKm, isMileageExpense, parseDecimal } from "@/lib/mileage";
+import { APPROVAL_STATUS_LABELS, type ExpenseApproval } from "@/lib/approvals";
+import { assignmentOf, costCenterLabel, projectLabel } from "@/lib/projects";
 
 interface ExpenseDetailProps {
   expense: Expense;
   onClose: () => void;
   onDelete: () => void;
   onUpdate: () => void;
+  lockedBy?: string | null; // protocollo della nota spese inviata che blocca la spesa
 }
 
-export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseDetailProps) {
+export function ExpenseDetail({ expense, onClose, onDelete, onUpdate, lockedBy }: ExpenseDetailProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -25,6 +37,37 @@ export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseD
   const [total, setTotal] = useState(expense.amount?.toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 }) || "0,00");
   const [category, setCategory] = useState(expense.category || "");
   const [expenseDate, setExpenseDate] = useState(expense.date || "");
+  const [vatNumber, setVatNumber] = useState(expense.vat_number || "");
+  const [address, setAddress] = useState(expense.address || "");
+  const [currency, setCurrency] = useState(expense.currency || "EUR");
+  const [items, setItems] = useState<ExpenseItem[]>(Array.isArray(expense.items) ? expense.items : []);
+  const [distanceKm, setDistanceKm] = useState(expense.distance_km?.toLocaleString("it-IT", { maximumFractionDigits: 1 }) || "");
+  const [costPerKm, setCostPerKm] = useState(expense.cost_per_km?.toLocaleString("it-IT", { maximumFractionDigits: 4 }) || "");
+  const [approvals, setApprovals] = useState<ExpenseApproval[]>([]);
+  const [assignment, setAssignment] = useState(assignmentOf(expense));
+  const { projects, clients, costCenters } = useProjects();
+
+  const project = projects.find(p => p.id === expense.project_id);
+  const client = clients.find(c => c.id === expense.client_id);
+  const costCenter = costCenters.find(c => c.id === expense.cost_center_id);
+
+  // Decisioni e commenti dell'approvatore, dal più recente
+  useEffect(() => {
+    if (!expense.approval_status) return;
+    supabase
+      .from("expense_approvals")
+      .select("*")
+      .eq("expense_id", expense.id)
+      .order("created_at", { ascending: false })
+      .then(({ data, error }) => {
+        if (error) console.warn("Approval history fetch failed", error);
+        else setApprovals((data || []) as ExpenseApproval[]);
+      });
+  }, [expense.id, expense.approval_status]);
+
+  // Rimborso chilometrico: l'importo si ricava da km e costo al km
+  const isMileage = isMileageExpense(expense);
+  const mileageAmount = computeMileageAmount(parseDecimal(distanceKm) ?? 0, parseDecimal(costPerKm) ?? 0);
 
   const formattedDate = expense.date 
     ? format(new Date(expense.date), "d MMMM yyyy", { locale: it })
@@ -57,7 +100,16 @@ export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseD
     setIsSaving(true);
     try {
       // Convert comma to dot for parsing
-      const parsedTotal = parseFloat(total.replace(/\./g, '').replace(',', '.')) || 0;
+      const parsedTotal = isMileage ? mileageAmount : parseFloat(total.replace(/\./g, '').replace(',', '.')) || 0;
+      const trip = isMileage
+        ? { distance_km: parseDecimal(distanceKm), cost_per_km: parseDecimal(costPerKm) }
+        : {};
+
+      // Indirizzo cambiato: nuovo comune (e coordinate, se venivano dall'indirizzo)
+      const trimmedAddress = address.trim() || null;
+      const place = trimmedAddress !== (expense.address || null)
+        ? placeColumns(await geocodeAddress(trimmedAddress).catch(() => null), expense)
+        : {};
 
       const { error } = await supabase
         .from("expenses") // updated from transactions
@@ -65,7 +117,14 @@ export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseD
           merchant,
           total: parsedTotal, // updated from amount
           category,
+          ...assignment,
           expense_date: expenseDate, // updated from date
+          vat_number: vatNumber.trim() || null,
+          address: trimmedAddress,
+          ...place,
+          ...trip,
+          currency: currency.length === 3 ? currency : "EUR",
+          items: items.filter(item => item.name.trim().length > 0) as unknown as Json,
         })
         .eq("id", expense.id);
       
@@ -114,21 +173,57 @@ export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseD
                   className="rounded-xl"
                 />
               </div>
+              {isMileage ? (
+                <div className="space-y-2">
+                  <div className="flex gap-3">
+                    <div className="space-y-2 flex-1 min-w-0">
+                      <label className="text-sm font-medium text-muted-foreground">Km</label>
+                      <Input
+                        inputMode="decimal"
+                        value={distanceKm}
+                        onChange={(e) => setDistanceKm(e.target.value)}
+                        className="rounded-xl font-mono"
+                      />
+                    </div>
+                    <div className="space-y-2 flex-1 min-w-0">
+                      <label className="text-sm font-medium text-muted-foreground">Costo al km (€)</label>
+                      <Input
+                        inputMode="decimal"
+                        value={costPerKm}
+                        onChange={(e) => setCostPerKm(e.target.value)}
+                        className="rounded-xl font-mono"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground text-right">
+                    Importo: <span className="font-bold text-foreground">{formatCurrency(mileageAmount)}</span>
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-muted-foreground">Importo ({currency || "EUR"})</label>
+                  <Input
+                    type="text" 
+                    inputMode="decimal"
+                    value={total}
+                    onChange={(e) => setTotal(e.target.value)}
+                    className="rounded-xl"
+                  />
+                </div>
+              )}
               <div className="space-y-2">
-                <label className="text-sm font-medium text-muted-foreground">Importo (€)</label>
-                <Input
-                  type="text" 
-                  inputMode="decimal"
-                  value={total}
-                  onChange={(e) => setTotal(e.target.value)}
+                <label className="text-sm font-medium text-muted-foreground">Categoria</label>
+                <CategoryPicker
+                  value={category}
+                  onChange={setCategory}
                   className="rounded-xl"
                 />
               </div>
               <div className="space-y-2">
-                <label className="text-sm font-medium text-muted-foreground">Categoria</label>
-                <Input
-                  value={category}
-                  onChange={(e) => setCategory(e.target.value)}
+                <label className="text-sm font-medium text-muted-foreground">Progetto</label>
+                <ProjectPicker
+                  value={assignment}
+                  onChange={setAssignment}
                   className="rounded-xl"
                 />
               </div>
@@ -141,6 +236,44 @@ export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseD
                   className="rounded-xl"
                 />
               </div>
+              {!isMileage && (
+                <>
+                  <div className="flex gap-3">
+                    <div className="space-y-2 flex-1 min-w-0">
+                      <label className="text-sm font-medium text-muted-foreground">Partita IVA</label>
+                      <Input
+                        value={vatNumber}
+                        onChange={(e) => setVatNumber(e.target.value)}
+                        inputMode="numeric"
+                        className="rounded-xl font-mono"
+                      />
+                      {vatNumber && !isValidPartitaIva(vatNumber) && (
+                        <p className="text-xs text-destructive">Partita IVA non valida</p>
+                      )}
+                    </div>
+                    <div className="space-y-2 w-24">
+                      <label className="text-sm font-medium text-muted-foreground">Valuta</label>
+                      <Input
+                        value={currency}
+                        onChange={(e) => setCurrency(e.target.value.toUpperCase().replace(/[^A-Z]/g, "").slice(0, 3))}
+                        className="rounded-xl font-mono uppercase text-center"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-muted-foreground">Indirizzo</label>
+                    <Input
+                      value={address}
+                      onChange={(e) => setAddress(e.target.value)}
+                      className="rounded-xl"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-muted-foreground">Articoli</label>
+                    <ExpenseItemsTable items={items} currency={currency} onChange={setItems} />
+                  </div>
+                </>
+              )}
             </>
           ) : (
             <>
@@ -150,8 +283,15 @@ export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseD
                   {expense.merchant || "Sconosciuto"}
                 </h3>
                 <p className="text-4xl font-bold text-primary tracking-tight">
-                  €{formattedTotal}
+                  {expense.currency && expense.currency !== "EUR" ? `${expense.currency} ` : "€"}{formattedTotal}
                 </p>
+                {!isBaseCurrency(expense.currency) && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {expense.amount_eur !== null && expense.amount_eur !== undefined
+                      ? `≈ ${formatCurrency(expense.amount_eur)}${expense.exchange_rate_date ? ` · cambio BCE del ${format(new Date(expense.exchange_rate_date), "d MMM yyyy", { locale: it })} (${expense.exchange_rate?.toLocaleString("it-IT", { maximumFractionDigits: 4 })})` : ""}`
+                      : "Controvalore in EUR non disponibile: manca il tasso di cambio"}
+                  </p>
+                )}
                 <div className="inline-block mt-3 px-3 py-1 bg-secondary rounded-full">
                   <p className="text-sm font-medium text-secondary-foreground">
                     {expense.category || "Altro"}
@@ -159,6 +299,132 @@ export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseD
                 </div>
               </div>
 
+              {/* Trip Info (rimborso chilometrico) */}
+              {isMileage && (
+                <div className="rounded-2xl border border-border/50 bg-secondary/20 divide-y divide-border/50 text-sm">
+                  <div className="flex items-center gap-3 px-4 py-2.5">
+                    <Car className="w-4 h-4 text-muted-foreground shrink-0" />
+                    <span className="truncate">{expense.origin} → {expense.destination}</span>
+                  </div>
+                  <div className="flex items-center justify-between px-4 py-2.5 font-mono tabular-nums">
+                    <span>{formatKm(expense.distance_km)} × {formatCostPerKm(expense.cost_per_km)}</span>
+                    <span className="font-bold">{formatCurrency(expense.amount)}</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Diaria di trasferta: quota esente e imponibile */}
+              {expense.expense_type === "per_diem" && (
+                <div className="rounded-2xl border border-border/50 bg-secondary/20 divide-y divide-border/50 text-sm tabular-nums">
+                  <div className="flex items-center justify-between px-4 py-2.5">
+                    <span className="text-muted-foreground">Quota esente</span>
+                    <span className="font-medium">{formatCurrency((expense.amount || 0) - (expense.taxable_amount || 0))}</span>
+                  </div>
+                  <div className="flex items-center justify-between px-4 py-2.5">
+                    <span className="text-muted-foreground">Quota imponibile</span>
+                    <span className="font-medium">{formatCurrency(expense.taxable_amount)}</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Approvazione: stato e storico delle decisioni */}
+              {expense.approval_status && (
+                <div className="rounded-2xl border border-border/50 bg-secondary/20 divide-y divide-border/50 text-sm">
+                  <div className="flex items-center justify-between px-4 py-2.5">
+                    <span className="text-muted-foreground">Approvazione</span>
+                    <span className="font-medium">{APPROVAL_STATUS_LABELS[expense.approval_status]}</span>
+                  </div>
+                  {approvals.map(approval => (
+                    <div key={approval.id} className="flex gap-3 px-4 py-2.5">
+                      <MessageSquare className="w-4 h-4 text-muted-foreground shrink-0 mt-0.5" />
+                      <div className="min-w-0">
+                        <p className="text-xs text-muted-foreground">
+                          {APPROVAL_STATUS_LABELS[approval.decision]}
+                          {approval.created_at && ` · ${format(new Date(approval.created_at), "d MMM yyyy HH:mm", { locale: it })}`}
+                        </p>
+                        {approval.comment && <p className="text-foreground break-words">{approval.comment}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Progetto, cliente e centro di costo */}
+              {(project || client || costCenter) && (
+                <div className="rounded-2xl border border-border/50 bg-secondary/20 divide-y divide-border/50 text-sm">
+                  {project && (
+                    <div className="flex items-center gap-3 px-4 py-2.5">
+                      <FolderKanban className="w-4 h-4 text-muted-foreground shrink-0" />
+                      <span className="truncate">{projectLabel(project)}</span>
+                    </div>
+                  )}
+                  {client && (
+                    <div className="flex items-center justify-between gap-3 px-4 py-2.5">
+                      <span className="text-muted-foreground">Cliente</span>
+                      <span className="truncate">{client.name}</span>
+                    </div>
+                  )}
+                  {costCenter && (
+                    <div className="flex items-center justify-between gap-3 px-4 py-2.5">
+                      <span className="text-muted-foreground">Centro di costo</span>
+                      <span className="truncate font-mono">{costCenterLabel(costCenter)}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Merchant Info */}
+              {(expense.vat_number || expense.address) && (
+                <div className="rounded-2xl border border-border/50 bg-secondary/20 divide-y divide-border/50 text-sm">
+                  {expense.vat_number && (
+                    <div className="flex items-center gap-3 px-4 py-2.5">
+                      <Building2 className="w-4 h-4 text-muted-foreground shrink-0" />
+                      <span className="text-muted-foreground">P. IVA</span>
+                      <span className="font-mono ml-auto">{expense.vat_number}</span>
+                    </div>
+                  )}
+                  {expense.address && (
+                    <div className="flex items-center gap-3 px-4 py-2.5">
+                      <MapPin className="w-4 h-4 text-muted-foreground shrink-0" />
+                      <span className="truncate">{expense.address}</span>
+                      {expense.municipality && (
+                        <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                          {expense.municipality}{expense.province ? ` (${expense.province})` : ""}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* VAT Breakdown (fatture elettroniche) */}
+              {expense.vat_breakdown && expense.vat_breakdown.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Riepilogo IVA</p>
+                  <div className="rounded-2xl border border-border/50 divide-y divide-border/50 text-sm">
+                    {expense.vat_breakdown.map((row, index) => (
+                      <div key={index} className="flex items-center justify-between px-4 py-2 tabular-nums">
+                        <span className="font-medium">{row.nature || `${row.vat_rate}%`}</span>
+                        <span className="text-muted-foreground">
+                          Imponibile {row.taxable.toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </span>
+                        <span className="font-medium">
+                          IVA {row.tax.toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Line Items */}
+              {items.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Articoli</p>
+                  <ExpenseItemsTable items={items} currency={expense.currency} />
+                </div>
+              )}
+
               {/* Receipt Preview */}
               {expense.image_url && (
                 <button
@@ -172,6 +438,29 @@ export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseD
                 </button>
               )}
 
+              {expense.document_url && (
+                <a
+                  href={expense.document_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="w-full flex items-center justify-center gap-2 py-3 px-4 rounded-2xl bg-secondary/50 hover:bg-secondary transition-colors border border-border/50"
+                >
+                  <FileText className="w-5 h-5 text-muted-foreground" />
+                  <span className="text-sm font-medium">
+                    {expense.document_url.toLowerCase().endsWith(".pdf") ? "Apri PDF originale" : "Scarica fattura elettronica"}
+                  </span>
+                </a>
+              )}
+
+              {!!expense.skipped_pages && (
+                <p className="flex items-center gap-2 text-xs font-medium text-amber-600 px-1">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  {expense.skipped_pages === 1
+                    ? "L'ultima pagina del PDF non è stata analizzata"
+                    : `Le ultime ${expense.skipped_pages} pagine del PDF non sono state analizzate`}
+                </p>
+              )}
+
               {showReceipt && expense.image_url && (
                 <div className="rounded-2xl overflow-hidden border border-border/50 bg-black/5">
                   <img 
@@ -211,6 +500,11 @@ export function ExpenseDetail({ expense, onClose, onDelete, onUpdate }: ExpenseD
                 )}
               </Button>
             </>
+          ) : lockedBy ? (
+            <div className="flex-1 h-12 flex items-center justify-center gap-2 rounded-full bg-secondary/40 text-sm font-medium text-muted-foreground">
+              <Lock className="w-4 h-4" />
+              Bloccata: nota spese {lockedBy} inviata
+            </div>
           ) : (
             <>
               <Button
@@ -0,0 +1,135 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import type { ExpenseItem } from "@/hooks/useExpenses";
+
+interface ExpenseItemsTableProps {
+  items: ExpenseItem[];
+  currency?: string;
+  // Se assente la tabella è in sola lettura
+  onChange?: (items: ExpenseItem[]) => void;
+}
+
+const formatMoney = (value: number) =>
+  value.toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const parseNumber = (value: string) => parseFloat(value.replace(",", ".")) || 0;
+
+export function ExpenseItemsTable({ items, currency = "EUR", onChange }: ExpenseItemsTableProps) {
+  const editable = !!onChange;
+  const itemsTotal = items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+
+  const updateItem = (index: number, changes: Partial<ExpenseItem>) => {
+    onChange?.(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (index: number) => {
+    onChange?.(items.filter((_, i) => i !== index));
+  };
+
+  const addItem = () => {
+    onChange?.([...items, { name: "", quantity: 1, unit_price: 0, vat_rate: null }]);
+  };
+
+  if (!editable) {
+    if (items.length === 0) return null;
+
+    return (
+      <div className="rounded-2xl border border-border/50 bg-secondary/20 divide-y divide-border/50">
+        {items.map((item, index) => (
+          <div key={index} className="flex items-center justify-between gap-3 px-4 py-2.5 text-sm">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{item.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {item.quantity} × {formatMoney(item.unit_price)}
+                {item.vat_rate !== null && ` · IVA ${item.vat_rate}%`}
+              </p>
+            </div>
+            <span className="font-mono font-medium shrink-0">
+              {formatMoney(item.quantity * item.unit_price)} {currency}
+            </span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between px-4 py-2.5 text-sm font-bold">
+          <span>Totale righe</span>
+          <span className="font-mono">{formatMoney(itemsTotal)} {currency}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => (
+        <div key={index} className="rounded-2xl bg-secondary/30 p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={item.name}
+              onChange={(e) => updateItem(index, { name: e.target.value })}
+              placeholder="Descrizione"
+              className="rounded-xl h-10 bg-background/60 border-transparent"
+            />
+            <button
+              onClick={() => removeItem(index)}
+              className="p-2 rounded-full text-destructive hover:bg-destructive/10 transition-colors shrink-0"
+              aria-label="Rimuovi riga"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider ml-1">Qtà</span>
+              <Input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="any"
+                value={item.quantity}
+                onChange={(e) => updateItem(index, { quantity: parseNumber(e.target.value) })}
+                className="rounded-xl h-10 bg-background/60 border-transparent text-right"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider ml-1">Prezzo</span>
+              <Input
+                type="number"
+                inputMode="decimal"
+                step="0.01"
+                value={item.unit_price}
+                onChange={(e) => updateItem(index, { unit_price: parseNumber(e.target.value) })}
+                className="rounded-xl h-10 bg-background/60 border-transparent text-right"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider ml-1">IVA %</span>
+              <Input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="any"
+                value={item.vat_rate ?? ""}
+                onChange={(e) => updateItem(index, { vat_rate: e.target.value === "" ? null : parseNumber(e.target.value) })}
+                className="rounded-xl h-10 bg-background/60 border-transparent text-right"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between px-1">
+        <button
+          onClick={addItem}
+          className="flex items-center gap-1.5 text-sm font-medium text-primary hover:underline"
+        >
+          <Plus className="w-4 h-4" />
+          Aggiungi riga
+        </button>
+        {items.length > 0 && (
+          <span className="text-sm font-bold font-mono">
+            {formatMoney(itemsTotal)} {currency}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,40 +1,42 @@
 import { useState, useMemo } from "react";
 import { Map, Overlay } from "pigeon-maps";
 import { Expense } from "@/hooks/useExpenses";
-import { MapPin, ShoppingBag, Utensils, Car, Briefcase, X } from "lucide-react";
+import { X, MapPinOff } from "lucide-react";
 import { format } from "date-fns";
 import { it } from "date-fns/locale";
 import { useTheme } from "@/hooks/useTheme";
 import { cn } from "@/lib/utils";
+import { useCategories } from "@/hooks/useCategories";
+import { getCategoryIcon } from "@/lib/categories";
+import { formatCurrency } from "@/lib/currency";
 
 interface ExpenseMapProps {
   expenses: Expense[];
 }
 
-const categoryIcons: any = {
-  "Ristorazione": Utensils,
-  "Trasporti": Car,
-  "Shopping": ShoppingBag,
-  "Lavoro": Briefcase,
-};
+type LocatedExpense = Expense & { latitude: number; longitude: number };
+
+// Centro predefinito (Milano) quando nessuna spesa ha coordinate
+const DEFAULT_CENTER: [number, number] = [45.4642, 9.1900];
+
+const hasLocation = (e: Expense): e is LocatedExpense =>
+  typeof e.latitude === "number" && typeof e.longitude === "number";
 
 export function ExpenseMap({ expenses }: ExpenseMapProps) {
   const { theme } = useTheme();
+  const { categories } = useCategories();
   const [popupInfo, setPopupInfo] = useState<Expense | null>(null);
 
   // Filtra solo spese con coordinate
-  const locations = useMemo(() => {
-    return expenses.map((e, i) => {
-      // Usa coordinate reali se presenti
-      if (e.latitude && e.longitude) return e;
-      
-      // MOCK DATA: Genera punti attorno a Milano (45.4642, 9.1900) per demo
-      // In produzione questo blocco else si può rimuovere
-      const lat = 45.4642 + (Math.random() - 0.5) * 0.08;
-      const lng = 9.1900 + (Math.random() - 0.5) * 0.08;
-      return { ...e, latitude: lat, longitude: lng };
-    });
-  }, [expenses]);
+  const locations = useMemo(() => expenses.filter(hasLocation), [expenses]);
+
+  // Centro sulla media delle posizioni (EXIF della foto o dispositivo al momento dello scatto)
+  const center = useMemo<[number, number]>(() => {
+    if (locations.length === 0) return DEFAULT_CENTER;
+    const lat = locations.reduce((sum, e) => sum + e.latitude, 0) / locations.length;
+    const lng = locations.reduce((sum, e) => sum + e.longitude, 0) / locations.length;
+    return [lat, lng];
+  }, [locations]);
 
   // Provider mappe:
   // Light: OpenStreetMap standard
@@ -48,20 +50,17 @@ export function ExpenseMap({ expenses }: ExpenseMapProps) {
   return (
     <div className="w-full h-full rounded-3xl overflow-hidden relative border border-border/50 shadow-inner bg-secondary/10">
       <Map 
-        defaultCenter={[45.4642, 9.1900]} 
+        key={`${center[0]},${center[1]}`}
+        defaultCenter={center} 
         defaultZoom={12} 
         provider={mapTiler}
         dprs={[1, 2]} // Supporto retina display
       >
         {locations.map((expense, index) => {
-          const Icon = categoryIcons[expense.category || ""] || MapPin;
-          
-          // Coordinate sicure (fallback a Milano se mancano, anche se il filtro sopra dovrebbe prevenirlo)
-          const lat = expense.latitude || 45.4642;
-          const lng = expense.longitude || 9.1900;
+          const Icon = getCategoryIcon(categories, expense.category);
 
           return (
-            <Overlay key={`marker-${index}`} anchor={[lat, lng]} offset={[0, 0]}>
+            <Overlay key={`marker-${index}`} anchor={[expense.latitude, expense.longitude]} offset={[0, 0]}>
               <div 
                 className="group relative -translate-x-1/2 -translate-y-full cursor-pointer transition-transform hover:scale-110 hover:z-50"
                 onClick={(e) => {
@@ -92,7 +91,7 @@ export function ExpenseMap({ expenses }: ExpenseMapProps) {
         })}
 
         {/* POPUP OVERLAY */}
-        {popupInfo && popupInfo.latitude && popupInfo.longitude && (
+        {popupInfo && hasLocation(popupInfo) && (
           <Overlay anchor={[popupInfo.latitude, popupInfo.longitude]} offset={[0, 0]}>
              {/* 
                 Posizioniamo il popup sopra il marker.
@@ -120,7 +119,7 @@ export function ExpenseMap({ expenses }: ExpenseMapProps) {
                             {popupInfo.category || "Altro"}
                         </span>
                         <span className="font-bold text-primary text-sm">
-                            €{popupInfo.amount?.toLocaleString("it-IT", { minimumFractionDigits: 2 })}
+                            {formatCurrency(popupInfo.amount, popupInfo.currency)}
                         </span>
                     </div>
 
@@ -131,6 +130,15 @@ export function ExpenseMap({ expenses }: ExpenseMapProps) {
           </Overlay>
         )}
       </Map>
+
+      {locations.length === 0 && (
+        <div className="absolute inset-x-0 top-6 flex justify-center pointer-events-none">
+          <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-card/90 backdrop-blur-md border border-border/50 shadow-lg text-sm text-muted-foreground">
+            <MapPinOff className="w-4 h-4" />
+            Nessuna spesa geolocalizzata in questo mese
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
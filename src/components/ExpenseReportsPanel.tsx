@@ -0,0 +1,371 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { X, Plus, Loader2, ChevronLeft, ChevronRight, Send, Trash2, Mail, Hourglass, Wallet, ClipboardList, Undo2, Check } from "lucide-react";
+import type { Expense } from "@/hooks/useExpenses";
+import { useExpenseReports } from "@/hooks/useExpenseReports";
+import { useProfile } from "@/hooks/useProfile";
+import { useToast } from "@/hooks/use-toast";
+import { emailErrorDescription } from "@/lib/receipts";
+import { formatCurrency } from "@/lib/currency";
+import {
+  canTransition,
+  REPORT_STATUS_LABELS,
+  type ExpenseReport,
+  type ExpenseReportStatus,
+} from "@/lib/expenseReports";
+import { APPROVAL_STATUS_LABELS } from "@/lib/approvals";
+import { cn } from "@/lib/utils";
+
+interface ExpenseReportsPanelProps {
+  initialReportId?: string | null;
+  onClose: () => void;
+  onCreateNew: () => void; // torna all'archivio in modalità selezione
+  onChanged: () => void; // stato o composizione cambiati: l'archivio ricarica blocchi ed etichette
+}
+
+const STATUS_STYLES: Record<ExpenseReportStatus, string> = {
+  draft: "bg-secondary/60 text-muted-foreground",
+  submitted: "bg-sky-500/10 text-sky-600",
+  approved: "bg-emerald-500/10 text-emerald-600",
+  reimbursed: "bg-primary/10 text-primary",
+};
+
+function StatusBadge({ status }: { status: ExpenseReportStatus }) {
+  return (
+    <span className={cn("px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider", STATUS_STYLES[status])}>
+      {REPORT_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+const formatPeriod = (report: ExpenseReport) => {
+  if (!report.period_start || !report.period_end) return "—";
+  const start = format(new Date(report.period_start), "d MMM", { locale: it });
+  const end = format(new Date(report.period_end), "d MMM yyyy", { locale: it });
+  return report.period_start === report.period_end ? end : `${start} – ${end}`;
+};
+
+export function ExpenseReportsPanel({ initialReportId = null, onClose, onCreateNew, onChanged }: ExpenseReportsPanelProps) {
+  const { reports, loading, fetchReportExpenses, removeExpense, submitReport, withdrawReport, markReimbursed, sendReportEmail, deleteReport } = useExpenseReports();
+  const { profile } = useProfile();
+  const { toast } = useToast();
+
+  const [activeId, setActiveId] = useState<string | null>(initialReportId);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loadingExpenses, setLoadingExpenses] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const active = reports.find(r => r.id === activeId) || null;
+
+  const recipientEmails = profile?.default_emails?.length
+    ? profile.default_emails
+    : ["wdellavedova@j-invest.eu"];
+
+  // Le spese della nota si ricaricano a ogni cambio (totali e conteggi arrivano dal database)
+  useEffect(() => {
+    if (!activeId) {
+      setExpenses([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingExpenses(true);
+    fetchReportExpenses(activeId)
+      .then(data => { if (!cancelled) setExpenses(data); })
+      .catch(error => console.error("Error fetching report expenses:", error))
+      .finally(() => { if (!cancelled) setLoadingExpenses(false); });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeId, active?.expense_count]);
+
+  const run = async (action: () => Promise<void>, errorTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error(errorTitle, error);
+      toast({ title: errorTitle, description: error instanceof Error ? error.message : "Riprova.", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Decisioni già prese nella nota attiva: il ritiro non è più possibile
+  const decided = expenses.some(e => !!e.approval_status && e.approval_status !== "pending");
+
+  // L'email parte dopo l'invio: se fallisce la nota resta in approvazione e si può reinviare
+  const handleSendEmail = async (report: ExpenseReport) => {
+    try {
+      await sendReportEmail(report, recipientEmails);
+      toast({ title: `Nota spese ${report.protocol_number} inviata`, description: `A ${recipientEmails.join(", ")}` });
+    } catch (error) {
+      console.error("Error sending report email:", error);
+      toast({
+        title: "Email non inviata",
+        description: emailErrorDescription(error, "La nota è in approvazione: riprova a inviare l'email."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (report: ExpenseReport) => {
+    if (expenses.some(e => e.approval_status === "rejected")) {
+      toast({ title: "Spese rifiutate nella nota", description: "Toglile dalla nota prima di inviarla di nuovo.", variant: "destructive" });
+      return;
+    }
+    setBusy(true);
+    try {
+      const submitted = await submitReport(report);
+      onChanged();
+      await handleSendEmail(submitted);
+    } catch (error) {
+      console.error("Error submitting report:", error);
+      toast({
+        title: "Invio non riuscito",
+        description: error instanceof Error ? error.message : "La nota è rimasta in bozza: riprova l'invio.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleResendEmail = async (report: ExpenseReport) => {
+    setBusy(true);
+    try {
+      await handleSendEmail(report);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Ritiro finché nessuna spesa è decisa: serve se l'approvatore non può aprire la nota
+  const handleWithdraw = (report: ExpenseReport) =>
+    run(async () => {
+      await withdrawReport(report);
+      toast({ title: "Nota ritirata", description: "È tornata in bozza: correggi i destinatari e inviala di nuovo." });
+    }, "Ritiro non riuscito");
+
+  const handleReimbursed = (report: ExpenseReport) =>
+    run(async () => {
+      await markReimbursed(report);
+    }, "Aggiornamento non riuscito");
+
+  const handleDelete = (report: ExpenseReport) =>
+    run(async () => {
+      await deleteReport(report.id);
+      setActiveId(null);
+      toast({ title: "Bozza eliminata", description: "Le spese tornano libere in archivio." });
+    }, "Eliminazione non riuscita");
+
+  const handleRemoveExpense = (expenseId: string) =>
+    run(async () => {
+      await removeExpense(expenseId);
+      setExpenses(prev => prev.filter(e => e.id !== expenseId));
+    }, "Rimozione non riuscita");
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-md" onClick={onClose} />
+
+      <div className="relative w-full max-w-md max-h-[90vh] bg-card text-card-foreground rounded-3xl shadow-2xl overflow-hidden animate-scale-in flex flex-col">
+        {/* Header */}
+        <header className="flex items-center justify-between px-6 py-4 border-b border-border/50 shrink-0 bg-card/80 backdrop-blur-md z-10">
+          <div className="flex items-center gap-2 min-w-0">
+            {active && (
+              <button onClick={() => setActiveId(null)} className="p-1 -ml-2 rounded-full hover:bg-secondary transition-colors">
+                <ChevronLeft className="w-5 h-5 text-muted-foreground" />
+              </button>
+            )}
+            <h2 className="text-lg font-bold text-foreground truncate">{active ? active.title : "Note Spese"}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-secondary transition-colors"><X className="w-5 h-5 text-muted-foreground" /></button>
+        </header>
+
+        {/* Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto overflow-x-hidden p-6 scrollbar-hide">
+          {loading && reports.length === 0 ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : !active ? (
+            reports.length === 0 ? (
+              <div className="flex flex-col items-center gap-3 py-12 text-center">
+                <ClipboardList className="w-10 h-10 text-muted-foreground/50" />
+                <p className="text-sm text-muted-foreground">
+                  Nessuna nota spese. Seleziona le spese dall'archivio per crearne una.
+                </p>
+              </div>
+            ) : (
+              <div className="flex flex-col gap-3 animate-slide-up">
+                {reports.map(report => (
+                  <button
+                    key={report.id}
+                    onClick={() => setActiveId(report.id)}
+                    className="w-full flex items-center gap-3 p-4 rounded-2xl bg-secondary/30 hover:bg-secondary/50 transition-colors text-left"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <StatusBadge status={report.status} />
+                        {report.protocol_number && (
+                          <span className="text-xs font-mono text-muted-foreground">{report.protocol_number}</span>
+                        )}
+                      </div>
+                      <p className="font-semibold text-foreground truncate">{report.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatPeriod(report)} · {report.expense_count} spese
+                      </p>
+                    </div>
+                    <span className="font-bold tabular-nums text-foreground">{formatCurrency(report.total_eur)}</span>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0" />
+                  </button>
+                ))}
+              </div>
+            )
+          ) : (
+            <div className="flex flex-col gap-5 animate-slide-up pb-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <StatusBadge status={active.status} />
+                  {active.protocol_number && (
+                    <span className="text-xs font-mono text-muted-foreground">{active.protocol_number}</span>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">{formatPeriod(active)}</span>
+              </div>
+
+              <div className="p-4 rounded-2xl bg-secondary/30 border border-border/50 flex items-baseline justify-between">
+                <span className="text-xs font-bold text-muted-foreground uppercase tracking-wider">Totale</span>
+                <span className="text-2xl font-black tabular-nums text-foreground">{formatCurrency(active.total_eur)}</span>
+              </div>
+
+              {active.sent_to_email && active.status !== "draft" && (
+                <p className="text-xs text-muted-foreground -mt-2">Inviata a {active.sent_to_email}</p>
+              )}
+
+              {loadingExpenses ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <div className="flex flex-col divide-y divide-border/50">
+                  {expenses.map(expense => (
+                    <div key={expense.id} className="flex items-center gap-3 py-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold text-foreground truncate">{expense.merchant || "Sconosciuto"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {expense.date ? format(new Date(expense.date), "d MMM yyyy", { locale: it }) : "—"} · {expense.category || "Spesa"}
+                          {expense.approval_status && ` · ${APPROVAL_STATUS_LABELS[expense.approval_status]}`}
+                        </p>
+                      </div>
+                      <span className="text-sm font-bold tabular-nums">{formatCurrency(expense.amount || 0, expense.currency)}</span>
+                      {active.status === "draft" && (
+                        <button
+                          onClick={() => handleRemoveExpense(expense.id)}
+                          disabled={busy}
+                          title="Togli dalla nota"
+                          className="p-1.5 rounded-full hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer - azioni consentite dallo stato */}
+        {!active && !loading && (
+          <div className="p-5 border-t border-border/50 bg-card/80 backdrop-blur-md shrink-0 z-10">
+            <Button
+              onClick={onCreateNew}
+              className="w-full h-14 rounded-full font-bold text-base bg-primary text-primary-foreground hover:opacity-90 shadow-lg active:scale-95 transition-all"
+            >
+              <Plus className="w-5 h-5 mr-2" />
+              Nuova nota spese
+            </Button>
+          </div>
+        )}
+        {active && (
+          <div className="p-5 border-t border-border/50 bg-card/80 backdrop-blur-md shrink-0 z-10 flex gap-3">
+            {active.status === "draft" && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => handleDelete(active)}
+                  disabled={busy}
+                  className="h-14 rounded-full px-5 text-destructive hover:text-destructive hover:bg-destructive/10 border-destructive/20"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </Button>
+                <Button
+                  onClick={() => handleSubmit(active)}
+                  disabled={busy || active.expense_count === 0}
+                  className="flex-1 h-14 rounded-full font-bold text-base bg-primary text-primary-foreground hover:opacity-90 shadow-lg active:scale-95 transition-all"
+                >
+                  {busy ? <Loader2 className="animate-spin mr-2" /> : <Send className="w-5 h-5 mr-2" />}
+                  Invia nota spese
+                </Button>
+              </>
+            )}
+            {active.status === "submitted" && (
+              <>
+                <p className="flex-1 flex items-center gap-2 text-sm text-muted-foreground py-3">
+                  <Hourglass className="w-4 h-4 shrink-0" />
+                  In approvazione
+                </p>
+                {canTransition("submitted", "draft", "owner", { decided }) && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleWithdraw(active)}
+                    disabled={busy}
+                    title="Ritira in bozza"
+                    className="h-14 rounded-full px-5"
+                  >
+                    <Undo2 className="w-5 h-5" />
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => handleResendEmail(active)}
+                  disabled={busy}
+                  className="h-14 rounded-full px-5"
+                >
+                  {busy ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Mail className="w-5 h-5 mr-2" />}
+                  Reinvia email
+                </Button>
+              </>
+            )}
+            {active.status === "approved" && (
+              canTransition("approved", "reimbursed", "owner", { personal: !active.organization_id }) ? (
+                <Button
+                  onClick={() => handleReimbursed(active)}
+                  disabled={busy}
+                  className="flex-1 h-14 rounded-full font-bold text-base bg-primary text-primary-foreground hover:opacity-90 shadow-lg active:scale-95 transition-all"
+                >
+                  {busy ? <Loader2 className="animate-spin mr-2" /> : <Check className="w-5 h-5 mr-2" />}
+                  Segna come rimborsata
+                </Button>
+              ) : (
+                <p className="flex-1 flex items-center justify-center gap-2 text-sm text-muted-foreground py-3">
+                  <Wallet className="w-4 h-4 shrink-0" />
+                  Approvata: il rimborso lo segna la contabilità
+                </p>
+              )
+            )}
+            {active.status === "reimbursed" && (
+              <p className="flex-1 text-center text-sm text-muted-foreground py-3">
+                Rimborsata il {active.reimbursed_at ? format(new Date(active.reimbursed_at), "d MMMM yyyy", { locale: it }) : "—"}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
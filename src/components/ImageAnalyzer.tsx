@@ -2,23 +2,34 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { X, Loader2, Check } from "lucide-react";
-import { supabase, SUPABASE_URL, SUPABASE_ANON_KEY } from "@/integrations/supabase/client";
+import { X, Loader2, Check, FileText, AlertTriangle, Copy, Crop } from "lucide-react";
+import { SUPABASE_URL } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useProfile } from "@/hooks/useProfile";
-import { useExpenses } from "@/hooks/useExpenses";
+import { useExpenses, type Expense } from "@/hooks/useExpenses";
+import { useBudgetAlerts } from "@/hooks/useBudgetAlerts";
 import { useToast } from "@/hooks/use-toast";
-
-interface ExpenseData {
-  merchant: string;
-  expense_date: string;
-  total: number;
-  currency: string;
-  category: string;
-  vat_number?: string;
-  address?: string;
-  items: any[];
-}
+import { ExpenseItemsTable } from "./ExpenseItemsTable";
+import { CategoryPicker } from "./CategoryPicker";
+import { ProjectPicker } from "./ProjectPicker";
+import { CropEditor } from "./CropEditor";
+import { ExpenseDetail } from "./ExpenseDetail";
+import { isValidPartitaIva } from "@/lib/vat";
+import { isPdfFile } from "@/lib/pdf";
+import { analysisErrorMessage, analyzeReceiptPages, emailErrorDescription, emptyReceiptDraft, sendExpenseEmail, prepareReceipt, processReceiptPhoto, skippedPageCount, uploadReceiptFiles, type ReceiptDraft } from "@/lib/receipts";
+import { cn } from "@/lib/utils";
+import { computeImageHash } from "@/lib/imageHash";
+import { DUPLICATE_REASON_LABELS, findDuplicates, type DuplicateMatch } from "@/lib/duplicates";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { convertToEur, formatCurrency, isBaseCurrency } from "@/lib/currency";
+import { fetchEurRate } from "@/hooks/useExchangeRates";
+import { fetchDefaultAssignment } from "@/hooks/useProjects";
+import { EMPTY_ASSIGNMENT, type ProjectAssignment } from "@/lib/projects";
+import { FULL_FRAME, type Quad } from "@/lib/imageProcessing";
+import { captureDateOf, readPhotoMetadata } from "@/lib/exif";
+import { resolveReceiptLocation, type ReceiptLocation } from "@/lib/location";
+import { FAILED_ANALYSIS_CONFIDENCE, fieldsToReview, type AnalyzedField, type FieldConfidenceMap } from "@/lib/confidence";
 
 interface ImageAnalyzerProps {
   imageFile: File;
@@ -29,28 +40,81 @@ interface ImageAnalyzerProps {
 export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerProps) {
   const { session } = useAuth();
   const { profile } = useProfile();
-  const { addExpense } = useExpenses();
+  const { addExpense, deleteExpense, fetchDuplicateCandidates } = useExpenses();
+  const { warnIfOverBudget } = useBudgetAlerts();
   const { toast } = useToast();
   
   const [imageUrl, setImageUrl] = useState<string>("");
+  // Pagine JPEG inviate all'analisi: una per le foto, più di una per i PDF
+  const [pages, setPages] = useState<string[]>([]);
+  const [pageCount, setPageCount] = useState(0);
+  const [activePage, setActivePage] = useState(0);
+  // Ritaglio applicato alla foto (rilevato automaticamente o corretto nell'editor)
+  const [corners, setCorners] = useState<Quad | undefined>(undefined);
+  const [showCropEditor, setShowCropEditor] = useState(false);
+  // Coordinate dall'EXIF o dal dispositivo: non bloccano l'analisi né il salvataggio
+  const [location, setLocation] = useState<ReceiptLocation | null>(null);
   const [analyzing, setAnalyzing] = useState(true);
   const [sending, setSending] = useState(false);
   const [sent, setSent] = useState(false);
-  const [expenseData, setExpenseData] = useState<ExpenseData | null>(null);
+  const [expenseData, setExpenseData] = useState<ReceiptDraft | null>(null);
   
   const [totalString, setTotalString] = useState("");
 
+  // Campi incerti o riempiti con valori predefiniti: vanno confermati prima del salvataggio
+  const [confidence, setConfidence] = useState<FieldConfidenceMap>({});
+  const [confirmedFields, setConfirmedFields] = useState<AnalyzedField[]>([]);
+  const pendingFields = fieldsToReview(confidence).filter(field => !confirmedFields.includes(field));
+
+  // Possibili duplicati già registrati: il secondo tocco su "Salva comunque" li ignora
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [duplicatesChecked, setDuplicatesChecked] = useState(false);
+  const [viewingExpense, setViewingExpense] = useState<Expense | null>(null);
+
+  // Tasso BCE per l'anteprima del controvalore in EUR (undefined = non ancora cercato)
+  const [eurRate, setEurRate] = useState<{ rate: number; rate_date: string } | null | undefined>(undefined);
+  const [assignment, setAssignment] = useState<ProjectAssignment>(EMPTY_ASSIGNMENT);
+
+  const isPdf = isPdfFile(imageFile);
+
   const recipientEmails = profile?.default_emails?.length 
     ? profile.default_emails 
     : ["wdellavedova@j-invest.eu"];
 
+  // Progetto predefinito del profilo, modificabile prima dell'invio
+  useEffect(() => {
+    if (!session?.user.id) return;
+    fetchDefaultAssignment(session.user.id)
+      .then(setAssignment)
+      .catch(error => console.warn("Default project fetch failed", error));
+  }, [session?.user.id]);
+
   useEffect(() => {
     const url = URL.createObjectURL(imageFile);
     setImageUrl(url);
     analyzeReceipt();
-    return () => URL.revokeObjectURL(url);
+
+    let cancelled = false;
+    setLocation(null);
+    resolveReceiptLocation(imageFile).then(result => { if (!cancelled) setLocation(result); });
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
   }, [imageFile]);
 
+  const rateCurrency = expenseData?.currency;
+  const rateDate = expenseData?.expense_date;
+  useEffect(() => {
+    setEurRate(undefined);
+    if (!rateCurrency || rateCurrency.length !== 3 || isBaseCurrency(rateCurrency) || !rateDate) return;
+    let cancelled = false;
+    fetchEurRate(rateCurrency, rateDate)
+      .then(rate => { if (!cancelled) setEurRate(rate); })
+      .catch(() => { if (!cancelled) setEurRate(null); });
+    return () => { cancelled = true; };
+  }, [rateCurrency, rateDate]);
+
   // Sync totalString with expenseData.total whenever it changes (e.g. from analysis)
   useEffect(() => {
     if (expenseData && expenseData.total !== undefined) {
@@ -61,100 +125,68 @@ export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerPr
     }
   }, [expenseData?.total]);
 
-  async function compressImage(file: File): Promise<string> {
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement("canvas");
-          let { width, height } = img;
-          
-          // OTTIMIZZAZIONE: Ridotto maxDim a 1024 per velocizzare l'upload
-          const maxDim = 1024; 
-          if (width > maxDim || height > maxDim) {
-            if (width > height) { height = (height / width) * maxDim; width = maxDim; }
-            else { width = (width / height) * maxDim; height = maxDim; }
-          }
-          canvas.width = width; canvas.height = height;
-          const ctx = canvas.getContext("2d");
-          ctx?.drawImage(img, 0, 0, width, height);
-          resolve(canvas.toDataURL("image/jpeg", 0.7));
-        };
-        img.src = e.target?.result as string;
-      };
-      reader.readAsDataURL(file);
-    });
+  async function preparePages(cropCorners?: Quad): Promise<string[]> {
+    const prepared = cropCorners ? await processReceiptPhoto(imageFile, cropCorners) : await prepareReceipt(imageFile);
+    setPageCount(prepared.pageCount);
+    setCorners(prepared.corners);
+    return prepared.pages;
   }
 
-  async function analyzeReceipt() {
+  async function analyzeReceipt(cropCorners?: Quad) {
     try {
-      const base64Image = await compressImage(imageFile);
+      const [preparedPages, metadata] = await Promise.all([preparePages(cropCorners), readPhotoMetadata(imageFile)]);
+      setPages(preparedPages);
       
       console.log("Calling Edge Function at:", `${SUPABASE_URL}/functions/v1/analyze-receipt`);
-      
-      const response = await fetch(`${SUPABASE_URL}/functions/v1/analyze-receipt`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session?.access_token}`,
-          'apikey': SUPABASE_ANON_KEY
-        },
-        body: JSON.stringify({ image: base64Image })
-      });
-
-      if (!response.ok) throw new Error("Errore durante l'analisi");
 
-      const result = await response.json();
-      
-      // LOGGING ESTREMO LATO CLIENT
-      console.log("DATI RICEVUTI DA SUPABASE (Raw):", result);
-      
-      if (!result.success || !result.data) {
-        console.warn("Dati incompleti o errore API:", result);
-        throw new Error("Dati non validi");
-      }
-
-      const receivedData = result.data;
-      console.log("Mapping dati frontend:", receivedData);
-
-      // MAPPING DEI DATI DALL'IA
-      setExpenseData({
-        merchant: receivedData.description || "Sconosciuto",
-        // Usa la data restituita dall'IA se presente, altrimenti oggi
-        expense_date: receivedData.date || new Date().toISOString().split("T")[0],
-        total: receivedData.amount || 0,
-        currency: "EUR",
-        category: receivedData.category || "",
-        vat_number: "",
-        address: "",
-        items: []
+      const analysis = await analyzeReceiptPages(preparedPages, session?.access_token, {
+        fallbackDate: captureDateOf(metadata),
       });
+      console.log("Mapping dati frontend:", analysis);
+
+      setExpenseData(analysis.draft);
+      setConfidence(analysis.confidence);
 
     } catch (error: any) {
       console.error("Analysis error:", error);
-      toast({
-        title: "Errore Analisi",
-        description: "Impossibile analizzare l'immagine. Verifica la connessione.",
-        variant: "destructive"
-      });
-      setExpenseData({ 
-        merchant: "", 
-        expense_date: new Date().toISOString().split("T")[0], 
-        total: 0, 
-        currency: "EUR", 
-        category: "", 
-        vat_number: "",
-        address: "",
-        items: [] 
-      });
+      const { title, description } = analysisErrorMessage(error);
+      toast({ title, description, variant: "destructive" });
+      setExpenseData(emptyReceiptDraft());
+      setConfidence(FAILED_ANALYSIS_CONFIDENCE);
     } finally {
       setAnalyzing(false);
     }
   }
 
+  const confirmField = (field: AnalyzedField) => {
+    setConfirmedFields(prev => prev.includes(field) ? prev : [...prev, field]);
+  };
+
+  const isPending = (field: AnalyzedField) => pendingFields.includes(field);
+
+  const reviewLabel = (field: AnalyzedField, text: string) => (
+    <div className="flex items-center justify-between gap-2 min-h-[1.25rem]">
+      <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">{text}</Label>
+      {isPending(field) && (
+        <button
+          type="button"
+          onClick={() => confirmField(field)}
+          title={confidence[field]?.defaulted ? "Valore non letto dal documento" : "Lettura incerta"}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-500/15 text-amber-600 text-[10px] font-bold uppercase tracking-wider hover:bg-amber-500/25 transition-colors"
+        >
+          <Check className="w-3 h-3" strokeWidth={3} />
+          Conferma
+        </button>
+      )}
+    </div>
+  );
+
+  const reviewClass = (field: AnalyzedField) =>
+    isPending(field) ? "ring-2 ring-amber-500/60 bg-amber-500/5" : "";
+
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = e.target.value;
+    confirmField("amount");
     // Permettiamo numeri, punti e virgole
     if (/^[0-9.,]*$/.test(val)) {
       setTotalString(val);
@@ -171,54 +203,90 @@ export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerPr
     
     setSending(true);
     try {
-      const base64Image = await compressImage(imageFile);
-      const fileName = `${session.user.id}/${Date.now()}.jpg`;
-      const blob = await (await fetch(base64Image)).blob();
-      
-      await supabase.storage.from("receipts").upload(fileName, blob, { upsert: true });
-      const { data: { publicUrl } } = supabase.storage.from("receipts").getPublicUrl(fileName);
+      const preparedPages = pages.length > 0 ? pages : await preparePages();
+      // Miniatura: la foto compressa o la prima pagina del PDF
+      const base64Image = preparedPages[0];
 
       const cleanVal = totalString.replace(/\./g, '').replace(',', '.');
       const finalTotal = parseFloat(cleanVal) || 0;
 
-      const emailPayload = {
-        ...expenseData,
-        total: finalTotal,
-        date: expenseData.expense_date 
-      };
-
-      const emailResponse = await fetch(`${SUPABASE_URL}/functions/v1/send-expense-email`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session?.access_token}`,
-          'apikey': SUPABASE_ANON_KEY
-        },
-        body: JSON.stringify({ 
-          to: recipientEmails, 
-          expense: emailPayload, 
-          imageBase64: base64Image 
-        })
+      const imageHash = await computeImageHash(base64Image).catch((error) => {
+        console.warn("Image hash error:", error);
+        return null;
       });
 
-      if (!emailResponse.ok) throw new Error("Errore email");
+      // CONTROLLO DUPLICATI prima di caricare e inviare l'email
+      if (!duplicatesChecked) {
+        setDuplicatesChecked(true);
+        try {
+          const candidates = await fetchDuplicateCandidates(expenseData.expense_date);
+          const matches = findDuplicates({
+            merchant: expenseData.merchant,
+            date: expenseData.expense_date,
+            amount: finalTotal,
+            image_hash: imageHash
+          }, candidates);
+          if (matches.length > 0) {
+            setDuplicates(matches);
+            return;
+          }
+        } catch (error) {
+          // Il controllo non deve impedire il salvataggio
+          console.warn("Duplicate check error:", error);
+        }
+      }
+
+      const { imageUrl: publicUrl, documentUrl, documentBase64 } = await uploadReceiptFiles(session.user.id, imageFile, base64Image);
+
+      // Scarta le righe lasciate vuote nella tabella articoli
+      const items = expenseData.items.filter(item => item.name.trim().length > 0);
+
+      const currency = expenseData.currency.length === 3 ? expenseData.currency : "EUR";
+
+      // Di norma le spese partono con la nota spese: l'email singola solo se richiesta dal profilo
+      const emailEachExpense = !!profile?.email_each_expense;
+      if (emailEachExpense) {
+        await sendExpenseEmail({ 
+          to: recipientEmails, 
+          expense: {
+            ...expenseData,
+            currency,
+            items,
+            total: finalTotal,
+            date: expenseData.expense_date 
+          }, 
+          imageBase64: base64Image,
+          documentBase64
+        }, session?.access_token);
+      }
 
       // MAP TO DB SCHEMA (expenses table)
       const dbPayload = {
         merchant: expenseData.merchant,
         date: expenseData.expense_date, // Mapped to date
-        amount: emailPayload.total,     // Mapped to amount
-        currency: expenseData.currency,
+        amount: finalTotal,             // Mapped to amount
+        currency,
         category: expenseData.category,
+        ...assignment,
         vat_number: expenseData.vat_number,
         address: expenseData.address,
-        items: expenseData.items,
+        items,
         image_url: publicUrl,
-        sent_to_email: recipientEmails.join(", "),
-        sent_at: new Date().toISOString()
+        image_hash: imageHash,
+        document_url: documentUrl,
+        skipped_pages: skippedPageCount({ pages, pageCount }),
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        location_source: location?.location_source ?? null,
+        captured_at: location?.captured_at ?? null,
+        ...(emailEachExpense && {
+          sent_to_email: recipientEmails.join(", "),
+          sent_at: new Date().toISOString()
+        })
       };
 
-      await addExpense(dbPayload);
+      const saved = await addExpense(dbPayload);
+      if (saved) warnIfOverBudget(saved);
 
       setSent(true);
       setTimeout(onSuccess, 1500);
@@ -227,7 +295,7 @@ export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerPr
       console.error("Send error:", error);
       toast({ 
         title: "Errore invio", 
-        description: "Riprova.", 
+        description: emailErrorDescription(error, "Riprova."), 
         variant: "destructive" 
       });
     } finally {
@@ -249,7 +317,19 @@ export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerPr
         {/* Content - Scrollable */}
         <div className="flex-1 overflow-y-auto overflow-x-hidden p-6 scrollbar-hide">
           <div className="relative aspect-video rounded-2xl overflow-hidden bg-secondary/30 border border-border/50 shadow-sm mb-6 shrink-0">
-            <img src={imageUrl} alt="Scontrino" className="w-full h-full object-contain" />
+            {isPdf ? (
+              pages[activePage] && <img src={pages[activePage]} alt={`Pagina ${activePage + 1}`} className="w-full h-full object-contain bg-white" />
+            ) : (
+              <img src={pages[0] || imageUrl} alt="Scontrino" className="w-full h-full object-contain bg-white" />
+            )}
+            {!isPdf && !analyzing && !sent && (
+              <button
+                onClick={() => setShowCropEditor(true)}
+                className="absolute bottom-3 right-3 flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-background/90 text-foreground text-xs font-semibold shadow-lg backdrop-blur-sm hover:bg-background transition-colors"
+              >
+                <Crop className="w-3.5 h-3.5" /> Ritaglia
+              </button>
+            )}
             {analyzing && (
               <div className="absolute inset-0 bg-background/50 flex items-center justify-center backdrop-blur-sm">
                 <div className="text-center">
@@ -265,16 +345,50 @@ export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerPr
             )}
           </div>
 
+          {/* Pagine del PDF */}
+          {isPdf && pages.length > 0 && (
+            <div className="-mt-3 mb-6 space-y-2">
+              {skippedPageCount({ pages, pageCount }) > 0 ? (
+                <p className="flex items-center gap-2 text-xs font-medium text-amber-600 ml-1">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  Analizzate le prime {pages.length} pagine di {pageCount}: controlla i dati sul PDF originale.
+                </p>
+              ) : (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground ml-1">
+                  <FileText className="w-4 h-4" />
+                  <span>{pages.length} {pages.length === 1 ? "pagina" : "pagine"}</span>
+                </div>
+              )}
+              {pages.length > 1 && (
+                <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+                  {pages.map((page, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setActivePage(index)}
+                      className={cn(
+                        "relative w-14 h-20 shrink-0 rounded-lg overflow-hidden border-2 bg-white transition-colors",
+                        activePage === index ? "border-primary" : "border-border/50"
+                      )}
+                    >
+                      <img src={page} alt={`Pagina ${index + 1}`} className="w-full h-full object-cover" />
+                      <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-[10px] text-center">{index + 1}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {!analyzing && expenseData && !sent && (
             <div className="flex flex-col gap-5 animate-slide-up pb-4">
               
               {/* Merchant */}
               <div className="space-y-2">
-                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Esercente</Label>
+                {reviewLabel("description", "Esercente")}
                 <Input 
                   value={expenseData.merchant || ""} 
-                  onChange={(e) => setExpenseData({...expenseData, merchant: e.target.value})} 
-                  className="rounded-2xl h-14 px-4 text-lg font-medium bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm appearance-none"
+                  onChange={(e) => { confirmField("description"); setExpenseData({...expenseData, merchant: e.target.value}); }} 
+                  className={cn("rounded-2xl h-14 px-4 text-lg font-medium bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm appearance-none", reviewClass("description"))}
                   placeholder="Nome Esercente"
                 />
               </div>
@@ -284,19 +398,19 @@ export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerPr
                 
                 {/* DATA: 35% */}
                 <div className="space-y-2 flex-none" style={{ width: '35%' }}>
-                  <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Data</Label>
+                  {reviewLabel("date", "Data")}
                   <Input 
                     type="date" 
                     value={expenseData.expense_date || ""} 
-                    onChange={(e) => setExpenseData({...expenseData, expense_date: e.target.value})} 
-                    className="w-full rounded-2xl h-14 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm min-w-0 appearance-none" 
+                    onChange={(e) => { confirmField("date"); setExpenseData({...expenseData, expense_date: e.target.value}); }} 
+                    className={cn("w-full rounded-2xl h-14 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm min-w-0 appearance-none", reviewClass("date"))}
                     style={{ WebkitAppearance: 'none' }}
                   />
                 </div>
 
                 {/* TOTALE: 42% */}
                 <div className="space-y-2 flex-none" style={{ width: '42%' }}>
-                  <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Totale</Label>
+                  {reviewLabel("amount", "Totale")}
                   <div className="relative w-full">
                     <Input 
                       type="text" 
@@ -304,22 +418,87 @@ export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerPr
                       placeholder="0,00"
                       value={totalString}
                       onChange={handleAmountChange} 
-                      className="w-full rounded-2xl h-14 pl-4 pr-10 text-lg font-bold text-right bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm min-w-0 appearance-none" 
+                      className={cn("w-full rounded-2xl h-14 pl-4 pr-10 text-lg font-bold text-right bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm min-w-0 appearance-none", reviewClass("amount"))}
                       style={{ WebkitAppearance: 'none' }}
                     />
-                     <span className="absolute right-4 top-1/2 -translate-y-1/2 text-muted-foreground font-medium pointer-events-none">€</span>
+                     <span className="absolute right-4 top-1/2 -translate-y-1/2 text-muted-foreground font-medium pointer-events-none">
+                       {expenseData.currency === "EUR" ? "€" : expenseData.currency}
+                     </span>
                   </div>
                 </div>
               </div>
 
               {/* Category */}
               <div className="space-y-2">
-                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Categoria</Label>
-                <Input 
+                {reviewLabel("category", "Categoria")}
+                <CategoryPicker 
                   value={expenseData.category || ""} 
-                  onChange={(e) => setExpenseData({...expenseData, category: e.target.value})} 
-                  className="rounded-2xl h-14 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm appearance-none"
-                  placeholder="Categoria Spesa"
+                  onChange={(category) => { confirmField("category"); setExpenseData({...expenseData, category}); }} 
+                  className={cn("rounded-2xl h-14 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm", reviewClass("category"))}
+                />
+              </div>
+
+              {/* Progetto, cliente e centro di costo */}
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Progetto</Label>
+                <ProjectPicker
+                  value={assignment}
+                  onChange={setAssignment}
+                  className="rounded-2xl h-14 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm"
+                />
+              </div>
+
+              {/* Partita IVA e Valuta */}
+              <div className="flex gap-4 w-full">
+                <div className="space-y-2 flex-1 min-w-0">
+                  {reviewLabel("vat_number", "Partita IVA")}
+                  <Input 
+                    value={expenseData.vat_number || ""} 
+                    onChange={(e) => { confirmField("vat_number"); setExpenseData({...expenseData, vat_number: e.target.value}); }} 
+                    inputMode="numeric"
+                    className={cn("rounded-2xl h-14 px-4 text-base font-mono bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm appearance-none", reviewClass("vat_number"))}
+                    placeholder="01234567890"
+                  />
+                  {expenseData.vat_number && !isValidPartitaIva(expenseData.vat_number) && (
+                    <p className="text-xs text-destructive ml-1">Partita IVA non valida</p>
+                  )}
+                </div>
+                <div className="space-y-2 flex-none w-24">
+                  {reviewLabel("currency", "Valuta")}
+                  <Input 
+                    value={expenseData.currency || ""} 
+                    onChange={(e) => { confirmField("currency"); setExpenseData({...expenseData, currency: e.target.value.toUpperCase().replace(/[^A-Z]/g, "").slice(0, 3)}); }} 
+                    className={cn("rounded-2xl h-14 px-4 text-base font-mono uppercase text-center bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm appearance-none", reviewClass("currency"))}
+                    placeholder="EUR"
+                  />
+                </div>
+              </div>
+              {expenseData.currency.length === 3 && !isBaseCurrency(expenseData.currency) && eurRate !== undefined && (
+                <p className="text-xs text-muted-foreground -mt-4 ml-1">
+                  {eurRate
+                    ? `≈ ${formatCurrency(convertToEur(parseFloat(totalString.replace(/\./g, "").replace(",", ".")) || 0, eurRate.rate))} al cambio BCE del ${format(new Date(eurRate.rate_date), "d MMM yyyy", { locale: it })}`
+                    : "Tasso di cambio non disponibile: importa i cambi BCE dalle Impostazioni"}
+                </p>
+              )}
+
+              {/* Address */}
+              <div className="space-y-2">
+                {reviewLabel("address", "Indirizzo")}
+                <Input 
+                  value={expenseData.address || ""} 
+                  onChange={(e) => { confirmField("address"); setExpenseData({...expenseData, address: e.target.value}); }} 
+                  className={cn("rounded-2xl h-14 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm appearance-none", reviewClass("address"))}
+                  placeholder="Via, CAP, Città"
+                />
+              </div>
+
+              {/* Items */}
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Articoli</Label>
+                <ExpenseItemsTable
+                  items={expenseData.items}
+                  currency={expenseData.currency}
+                  onChange={(items) => setExpenseData({ ...expenseData, items })}
                 />
               </div>
               
@@ -330,16 +509,53 @@ export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerPr
         {/* Footer - Fixed */}
         {!analyzing && expenseData && !sent && (
           <div className="p-5 border-t border-border/50 bg-card/80 backdrop-blur-md shrink-0 z-10">
+            {duplicates.length > 0 && (
+              <div className="mb-3 rounded-2xl border border-amber-500/30 bg-amber-500/10 p-3 space-y-2">
+                <p className="flex items-center gap-2 text-xs font-bold text-amber-600">
+                  <Copy className="w-4 h-4 shrink-0" />
+                  Possibile duplicato di:
+                </p>
+                {duplicates.slice(0, 3).map(({ expense, reasons }) => (
+                  <button
+                    key={expense.id}
+                    onClick={() => setViewingExpense(expense)}
+                    className="w-full flex items-center justify-between gap-3 rounded-xl bg-card/80 px-3 py-2 text-left hover:bg-card transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{expense.merchant || "Sconosciuto"}</p>
+                      <p className="text-[11px] text-muted-foreground truncate">
+                        {expense.date ? format(new Date(expense.date), "d MMM yyyy", { locale: it }) : "-"}
+                        {" · "}
+                        {reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(", ")}
+                      </p>
+                    </div>
+                    <span className="text-sm font-bold tabular-nums text-foreground shrink-0">
+                      {formatCurrency(expense.amount, expense.currency)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {pendingFields.length > 0 && (
+              <p className="flex items-center justify-center gap-2 text-xs font-medium text-amber-600 mb-3">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                {pendingFields.length === 1
+                  ? "Conferma o correggi il campo evidenziato"
+                  : `Conferma o correggi i ${pendingFields.length} campi evidenziati`}
+              </p>
+            )}
             <Button 
               onClick={handleSend} 
-              disabled={sending} 
+              disabled={sending || pendingFields.length > 0} 
               className="w-full h-14 rounded-full font-bold text-base bg-primary text-primary-foreground hover:opacity-90 shadow-lg active:scale-95 transition-all"
             >
               {sending ? (
                 <>
                   <Loader2 className="animate-spin mr-2" />
-                  Invio in corso...
+                  {profile?.email_each_expense ? "Invio in corso..." : "Salvataggio..."}
                 </>
+              ) : duplicates.length > 0 ? (
+                "Salva comunque"
               ) : (
                 "Conferma e Salva"
               )}
@@ -347,6 +563,35 @@ export function ImageAnalyzer({ imageFile, onClose, onSuccess }: ImageAnalyzerPr
           </div>
         )}
       </div>
+
+      {viewingExpense && (
+        <ExpenseDetail
+          expense={viewingExpense}
+          onClose={() => setViewingExpense(null)}
+          onDelete={() => {
+            deleteExpense(viewingExpense.id);
+            setDuplicates(prev => prev.filter(match => match.expense.id !== viewingExpense.id));
+          }}
+          onUpdate={() => {}}
+        />
+      )}
+
+      {showCropEditor && (
+        <CropEditor
+          imageUrl={imageUrl}
+          corners={corners ?? FULL_FRAME}
+          onClose={() => setShowCropEditor(false)}
+          onApply={(newCorners) => {
+            // Nuovo ritaglio: l'immagine inviata cambia, quindi si ripete l'analisi
+            setShowCropEditor(false);
+            setAnalyzing(true);
+            setConfirmedFields([]);
+            setDuplicates([]);
+            setDuplicatesChecked(false);
+            analyzeReceipt(newCorners);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
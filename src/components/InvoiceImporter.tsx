@@ -0,0 +1,204 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { X, Loader2, Check, FileCode2, AlertTriangle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useExpenses } from "@/hooks/useExpenses";
+import { useBudgetAlerts } from "@/hooks/useBudgetAlerts";
+import { useToast } from "@/hooks/use-toast";
+import { ExpenseItemsTable } from "./ExpenseItemsTable";
+import { CategoryPicker } from "./CategoryPicker";
+import { FatturaPAError, readFatturaPA, type ParsedInvoice } from "@/lib/fatturapa";
+import { FALLBACK_CATEGORY_NAME } from "@/lib/categories";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+
+interface InvoiceImporterProps {
+  file: File;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function InvoiceImporter({ file, onClose, onSuccess }: InvoiceImporterProps) {
+  const { session } = useAuth();
+  const { addExpense } = useExpenses();
+  const { warnIfOverBudget } = useBudgetAlerts();
+  const { toast } = useToast();
+
+  const [invoice, setInvoice] = useState<ParsedInvoice | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [category, setCategory] = useState(FALLBACK_CATEGORY_NAME);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setInvoice(null);
+    setParseError(null);
+    readFatturaPA(file)
+      .then(setInvoice)
+      .catch((error) => {
+        console.error("FatturaPA parse error:", error);
+        setParseError(error instanceof FatturaPAError ? error.message : "Impossibile leggere il file della fattura");
+      });
+  }, [file]);
+
+  const formatAmount = (value: number) =>
+    value.toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  async function handleImport() {
+    if (!invoice || !session) return;
+
+    setSaving(true);
+    try {
+      // Il file originale (XML o p7m firmato) resta archiviato come giustificativo
+      const extension = file.name.toLowerCase().endsWith(".p7m") ? "xml.p7m" : "xml";
+      const fileName = `${session.user.id}/${Date.now()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from("receipts")
+        .upload(fileName, file, { upsert: true, contentType: file.type || "application/octet-stream" });
+      if (uploadError) throw uploadError;
+      const { data: { publicUrl } } = supabase.storage.from("receipts").getPublicUrl(fileName);
+
+      const saved = await addExpense({
+        merchant: invoice.merchant,
+        date: invoice.date || new Date().toISOString().split("T")[0],
+        amount: invoice.total,
+        currency: invoice.currency,
+        category,
+        vat_number: invoice.vat_number,
+        address: invoice.address,
+        items: invoice.items,
+        vat_breakdown: invoice.vat_breakdown,
+        image_url: null,
+        document_url: publicUrl,
+      });
+      if (saved) warnIfOverBudget(saved);
+
+      setSaved(true);
+      setTimeout(onSuccess, 1500);
+    } catch (error) {
+      console.error("Invoice import error:", error);
+      toast({
+        title: "Errore importazione",
+        description: "Riprova.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-md" onClick={onClose} />
+
+      <div className="relative w-full max-w-md max-h-[90vh] bg-card text-card-foreground rounded-3xl shadow-2xl overflow-hidden animate-scale-in flex flex-col">
+        {/* Header */}
+        <header className="flex items-center justify-between px-6 py-4 border-b border-border/50 shrink-0 bg-card/80 backdrop-blur-md z-10">
+          <h2 className="text-lg font-bold text-foreground">Fattura Elettronica</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-secondary transition-colors"><X className="w-5 h-5 text-muted-foreground" /></button>
+        </header>
+
+        {/* Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto overflow-x-hidden p-6 scrollbar-hide">
+          {parseError ? (
+            <div className="flex flex-col items-center text-center gap-3 py-10 text-muted-foreground">
+              <AlertTriangle className="w-10 h-10 text-amber-500" />
+              <p className="text-sm font-medium">{parseError}</p>
+              <p className="text-xs">{file.name}</p>
+            </div>
+          ) : !invoice ? (
+            <div className="flex flex-col items-center gap-2 py-10">
+              <Loader2 className="w-10 h-10 animate-spin text-primary" />
+              <p className="text-sm font-medium">Lettura fattura...</p>
+            </div>
+          ) : saved ? (
+            <div className="flex items-center justify-center py-16">
+              <Check className="w-16 h-16 text-success animate-scale-in" />
+            </div>
+          ) : (
+            <div className="flex flex-col gap-5 animate-slide-up pb-4">
+              {/* Summary */}
+              <div className="bg-secondary/30 rounded-2xl p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-primary/10 text-primary flex items-center justify-center shrink-0">
+                    <FileCode2 className="w-5 h-5" strokeWidth={1.5} />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-bold text-foreground truncate">{invoice.merchant || "Fornitore sconosciuto"}</p>
+                    <p className="text-xs text-muted-foreground font-mono">{invoice.vat_number}</p>
+                  </div>
+                </div>
+                {invoice.address && <p className="text-xs text-muted-foreground">{invoice.address}</p>}
+                <div className="flex items-end justify-between pt-2 border-t border-border/50">
+                  <div className="text-xs text-muted-foreground">
+                    {invoice.number && <p>Fattura n. {invoice.number}</p>}
+                    {invoice.date && <p>{format(new Date(invoice.date), "d MMMM yyyy", { locale: it })}</p>}
+                  </div>
+                  <p className="text-2xl font-black tabular-nums text-foreground">
+                    {invoice.currency === "EUR" ? "€" : invoice.currency} {formatAmount(invoice.total)}
+                  </p>
+                </div>
+              </div>
+
+              {/* Category */}
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Categoria</Label>
+                <CategoryPicker
+                  value={category}
+                  onChange={setCategory}
+                  className="rounded-2xl h-14 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm"
+                />
+              </div>
+
+              {/* VAT breakdown */}
+              {invoice.vat_breakdown.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Riepilogo IVA</Label>
+                  <div className="rounded-2xl border border-border/50 divide-y divide-border/50 text-sm">
+                    {invoice.vat_breakdown.map((row, index) => (
+                      <div key={index} className="flex items-center justify-between px-4 py-2 tabular-nums">
+                        <span className="font-medium">{row.nature || `${row.vat_rate}%`}</span>
+                        <span className="text-muted-foreground">Imponibile {formatAmount(row.taxable)}</span>
+                        <span className="font-medium">IVA {formatAmount(row.tax)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Items */}
+              {invoice.items.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Righe</Label>
+                  <ExpenseItemsTable items={invoice.items} currency={invoice.currency} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer - Fixed */}
+        {invoice && !saved && (
+          <div className="p-5 border-t border-border/50 bg-card/80 backdrop-blur-md shrink-0 z-10">
+            <Button
+              onClick={handleImport}
+              disabled={saving}
+              className="w-full h-14 rounded-full font-bold text-base bg-primary text-primary-foreground hover:opacity-90 shadow-lg active:scale-95 transition-all"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="animate-spin mr-2" />
+                  Importazione...
+                </>
+              ) : (
+                "Importa Fattura"
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
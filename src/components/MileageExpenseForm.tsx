@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Loader2, Check, Car } from "lucide-react";
+import { useExpenses } from "@/hooks/useExpenses";
+import { useBudgetAlerts } from "@/hooks/useBudgetAlerts";
+import { useVehicles } from "@/hooks/useVehicles";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MILEAGE_CATEGORY_NAME,
+  computeMileageAmount,
+  formatCostPerKm,
+  formatKm,
+  mileageRoute,
+  parseDecimal,
+} from "@/lib/mileage";
+import { cn } from "@/lib/utils";
+
+interface MileageExpenseFormProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const MANUAL_VEHICLE = "manual";
+
+const fieldClassName = "w-full rounded-2xl h-14 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm";
+
+export function MileageExpenseForm({ onClose, onSuccess }: MileageExpenseFormProps) {
+  const { addExpense } = useExpenses();
+  const { warnIfOverBudget } = useBudgetAlerts();
+  const { vehicles, defaultVehicle } = useVehicles();
+  const { toast } = useToast();
+
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [origin, setOrigin] = useState("");
+  const [destination, setDestination] = useState("");
+  const [distance, setDistance] = useState("");
+  const [roundTrip, setRoundTrip] = useState(false);
+  const [vehicleId, setVehicleId] = useState(MANUAL_VEHICLE);
+  const [costPerKm, setCostPerKm] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  // Veicolo predefinito appena caricato
+  useEffect(() => {
+    if (defaultVehicle && vehicleId === MANUAL_VEHICLE && !costPerKm) {
+      setVehicleId(defaultVehicle.id);
+      setCostPerKm(String(defaultVehicle.cost_per_km).replace(".", ","));
+    }
+  }, [defaultVehicle, vehicleId, costPerKm]);
+
+  const handleVehicleChange = (id: string) => {
+    setVehicleId(id);
+    const vehicle = vehicles.find(v => v.id === id);
+    if (vehicle) setCostPerKm(String(vehicle.cost_per_km).replace(".", ","));
+  };
+
+  const oneWayKm = parseDecimal(distance) ?? 0;
+  const totalKm = roundTrip ? oneWayKm * 2 : oneWayKm;
+  const rate = parseDecimal(costPerKm) ?? 0;
+  const amount = computeMileageAmount(totalKm, rate);
+  const canSave = !!origin.trim() && !!destination.trim() && !!date && amount > 0;
+
+  async function handleSave() {
+    if (!canSave) return;
+
+    setSaving(true);
+    try {
+      const saved = await addExpense({
+        expense_type: "mileage",
+        merchant: mileageRoute(origin, destination, roundTrip),
+        date,
+        amount,
+        currency: "EUR",
+        category: MILEAGE_CATEGORY_NAME,
+        origin: origin.trim(),
+        destination: destination.trim(),
+        distance_km: totalKm,
+        cost_per_km: rate,
+        vehicle_id: vehicleId === MANUAL_VEHICLE ? null : vehicleId,
+        image_url: null,
+      });
+      if (saved) warnIfOverBudget(saved);
+
+      setSaved(true);
+      setTimeout(onSuccess, 1500);
+    } catch (error) {
+      console.error("Mileage save error:", error);
+      toast({
+        title: "Errore salvataggio",
+        description: "Riprova.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-md" onClick={onClose} />
+
+      <div className="relative w-full max-w-md max-h-[90vh] bg-card text-card-foreground rounded-3xl shadow-2xl overflow-hidden animate-scale-in flex flex-col">
+        {/* Header */}
+        <header className="flex items-center justify-between px-6 py-4 border-b border-border/50 shrink-0 bg-card/80 backdrop-blur-md z-10">
+          <h2 className="text-lg font-bold text-foreground">Rimborso Chilometrico</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-secondary transition-colors"><X className="w-5 h-5 text-muted-foreground" /></button>
+        </header>
+
+        {/* Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto overflow-x-hidden p-6 scrollbar-hide">
+          {saved ? (
+            <div className="flex items-center justify-center py-16">
+              <Check className="w-16 h-16 text-success animate-scale-in" />
+            </div>
+          ) : (
+            <div className="flex flex-col gap-5 animate-slide-up pb-4">
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Data</Label>
+                <Input
+                  type="date"
+                  value={date}
+                  onChange={e => setDate(e.target.value)}
+                  className={cn(fieldClassName, "min-w-0 appearance-none")}
+                  style={{ WebkitAppearance: 'none' }}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Partenza</Label>
+                <Input placeholder="es. Milano" value={origin} onChange={e => setOrigin(e.target.value)} className={fieldClassName} />
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Destinazione</Label>
+                <Input placeholder="es. Bergamo" value={destination} onChange={e => setDestination(e.target.value)} className={fieldClassName} />
+              </div>
+
+              <div className="flex gap-4 items-end">
+                <div className="space-y-2 flex-1">
+                  <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Km (sola andata)</Label>
+                  <Input
+                    inputMode="decimal"
+                    placeholder="0"
+                    value={distance}
+                    onChange={e => setDistance(e.target.value)}
+                    className={cn(fieldClassName, "font-mono")}
+                  />
+                </div>
+                <label className="flex items-center gap-2 h-14 shrink-0 text-sm text-foreground">
+                  <Switch checked={roundTrip} onCheckedChange={setRoundTrip} />
+                  Andata e ritorno
+                </label>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Veicolo</Label>
+                <Select value={vehicleId} onValueChange={handleVehicleChange}>
+                  <SelectTrigger className={cn(fieldClassName, "text-left")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  {/* z-index sopra i modali (z-[100]) */}
+                  <SelectContent className="z-[200] rounded-2xl">
+                    {vehicles.map(vehicle => (
+                      <SelectItem key={vehicle.id} value={vehicle.id}>
+                        {vehicle.name}{vehicle.plate ? ` · ${vehicle.plate}` : ""}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={MANUAL_VEHICLE}>Altro veicolo</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Costo al km (€)</Label>
+                <Input
+                  inputMode="decimal"
+                  placeholder="0,0000"
+                  value={costPerKm}
+                  onChange={e => setCostPerKm(e.target.value)}
+                  className={cn(fieldClassName, "font-mono")}
+                />
+              </div>
+
+              {/* Summary */}
+              <div className="bg-secondary/30 rounded-2xl p-4 flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-primary/10 text-primary flex items-center justify-center shrink-0">
+                  <Car className="w-5 h-5" strokeWidth={1.5} />
+                </div>
+                <div className="flex-1 min-w-0 text-xs text-muted-foreground font-mono">
+                  <p>{formatKm(totalKm)}</p>
+                  <p>× {formatCostPerKm(rate)}</p>
+                </div>
+                <p className="text-2xl font-black tabular-nums text-foreground">
+                  € {amount.toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer - Fixed */}
+        {!saved && (
+          <div className="p-5 border-t border-border/50 bg-card/80 backdrop-blur-md shrink-0 z-10">
+            <Button
+              onClick={handleSave}
+              disabled={saving || !canSave}
+              className="w-full h-14 rounded-full font-bold text-base bg-primary text-primary-foreground hover:opacity-90 shadow-lg active:scale-95 transition-all"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="animate-spin mr-2" />
+                  Salvataggio...
+                </>
+              ) : (
+                "Salva Rimborso"
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Car, FileUp, Loader2, Star, X } from "lucide-react";
+import { useAciTariffs, type StoredAciTariff } from "@/hooks/useAciTariffs";
+import { useVehicles } from "@/hooks/useVehicles";
+import { useToast } from "@/hooks/use-toast";
+import { AciTariffCsvError, formatCostPerKm, parseAciTariffCsv, parseDecimal } from "@/lib/mileage";
+import { cn } from "@/lib/utils";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const inputClassName = "bg-secondary/50 border-0 rounded-xl h-12 px-4 text-foreground placeholder:text-muted-foreground focus-visible:ring-1 focus-visible:ring-primary";
+
+export function MileageSettings() {
+  const { latestYear, loading: tariffsLoading, searchTariffs, importTariffs } = useAciTariffs();
+  const { vehicles, loading, addVehicle, deleteVehicle, setDefaultVehicle } = useVehicles();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [importing, setImporting] = useState<{ imported: number; total: number } | null>(null);
+  const [name, setName] = useState("");
+  const [plate, setPlate] = useState("");
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<StoredAciTariff[]>([]);
+  const [tariff, setTariff] = useState<StoredAciTariff | null>(null);
+  const [manualCost, setManualCost] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (tariff || query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchTariffs(query)
+        .then(setResults)
+        .catch(error => console.error("ACI tariff search error:", error));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query, tariff, latestYear]);
+
+  const costPerKm = tariff ? tariff.cost_per_km : parseDecimal(manualCost);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const tariffs = parseAciTariffCsv(await file.text());
+      setImporting({ imported: 0, total: tariffs.length });
+      await importTariffs(tariffs, imported => setImporting({ imported, total: tariffs.length }));
+      toast({ title: "Tariffe importate", description: `${tariffs.length} modelli` });
+    } catch (error) {
+      console.error("ACI tariff import error:", error);
+      toast({
+        title: "Errore",
+        description: error instanceof AciTariffCsvError ? error.message : "Impossibile importare le tariffe ACI",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const selectTariff = (selected: StoredAciTariff) => {
+    setTariff(selected);
+    setQuery(`${selected.brand} ${selected.model}`);
+    if (!name.trim()) setName(`${selected.brand} ${selected.model}`);
+  };
+
+  const clearTariff = () => {
+    setTariff(null);
+    setQuery("");
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim() || !costPerKm || costPerKm <= 0) return;
+    setSaving(true);
+    try {
+      await addVehicle({
+        name: name.trim(),
+        plate: plate.trim().toUpperCase() || null,
+        aci_tariff_id: tariff?.id ?? null,
+        cost_per_km: costPerKm,
+      });
+      toast({ title: "Veicolo aggiunto", description: name.trim() });
+      setName("");
+      setPlate("");
+      setManualCost("");
+      clearTariff();
+    } catch (error) {
+      console.error("Add vehicle error:", error);
+      toast({ title: "Errore", description: "Impossibile aggiungere il veicolo", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteVehicle(id);
+    } catch (error) {
+      console.error("Delete vehicle error:", error);
+      toast({ title: "Errore", description: "Impossibile eliminare il veicolo", variant: "destructive" });
+    }
+  };
+
+  const handleSetDefault = async (id: string) => {
+    try {
+      await setDefaultVehicle(id);
+    } catch (error) {
+      console.error("Default vehicle error:", error);
+      toast({ title: "Errore", description: "Impossibile impostare il veicolo predefinito", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-8 pb-10">
+      <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+
+      {/* Vehicles */}
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          I tuoi veicoli
+        </h3>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : vehicles.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nessun veicolo</p>
+        ) : (
+          <div className="bg-card rounded-2xl card-shadow divide-y divide-border/50">
+            {vehicles.map(vehicle => (
+              <div key={vehicle.id} className="flex items-center gap-3 px-4 py-3">
+                <Car className="w-4 h-4 text-muted-foreground shrink-0" strokeWidth={1.5} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{vehicle.name}</p>
+                  <p className="text-[10px] text-muted-foreground font-mono">
+                    {[vehicle.plate, formatCostPerKm(vehicle.cost_per_km)].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleSetDefault(vehicle.id)}
+                  className={cn(
+                    "w-8 h-8 rounded-full flex items-center justify-center transition-colors",
+                    vehicle.is_default ? "text-amber-500" : "text-muted-foreground/50 hover:text-amber-500"
+                  )}
+                  title={vehicle.is_default ? "Predefinito" : "Imposta come predefinito"}
+                >
+                  <Star className="w-4 h-4" strokeWidth={1.5} fill={vehicle.is_default ? "currentColor" : "none"} />
+                </button>
+                <button
+                  onClick={() => handleDelete(vehicle.id)}
+                  className="w-8 h-8 rounded-full bg-red-500/10 text-red-500 flex items-center justify-center hover:bg-red-500 hover:text-white transition-colors"
+                  title="Elimina"
+                >
+                  <X className="w-4 h-4" strokeWidth={2.5} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* New Vehicle */}
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          Nuovo veicolo
+        </h3>
+        <div className="bg-card rounded-2xl p-4 card-shadow space-y-4">
+          <div className="relative">
+            <Input
+              placeholder={latestYear ? `Cerca modello nelle tariffe ACI ${latestYear}` : "Nessuna tariffa ACI importata"}
+              value={query}
+              onChange={e => { setTariff(null); setQuery(e.target.value); }}
+              disabled={!latestYear}
+              className={inputClassName}
+            />
+            {tariff && (
+              <button
+                onClick={clearTariff}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                aria-label="Rimuovi tariffa"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+            {results.length > 0 && (
+              <div className="absolute z-10 left-0 right-0 mt-1 bg-popover rounded-xl border border-border shadow-lg max-h-60 overflow-y-auto">
+                {results.map(result => (
+                  <button
+                    key={result.id}
+                    onClick={() => selectTariff(result)}
+                    className="w-full flex items-center justify-between gap-3 px-4 py-2 text-left hover:bg-secondary/50"
+                  >
+                    <span className="text-sm text-foreground truncate">
+                      {result.brand} {result.model}
+                      {result.fuel && <span className="text-muted-foreground"> · {result.fuel}</span>}
+                    </span>
+                    <span className="text-xs font-mono text-muted-foreground shrink-0">{formatCostPerKm(result.cost_per_km)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Nome (es. Auto aziendale)"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className={cn(inputClassName, "flex-1")}
+            />
+            <Input
+              placeholder="Targa"
+              value={plate}
+              onChange={e => setPlate(e.target.value)}
+              className={cn(inputClassName, "w-28 font-mono uppercase")}
+            />
+          </div>
+          {tariff ? (
+            <p className="text-sm text-muted-foreground">
+              Tariffa ACI {tariff.year}: <span className="font-mono text-foreground">{formatCostPerKm(tariff.cost_per_km)}</span>
+            </p>
+          ) : (
+            <Input
+              placeholder="Costo al km (es. 0,4520)"
+              inputMode="decimal"
+              value={manualCost}
+              onChange={e => setManualCost(e.target.value)}
+              className={cn(inputClassName, "font-mono")}
+            />
+          )}
+          <Button
+            onClick={handleAdd}
+            disabled={saving || !name.trim() || !costPerKm || costPerKm <= 0}
+            className="w-full h-12 rounded-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Aggiungi"}
+          </Button>
+        </div>
+      </section>
+
+      {/* ACI Import */}
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          Tariffe ACI
+        </h3>
+        <div className="bg-card rounded-2xl p-4 card-shadow space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Carica il CSV dei costi chilometrici ACI con le colonne Marca, Modello,
+            Alimentazione, Anno e Costo km. Il costo al km viene copiato nel veicolo:
+            i rimborsi già registrati non cambiano con le nuove tabelle.
+          </p>
+          {tariffsLoading ? null : latestYear && (
+            <p className="text-xs text-muted-foreground">Tabelle più recenti: {latestYear}</p>
+          )}
+          {importing ? (
+            <div className="space-y-2">
+              <Progress value={(importing.imported / importing.total) * 100} className="h-2" />
+              <p className="text-xs text-muted-foreground text-center">
+                {importing.imported} / {importing.total} modelli
+              </p>
+            </div>
+          ) : (
+            <Button onClick={() => fileInputRef.current?.click()} className="w-full rounded-xl h-12 gap-2">
+              <FileUp className="w-4 h-4" />
+              Scegli file CSV
+            </Button>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
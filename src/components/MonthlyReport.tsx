@@ -9,6 +9,16 @@ import { useToast } from "@/hooks/use-toast";
 import { OdometerValue } from "./OdometerValue";
 import { cn } from "@/lib/utils";
 import { ExpenseMap } from "./ExpenseMap";
+import { useCategories } from "@/hooks/useCategories";
+import { getCategoryColor } from "@/lib/categories";
+import { expenseAmountEur, formatCurrency, sumAmountsEur } from "@/lib/currency";
+import { EXPENSE_TYPE_LABELS, formatKm, isMileageExpense } from "@/lib/mileage";
+import { useProjects } from "@/hooks/useProjects";
+import { costCenterLabel, groupExpensesByProject, projectLabel } from "@/lib/projects";
+import { budgetLabel, type BudgetStatus } from "@/lib/budgets";
+import { BudgetProgress } from "./BudgetProgress";
+import { useCategoryTrends } from "@/hooks/useCategoryTrends";
+import { formatTrend } from "@/lib/trends";
 
 interface MonthlyReportProps {
   expenses: Expense[];
@@ -16,23 +26,34 @@ interface MonthlyReportProps {
   total: number;
   children: React.ReactNode;
   onMonthChange: (date: Date) => void;
+  budgets?: BudgetStatus[]; // stato dei budget nel periodo di currentDate
 }
 
-const COLORS = [
-  "#10b981", // Emerald (Ristorazione)
-  "#3b82f6", // Blue (Trasporti)
-  "#f59e0b", // Amber (Shopping)
-  "#8b5cf6", // Violet (Lavoro)
-  "#ec4899", // Pink (Altro)
-  "#64748b", // Slate (Default)
-];
-
 type ViewMode = 'report' | 'map';
 
-export function MonthlyReport({ expenses, currentDate, total, children, onMonthChange }: MonthlyReportProps) {
+// Variazione rispetto a un periodo di confronto: la spesa in calo è una buona notizia
+function TrendPill({ percent, label }: { percent: number; label: string }) {
+  const isDecrease = percent <= 0;
+  return (
+    <div className={cn(
+      "flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold",
+      isDecrease ? "bg-emerald-500/10 text-emerald-600" : "bg-red-500/10 text-red-600"
+    )}>
+      {isDecrease ? <TrendingDown className="w-3.5 h-3.5" /> : <TrendingUp className="w-3.5 h-3.5" />}
+      <span>{formatTrend(percent)} {label}</span>
+    </div>
+  );
+}
+type GroupBy = 'category' | 'project';
+
+export function MonthlyReport({ expenses, currentDate, total, children, onMonthChange, budgets = [] }: MonthlyReportProps) {
   const { toast } = useToast();
+  const { categories } = useCategories();
+  const { projects, clients, costCenters } = useProjects();
   const [open, setOpen] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('report');
+  const [groupBy, setGroupBy] = useState<GroupBy>('category');
+  const { trends } = useCategoryTrends(currentDate, open);
 
   // Reset view when opening/closing
   const handleOpenChange = (isOpen: boolean) => {
@@ -46,13 +67,36 @@ export function MonthlyReport({ expenses, currentDate, total, children, onMonthC
     
     expenses.forEach(e => {
       const cat = e.category || "Altro";
-      const amount = e.amount || 0;
+      const amount = expenseAmountEur(e) ?? 0;
       map.set(cat, (map.get(cat) || 0) + amount);
     });
 
+    // Colori dalla tassonomia (tabella categories)
     return Array.from(map.entries())
-      .map(([name, value]) => ({ name, value }))
+      .map(([name, value]) => ({ name, value, color: getCategoryColor(categories, name) }))
       .sort((a, b) => b.value - a.value);
+  }, [expenses, categories]);
+
+  // Raggruppa le spese per progetto (le spese senza progetto in un'unica voce)
+  const projectData = useMemo(
+    () => groupExpensesByProject(expenses, projects, clients),
+    [expenses, projects, clients]
+  );
+
+  const breakdown: { name: string; value: number; color: string; client?: string | null }[] =
+    groupBy === 'project' ? projectData : categoryData;
+
+  // Spese in valuta estera senza tasso BCE: escluse dai totali finché non si importano i cambi
+  const unconvertedCount = useMemo(() => sumAmountsEur(expenses).unconverted, [expenses]);
+
+  // Rimborsi chilometrici del mese: km totali e importo
+  const mileage = useMemo(() => {
+    const trips = expenses.filter(isMileageExpense);
+    return {
+      count: trips.length,
+      km: trips.reduce((sum, e) => sum + (e.distance_km || 0), 0),
+      amount: trips.reduce((sum, e) => sum + (e.amount || 0), 0),
+    };
   }, [expenses]);
 
   const handleExport = async () => {
@@ -60,14 +104,19 @@ export function MonthlyReport({ expenses, currentDate, total, children, onMonthC
     
     const summaryText = `Report Spese - ${monthName}\n\n` +
       `Totale: €${total.toLocaleString("it-IT", { minimumFractionDigits: 2 })}\n\n` +
-      `Dettaglio Categorie:\n` +
-      categoryData.map(c => `- ${c.name}: €${c.value.toLocaleString("it-IT", { minimumFractionDigits: 2 })}`).join("\n");
+      `Dettaglio ${groupBy === 'project' ? "Progetti" : "Categorie"}:\n` +
+      breakdown.map(c => `- ${c.name}: €${c.value.toLocaleString("it-IT", { minimumFractionDigits: 2 })}`).join("\n") +
+      (mileage.count > 0 ? `\n\nRimborsi chilometrici: ${formatKm(mileage.km)} (${formatCurrency(mileage.amount)})` : "");
 
     const csvContent = [
-      "Data,Esercente,Categoria,Importo",
+      "Data,Esercente,Categoria,Importo,Valuta,Importo EUR,Tipo,Km,Costo/km,Quota imponibile,Progetto,Cliente,Centro di costo",
       ...expenses.map(e => {
         const date = e.date ? format(new Date(e.date), "dd/MM/yyyy") : "";
-        return `${date},"${e.merchant || ''}","${e.category || ''}",${e.amount}`;
+        const type = EXPENSE_TYPE_LABELS[e.expense_type || "receipt"];
+        const project = projects.find(p => p.id === e.project_id);
+        const client = clients.find(c => c.id === e.client_id);
+        const costCenter = costCenters.find(c => c.id === e.cost_center_id);
+        return `${date},"${e.merchant || ''}","${e.category || ''}",${e.amount},${e.currency || "EUR"},${expenseAmountEur(e) ?? ""},${type},${e.distance_km ?? ""},${e.cost_per_km ?? ""},${e.taxable_amount ?? ""},"${project ? projectLabel(project) : ''}","${client?.name || ''}","${costCenter ? costCenterLabel(costCenter) : ''}"`;
       })
     ].join("\n");
 
@@ -94,8 +143,7 @@ export function MonthlyReport({ expenses, currentDate, total, children, onMonthC
   const prevMonth = () => onMonthChange(subMonths(currentDate, 1));
   const nextMonth = () => onMonthChange(addMonths(currentDate, 1));
 
-  const trendPercentage = -12; 
-  const isPositiveTrend = trendPercentage < 0; 
+  const lastYearLabel = `vs ${format(subMonths(currentDate, 12), "MMM yyyy", { locale: it })}`;
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
@@ -166,25 +214,56 @@ export function MonthlyReport({ expenses, currentDate, total, children, onMonthC
                     <OdometerValue value={total} />
                   </span>
                 </div>
-                {/* Trend Pill */}
-                <div className="flex justify-center mt-3">
-                    <div className={cn(
-                      "flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold",
-                      isPositiveTrend ? "bg-emerald-500/10 text-emerald-600" : "bg-red-500/10 text-red-600"
-                    )}>
-                    {isPositiveTrend ? <TrendingDown className="w-3.5 h-3.5" /> : <TrendingUp className="w-3.5 h-3.5" />}
-                    <span>{Math.abs(trendPercentage)}% vs mese scorso</span>
+                {unconvertedCount > 0 && (
+                  <p className="text-xs text-amber-600 mt-2">
+                    {unconvertedCount} {unconvertedCount === 1 ? "spesa in valuta esclusa" : "spese in valuta escluse"}: manca il tasso di cambio
+                  </p>
+                )}
+                {mileage.count > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    di cui {formatCurrency(mileage.amount)} in rimborsi chilometrici ({formatKm(mileage.km)})
+                  </p>
+                )}
+                {/* Trend Pills: mese precedente e stesso mese dell'anno scorso */}
+                {trends && (trends.overall.vsPrevious !== null || trends.overall.vsLastYear !== null) && (
+                  <div className="flex flex-wrap justify-center gap-2 mt-3">
+                    {trends.overall.vsPrevious !== null && (
+                      <TrendPill percent={trends.overall.vsPrevious} label="vs mese scorso" />
+                    )}
+                    {trends.overall.vsLastYear !== null && (
+                      <TrendPill percent={trends.overall.vsLastYear} label={lastYearLabel} />
+                    )}
                   </div>
-                </div>
+                )}
               </div>
 
+              {/* RAGGRUPPAMENTO: categorie o progetti */}
+              {projects.length > 0 && (
+                <div className="flex justify-center">
+                  <div className="inline-flex p-1 rounded-full bg-secondary/50">
+                    {([['category', 'Categorie'], ['project', 'Progetti']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setGroupBy(mode)}
+                        className={cn(
+                          "px-4 py-1.5 rounded-full text-xs font-bold transition-colors",
+                          groupBy === mode ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* GRAFICO GRANDE */}
               <div className="h-[280px] w-full relative -mx-2">
-                {categoryData.length > 0 ? (
+                {breakdown.length > 0 ? (
                   <ResponsiveContainer width="100%" height="100%">
                     <PieChart>
                       <Pie
-                        data={categoryData}
+                        data={breakdown}
                         cx="50%"
                         cy="50%"
                         innerRadius={80}
@@ -193,12 +272,12 @@ export function MonthlyReport({ expenses, currentDate, total, children, onMonthC
                         dataKey="value"
                         stroke="none"
                       >
-                        {categoryData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        {breakdown.map((entry, index) => (
+                          <Cell key={`cell-${index}`} fill={entry.color} />
                         ))}
                       </Pie>
                       <Tooltip 
-                        formatter={(value: number) => `€${value.toFixed(2)}`}
+                        formatter={(value: number) => formatCurrency(value)}
                         contentStyle={{ 
                           borderRadius: '16px', 
                           border: '1px solid var(--border)', 
@@ -222,26 +301,66 @@ export function MonthlyReport({ expenses, currentDate, total, children, onMonthC
               {/* LISTA CATEGORIE */}
               <div className="space-y-4">
                 <h4 className="text-xs font-bold text-muted-foreground uppercase tracking-widest mb-2">
-                  Dettaglio Categorie
+                  {groupBy === 'project' ? "Dettaglio Progetti" : "Dettaglio Categorie"}
                 </h4>
                 <div className="grid gap-3 grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
-                  {categoryData.map((cat, index) => (
-                    <div key={index} className="flex items-center justify-between p-4 rounded-2xl bg-card border border-border/50 shadow-sm">
-                      <div className="flex items-center gap-3">
-                        <div 
-                          className="w-3 h-3 rounded-full shadow-sm ring-2 ring-background" 
-                          style={{ backgroundColor: COLORS[index % COLORS.length] }} 
-                        />
-                        <span className="font-semibold text-foreground truncate">{cat.name}</span>
+                  {breakdown.map((cat, index) => {
+                    const trend = groupBy === 'category' ? trends?.byCategory.get(cat.name) : undefined;
+                    return (
+                      <div key={index} className="flex items-center justify-between p-4 rounded-2xl bg-card border border-border/50 shadow-sm">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div 
+                            className="w-3 h-3 rounded-full shadow-sm ring-2 ring-background shrink-0" 
+                            style={{ backgroundColor: cat.color }} 
+                          />
+                          <div className="min-w-0">
+                            <p className="font-semibold text-foreground truncate">{cat.name}</p>
+                            {cat.client && <p className="text-xs text-muted-foreground truncate">{cat.client}</p>}
+                          </div>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <span className="font-mono font-medium text-foreground">
+                            {formatCurrency(cat.value)}
+                          </span>
+                          {trend && (trend.vsPrevious !== null || trend.vsLastYear !== null) && (
+                            <p className="text-[10px] text-muted-foreground tabular-nums">
+                              {trend.vsPrevious !== null && (
+                                <span className={trend.vsPrevious > 0 ? "text-red-600" : "text-emerald-600"}>
+                                  {formatTrend(trend.vsPrevious)} vs mese prec.
+                                </span>
+                              )}
+                              {trend.vsPrevious !== null && trend.vsLastYear !== null && " · "}
+                              {trend.vsLastYear !== null && (
+                                <span className={trend.vsLastYear > 0 ? "text-red-600" : "text-emerald-600"}>
+                                  {formatTrend(trend.vsLastYear)} vs anno prec.
+                                </span>
+                              )}
+                            </p>
+                          )}
+                        </div>
                       </div>
-                      <span className="font-mono font-medium text-foreground">
-                        €{cat.value.toLocaleString("it-IT", { minimumFractionDigits: 2 })}
-                      </span>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
 
+              {/* BUDGET */}
+              {budgets.length > 0 && (
+                <div className="space-y-4">
+                  <h4 className="text-xs font-bold text-muted-foreground uppercase tracking-widest mb-2">Budget</h4>
+                  <div className="grid gap-3 grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
+                    {budgets.map(budget => (
+                      <BudgetProgress
+                        key={budget.id}
+                        budget={budget}
+                        label={budgetLabel(budget, projects)}
+                        className="p-4 rounded-2xl bg-card border border-border/50 shadow-sm"
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* AZIONI */}
               <div className="grid grid-cols-2 gap-4 pt-4 md:flex md:justify-center">
                  <button 
@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2, Check, Copy, Loader2, LogOut, Mail, Trash2, UserPlus, Wallet, X } from "lucide-react";
+import { useOrganizations } from "@/hooks/useOrganizations";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import {
+  ORG_ROLES,
+  ORG_ROLE_DESCRIPTIONS,
+  ORG_ROLE_LABELS,
+  canManageMembers,
+  canMarkReimbursed,
+  invitationUrl,
+  type OrgRole,
+} from "@/lib/organizations";
+
+const inputClassName = "bg-secondary/50 border-0 rounded-xl h-12 px-4 text-foreground placeholder:text-muted-foreground focus-visible:ring-1 focus-visible:ring-primary";
+
+interface OrganizationSettingsProps {
+  onChanged?: () => void;
+}
+
+export function OrganizationSettings({ onChanged }: OrganizationSettingsProps) {
+  const { user } = useAuth();
+  const {
+    currentOrganization,
+    currentRole,
+    members,
+    receivedInvitations,
+    sentInvitations,
+    teamReports,
+    loading,
+    createOrganization,
+    invite,
+    revokeInvitation,
+    acceptInvitation,
+    updateMemberRole,
+    removeMember,
+    markReimbursed,
+  } = useOrganizations();
+  const { toast } = useToast();
+
+  const [name, setName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrgRole>("member");
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const isAdmin = canManageMembers(currentRole);
+  const memberName = (userId: string) => {
+    const member = members.find(m => m.user_id === userId);
+    return member?.display_name || member?.email || "Collega";
+  };
+
+  // Esegue un'azione mostrando lo spinner sul pulsante e l'errore del database in un toast
+  const run = async (key: string, action: () => Promise<unknown>, success?: string) => {
+    setBusy(key);
+    try {
+      await action();
+      if (success) toast({ title: success });
+      onChanged?.();
+    } catch (error) {
+      console.error("Organization action error:", error);
+      toast({ title: "Errore", description: error instanceof Error ? error.message : "Riprova.", variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    const url = invitationUrl(window.location.origin, token);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copiato", description: "Invialo alla persona invitata" });
+    } catch {
+      toast({ title: "Link di invito", description: url });
+    }
+  };
+
+  const handleInvite = () =>
+    run("invite", async () => {
+      const invitation = await invite(inviteEmail, inviteRole);
+      setInviteEmail("");
+      if (invitation) await copyLink(invitation.token);
+    });
+
+  const handleCreate = () =>
+    run("create", async () => {
+      await createOrganization(name);
+      setName("");
+    }, "Organizzazione creata");
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center py-20">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-10">
+      {receivedInvitations.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Inviti ricevuti</h3>
+          {receivedInvitations.map(inv => (
+            <div key={inv.id} className="flex items-center gap-3 bg-card rounded-2xl p-4 card-shadow">
+              <div className="icon-pill-muted bg-violet-500/10 text-violet-600">
+                <Mail className="w-4 h-4" strokeWidth={1.5} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{inv.organization_name || "Organizzazione"}</p>
+                <p className="text-xs text-muted-foreground">
+                  {ORG_ROLE_LABELS[inv.role]} · scade il {format(new Date(inv.expires_at), "d MMM", { locale: it })}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => run(inv.id, () => acceptInvitation(inv.token), "Invito accettato")}
+                disabled={busy === inv.id}
+                className="rounded-full"
+              >
+                {busy === inv.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Check className="w-4 h-4 mr-1" />Accetta</>}
+              </Button>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {currentOrganization ? (
+        <>
+          <section className="space-y-3">
+            <div className="flex items-center gap-3 bg-card rounded-2xl p-4 card-shadow">
+              <div className="icon-pill-muted bg-indigo-500/10 text-indigo-600">
+                <Building2 className="w-4 h-4" strokeWidth={1.5} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{currentOrganization.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {ORG_ROLE_LABELS[currentOrganization.role]} · {ORG_ROLE_DESCRIPTIONS[currentOrganization.role]}
+                </p>
+              </div>
+            </div>
+          </section>
+
+          {canMarkReimbursed(currentRole) && (
+            <section className="space-y-3">
+              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Da rimborsare</h3>
+              {teamReports.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nessuna nota spese approvata in attesa di rimborso.</p>
+              ) : (
+                teamReports.map(report => (
+                  <div key={report.id} className="flex items-center gap-3 bg-card rounded-2xl p-4 card-shadow">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{report.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {memberName(report.user_id)} · {report.protocol_number} · {formatCurrency(report.total_eur)}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => run(report.id, () => markReimbursed(report.id), "Nota segnata come rimborsata")}
+                      disabled={busy === report.id}
+                      className="rounded-full shrink-0"
+                    >
+                      {busy === report.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Wallet className="w-4 h-4 mr-1" />Rimborsata</>}
+                    </Button>
+                  </div>
+                ))
+              )}
+            </section>
+          )}
+
+          <section className="space-y-3">
+            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Membri</h3>
+            <div className="bg-card rounded-2xl card-shadow divide-y divide-border/50">
+              {members.map(member => {
+                const isSelf = member.user_id === user?.id;
+                return (
+                  <div key={member.user_id} className="flex items-center gap-3 p-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {member.display_name || member.email}{isSelf && " (tu)"}
+                      </p>
+                      {member.display_name && member.email && (
+                        <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                      )}
+                    </div>
+                    {isAdmin && !isSelf ? (
+                      <>
+                        <Select
+                          value={member.role}
+                          onValueChange={role => run(member.user_id, () => updateMemberRole(member.user_id, role as OrgRole))}
+                        >
+                          <SelectTrigger className="w-36 h-9 rounded-full bg-secondary/50 border-0 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="z-[200] rounded-2xl">
+                            {ORG_ROLES.map(role => (
+                              <SelectItem key={role} value={role}>{ORG_ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <button
+                          onClick={() => run(member.user_id, () => removeMember(member.user_id), "Membro rimosso")}
+                          disabled={busy === member.user_id}
+                          className="p-2 rounded-full text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-xs font-medium text-muted-foreground">{ORG_ROLE_LABELS[member.role]}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          {isAdmin && (
+            <section className="space-y-3">
+              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Invita</h3>
+              <Input
+                type="email"
+                value={inviteEmail}
+                onChange={e => setInviteEmail(e.target.value)}
+                placeholder="email@azienda.it"
+                className={inputClassName}
+              />
+              <div className="flex gap-2">
+                <Select value={inviteRole} onValueChange={role => setInviteRole(role as OrgRole)}>
+                  <SelectTrigger className="flex-1 h-12 rounded-xl bg-secondary/50 border-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[200] rounded-2xl">
+                    {ORG_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{ORG_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={handleInvite}
+                  disabled={busy === "invite" || !inviteEmail.trim()}
+                  className="h-12 rounded-xl px-5"
+                >
+                  {busy === "invite" ? <Loader2 className="w-4 h-4 animate-spin" /> : <><UserPlus className="w-4 h-4 mr-2" />Invita</>}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">{ORG_ROLE_DESCRIPTIONS[inviteRole]}. Il link di invito viene copiato negli appunti.</p>
+
+              {sentInvitations.map(inv => (
+                <div key={inv.id} className="flex items-center gap-2 bg-card rounded-2xl px-4 py-3 card-shadow">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-foreground truncate">{inv.email}</p>
+                    <p className="text-xs text-muted-foreground">In attesa · {ORG_ROLE_LABELS[inv.role]}</p>
+                  </div>
+                  <button onClick={() => copyLink(inv.token)} className="p-2 rounded-full text-muted-foreground hover:bg-secondary transition-colors">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => run(inv.id, () => revokeInvitation(inv.id), "Invito revocato")}
+                    disabled={busy === inv.id}
+                    className="p-2 rounded-full text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </section>
+          )}
+
+          <section>
+            <button
+              onClick={() => user && run("leave", () => removeMember(user.id), "Hai lasciato l'organizzazione")}
+              disabled={busy === "leave"}
+              className="w-full flex items-center justify-center gap-2 p-4 rounded-2xl text-destructive hover:bg-destructive/10 transition-colors"
+            >
+              <LogOut className="w-4 h-4" strokeWidth={1.5} />
+              <span className="font-medium">Lascia l'organizzazione</span>
+            </button>
+          </section>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Stai usando lo spazio personale: le spese restano visibili solo a te. Crea un'organizzazione
+          o accetta un invito per condividere note spese e approvazioni con il tuo team.
+        </p>
+      )}
+
+      <section className="space-y-3">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Nuova organizzazione</h3>
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Nome azienda o team"
+            className={inputClassName}
+          />
+          <Button onClick={handleCreate} disabled={busy === "create" || !name.trim()} className="h-12 rounded-xl px-5">
+            {busy === "create" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Crea"}
+          </Button>
+        </div>
+      </section>
+    </div>
+  );
+}
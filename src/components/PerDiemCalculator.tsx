@@ -0,0 +1,291 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Loader2, Check, AlertTriangle } from "lucide-react";
+import { useTrips } from "@/hooks/useTrips";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import { parseDecimal } from "@/lib/mileage";
+import {
+  PER_DIEM_COUNTRIES,
+  PerDiemError,
+  computePerDiem,
+  findPerDiemConflicts,
+  perDiemCeiling,
+  perDiemCoversMeals,
+  type PerDiemLine,
+  type PerDiemMode,
+} from "@/lib/perDiem";
+import { cn } from "@/lib/utils";
+
+interface PerDiemCalculatorProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const fieldClassName = "w-full rounded-2xl h-14 px-4 text-base bg-secondary/30 border-transparent focus:bg-background focus:border-primary/50 transition-all shadow-sm";
+
+const MODES: { value: PerDiemMode; label: string }[] = [
+  { value: "forfettario", label: "Forfettario" },
+  { value: "misto", label: "Misto" },
+];
+
+export function PerDiemCalculator({ onClose, onSuccess }: PerDiemCalculatorProps) {
+  const { addTrip, fetchExpensesBetween } = useTrips();
+  const { toast } = useToast();
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [destination, setDestination] = useState("");
+  const [country, setCountry] = useState("IT");
+  const [departure, setDeparture] = useState(`${today}T08:00`);
+  const [returnAt, setReturnAt] = useState(`${today}T20:00`);
+  const [mode, setMode] = useState<PerDiemMode>("forfettario");
+  const [mealsReimbursed, setMealsReimbursed] = useState(false);
+  const [lodgingReimbursed, setLodgingReimbursed] = useState(false);
+  const [dailyRate, setDailyRate] = useState("");
+  const [conflictDays, setConflictDays] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const ceiling = perDiemCeiling({ country, mode, mealsReimbursed, lodgingReimbursed });
+  // Senza una diaria aziendale si propone il limite esente
+  const rate = parseDecimal(dailyRate) ?? ceiling;
+
+  const trip = useMemo(() => ({
+    destination,
+    country,
+    departure: new Date(departure),
+    return: new Date(returnAt),
+    mode,
+    mealsReimbursed: mode === "misto" && mealsReimbursed,
+    lodgingReimbursed: mode === "misto" && lodgingReimbursed,
+    dailyRate: rate,
+  }), [destination, country, departure, returnAt, mode, mealsReimbursed, lodgingReimbursed, rate]);
+
+  const { lines, error } = useMemo((): { lines: PerDiemLine[]; error: string | null } => {
+    try {
+      return { lines: computePerDiem(trip), error: null };
+    } catch (e) {
+      return { lines: [], error: e instanceof PerDiemError ? e.message : "Date non valide" };
+    }
+  }, [trip]);
+
+  const coversMeals = perDiemCoversMeals(trip);
+  const paidLines = lines.filter(line => line.amount > 0);
+  const totals = paidLines.reduce(
+    (sum, line) => ({ amount: sum.amount + line.amount, taxable: sum.taxable + line.taxable }),
+    { amount: 0, taxable: 0 }
+  );
+
+  // Scontrini "Vitto ..." già registrati negli stessi giorni
+  const paidDays = paidLines.map(line => line.date).join(",");
+  useEffect(() => {
+    const days = paidDays ? paidDays.split(",") : [];
+    if (days.length === 0 || !coversMeals) {
+      setConflictDays(new Set());
+      return;
+    }
+    let cancelled = false;
+    fetchExpensesBetween(days[0], days[days.length - 1])
+      .then(existing => {
+        if (cancelled) return;
+        const allowances = days.map(date => ({ date, category: null, expense_type: "per_diem", per_diem_covers_meals: true }));
+        setConflictDays(findPerDiemConflicts([...existing, ...allowances]));
+      })
+      .catch(err => console.error("Per diem conflict check error:", err));
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paidDays, coversMeals]);
+
+  async function handleSave() {
+    if (paidLines.length === 0) return;
+
+    setSaving(true);
+    try {
+      await addTrip(trip, lines);
+      setSaved(true);
+      setTimeout(onSuccess, 1500);
+    } catch (err) {
+      console.error("Trip save error:", err);
+      toast({
+        title: "Errore salvataggio",
+        description: "Riprova.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-md" onClick={onClose} />
+
+      <div className="relative w-full max-w-md max-h-[90vh] bg-card text-card-foreground rounded-3xl shadow-2xl overflow-hidden animate-scale-in flex flex-col">
+        {/* Header */}
+        <header className="flex items-center justify-between px-6 py-4 border-b border-border/50 shrink-0 bg-card/80 backdrop-blur-md z-10">
+          <h2 className="text-lg font-bold text-foreground">Indennità di Trasferta</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-secondary transition-colors"><X className="w-5 h-5 text-muted-foreground" /></button>
+        </header>
+
+        {/* Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto overflow-x-hidden p-6 scrollbar-hide">
+          {saved ? (
+            <div className="flex items-center justify-center py-16">
+              <Check className="w-16 h-16 text-success animate-scale-in" />
+            </div>
+          ) : (
+            <div className="flex flex-col gap-5 animate-slide-up pb-4">
+              <div className="flex gap-3">
+                <div className="space-y-2 flex-1 min-w-0">
+                  <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Destinazione</Label>
+                  <Input placeholder="es. Roma" value={destination} onChange={e => setDestination(e.target.value)} className={fieldClassName} />
+                </div>
+                <div className="space-y-2 w-40 shrink-0">
+                  <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Paese</Label>
+                  <Select value={country} onValueChange={setCountry}>
+                    <SelectTrigger className={cn(fieldClassName, "text-left")}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    {/* z-index sopra i modali (z-[100]) */}
+                    <SelectContent className="z-[200] max-h-[50vh] rounded-2xl">
+                      {Object.entries(PER_DIEM_COUNTRIES).map(([code, name]) => (
+                        <SelectItem key={code} value={code}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <div className="space-y-2 flex-1 min-w-0">
+                  <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Partenza</Label>
+                  <Input type="datetime-local" value={departure} onChange={e => setDeparture(e.target.value)} className={cn(fieldClassName, "px-3 text-sm")} />
+                </div>
+                <div className="space-y-2 flex-1 min-w-0">
+                  <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Rientro</Label>
+                  <Input type="datetime-local" value={returnAt} onChange={e => setReturnAt(e.target.value)} className={cn(fieldClassName, "px-3 text-sm")} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Regime</Label>
+                <div className="grid grid-cols-2 gap-2 p-1 rounded-2xl bg-secondary/30">
+                  {MODES.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setMode(option.value)}
+                      className={cn(
+                        "h-11 rounded-xl text-sm font-bold transition-colors",
+                        mode === option.value ? "bg-primary text-primary-foreground shadow-sm" : "text-muted-foreground hover:bg-secondary"
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {mode === "misto" && (
+                  <div className="space-y-3 pt-2 px-1">
+                    <label className="flex items-center justify-between text-sm text-foreground">
+                      Vitto rimborsato a piè di lista
+                      <Switch checked={mealsReimbursed} onCheckedChange={setMealsReimbursed} />
+                    </label>
+                    <label className="flex items-center justify-between text-sm text-foreground">
+                      Alloggio rimborsato a piè di lista
+                      <Switch checked={lodgingReimbursed} onCheckedChange={setLodgingReimbursed} />
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs font-bold text-muted-foreground uppercase tracking-wider ml-1">Diaria giornaliera (€)</Label>
+                <Input
+                  inputMode="decimal"
+                  placeholder={ceiling.toLocaleString("it-IT", { minimumFractionDigits: 2 })}
+                  value={dailyRate}
+                  onChange={e => setDailyRate(e.target.value)}
+                  className={cn(fieldClassName, "font-mono")}
+                />
+                <p className="text-xs text-muted-foreground ml-1">
+                  Esente fino a {formatCurrency(ceiling)} al giorno; mezza diaria tra 6 e 12 ore fuori sede.
+                </p>
+              </div>
+
+              {/* Allowance lines */}
+              {error ? (
+                <p className="text-sm text-destructive text-center">{error}</p>
+              ) : (
+                <div className="rounded-2xl border border-border/50 divide-y divide-border/50 text-sm">
+                  {lines.map(line => (
+                    <div key={line.date} className={cn("flex items-center gap-3 px-4 py-2 tabular-nums", line.amount === 0 && "text-muted-foreground")}>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium capitalize flex items-center gap-1.5">
+                          {format(new Date(line.date), "EEE d MMM", { locale: it })}
+                          {conflictDays.has(line.date) && <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />}
+                        </p>
+                        <p className="text-[10px] text-muted-foreground">
+                          {line.hours.toLocaleString("it-IT")} h · {line.fraction === 1 ? "intera" : line.fraction > 0 ? "metà" : "nessuna diaria"}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-bold">{formatCurrency(line.amount)}</p>
+                        {line.taxable > 0 && (
+                          <p className="text-[10px] text-amber-600">di cui imponibile {formatCurrency(line.taxable)}</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between px-4 py-2.5 font-bold">
+                    <span>Totale</span>
+                    <span className="text-right">
+                      {formatCurrency(totals.amount)}
+                      <span className="block text-[10px] font-medium text-muted-foreground">
+                        esente {formatCurrency(totals.amount - totals.taxable)} · imponibile {formatCurrency(totals.taxable)}
+                      </span>
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {conflictDays.size > 0 && (
+                <div className="flex gap-3 rounded-2xl bg-amber-500/10 text-amber-700 dark:text-amber-400 p-4 text-xs">
+                  <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                  <p>
+                    Negli stessi giorni ci sono già scontrini di vitto: la diaria li comprende già.
+                    Elimina gli scontrini oppure scegli il regime misto con il vitto rimborsato a piè di lista.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer - Fixed */}
+        {!saved && (
+          <div className="p-5 border-t border-border/50 bg-card/80 backdrop-blur-md shrink-0 z-10">
+            <Button
+              onClick={handleSave}
+              disabled={saving || paidLines.length === 0}
+              className="w-full h-14 rounded-full font-bold text-base bg-primary text-primary-foreground hover:opacity-90 shadow-lg active:scale-95 transition-all"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="animate-spin mr-2" />
+                  Salvataggio...
+                </>
+              ) : (
+                "Salva Trasferta"
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useProjects } from "@/hooks/useProjects";
+import { assignProject, costCenterLabel, projectLabel, type ProjectAssignment } from "@/lib/projects";
+import { cn } from "@/lib/utils";
+
+// Radix Select non accetta "" come valore: voce per "nessuno"
+const NONE = "none";
+
+interface ProjectPickerProps {
+  value: ProjectAssignment;
+  onChange: (value: ProjectAssignment) => void;
+  className?: string;
+}
+
+export function ProjectPicker({ value, onChange, className }: ProjectPickerProps) {
+  const { projects, clients, costCenters, loading } = useProjects();
+
+  if (!loading && projects.length === 0 && clients.length === 0 && costCenters.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground ml-1">
+        Aggiungi progetti, clienti e centri di costo dalle Impostazioni per rifatturare le spese.
+      </p>
+    );
+  }
+
+  // Un progetto archiviato resta selezionato sulle spese che lo usavano già
+  const selectableProjects = projects.filter(p => !p.archived || p.id === value.project_id);
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={value.project_id ?? NONE}
+        onValueChange={id => onChange(assignProject(value, projects.find(p => p.id === id) ?? null))}
+      >
+        <SelectTrigger className={cn("text-left", className)}>
+          <SelectValue placeholder="Progetto" />
+        </SelectTrigger>
+        {/* z-index sopra i modali (z-[100]) */}
+        <SelectContent className="z-[200] max-h-[50vh] rounded-2xl">
+          <SelectItem value={NONE}>Nessun progetto</SelectItem>
+          {selectableProjects.map(project => (
+            <SelectItem key={project.id} value={project.id}>{projectLabel(project)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex gap-3">
+        <Select
+          value={value.client_id ?? NONE}
+          onValueChange={id => onChange({ ...value, client_id: id === NONE ? null : id })}
+        >
+          <SelectTrigger className={cn("text-left flex-1 min-w-0", className)}>
+            <SelectValue placeholder="Cliente" />
+          </SelectTrigger>
+          <SelectContent className="z-[200] max-h-[50vh] rounded-2xl">
+            <SelectItem value={NONE}>Nessun cliente</SelectItem>
+            {clients.map(client => (
+              <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={value.cost_center_id ?? NONE}
+          onValueChange={id => onChange({ ...value, cost_center_id: id === NONE ? null : id })}
+        >
+          <SelectTrigger className={cn("text-left flex-1 min-w-0", className)}>
+            <SelectValue placeholder="Centro di costo" />
+          </SelectTrigger>
+          <SelectContent className="z-[200] max-h-[50vh] rounded-2xl">
+            <SelectItem value={NONE}>Nessun centro di costo</SelectItem>
+            {costCenters.map(costCenter => (
+              <SelectItem key={costCenter.id} value={costCenter.id}>{costCenterLabel(costCenter)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
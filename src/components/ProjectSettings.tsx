@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Archive, ArchiveRestore, Briefcase, FolderKanban, Landmark, Loader2, Star, X } from "lucide-react";
+import { useProjects } from "@/hooks/useProjects";
+import { useToast } from "@/hooks/use-toast";
+import { costCenterLabel, projectLabel } from "@/lib/projects";
+import { cn } from "@/lib/utils";
+
+const NONE = "none";
+
+const inputClassName = "bg-secondary/50 border-0 rounded-xl h-12 px-4 text-foreground placeholder:text-muted-foreground focus-visible:ring-1 focus-visible:ring-primary";
+
+export function ProjectSettings() {
+  const {
+    projects,
+    clients,
+    costCenters,
+    defaultProjectId,
+    loading,
+    addProject,
+    setProjectArchived,
+    deleteProject,
+    setDefaultProject,
+    addClient,
+    deleteClient,
+    addCostCenter,
+    deleteCostCenter,
+  } = useProjects();
+  const { toast } = useToast();
+
+  const [projectName, setProjectName] = useState("");
+  const [projectCode, setProjectCode] = useState("");
+  const [projectClient, setProjectClient] = useState(NONE);
+  const [projectCostCenter, setProjectCostCenter] = useState(NONE);
+  const [clientName, setClientName] = useState("");
+  const [clientVat, setClientVat] = useState("");
+  const [costCenterCode, setCostCenterCode] = useState("");
+  const [costCenterName, setCostCenterName] = useState("");
+  const [saving, setSaving] = useState<string | null>(null);
+
+  // Esegue un'azione sulle anagrafiche mostrando l'errore in un toast
+  const run = async (key: string, action: () => Promise<unknown>, errorMessage: string) => {
+    setSaving(key);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error("Project settings error:", error);
+      toast({ title: "Errore", description: errorMessage, variant: "destructive" });
+      return false;
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleAddProject = async () => {
+    const ok = await run("project", () => addProject({
+      name: projectName.trim(),
+      code: projectCode.trim() || null,
+      client_id: projectClient === NONE ? null : projectClient,
+      cost_center_id: projectCostCenter === NONE ? null : projectCostCenter,
+    }), "Impossibile aggiungere il progetto");
+    if (ok) {
+      setProjectName("");
+      setProjectCode("");
+    }
+  };
+
+  const handleAddClient = async () => {
+    const ok = await run("client", () => addClient({
+      name: clientName.trim(),
+      vat_number: clientVat.trim() || null,
+    }), "Impossibile aggiungere il cliente");
+    if (ok) {
+      setClientName("");
+      setClientVat("");
+    }
+  };
+
+  const handleAddCostCenter = async () => {
+    const ok = await run("costCenter", () => addCostCenter({
+      code: costCenterCode.trim().toUpperCase(),
+      name: costCenterName.trim() || null,
+    }), "Impossibile aggiungere il centro di costo");
+    if (ok) {
+      setCostCenterCode("");
+      setCostCenterName("");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-10">
+      {/* Projects */}
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Progetti</h3>
+        {projects.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nessun progetto</p>
+        ) : (
+          <div className="bg-card rounded-2xl card-shadow divide-y divide-border/50">
+            {projects.map(project => {
+              const isDefault = project.id === defaultProjectId;
+              const client = clients.find(c => c.id === project.client_id);
+              const costCenter = costCenters.find(c => c.id === project.cost_center_id);
+              return (
+                <div key={project.id} className={cn("flex items-center gap-3 px-4 py-3", project.archived && "opacity-50")}>
+                  <FolderKanban className="w-4 h-4 text-muted-foreground shrink-0" strokeWidth={1.5} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{projectLabel(project)}</p>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {[client?.name, costCenter && costCenterLabel(costCenter), project.archived && "Archiviato"].filter(Boolean).join(" · ") || "Senza cliente"}
+                    </p>
+                  </div>
+                  {!project.archived && (
+                    <button
+                      onClick={() => run(project.id, () => setDefaultProject(isDefault ? null : project.id), "Impossibile impostare il progetto predefinito")}
+                      className={cn(
+                        "w-8 h-8 rounded-full flex items-center justify-center transition-colors",
+                        isDefault ? "text-amber-500" : "text-muted-foreground/50 hover:text-amber-500"
+                      )}
+                      title={isDefault ? "Predefinito per le nuove spese" : "Imposta come predefinito"}
+                    >
+                      <Star className="w-4 h-4" strokeWidth={1.5} fill={isDefault ? "currentColor" : "none"} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => run(project.id, () => setProjectArchived(project.id, !project.archived), "Impossibile aggiornare il progetto")}
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-muted-foreground hover:bg-secondary transition-colors"
+                    title={project.archived ? "Ripristina" : "Archivia"}
+                  >
+                    {project.archived ? <ArchiveRestore className="w-4 h-4" strokeWidth={1.5} /> : <Archive className="w-4 h-4" strokeWidth={1.5} />}
+                  </button>
+                  <button
+                    onClick={() => run(project.id, () => deleteProject(project.id), "Impossibile eliminare il progetto")}
+                    className="w-8 h-8 rounded-full bg-red-500/10 text-red-500 flex items-center justify-center hover:bg-red-500 hover:text-white transition-colors"
+                    title="Elimina"
+                  >
+                    <X className="w-4 h-4" strokeWidth={2.5} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Il progetto con la stella viene proposto su ogni nuova spesa. Archivia i progetti chiusi:
+          restano sulle spese già registrate.
+        </p>
+
+        <div className="bg-card rounded-2xl p-4 card-shadow space-y-4">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Nome progetto"
+              value={projectName}
+              onChange={e => setProjectName(e.target.value)}
+              className={cn(inputClassName, "flex-1")}
+            />
+            <Input
+              placeholder="Codice"
+              value={projectCode}
+              onChange={e => setProjectCode(e.target.value)}
+              className={cn(inputClassName, "w-28 font-mono")}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Select value={projectClient} onValueChange={setProjectClient}>
+              <SelectTrigger className={cn(inputClassName, "flex-1 min-w-0 text-left")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[200] rounded-2xl">
+                <SelectItem value={NONE}>Nessun cliente</SelectItem>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={projectCostCenter} onValueChange={setProjectCostCenter}>
+              <SelectTrigger className={cn(inputClassName, "flex-1 min-w-0 text-left")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[200] rounded-2xl">
+                <SelectItem value={NONE}>Nessun centro di costo</SelectItem>
+                {costCenters.map(costCenter => (
+                  <SelectItem key={costCenter.id} value={costCenter.id}>{costCenterLabel(costCenter)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={handleAddProject}
+            disabled={saving === "project" || !projectName.trim()}
+            className="w-full h-12 rounded-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium"
+          >
+            {saving === "project" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Aggiungi progetto"}
+          </Button>
+        </div>
+      </section>
+
+      {/* Clients */}
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Clienti</h3>
+        {clients.length > 0 && (
+          <div className="bg-card rounded-2xl card-shadow divide-y divide-border/50">
+            {clients.map(client => (
+              <div key={client.id} className="flex items-center gap-3 px-4 py-3">
+                <Briefcase className="w-4 h-4 text-muted-foreground shrink-0" strokeWidth={1.5} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{client.name}</p>
+                  {client.vat_number && <p className="text-[10px] text-muted-foreground font-mono">P. IVA {client.vat_number}</p>}
+                </div>
+                <button
+                  onClick={() => run(client.id, () => deleteClient(client.id), "Impossibile eliminare il cliente")}
+                  className="w-8 h-8 rounded-full bg-red-500/10 text-red-500 flex items-center justify-center hover:bg-red-500 hover:text-white transition-colors"
+                  title="Elimina"
+                >
+                  <X className="w-4 h-4" strokeWidth={2.5} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            placeholder="Ragione sociale"
+            value={clientName}
+            onChange={e => setClientName(e.target.value)}
+            className={cn(inputClassName, "flex-1")}
+          />
+          <Input
+            placeholder="P. IVA"
+            inputMode="numeric"
+            value={clientVat}
+            onChange={e => setClientVat(e.target.value)}
+            className={cn(inputClassName, "w-32 font-mono")}
+          />
+          <Button
+            onClick={handleAddClient}
+            disabled={saving === "client" || !clientName.trim()}
+            className="h-12 rounded-xl px-4"
+          >
+            {saving === "client" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Aggiungi"}
+          </Button>
+        </div>
+      </section>
+
+      {/* Cost Centers */}
+      <section className="space-y-4">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Centri di costo</h3>
+        {costCenters.length > 0 && (
+          <div className="bg-card rounded-2xl card-shadow divide-y divide-border/50">
+            {costCenters.map(costCenter => (
+              <div key={costCenter.id} className="flex items-center gap-3 px-4 py-3">
+                <Landmark className="w-4 h-4 text-muted-foreground shrink-0" strokeWidth={1.5} />
+                <p className="flex-1 min-w-0 text-sm font-medium text-foreground truncate">{costCenterLabel(costCenter)}</p>
+                <button
+                  onClick={() => run(costCenter.id, () => deleteCostCenter(costCenter.id), "Impossibile eliminare il centro di costo")}
+                  className="w-8 h-8 rounded-full bg-red-500/10 text-red-500 flex items-center justify-center hover:bg-red-500 hover:text-white transition-colors"
+                  title="Elimina"
+                >
+                  <X className="w-4 h-4" strokeWidth={2.5} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            placeholder="Codice"
+            value={costCenterCode}
+            onChange={e => setCostCenterCode(e.target.value)}
+            className={cn(inputClassName, "w-28 font-mono uppercase")}
+          />
+          <Input
+            placeholder="Descrizione"
+            value={costCenterName}
+            onChange={e => setCostCenterName(e.target.value)}
+            className={cn(inputClassName, "flex-1")}
+          />
+          <Button
+            onClick={handleAddCostCenter}
+            disabled={saving === "costCenter" || !costCenterCode.trim()}
+            className="h-12 rounded-xl px-4"
+          >
+            {saving === "costCenter" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Aggiungi"}
+          </Button>
+        </div>
+      </section>
+    </div>
+  );
+}
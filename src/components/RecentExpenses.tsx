@@ -1,23 +1,14 @@
 import { useExpenses } from "@/hooks/useExpenses";
 import { format } from "date-fns";
 import { it } from "date-fns/locale";
-import { Receipt, Utensils, Car, ShoppingBag, Briefcase, MoreHorizontal } from "lucide-react";
-import type { LucideIcon } from "lucide-react";
-
-const categoryIcons: Record<string, LucideIcon> = {
-  "Ristorazione": Utensils,
-  "Trasporti": Car,
-  "Shopping": ShoppingBag,
-  "Lavoro": Briefcase,
-};
-
-function getCategoryIcon(category: string | null): LucideIcon {
-  if (!category) return Receipt;
-  return categoryIcons[category] || Receipt;
-}
+import { MoreHorizontal } from "lucide-react";
+import { useCategories } from "@/hooks/useCategories";
+import { getCategoryIcon } from "@/lib/categories";
+import { formatCurrency } from "@/lib/currency";
 
 export function RecentExpenses() {
   const { expenses, loading } = useExpenses({ limit: 5 });
+  const { categories } = useCategories();
 
   if (loading) {
     return (
@@ -58,7 +49,7 @@ export function RecentExpenses() {
       
       <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide -mx-1 px-1">
         {expenses.map((expense, index) => {
-          const IconComponent = getCategoryIcon(expense.category);
+          const IconComponent = getCategoryIcon(categories, expense.category);
           
           return (
             <div 
@@ -82,7 +73,7 @@ export function RecentExpenses() {
               
               {/* Amount */}
               <p className="text-lg font-semibold text-primary mt-1">
-                €{expense.amount?.toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 }) || "0,00"}
+                {formatCurrency(expense.amount, expense.currency)}
               </p>
               
               {/* Date */}
@@ -3,8 +3,19 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/co
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Settings, Download, LogOut, Loader2, ChevronRight, PlusCircle, MinusCircle, Database, X, Trash2, RotateCcw, ArrowLeft, AlertTriangle, Network } from "lucide-react";
+import { Settings, Download, LogOut, Loader2, ChevronRight, PlusCircle, MinusCircle, Database, X, Trash2, RotateCcw, ArrowLeft, AlertTriangle, Network, MapPin, Tags, ArrowRightLeft, Car, ClipboardCheck, Building2, FolderKanban, Target } from "lucide-react";
+import { CategorySettings } from "./CategorySettings";
+import { ExchangeRateSettings } from "./ExchangeRateSettings";
+import { MileageSettings } from "./MileageSettings";
+import { OrganizationSettings } from "./OrganizationSettings";
+import { ProjectSettings } from "./ProjectSettings";
+import { BudgetSettings } from "./BudgetSettings";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { expenseAmountEur, formatCurrency } from "@/lib/currency";
+import { EXPENSE_TYPE_LABELS } from "@/lib/mileage";
 import { useProfile } from "@/hooks/useProfile";
+import { useOrganizations } from "@/hooks/useOrganizations";
+import { ORG_ROLE_LABELS } from "@/lib/organizations";
 import { useExpenses, Expense } from "@/hooks/useExpenses"; 
 import { signOut } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
@@ -13,9 +24,13 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { format } from "date-fns";
 import { it } from "date-fns/locale";
+import { useNavigate } from "react-router-dom";
 
 const emailSchema = z.string().email("Email non valida");
 
+// Valore del selettore per lo spazio personale (nessuna organizzazione attiva)
+const PERSONAL_SPACE = "personal";
+
 interface SettingsSheetProps {
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
@@ -29,6 +44,14 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
   const { user } = useAuth();
   const { toast } = useToast();
   const { restoreExpense, permanentlyDeleteExpense } = useExpenses();
+  const {
+    organizations,
+    currentOrganization,
+    receivedInvitations,
+    switchOrganization,
+    refetch: refetchOrganizations,
+  } = useOrganizations();
+  const navigate = useNavigate();
   
   const [internalOpen, setInternalOpen] = useState(false);
   const isControlled = controlledOpen !== undefined;
@@ -46,10 +69,13 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
     }
   };
   
-  const [view, setView] = useState<"main" | "trash">("main");
+  const [view, setView] = useState<"main" | "trash" | "categories" | "exchangeRates" | "mileage" | "organization" | "projects" | "budgets">("main");
   const [emails, setEmails] = useState<string[]>([]);
   const [isDefault, setIsDefault] = useState(profile?.is_default_email || false);
+  const [emailEachExpense, setEmailEachExpense] = useState(profile?.email_each_expense || false);
   const [saving, setSaving] = useState(false);
+  const [homeMunicipality, setHomeMunicipality] = useState("");
+  const [savingMunicipality, setSavingMunicipality] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [testingConnection, setTestingConnection] = useState(false);
@@ -68,6 +94,8 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
     if (profile?.is_default_email !== undefined) {
       setIsDefault(profile.is_default_email);
     }
+    setEmailEachExpense(profile?.email_each_expense || false);
+    setHomeMunicipality(profile?.home_municipality || "");
   }, [profile]);
 
   useEffect(() => {
@@ -76,6 +104,27 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
     }
   }, [view, open]);
 
+  // Il selettore riflette inviti accettati e organizzazioni create nella vista dedicata
+  useEffect(() => {
+    if (view === "main" && open) {
+      refetchOrganizations();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view, open]);
+
+  const handleSwitchOrganization = async (value: string) => {
+    try {
+      await switchOrganization(value === PERSONAL_SPACE ? null : value);
+      toast({
+        title: "Organizzazione attiva",
+        description: value === PERSONAL_SPACE ? "Spazio personale" : organizations.find(o => o.id === value)?.name,
+      });
+    } catch (error) {
+      console.error("Organization switch error:", error);
+      toast({ title: "Errore", description: "Impossibile cambiare organizzazione", variant: "destructive" });
+    }
+  };
+
   const fetchTrash = async () => {
     if (!user) return;
     setLoadingTrash(true);
@@ -83,6 +132,7 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
       const { data, error } = await supabase
         .from("expenses") // Updated from transactions
         .select("*")
+        .eq("user_id", user.id)
         .not("deleted_at", "is", null)
         .order("deleted_at", { ascending: false });
       
@@ -178,7 +228,8 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
     try {
       await updateProfile({
         default_emails: validEmails.length > 0 ? validEmails : null,
-        is_default_email: isDefault
+        is_default_email: isDefault,
+        email_each_expense: emailEachExpense
       });
       setOpen(false);
     } catch (error) {
@@ -188,6 +239,17 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
     }
   };
 
+  const handleSaveMunicipality = async () => {
+    setSavingMunicipality(true);
+    try {
+      await updateProfile({ home_municipality: homeMunicipality.trim() || null });
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setSavingMunicipality(false);
+    }
+  };
+
   const handleConnectionTest = async () => {
     if (!user) {
       toast({ title: "Login Richiesto", description: "Devi essere loggato per il test", variant: "destructive" });
@@ -306,13 +368,18 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
   const handleExportCSV = async () => {
     setExporting(true);
     try {
-      const headers = ["Data", "Esercente", "Importo", "Valuta", "Categoria"];
+      const headers = ["Data", "Esercente", "Importo", "Valuta", "Importo EUR", "Categoria", "Tipo", "Km", "Costo/km", "Quota imponibile"];
       const rows = expenses.map(e => [
         e.date || "", 
         e.merchant || "", 
         e.amount?.toString() || "", 
         e.currency || "EUR", 
-        e.category || ""
+        expenseAmountEur(e)?.toString() ?? "",
+        e.category || "",
+        EXPENSE_TYPE_LABELS[e.expense_type || "receipt"],
+        e.distance_km?.toString() ?? "",
+        e.cost_per_km?.toString() ?? "",
+        e.taxable_amount?.toString() ?? ""
       ]);
       const csvContent = [
         headers.join(","), 
@@ -361,13 +428,13 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
       >
         <SheetHeader className="pb-6 shrink-0">
           <div className="flex items-center justify-between">
-            {view === "trash" ? (
+            {view !== "main" ? (
               <button 
                 onClick={() => setView("main")}
                 className="flex items-center gap-2 text-foreground font-semibold hover:opacity-70 transition-opacity"
               >
                 <ArrowLeft className="w-5 h-5" />
-                Cestino
+                {view === "trash" ? "Cestino" : view === "categories" ? "Categorie" : view === "mileage" ? "Veicoli e tariffe ACI" : view === "organization" ? "Organizzazione" : view === "projects" ? "Progetti e clienti" : view === "budgets" ? "Budget" : "Tassi di cambio"}
               </button>
             ) : (
               <SheetTitle className="text-foreground text-xl font-semibold">Impostazioni</SheetTitle>
@@ -384,6 +451,48 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
 
         {view === "main" ? (
           <div className="space-y-8 pb-10">
+
+            {/* Organization Switcher */}
+            <section className="space-y-4">
+              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                Organizzazione
+              </h3>
+              {organizations.length > 0 && (
+                <Select value={currentOrganization?.id ?? PERSONAL_SPACE} onValueChange={handleSwitchOrganization}>
+                  <SelectTrigger className="bg-card border-0 rounded-2xl h-12 px-4 card-shadow text-left">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[200] rounded-2xl">
+                    <SelectItem value={PERSONAL_SPACE}>Spazio personale</SelectItem>
+                    {organizations.map(org => (
+                      <SelectItem key={org.id} value={org.id}>
+                        {org.name} · {ORG_ROLE_LABELS[org.role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <button 
+                onClick={() => setView("organization")} 
+                className="w-full flex items-center justify-between bg-card rounded-2xl p-4 card-shadow
+                           transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="icon-pill-muted bg-indigo-500/10 text-indigo-600">
+                    <Building2 className="w-4 h-4" strokeWidth={1.5} />
+                  </div>
+                  <div className="text-left">
+                    <p className="text-sm font-medium text-foreground">Team e inviti</p>
+                    <p className="text-xs text-muted-foreground">
+                      {receivedInvitations.length > 0
+                        ? `${receivedInvitations.length} ${receivedInvitations.length === 1 ? "invito" : "inviti"} da accettare`
+                        : currentOrganization ? "Membri, ruoli e rimborsi" : "Condividi le note spese con il tuo team"}
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" strokeWidth={1.5} />
+              </button>
+            </section>
             
             {/* Trash Entry Button */}
             <section className="space-y-4">
@@ -407,11 +516,146 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
               </button>
             </section>
 
+            {/* Categories Entry Button */}
+            <section className="space-y-4">
+               <button 
+                onClick={() => setView("categories")} 
+                className="w-full flex items-center justify-between bg-card rounded-2xl p-4 card-shadow
+                           transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="icon-pill-muted bg-sky-500/10 text-sky-600">
+                    <Tags className="w-4 h-4" strokeWidth={1.5} />
+                  </div>
+                  <div className="text-left">
+                    <p className="text-sm font-medium text-foreground">Categorie spesa</p>
+                    <p className="text-xs text-muted-foreground">
+                      Personalizza nomi, icone e colori
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" strokeWidth={1.5} />
+              </button>
+            </section>
+
+            {/* Exchange Rates Entry Button */}
+            <section className="space-y-4">
+               <button 
+                onClick={() => setView("exchangeRates")} 
+                className="w-full flex items-center justify-between bg-card rounded-2xl p-4 card-shadow
+                           transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="icon-pill-muted bg-emerald-500/10 text-emerald-600">
+                    <ArrowRightLeft className="w-4 h-4" strokeWidth={1.5} />
+                  </div>
+                  <div className="text-left">
+                    <p className="text-sm font-medium text-foreground">Tassi di cambio</p>
+                    <p className="text-xs text-muted-foreground">
+                      Importa i cambi BCE per le spese in valuta
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" strokeWidth={1.5} />
+              </button>
+            </section>
+
+            {/* Mileage Entry Button */}
+            <section className="space-y-4">
+               <button 
+                onClick={() => setView("mileage")} 
+                className="w-full flex items-center justify-between bg-card rounded-2xl p-4 card-shadow
+                           transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="icon-pill-muted bg-sky-500/10 text-sky-600">
+                    <Car className="w-4 h-4" strokeWidth={1.5} />
+                  </div>
+                  <div className="text-left">
+                    <p className="text-sm font-medium text-foreground">Veicoli e tariffe ACI</p>
+                    <p className="text-xs text-muted-foreground">
+                      Costo al km per i rimborsi chilometrici
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" strokeWidth={1.5} />
+              </button>
+            </section>
+
+            {/* Projects Entry Button */}
+            <section className="space-y-4">
+               <button 
+                onClick={() => setView("projects")} 
+                className="w-full flex items-center justify-between bg-card rounded-2xl p-4 card-shadow
+                           transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="icon-pill-muted bg-amber-500/10 text-amber-600">
+                    <FolderKanban className="w-4 h-4" strokeWidth={1.5} />
+                  </div>
+                  <div className="text-left">
+                    <p className="text-sm font-medium text-foreground">Progetti e clienti</p>
+                    <p className="text-xs text-muted-foreground">
+                      Progetti, centri di costo e clienti da rifatturare
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" strokeWidth={1.5} />
+              </button>
+            </section>
+
+            {/* Budgets Entry Button */}
+            <section className="space-y-4">
+               <button 
+                onClick={() => setView("budgets")} 
+                className="w-full flex items-center justify-between bg-card rounded-2xl p-4 card-shadow
+                           transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="icon-pill-muted bg-rose-500/10 text-rose-600">
+                    <Target className="w-4 h-4" strokeWidth={1.5} />
+                  </div>
+                  <div className="text-left">
+                    <p className="text-sm font-medium text-foreground">Budget</p>
+                    <p className="text-xs text-muted-foreground">
+                      Limiti mensili o annuali per categoria o progetto
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" strokeWidth={1.5} />
+              </button>
+            </section>
+
+            {/* Approvals Entry Button */}
+            <section className="space-y-4">
+               <button 
+                onClick={() => { setOpen(false); navigate("/approvazioni"); }} 
+                className="w-full flex items-center justify-between bg-card rounded-2xl p-4 card-shadow
+                           transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="icon-pill-muted bg-violet-500/10 text-violet-600">
+                    <ClipboardCheck className="w-4 h-4" strokeWidth={1.5} />
+                  </div>
+                  <div className="text-left">
+                    <p className="text-sm font-medium text-foreground">Approvazioni</p>
+                    <p className="text-xs text-muted-foreground">
+                      Note spese dei colleghi da approvare
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" strokeWidth={1.5} />
+              </button>
+            </section>
+
             {/* Email Settings Section */}
             <section className="space-y-4">
               <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
                 Email Destinatari
               </h3>
+              <p className="text-xs text-muted-foreground -mt-2">
+                I destinatari ricevono le tue note spese; chi ha un account le approva dall'app.
+              </p>
               
               <div className="bg-card rounded-2xl p-4 card-shadow space-y-4">
                 {emails.map((email, index) => (
@@ -461,6 +705,18 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
                     Imposta come predefinita
                   </span>
                 </label>
+
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <Checkbox 
+                    id="email-each-expense" 
+                    checked={emailEachExpense} 
+                    onCheckedChange={checked => setEmailEachExpense(!!checked)}
+                    className="rounded-md border-muted-foreground/30"
+                  />
+                  <span className="text-sm text-foreground">
+                    Invia un'email anche a ogni spesa salvata
+                  </span>
+                </label>
                 
                 <Button 
                   onClick={handleSave} 
@@ -472,6 +728,35 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
               </div>
             </section>
 
+            {/* Home Municipality Section */}
+            <section className="space-y-4">
+              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                Comune di Riferimento
+              </h3>
+
+              <div className="bg-card rounded-2xl p-4 card-shadow space-y-4">
+                <p className="text-xs text-muted-foreground">
+                  Usato per distinguere le spese "Comune", "Oltre Comune" ed "Estero".
+                </p>
+                <div className="flex items-center gap-2">
+                  <MapPin className="w-4 h-4 text-muted-foreground shrink-0" strokeWidth={1.5} />
+                  <Input
+                    placeholder="Milano"
+                    value={homeMunicipality}
+                    onChange={e => setHomeMunicipality(e.target.value)}
+                    className="flex-1 bg-secondary/50 border-0 rounded-xl h-12 px-4 text-foreground placeholder:text-muted-foreground focus-visible:ring-1 focus-visible:ring-primary"
+                  />
+                </div>
+                <Button
+                  onClick={handleSaveMunicipality}
+                  disabled={savingMunicipality || homeMunicipality.trim() === (profile?.home_municipality || "")}
+                  className="w-full h-12 rounded-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium"
+                >
+                  {savingMunicipality ? <Loader2 className="w-4 h-4 animate-spin" /> : "Salva"}
+                </Button>
+              </div>
+            </section>
+
              {/* Demo Data Section */}
             <section className="space-y-4">
               <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
@@ -571,6 +856,18 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
               </button>
             </section>
           </div>
+        ) : view === "categories" ? (
+          <CategorySettings />
+        ) : view === "exchangeRates" ? (
+          <ExchangeRateSettings />
+        ) : view === "mileage" ? (
+          <MileageSettings />
+        ) : view === "organization" ? (
+          <OrganizationSettings onChanged={refetchOrganizations} />
+        ) : view === "projects" ? (
+          <ProjectSettings />
+        ) : view === "budgets" ? (
+          <BudgetSettings />
         ) : (
           /* TRASH VIEW */
           <div className="flex-1 flex flex-col h-full overflow-hidden">
@@ -599,7 +896,7 @@ export function SettingsSheet({ open: controlledOpen, onOpenChange, showTrigger
                          <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
                             <span>{item.date ? format(new Date(item.date), "d MMM yyyy", { locale: it }) : "-"}</span>
                             <span>•</span>
-                            <span className="text-foreground font-medium">€{item.amount?.toFixed(2)}</span>
+                            <span className="text-foreground font-medium">{formatCurrency(item.amount, item.currency)}</span>
                          </div>
                       </div>
                       
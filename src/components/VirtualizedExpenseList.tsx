@@ -5,6 +5,8 @@ import type { Expense } from "@/hooks/useExpenses";
 import { Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useHaptic } from "@/hooks/use-haptic";
+import { findPerDiemConflicts, isPerDiemConflict } from "@/lib/perDiem";
+import { isReportLocked, type ExpenseReport } from "@/lib/expenseReports";
 
 interface VirtualizedExpenseListProps {
   expenses: Expense[];
@@ -17,6 +19,9 @@ interface VirtualizedExpenseListProps {
   onLoadMore: () => void;
   paddingClassName?: string;
   columns?: number; // New prop for grid control
+  reportsById?: Map<string, ExpenseReport>; // note spese delle spese elencate
+  selectionMode?: boolean;
+  selectedIds?: Set<string>;
 }
 
 export function VirtualizedExpenseList({
@@ -29,11 +34,17 @@ export function VirtualizedExpenseList({
   loadingMore,
   onLoadMore,
   paddingClassName = "h-48",
-  columns = 1
+  columns = 1,
+  reportsById,
+  selectionMode = false,
+  selectedIds,
 }: VirtualizedExpenseListProps) {
   const parentRef = useRef<HTMLDivElement>(null);
   const { trigger: haptic } = useHaptic();
 
+  // Giorni con diaria e scontrini di vitto: entrambe le voci vengono segnalate
+  const conflictDays = useMemo(() => findPerDiemConflicts(expenses), [expenses]);
+
   // BASE HEIGHTS
   // Card base height is approx 175px. 
   // With stagger (max 40px) + gap, we need more space per row.
@@ -150,23 +161,31 @@ export function VirtualizedExpenseList({
               }}
             >
               <div className="flex w-full justify-center gap-6 h-full">
-                {rowItems.map((expense, colIndex) => (
-                  <div 
-                    key={expense.id} 
-                    className={cn(
-                      "flex-1 h-full max-w-[400px] w-full", 
-                      getStaggerClass(colIndex) // Apply Stagger
-                    )}
-                  >
-                    <ExpenseCard
-                      expense={expense}
-                      onClick={() => { haptic('light'); onExpenseClick(expense); }}
-                      onDelete={() => { haptic('warning'); onExpenseDelete(expense.id); }}
-                      onEdit={() => { haptic('light'); onExpenseEdit(expense); }}
-                      className="w-full"
-                    />
-                  </div>
-                ))}
+                {rowItems.map((expense, colIndex) => {
+                  const report = expense.report_id ? reportsById?.get(expense.report_id) : undefined;
+                  return (
+                    <div 
+                      key={expense.id} 
+                      className={cn(
+                        "flex-1 h-full max-w-[400px] w-full", 
+                        getStaggerClass(colIndex) // Apply Stagger
+                      )}
+                    >
+                      <ExpenseCard
+                        expense={expense}
+                        hasPerDiemConflict={isPerDiemConflict(expense, conflictDays)}
+                        reportLabel={report ? report.protocol_number || "Bozza" : null}
+                        locked={isReportLocked(report?.status)}
+                        selectionMode={selectionMode}
+                        selected={selectedIds?.has(expense.id)}
+                        onClick={() => { haptic('light'); onExpenseClick(expense); }}
+                        onDelete={() => { haptic('warning'); onExpenseDelete(expense.id); }}
+                        onEdit={() => { haptic('light'); onExpenseEdit(expense); }}
+                        className="w-full"
+                      />
+                    </div>
+                  );
+                })}
                 
                 {/* Fill empty columns if last row is incomplete to maintain alignment */}
                 {rowItems.length < columns && Array.from({ length: columns - rowItems.length }).map((_, i) => (
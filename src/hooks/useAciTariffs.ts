@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import type { AciTariff } from "@/lib/mileage";
+
+const IMPORT_CHUNK_SIZE = 1000;
+const SEARCH_LIMIT = 20;
+
+export type StoredAciTariff = AciTariff & { id: string };
+
+export function useAciTariffs() {
+  const { user } = useAuth();
+  const [latestYear, setLatestYear] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Anno più recente delle tabelle importate, per proporre le tariffe aggiornate
+  const fetchLatestYear = useCallback(async () => {
+    if (!user) {
+      setLatestYear(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("aci_tariffs")
+        .select("year")
+        .order("year", { ascending: false })
+        .limit(1);
+
+      if (error) throw error;
+      setLatestYear(data && data.length > 0 ? data[0].year : null);
+    } catch (error) {
+      console.error("Error fetching ACI tariffs:", error);
+      setLatestYear(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchLatestYear();
+  }, [fetchLatestYear]);
+
+  // Ricerca per marca o modello nelle tariffe dell'anno più recente
+  async function searchTariffs(query: string): Promise<StoredAciTariff[]> {
+    const term = query.trim().replace(/[%_,()]/g, " ");
+    if (!term || latestYear === null) return [];
+
+    const { data, error } = await supabase
+      .from("aci_tariffs")
+      .select("id, year, brand, model, fuel, cost_per_km")
+      .eq("year", latestYear)
+      .or(`brand.ilike.%${term}%,model.ilike.%${term}%`)
+      .order("brand", { ascending: true })
+      .order("model", { ascending: true })
+      .limit(SEARCH_LIMIT);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async function importTariffs(tariffs: AciTariff[], onProgress?: (imported: number) => void) {
+    for (let start = 0; start < tariffs.length; start += IMPORT_CHUNK_SIZE) {
+      const chunk = tariffs.slice(start, start + IMPORT_CHUNK_SIZE).map(tariff => ({ ...tariff, source: "ACI" }));
+      const { error } = await supabase
+        .from("aci_tariffs")
+        .upsert(chunk, { onConflict: "year,brand,model" });
+      if (error) throw error;
+      onProgress?.(Math.min(start + IMPORT_CHUNK_SIZE, tariffs.length));
+    }
+    await fetchLatestYear();
+  }
+
+  return { latestYear, loading, searchTariffs, importTariffs, refetch: fetchLatestYear };
+}
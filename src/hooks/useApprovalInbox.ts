@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { validateDecision, type ApprovalDecision, type InboxEntry } from "@/lib/approvals";
+
+export function useApprovalInbox() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<InboxEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchInbox = useCallback(async () => {
+    if (!user) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("approval_inbox");
+      if (error) throw error;
+      setEntries((data || []) as InboxEntry[]);
+    } catch (error) {
+      console.error("Error fetching approval inbox:", error);
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchInbox();
+  }, [fetchInbox]);
+
+  // Restituisce lo stato della nota dopo la decisione (approved o draft quando è completa)
+  async function decide(expenseId: string, decision: ApprovalDecision, comment = "") {
+    validateDecision(decision, comment);
+
+    const { data: reportStatus, error } = await supabase.rpc("decide_expense", {
+      p_expense_id: expenseId,
+      p_decision: decision,
+      p_comment: comment.trim() || undefined,
+    });
+    if (error) throw error;
+
+    // La nota esce dall'inbox quando non è più "submitted"
+    if (reportStatus !== "submitted") {
+      await fetchInbox();
+    } else {
+      setEntries(prev => prev.map(e => (e.expense_id === expenseId ? { ...e, approval_status: decision } : e)));
+    }
+    return reportStatus;
+  }
+
+  return {
+    entries,
+    loading,
+    decide,
+    refetch: fetchInbox,
+  };
+}
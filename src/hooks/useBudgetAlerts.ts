@@ -0,0 +1,39 @@
+import { useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useHaptic } from "@/hooks/use-haptic";
+import { useProjects } from "./useProjects";
+import { checkBudgetThresholds } from "./useBudgets";
+import { BUDGET_PERIOD_LABELS, budgetLabel } from "@/lib/budgets";
+import { formatCurrency } from "@/lib/currency";
+
+type BudgetCheckInput = Parameters<typeof checkBudgetThresholds>[0];
+
+// Avvisi dopo aver salvato una spesa: toast e vibrazione se supera l'80% o il 100% di un budget.
+// Non segnala errori: il budget è solo un'indicazione.
+export function useBudgetAlerts() {
+  const { toast } = useToast();
+  const { trigger: haptic } = useHaptic();
+  const { projects } = useProjects();
+
+  const warnIfOverBudget = useCallback(async (expense: BudgetCheckInput) => {
+    try {
+      const alerts = await checkBudgetThresholds(expense);
+      if (alerts.length === 0) return;
+
+      const exceeded = alerts.some(alert => alert.level === "exceeded");
+      haptic(exceeded ? "error" : "warning");
+      alerts.forEach(({ budget, level }) => {
+        const name = `${budgetLabel(budget, projects)} (${BUDGET_PERIOD_LABELS[budget.period].toLowerCase()})`;
+        toast({
+          title: level === "exceeded" ? "Budget superato" : "Budget quasi esaurito",
+          description: `${name}: ${formatCurrency(budget.spent)} su ${formatCurrency(budget.amount)} (${Math.round(budget.ratio * 100)}%)`,
+          variant: level === "exceeded" ? "destructive" : "default",
+        });
+      });
+    } catch (error) {
+      console.warn("Budget check failed", error);
+    }
+  }, [toast, haptic, projects]);
+
+  return { warnIfOverBudget };
+}
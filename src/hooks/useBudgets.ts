@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import type { Expense } from "./useExpenses";
+import {
+  budgetMatches,
+  crossedThreshold,
+  mergeBudgetStatus,
+  validateBudget,
+  type Budget,
+  type BudgetLevel,
+  type BudgetStatus,
+} from "@/lib/budgets";
+
+export type NewBudget = Pick<Budget, "period" | "category" | "project_id" | "amount" | "organization_id">;
+
+export interface BudgetAlert {
+  budget: BudgetStatus;
+  level: Exclude<BudgetLevel, "ok">;
+}
+
+async function fetchBudgetStatus(budgets: Budget[], date: string): Promise<BudgetStatus[]> {
+  const { data, error } = await supabase.rpc("budget_status", { p_date: date });
+  if (error) throw error;
+  return mergeBudgetStatus(budgets, data || []);
+}
+
+// Budget che una spesa appena salvata ha portato oltre l'80% o il 100% nel suo periodo.
+// Il controvalore in EUR e il progetto predefinito li completa il salvataggio, per questo
+// il controllo parte dalla spesa salvata: budget_status la conta già, quindi la si toglie.
+export async function checkBudgetThresholds(
+  expense: Pick<Expense, "user_id" | "organization_id" | "date" | "category" | "project_id" | "amount_eur">
+): Promise<BudgetAlert[]> {
+  if (!expense.date || !expense.amount_eur) return [];
+  const added = Number(expense.amount_eur);
+
+  const { data: budgets, error } = await supabase.from("budgets").select("*");
+  if (error) throw error;
+  const matching = ((budgets || []) as Budget[]).filter(b => budgetMatches(b, expense));
+  if (matching.length === 0) return [];
+
+  const statuses = await fetchBudgetStatus(matching, expense.date);
+  return statuses.flatMap(budget => {
+    const level = crossedThreshold(budget.spent - added, added, budget.amount);
+    return level ? [{ budget, level }] : [];
+  });
+}
+
+export function useBudgets(date: Date = new Date()) {
+  const { user } = useAuth();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const day = format(date, "yyyy-MM-dd");
+
+  const fetchBudgets = useCallback(async () => {
+    if (!user) {
+      setBudgets([]);
+      setStatuses([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("budgets")
+        .select("*")
+        .order("period", { ascending: false })
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      const rows = (data || []) as Budget[];
+      setBudgets(rows);
+      setStatuses(rows.length > 0 ? await fetchBudgetStatus(rows, day) : []);
+    } catch (error) {
+      console.error("Error fetching budgets:", error);
+      setBudgets([]);
+      setStatuses([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, day]);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets]);
+
+  async function addBudget(budget: NewBudget) {
+    if (!user) return null;
+    validateBudget(budget);
+
+    const { data, error } = await supabase
+      .from("budgets")
+      .insert({ ...budget, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    await fetchBudgets();
+    return data as Budget;
+  }
+
+  async function deleteBudget(id: string) {
+    const { error } = await supabase
+      .from("budgets")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    setBudgets(prev => prev.filter(b => b.id !== id));
+    setStatuses(prev => prev.filter(s => s.id !== id));
+  }
+
+  return { budgets, statuses, loading, addBudget, deleteBudget, refetch: fetchBudgets };
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { DEFAULT_CATEGORIES, type Category } from "@/lib/categories";
+
+export type NewCategory = Pick<Category, "name" | "icon" | "color" | "parent_group">;
+
+export function useCategories() {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<Category[]>(DEFAULT_CATEGORIES);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCategories = useCallback(async () => {
+    if (!user) {
+      setCategories(DEFAULT_CATEGORIES);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .order("sort_order", { ascending: true })
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      // Tabella vuota o non ancora migrata: resta la tassonomia predefinita
+      setCategories(data && data.length > 0 ? data : DEFAULT_CATEGORIES);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      setCategories(DEFAULT_CATEGORIES);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  async function addCategory(category: NewCategory) {
+    if (!user) return null;
+
+    const sortOrder = Math.max(0, ...categories.map(c => c.sort_order)) + 10;
+    const { data, error } = await supabase
+      .from("categories")
+      .insert({ ...category, user_id: user.id, sort_order: sortOrder })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setCategories(prev => [...prev, data]);
+    return data;
+  }
+
+  async function deleteCategory(id: string) {
+    const { error } = await supabase
+      .from("categories")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    setCategories(prev => prev.filter(c => c.id !== id));
+  }
+
+  return { categories, loading, addCategory, deleteCategory, refetch: fetchCategories };
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { buildMonthTrends, type MonthTrends } from "@/lib/trends";
+
+// Trend del mese di `date` rispetto al mese precedente e allo stesso mese dell'anno prima.
+// `enabled` evita la query finché il report non è aperto.
+export function useCategoryTrends(date: Date, enabled = true) {
+  const { user } = useAuth();
+  const [trends, setTrends] = useState<MonthTrends | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const month = format(date, "yyyy-MM-01");
+
+  const fetchTrends = useCallback(async () => {
+    if (!user || !enabled) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("category_month_totals", { p_month: month });
+      if (error) throw error;
+      setTrends(buildMonthTrends(data || []));
+    } catch (error) {
+      console.error("Error fetching trends:", error);
+      setTrends(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, month, enabled]);
+
+  useEffect(() => {
+    fetchTrends();
+  }, [fetchTrends]);
+
+  return { trends, loading, refetch: fetchTrends };
+}
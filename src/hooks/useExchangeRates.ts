@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase, SUPABASE_URL, SUPABASE_ANON_KEY } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { ExchangeRateImportError, normalizeCurrency, type ExchangeRate } from "@/lib/currency";
+
+const SUMMARY_LIMIT = 500;
+
+export interface ExchangeRateImport {
+  imported: number;
+  currencies: number;
+}
+
+// Tasso BCE valido per la data della spesa (ultimo giorno lavorativo disponibile)
+export async function fetchEurRate(currency: string, date: string): Promise<Omit<ExchangeRate, "currency"> | null> {
+  const { data, error } = await supabase.rpc("eur_exchange_rate", {
+    p_currency: normalizeCurrency(currency),
+    p_date: date
+  });
+  if (error) throw error;
+  return data && data.length > 0 ? data[0] : null;
+}
+
+export function useExchangeRates() {
+  const { user, session } = useAuth();
+  const [latestRates, setLatestRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Ultimo tasso disponibile per ciascuna valuta
+  const fetchLatestRates = useCallback(async () => {
+    if (!user) {
+      setLatestRates([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("exchange_rates")
+        .select("currency, rate_date, rate")
+        .order("rate_date", { ascending: false })
+        .limit(SUMMARY_LIMIT);
+
+      if (error) throw error;
+      const byCurrency = new Map<string, ExchangeRate>();
+      (data || []).forEach(row => {
+        if (!byCurrency.has(row.currency)) byCurrency.set(row.currency, row);
+      });
+      setLatestRates(Array.from(byCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency)));
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      setLatestRates([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchLatestRates();
+  }, [fetchLatestRates]);
+
+  // Le scritture in exchange_rates le fa la Edge Function import-exchange-rates (service role)
+  async function postImport(body: Record<string, unknown>): Promise<ExchangeRateImport> {
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/import-exchange-rates`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${session?.access_token}`,
+        "apikey": SUPABASE_ANON_KEY
+      },
+      body: JSON.stringify(body)
+    });
+
+    const result = await response.json().catch(() => null);
+    if (response.status === 429) throw new ExchangeRateImportError("Limite giornaliero di importazioni raggiunto");
+    if (!response.ok || !result?.success) {
+      // CSV non valido o utente non autorizzato: il messaggio del server è già per l'utente
+      const clientError = response.status === 400 || response.status === 403;
+      throw new ExchangeRateImportError(clientError && result?.error ? result.error : "Impossibile importare i tassi della BCE");
+    }
+
+    await fetchLatestRates();
+    return { imported: result.imported, currencies: result.currencies };
+  }
+
+  // Download dalla BCE; senza startDate riparte dal giorno dopo l'ultimo tasso salvato
+  function importRates(startDate?: string) {
+    return postImport(startDate ? { start_date: startDate } : {});
+  }
+
+  // CSV della BCE caricato a mano: solo per gli amministratori (app_metadata.role = "admin")
+  function importRatesCsv(csv: string) {
+    return postImport({ csv });
+  }
+
+  const canImportCsv = user?.app_metadata?.role === "admin";
+
+  return { latestRates, loading, importRates, importRatesCsv, canImportCsv, refetch: fetchLatestRates };
+}
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import type { Expense } from "./useExpenses";
+import { sendExpenseEmail } from "@/lib/receipts";
+import {
+  ExpenseReportError,
+  commonTripId,
+  reportPeriod,
+  type ExpenseReport,
+  type ExpenseReportStatus,
+} from "@/lib/expenseReports";
+
+export function useExpenseReports() {
+  const { user, session } = useAuth();
+  const [reports, setReports] = useState<ExpenseReport[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReports = useCallback(async () => {
+    if (!user) {
+      setReports([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("expense_reports")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setReports((data || []) as ExpenseReport[]);
+    } catch (error) {
+      console.error("Error fetching expense reports:", error);
+      setReports([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  async function fetchReportExpenses(reportId: string): Promise<Expense[]> {
+    const { data, error } = await supabase
+      .from("expenses")
+      .select("*")
+      .eq("report_id", reportId)
+      .is("deleted_at", null)
+      .order("expense_date", { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(item => ({
+      ...(item as unknown as Expense),
+      date: item.expense_date,
+      amount: item.total,
+    }));
+  }
+
+  async function createReport(title: string, expenses: Expense[]) {
+    if (!user) return null;
+    if (expenses.length === 0) throw new ExpenseReportError("Seleziona almeno una spesa");
+
+    const { data: report, error } = await supabase
+      .from("expense_reports")
+      .insert({
+        user_id: user.id,
+        title: title.trim() || "Nota spese",
+        ...reportPeriod(expenses),
+        trip_id: commonTripId(expenses),
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const { error: assignError } = await supabase
+      .from("expenses")
+      .update({ report_id: report.id })
+      .in("id", expenses.map(e => e.id));
+    if (assignError) {
+      await supabase.from("expense_reports").delete().eq("id", report.id);
+      throw assignError;
+    }
+
+    await fetchReports();
+    return report as ExpenseReport;
+  }
+
+  async function removeExpense(expenseId: string) {
+    const { error } = await supabase
+      .from("expenses")
+      .update({ report_id: null })
+      .eq("id", expenseId);
+
+    if (error) throw error;
+    await fetchReports();
+  }
+
+  async function setStatus(reportId: string, status: ExpenseReportStatus) {
+    const { data, error } = await supabase
+      .from("expense_reports")
+      .update({ status })
+      .eq("id", reportId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setReports(prev => prev.map(r => (r.id === reportId ? (data as ExpenseReport) : r)));
+    return data as ExpenseReport;
+  }
+
+  // Email con il PDF della nota, ai destinatari del profilo
+  async function sendReportEmail(report: ExpenseReport, recipients: string[]) {
+    if (recipients.length === 0) throw new ExpenseReportError("Nessun destinatario configurato");
+
+    // Protocollo, totali e spese li legge la funzione dal database
+    await sendExpenseEmail({
+      to: recipients,
+      report_id: report.id,
+      approval_url: `${window.location.origin}/approvazioni`,
+    }, session?.access_token);
+
+    const { error } = await supabase
+      .from("expense_reports")
+      .update({ sent_to_email: recipients.join(", ") })
+      .eq("id", report.id);
+    if (error) console.warn("sent_to_email update failed", error);
+
+    await fetchReports();
+  }
+
+  // Invio: il database assegna il protocollo e mette la nota in approvazione. L'email con il
+  // PDF parte dopo (sendReportEmail) e, se non parte, si può ripetere senza toccare la nota.
+  async function submitReport(report: ExpenseReport) {
+    return setStatus(report.id, "submitted");
+  }
+
+  // Ritiro in bozza: il database lo rifiuta se l'approvatore ha già deciso qualche spesa
+  async function withdrawReport(report: ExpenseReport) {
+    return setStatus(report.id, "draft");
+  }
+
+  // Solo per le note senza organizzazione: nelle altre il rimborso lo segna la contabilità
+  async function markReimbursed(report: ExpenseReport) {
+    return setStatus(report.id, "reimbursed");
+  }
+
+  async function deleteReport(reportId: string) {
+    const { error } = await supabase
+      .from("expense_reports")
+      .delete()
+      .eq("id", reportId);
+
+    if (error) throw error;
+    setReports(prev => prev.filter(r => r.id !== reportId));
+  }
+
+  return {
+    reports,
+    loading,
+    fetchReportExpenses,
+    createReport,
+    removeExpense,
+    submitReport,
+    withdrawReport,
+    markReimbursed,
+    sendReportEmail,
+    deleteReport,
+    refetch: fetchReports,
+  };
+}
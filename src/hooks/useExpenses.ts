@@ -1,27 +1,76 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useAuth } from "./useAuth";
 import { format } from "date-fns";
 import { it } from "date-fns/locale";
+import type { LocationSource } from "@/lib/location";
+import type { ExpenseType } from "@/lib/mileage";
+import type { ApprovalStatus } from "@/lib/approvals";
+import { geocodeAddress, placeColumns } from "@/lib/geocoding";
+import { EMPTY_ASSIGNMENT } from "@/lib/projects";
+import { fetchDefaultAssignment } from "./useProjects";
+
+export interface ExpenseItem {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  vat_rate: number | null;
+}
+
+// Riepilogo IVA per aliquota (DatiRiepilogo delle fatture elettroniche)
+export interface VatSummary {
+  vat_rate: number;
+  taxable: number;
+  tax: number;
+  nature?: string | null; // Natura (N1..N7) per le operazioni senza IVA
+}
 
 export interface Expense {
   id: string;
   user_id: string;
+  organization_id?: string | null; // organizzazione attiva al salvataggio
   merchant: string | null;
   date: string | null;
-  amount: number | null;
+  amount: number | null; // importo originale, nella valuta della spesa
   currency: string;
+  amount_eur?: number | null; // controvalore in EUR (cambio BCE del giorno), usato per i totali
+  exchange_rate?: number | null;
+  exchange_rate_date?: string | null;
   category: string | null;
   image_url: string | null;
+  document_url?: string | null;
+  skipped_pages?: number; // pagine finali del PDF non analizzate (oltre MAX_PDF_PAGES)
+  image_hash?: string | null;
   created_at: string;
   updated_at: string;
-  items?: any;
+  items?: ExpenseItem[] | null;
+  vat_breakdown?: VatSummary[] | null;
   sent_to_email?: string | null;
   sent_at?: string | null;
   vat_number?: string | null;
   address?: string | null;
   latitude?: number | null;
   longitude?: number | null;
+  location_source?: LocationSource | null; // EXIF della foto o posizione del dispositivo
+  captured_at?: string | null;
+  municipality?: string | null; // comune risolto dall'indirizzo
+  province?: string | null;
+  country?: string | null;
+  expense_type?: ExpenseType; // "mileage" = rimborso chilometrico, "per_diem" = diaria di trasferta
+  origin?: string | null;
+  destination?: string | null;
+  distance_km?: number | null;
+  cost_per_km?: number | null;
+  vehicle_id?: string | null;
+  trip_id?: string | null; // "per_diem" = giornata di una trasferta
+  taxable_amount?: number | null; // quota della diaria oltre i limiti esenti
+  per_diem_covers_meals?: boolean | null;
+  report_id?: string | null; // nota spese di appartenenza
+  approval_status?: ApprovalStatus | null; // decisione dell'approvatore sulla spesa
+  project_id?: string | null; // progetto da rifatturare al cliente
+  cost_center_id?: string | null;
+  client_id?: string | null;
   deleted_at?: string | null;
 }
 
@@ -59,6 +108,7 @@ export function useExpenses(options: UseExpensesOptions = {}) {
       let query = supabase
         .from("expenses")
         .select("*")
+        .eq("user_id", user.id)
         .order("expense_date", { ascending: false })
         .order("created_at", { ascending: false });
 
@@ -130,13 +180,24 @@ export function useExpenses(options: UseExpensesOptions = {}) {
 
   async function addExpense(expense: Omit<Expense, "id" | "user_id" | "created_at" | "updated_at">) {
     if (!user) return null;
+
+    // Comune dall'indirizzo e, se mancano, coordinate per la mappa
+    const place = await geocodeAddress(expense.address).catch(() => null);
+    // Nessun progetto indicato (import, rimborsi km, acquisizione multipla): quello predefinito
+    const assignment = expense.project_id === undefined
+      ? await fetchDefaultAssignment(user.id).catch(() => EMPTY_ASSIGNMENT)
+      : {};
     
     // MAPPING APP -> DB
     const dbPayload = {
+      ...assignment,
       ...expense,
+      ...placeColumns(place, expense),
       user_id: user.id,
       expense_date: expense.date, // Map App 'date' to DB 'expense_date'
       total: expense.amount,      // Map App 'amount' to DB 'total'
+      items: (expense.items ?? null) as unknown as Json, // JSONB column
+      vat_breakdown: (expense.vat_breakdown ?? null) as unknown as Json,
       // Remove unmapped fields if spread included them (though Omit protects somewhat)
       date: undefined, 
       amount: undefined
@@ -167,6 +228,47 @@ export function useExpenses(options: UseExpensesOptions = {}) {
     return newExpense;
   }
 
+  // Spese già registrate da confrontare con un nuovo scontrino: stesse date (± qualche giorno)
+  // oppure foto con hash percettivo, indipendentemente dalla data letta
+  async function fetchDuplicateCandidates(date: string, windowDays = 7): Promise<Expense[]> {
+    if (!user) return [];
+
+    const center = new Date(date);
+    const from = new Date(center.getTime() - windowDays * 86_400_000).toISOString().split("T")[0];
+    const to = new Date(center.getTime() + windowDays * 86_400_000).toISOString().split("T")[0];
+
+    const [byDate, byHash] = await Promise.all([
+      supabase
+        .from("expenses")
+        .select("*")
+        .eq("user_id", user.id)
+        .is("deleted_at", null)
+        .gte("expense_date", from)
+        .lte("expense_date", to),
+      supabase
+        .from("expenses")
+        .select("*")
+        .eq("user_id", user.id)
+        .is("deleted_at", null)
+        .not("image_hash", "is", null)
+        .order("created_at", { ascending: false })
+        .limit(SEARCH_LIMIT),
+    ]);
+
+    if (byDate.error) throw byDate.error;
+    if (byHash.error) throw byHash.error;
+
+    const rows = new Map<string, Expense>();
+    [...(byDate.data || []), ...(byHash.data || [])].forEach(item => {
+      rows.set(item.id, {
+        ...(item as unknown as Expense),
+        date: item.expense_date,
+        amount: item.total
+      });
+    });
+    return Array.from(rows.values());
+  }
+
   async function deleteExpense(id: string) {
     // Soft delete if column exists, or hard delete? 
     // Usually standard delete for now unless we implement logic
@@ -211,6 +313,7 @@ export function useExpenses(options: UseExpensesOptions = {}) {
     deleteExpense,
     restoreExpense,
     permanentlyDeleteExpense,
+    fetchDuplicateCandidates,
     refetch: () => fetchExpenses(true), 
     loadMore: () => fetchExpenses(false),
     lastAddedId 
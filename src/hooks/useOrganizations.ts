@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import type { ExpenseReport } from "@/lib/expenseReports";
+import {
+  OrganizationError,
+  canMarkReimbursed,
+  isInvitationOpen,
+  normalizeInviteEmail,
+  sortMembers,
+  type Invitation,
+  type OrgRole,
+  type OrganizationMember,
+  type OrganizationWithRole,
+} from "@/lib/organizations";
+
+export function useOrganizations() {
+  const { user } = useAuth();
+  const [organizations, setOrganizations] = useState<OrganizationWithRole[]>([]);
+  const [currentOrganizationId, setCurrentOrganizationId] = useState<string | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [organizationNames, setOrganizationNames] = useState<Map<string, string>>(new Map());
+  const [teamReports, setTeamReports] = useState<ExpenseReport[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const currentOrganization = organizations.find(o => o.id === currentOrganizationId) ?? null;
+  const currentRole = currentOrganization?.role ?? null;
+
+  const fetchOrganizations = useCallback(async () => {
+    if (!user) {
+      setOrganizations([]);
+      setCurrentOrganizationId(null);
+      setInvitations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [membershipsResult, organizationsResult, profileResult, invitationsResult] = await Promise.all([
+        supabase.from("memberships").select("organization_id, role").eq("user_id", user.id),
+        supabase.from("organizations").select("*").order("name", { ascending: true }),
+        supabase.from("profiles").select("current_organization_id").eq("user_id", user.id).maybeSingle(),
+        // Inviti ricevuti e, per gli amministratori, quelli inviati dalle loro organizzazioni
+        supabase.from("invitations").select("*").is("accepted_at", null).order("created_at", { ascending: false }),
+      ]);
+
+      if (membershipsResult.error) throw membershipsResult.error;
+      if (organizationsResult.error) throw organizationsResult.error;
+      if (profileResult.error) throw profileResult.error;
+      if (invitationsResult.error) throw invitationsResult.error;
+
+      const roles = new Map((membershipsResult.data || []).map(m => [m.organization_id, m.role as OrgRole]));
+      // Comprende le organizzazioni che hanno invitato l'utente
+      setOrganizationNames(new Map((organizationsResult.data || []).map(o => [o.id, o.name])));
+      setOrganizations(
+        (organizationsResult.data || [])
+          .filter(o => roles.has(o.id))
+          .map(o => ({ ...o, role: roles.get(o.id)! }))
+      );
+      setCurrentOrganizationId(profileResult.data?.current_organization_id ?? null);
+      setInvitations(((invitationsResult.data || []) as Invitation[]).filter(inv => isInvitationOpen(inv)));
+    } catch (error) {
+      console.error("Error fetching organizations:", error);
+      setOrganizations([]);
+      setInvitations([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Membri e note da rimborsare dell'organizzazione attiva
+  const fetchCurrentOrganization = useCallback(async () => {
+    if (!currentOrganizationId) {
+      setMembers([]);
+      setTeamReports([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc("organization_members", { p_organization_id: currentOrganizationId });
+      if (error) throw error;
+      setMembers(sortMembers((data || []) as OrganizationMember[]));
+
+      if (canMarkReimbursed(currentRole)) {
+        const { data: reports, error: reportsError } = await supabase
+          .from("expense_reports")
+          .select("*")
+          .eq("organization_id", currentOrganizationId)
+          .eq("status", "approved")
+          .order("approved_at", { ascending: true });
+        if (reportsError) throw reportsError;
+        setTeamReports((reports || []) as ExpenseReport[]);
+      } else {
+        setTeamReports([]);
+      }
+    } catch (error) {
+      console.error("Error fetching organization:", error);
+      setMembers([]);
+      setTeamReports([]);
+    }
+  }, [currentOrganizationId, currentRole]);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  useEffect(() => {
+    fetchCurrentOrganization();
+  }, [fetchCurrentOrganization]);
+
+  const receivedInvitations = invitations
+    .filter(inv => user?.email && inv.email.toLowerCase() === user.email.toLowerCase())
+    .map(inv => ({ ...inv, organization_name: organizationNames.get(inv.organization_id) ?? null }));
+  const sentInvitations = invitations.filter(inv => inv.organization_id === currentOrganizationId);
+
+  // null = spazio personale: le nuove spese non vengono condivise
+  async function switchOrganization(organizationId: string | null) {
+    if (!user) return;
+    const { error } = await supabase
+      .from("profiles")
+      .update({ current_organization_id: organizationId })
+      .eq("user_id", user.id);
+
+    if (error) throw error;
+    setCurrentOrganizationId(organizationId);
+  }
+
+  async function createOrganization(name: string) {
+    if (!name.trim()) throw new OrganizationError("Indica un nome per l'organizzazione");
+
+    const { data: organizationId, error } = await supabase.rpc("create_organization", { p_name: name.trim() });
+    if (error) throw error;
+
+    await fetchOrganizations();
+    return organizationId;
+  }
+
+  async function invite(email: string, role: OrgRole) {
+    if (!user || !currentOrganizationId) return null;
+
+    const { data, error } = await supabase
+      .from("invitations")
+      .insert({
+        organization_id: currentOrganizationId,
+        email: normalizeInviteEmail(email),
+        role,
+        invited_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") throw new OrganizationError("Questo indirizzo ha già un invito in sospeso");
+      throw error;
+    }
+    setInvitations(prev => [data as Invitation, ...prev]);
+    return data as Invitation;
+  }
+
+  async function revokeInvitation(invitationId: string) {
+    const { error } = await supabase
+      .from("invitations")
+      .delete()
+      .eq("id", invitationId);
+
+    if (error) throw error;
+    setInvitations(prev => prev.filter(inv => inv.id !== invitationId));
+  }
+
+  async function acceptInvitation(token: string) {
+    const { data: organizationId, error } = await supabase.rpc("accept_invitation", { p_token: token });
+    if (error) throw error;
+
+    await fetchOrganizations();
+    return organizationId;
+  }
+
+  async function updateMemberRole(userId: string, role: OrgRole) {
+    if (!currentOrganizationId) return;
+    const { error } = await supabase
+      .from("memberships")
+      .update({ role })
+      .eq("organization_id", currentOrganizationId)
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    setMembers(prev => sortMembers(prev.map(m => (m.user_id === userId ? { ...m, role } : m))));
+  }
+
+  async function removeMember(userId: string) {
+    if (!currentOrganizationId) return;
+    const { error } = await supabase
+      .from("memberships")
+      .delete()
+      .eq("organization_id", currentOrganizationId)
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    if (userId === user?.id) {
+      await fetchOrganizations();
+    } else {
+      setMembers(prev => prev.filter(m => m.user_id !== userId));
+    }
+  }
+
+  async function markReimbursed(reportId: string) {
+    const { error } = await supabase
+      .from("expense_reports")
+      .update({ status: "reimbursed" })
+      .eq("id", reportId);
+
+    if (error) throw error;
+    setTeamReports(prev => prev.filter(r => r.id !== reportId));
+  }
+
+  return {
+    organizations,
+    currentOrganization,
+    currentRole,
+    members,
+    receivedInvitations,
+    sentInvitations,
+    teamReports,
+    loading,
+    switchOrganization,
+    createOrganization,
+    invite,
+    revokeInvitation,
+    acceptInvitation,
+    updateMemberRole,
+    removeMember,
+    markReimbursed,
+    refetch: fetchOrganizations,
+  };
+}
@@ -8,7 +8,10 @@ export interface Profile {
   user_id: string;
   default_emails: string[] | null;
   is_default_email: boolean;
+  email_each_expense?: boolean; // email a ogni spesa salvata, oltre alla nota spese
   display_name: string | null;
+  home_municipality: string | null;
+  current_organization_id?: string | null;
   created_at: string;
   updated_at: string;
 }
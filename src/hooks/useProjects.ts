@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { EMPTY_ASSIGNMENT, assignProject, type Client, type CostCenter, type Project, type ProjectAssignment } from "@/lib/projects";
+
+export type NewProject = Pick<Project, "name" | "code" | "client_id" | "cost_center_id">;
+export type NewClient = Pick<Client, "name" | "vat_number">;
+export type NewCostCenter = Pick<CostCenter, "code" | "name">;
+
+// Progetto predefinito del profilo (con cliente e centro di costo) per le nuove spese
+export async function fetchDefaultAssignment(userId: string): Promise<ProjectAssignment> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("default_project_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!profile?.default_project_id) return EMPTY_ASSIGNMENT;
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("*")
+    .eq("id", profile.default_project_id)
+    .maybeSingle();
+  if (projectError) throw projectError;
+  return project && !project.archived ? assignProject(EMPTY_ASSIGNMENT, project) : EMPTY_ASSIGNMENT;
+}
+
+export function useProjects() {
+  const { user } = useAuth();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+  const [defaultProjectId, setDefaultProjectId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProjects = useCallback(async () => {
+    if (!user) {
+      setProjects([]);
+      setClients([]);
+      setCostCenters([]);
+      setDefaultProjectId(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [projectsResult, clientsResult, costCentersResult, profileResult] = await Promise.all([
+        supabase.from("projects").select("*").order("archived", { ascending: true }).order("name", { ascending: true }),
+        supabase.from("clients").select("*").order("name", { ascending: true }),
+        supabase.from("cost_centers").select("*").order("code", { ascending: true }),
+        supabase.from("profiles").select("default_project_id").eq("user_id", user.id).maybeSingle(),
+      ]);
+
+      if (projectsResult.error) throw projectsResult.error;
+      if (clientsResult.error) throw clientsResult.error;
+      if (costCentersResult.error) throw costCentersResult.error;
+      if (profileResult.error) throw profileResult.error;
+
+      setProjects(projectsResult.data || []);
+      setClients(clientsResult.data || []);
+      setCostCenters(costCentersResult.data || []);
+      setDefaultProjectId(profileResult.data?.default_project_id ?? null);
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      setProjects([]);
+      setClients([]);
+      setCostCenters([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  async function addProject(project: NewProject) {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from("projects")
+      .insert({ ...project, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setProjects(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name, "it")));
+    return data;
+  }
+
+  // I progetti chiusi restano sulle spese ma spariscono dai selettori
+  async function setProjectArchived(id: string, archived: boolean) {
+    const { error } = await supabase
+      .from("projects")
+      .update({ archived })
+      .eq("id", id);
+
+    if (error) throw error;
+    setProjects(prev => prev.map(p => (p.id === id ? { ...p, archived } : p)));
+    if (archived && defaultProjectId === id) await setDefaultProject(null);
+  }
+
+  async function deleteProject(id: string) {
+    const { error } = await supabase
+      .from("projects")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    setProjects(prev => prev.filter(p => p.id !== id));
+    if (defaultProjectId === id) setDefaultProjectId(null);
+  }
+
+  async function setDefaultProject(id: string | null) {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ default_project_id: id })
+      .eq("user_id", user.id);
+
+    if (error) throw error;
+    setDefaultProjectId(id);
+  }
+
+  async function addClient(client: NewClient) {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from("clients")
+      .insert({ ...client, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setClients(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name, "it")));
+    return data;
+  }
+
+  async function deleteClient(id: string) {
+    const { error } = await supabase
+      .from("clients")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    setClients(prev => prev.filter(c => c.id !== id));
+  }
+
+  async function addCostCenter(costCenter: NewCostCenter) {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from("cost_centers")
+      .insert({ ...costCenter, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setCostCenters(prev => [...prev, data].sort((a, b) => a.code.localeCompare(b.code, "it")));
+    return data;
+  }
+
+  async function deleteCostCenter(id: string) {
+    const { error } = await supabase
+      .from("cost_centers")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    setCostCenters(prev => prev.filter(c => c.id !== id));
+  }
+
+  return {
+    projects,
+    activeProjects: projects.filter(p => !p.archived),
+    clients,
+    costCenters,
+    defaultProjectId,
+    loading,
+    addProject,
+    setProjectArchived,
+    deleteProject,
+    setDefaultProject,
+    addClient,
+    deleteClient,
+    addCostCenter,
+    deleteCostCenter,
+    refetch: fetchProjects,
+  };
+}
@@ -0,0 +1,89 @@
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import {
+  PER_DIEM_CATEGORY_NAME,
+  PER_DIEM_COUNTRIES,
+  perDiemCoversMeals,
+  type PerDiemLine,
+  type PerDiemTrip,
+} from "@/lib/perDiem";
+
+export type NewTrip = PerDiemTrip & { destination: string };
+
+function lineMerchant(trip: NewTrip, line: PerDiemLine): string {
+  const place = trip.destination.trim() || PER_DIEM_COUNTRIES[trip.country] || trip.country;
+  return `Diaria ${place}${line.fraction < 1 ? " (½ giornata)" : ""}`;
+}
+
+export function useTrips() {
+  const { user } = useAuth();
+
+  // Spese già registrate nei giorni della trasferta, per segnalare i pasti rimborsati due volte
+  async function fetchExpensesBetween(from: string, to: string) {
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("expenses")
+      .select("expense_date, category, expense_type, per_diem_covers_meals")
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .gte("expense_date", from)
+      .lte("expense_date", to);
+
+    if (error) throw error;
+    return (data || []).map(row => ({ ...row, date: row.expense_date }));
+  }
+
+  // Salva la trasferta e una spesa "per_diem" per ogni giornata con diaria
+  async function addTrip(trip: NewTrip, lines: PerDiemLine[]) {
+    if (!user) return null;
+
+    const { data: saved, error } = await supabase
+      .from("trips")
+      .insert({
+        user_id: user.id,
+        destination: trip.destination.trim() || null,
+        country: trip.country,
+        departure_at: trip.departure.toISOString(),
+        return_at: trip.return.toISOString(),
+        mode: trip.mode,
+        meals_reimbursed: trip.mode === "misto" && trip.mealsReimbursed,
+        lodging_reimbursed: trip.mode === "misto" && trip.lodgingReimbursed,
+        daily_rate: trip.dailyRate,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const coversMeals = perDiemCoversMeals(trip);
+    const rows = lines
+      .filter(line => line.amount > 0)
+      .map(line => ({
+        user_id: user.id,
+        trip_id: saved.id,
+        expense_type: "per_diem",
+        merchant: lineMerchant(trip, line),
+        expense_date: line.date,
+        total: line.amount,
+        currency: "EUR",
+        category: PER_DIEM_CATEGORY_NAME,
+        country: trip.country === "XX" ? null : trip.country,
+        taxable_amount: line.taxable,
+        per_diem_covers_meals: coversMeals,
+        image_url: null,
+      }));
+
+    if (rows.length > 0) {
+      const { error: linesError } = await supabase.from("expenses").insert(rows);
+      if (linesError) {
+        // Niente trasferta senza righe: si annulla l'inserimento
+        await supabase.from("trips").delete().eq("id", saved.id);
+        throw linesError;
+      }
+    }
+    return saved;
+  }
+
+  return { addTrip, fetchExpensesBetween };
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+
+export interface Vehicle {
+  id: string;
+  user_id: string;
+  name: string;
+  plate: string | null;
+  aci_tariff_id: string | null;
+  cost_per_km: number;
+  is_default: boolean;
+}
+
+export type NewVehicle = Pick<Vehicle, "name" | "plate" | "aci_tariff_id" | "cost_per_km">;
+
+export function useVehicles() {
+  const { user } = useAuth();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchVehicles = useCallback(async () => {
+    if (!user) {
+      setVehicles([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("vehicles")
+        .select("*")
+        .order("is_default", { ascending: false })
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      setVehicles(data || []);
+    } catch (error) {
+      console.error("Error fetching vehicles:", error);
+      setVehicles([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchVehicles();
+  }, [fetchVehicles]);
+
+  async function addVehicle(vehicle: NewVehicle) {
+    if (!user) return null;
+
+    // Il primo veicolo diventa quello predefinito
+    const { data, error } = await supabase
+      .from("vehicles")
+      .insert({ ...vehicle, user_id: user.id, is_default: vehicles.length === 0 })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setVehicles(prev => [...prev, data]);
+    return data;
+  }
+
+  async function deleteVehicle(id: string) {
+    const { error } = await supabase
+      .from("vehicles")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    setVehicles(prev => prev.filter(v => v.id !== id));
+  }
+
+  async function setDefaultVehicle(id: string) {
+    if (!user) return;
+
+    const { error: resetError } = await supabase
+      .from("vehicles")
+      .update({ is_default: false })
+      .eq("user_id", user.id)
+      .neq("id", id);
+    if (resetError) throw resetError;
+
+    const { error } = await supabase
+      .from("vehicles")
+      .update({ is_default: true })
+      .eq("id", id);
+    if (error) throw error;
+
+    setVehicles(prev => prev.map(v => ({ ...v, is_default: v.id === id })));
+  }
+
+  const defaultVehicle = vehicles.find(v => v.is_default) || vehicles[0] || null;
+
+  return { vehicles, defaultVehicle, loading, addVehicle, deleteVehicle, setDefaultVehicle, refetch: fetchVehicles };
+}
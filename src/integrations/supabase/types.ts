@@ -14,74 +14,630 @@ export type Database = {
   }
   public: {
     Tables: {
+      aci_tariffs: {
+        Row: {
+          brand: string
+          cost_per_km: number
+          created_at: string | null
+          fuel: string | null
+          id: string
+          model: string
+          source: string
+          year: number
+        }
+        Insert: {
+          brand: string
+          cost_per_km: number
+          created_at?: string | null
+          fuel?: string | null
+          id?: string
+          model: string
+          source?: string
+          year: number
+        }
+        Update: {
+          brand?: string
+          cost_per_km?: number
+          created_at?: string | null
+          fuel?: string | null
+          id?: string
+          model?: string
+          source?: string
+          year?: number
+        }
+        Relationships: []
+      }
+      analysis_cache: {
+        Row: {
+          content_hash: string
+          created_at: string | null
+          hits: number
+          id: string
+          last_hit_at: string | null
+          model: string
+          prompt_hash: string
+          prompt_version: string
+          provider: string
+          raw_response: string
+          repaired: boolean
+          user_id: string
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string | null
+          hits?: number
+          id?: string
+          last_hit_at?: string | null
+          model: string
+          prompt_hash: string
+          prompt_version: string
+          provider: string
+          raw_response: string
+          repaired?: boolean
+          user_id: string
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string | null
+          hits?: number
+          id?: string
+          last_hit_at?: string | null
+          model?: string
+          prompt_hash?: string
+          prompt_version?: string
+          provider?: string
+          raw_response?: string
+          repaired?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      budgets: {
+        Row: {
+          amount: number
+          category: string | null
+          created_at: string | null
+          id: string
+          organization_id: string | null
+          period: string
+          project_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category?: string | null
+          created_at?: string | null
+          id?: string
+          organization_id?: string | null
+          period?: string
+          project_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string | null
+          created_at?: string | null
+          id?: string
+          organization_id?: string | null
+          period?: string
+          project_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          color: string
+          created_at: string | null
+          icon: string
+          id: string
+          name: string
+          parent_group: string
+          sort_order: number
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          color?: string
+          created_at?: string | null
+          icon?: string
+          id?: string
+          name: string
+          parent_group?: string
+          sort_order?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          color?: string
+          created_at?: string | null
+          icon?: string
+          id?: string
+          name?: string
+          parent_group?: string
+          sort_order?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      clients: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          organization_id: string | null
+          updated_at: string | null
+          user_id: string
+          vat_number: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          organization_id?: string | null
+          updated_at?: string | null
+          user_id: string
+          vat_number?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          organization_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+          vat_number?: string | null
+        }
+        Relationships: []
+      }
+      cost_centers: {
+        Row: {
+          code: string
+          created_at: string | null
+          id: string
+          name: string | null
+          organization_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          id?: string
+          name?: string | null
+          organization_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          id?: string
+          name?: string | null
+          organization_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string | null
+          currency: string
+          rate: number
+          rate_date: string
+          source: string
+        }
+        Insert: {
+          created_at?: string | null
+          currency: string
+          rate: number
+          rate_date: string
+          source?: string
+        }
+        Update: {
+          created_at?: string | null
+          currency?: string
+          rate?: number
+          rate_date?: string
+          source?: string
+        }
+        Relationships: []
+      }
+      expense_approvals: {
+        Row: {
+          approver_id: string
+          comment: string | null
+          created_at: string | null
+          decision: string
+          expense_id: string
+          id: string
+          report_id: string | null
+        }
+        Insert: {
+          approver_id: string
+          comment?: string | null
+          created_at?: string | null
+          decision: string
+          expense_id: string
+          id?: string
+          report_id?: string | null
+        }
+        Update: {
+          approver_id?: string
+          comment?: string | null
+          created_at?: string | null
+          decision?: string
+          expense_id?: string
+          id?: string
+          report_id?: string | null
+        }
+        Relationships: []
+      }
+      expense_report_counters: {
+        Row: {
+          last_seq: number
+          user_id: string
+          year: number
+        }
+        Insert: {
+          last_seq?: number
+          user_id: string
+          year: number
+        }
+        Update: {
+          last_seq?: number
+          user_id?: string
+          year?: number
+        }
+        Relationships: []
+      }
+      expense_reports: {
+        Row: {
+          approved_at: string | null
+          created_at: string | null
+          expense_count: number
+          id: string
+          organization_id: string | null
+          period_end: string | null
+          period_start: string | null
+          protocol_number: string | null
+          protocol_seq: number | null
+          protocol_year: number | null
+          reimbursed_at: string | null
+          sent_to_email: string | null
+          status: string
+          submitted_at: string | null
+          title: string
+          total_eur: number
+          trip_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          approved_at?: string | null
+          created_at?: string | null
+          expense_count?: number
+          id?: string
+          organization_id?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          protocol_number?: string | null
+          protocol_seq?: number | null
+          protocol_year?: number | null
+          reimbursed_at?: string | null
+          sent_to_email?: string | null
+          status?: string
+          submitted_at?: string | null
+          title: string
+          total_eur?: number
+          trip_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          approved_at?: string | null
+          created_at?: string | null
+          expense_count?: number
+          id?: string
+          organization_id?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          protocol_number?: string | null
+          protocol_seq?: number | null
+          protocol_year?: number | null
+          reimbursed_at?: string | null
+          sent_to_email?: string | null
+          status?: string
+          submitted_at?: string | null
+          title?: string
+          total_eur?: number
+          trip_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       expenses: {
         Row: {
+          amount_eur: number | null
+          approval_status: string | null
+          captured_at: string | null
           category: string | null
+          client_id: string | null
+          cost_center_id: string | null
+          cost_per_km: number | null
+          country: string | null
           created_at: string
           currency: string | null
+          destination: string | null
+          distance_km: number | null
+          document_url: string | null
+          exchange_rate: number | null
+          exchange_rate_date: string | null
           expense_date: string | null
+          expense_type: string
           id: string
+          image_hash: string | null
           image_url: string | null
           items: Json | null
+          location_source: string | null
           merchant: string | null
+          municipality: string | null
+          organization_id: string | null
+          origin: string | null
+          per_diem_covers_meals: boolean | null
+          project_id: string | null
+          province: string | null
+          report_id: string | null
           sent_at: string | null
           sent_to_email: string | null
+          skipped_pages: number
+          taxable_amount: number | null
           total: number | null
+          trip_id: string | null
           updated_at: string
           user_id: string
+          vat_breakdown: Json | null
           vat_number: string | null
           address: string | null
           latitude: number | null
           longitude: number | null
           deleted_at: string | null
+          vehicle_id: string | null
         }
         Insert: {
+          amount_eur?: number | null
+          approval_status?: string | null
+          captured_at?: string | null
           category?: string | null
+          client_id?: string | null
+          cost_center_id?: string | null
+          cost_per_km?: number | null
+          country?: string | null
           created_at?: string
           currency?: string | null
+          destination?: string | null
+          distance_km?: number | null
+          document_url?: string | null
+          exchange_rate?: number | null
+          exchange_rate_date?: string | null
           expense_date?: string | null
+          expense_type?: string
           id?: string
+          image_hash?: string | null
           image_url?: string | null
           items?: Json | null
+          location_source?: string | null
           merchant?: string | null
+          municipality?: string | null
+          organization_id?: string | null
+          origin?: string | null
+          per_diem_covers_meals?: boolean | null
+          project_id?: string | null
+          province?: string | null
+          report_id?: string | null
           sent_at?: string | null
           sent_to_email?: string | null
+          skipped_pages?: number
+          taxable_amount?: number | null
           total?: number | null
+          trip_id?: string | null
           updated_at?: string
           user_id: string
+          vat_breakdown?: Json | null
           vat_number?: string | null
           address?: string | null
           latitude?: number | null
           longitude?: number | null
           deleted_at?: string | null
+          vehicle_id?: string | null
         }
         Update: {
+          amount_eur?: number | null
+          approval_status?: string | null
+          captured_at?: string | null
           category?: string | null
+          client_id?: string | null
+          cost_center_id?: string | null
+          cost_per_km?: number | null
+          country?: string | null
           created_at?: string
           currency?: string | null
+          destination?: string | null
+          distance_km?: number | null
+          document_url?: string | null
+          exchange_rate?: number | null
+          exchange_rate_date?: string | null
           expense_date?: string | null
+          expense_type?: string
           id?: string
+          image_hash?: string | null
           image_url?: string | null
           items?: Json | null
+          location_source?: string | null
           merchant?: string | null
+          municipality?: string | null
+          organization_id?: string | null
+          origin?: string | null
+          per_diem_covers_meals?: boolean | null
+          project_id?: string | null
+          province?: string | null
+          report_id?: string | null
           sent_at?: string | null
           sent_to_email?: string | null
+          skipped_pages?: number
+          taxable_amount?: number | null
           total?: number | null
+          trip_id?: string | null
           updated_at?: string
           user_id?: string
+          vat_breakdown?: Json | null
           vat_number?: string | null
           address?: string | null
           latitude?: number | null
           longitude?: number | null
           deleted_at?: string | null
+          vehicle_id?: string | null
+        }
+        Relationships: []
+      }
+      function_quotas: {
+        Row: {
+          daily_limit: number
+          function_name: string
+          updated_at: string | null
+        }
+        Insert: {
+          daily_limit: number
+          function_name: string
+          updated_at?: string | null
+        }
+        Update: {
+          daily_limit?: number
+          function_name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      function_usage: {
+        Row: {
+          function_name: string
+          request_count: number
+          updated_at: string | null
+          usage_date: string
+          user_id: string
+        }
+        Insert: {
+          function_name: string
+          request_count?: number
+          updated_at?: string | null
+          usage_date?: string
+          user_id: string
+        }
+        Update: {
+          function_name?: string
+          request_count?: number
+          updated_at?: string | null
+          usage_date?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string | null
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: string
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string | null
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role?: string
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: string
+          token?: string
+        }
+        Relationships: []
+      }
+      memberships: {
+        Row: {
+          created_at: string | null
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          organization_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organizations: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
         }
         Relationships: []
       }
       profiles: {
         Row: {
           created_at: string
+          current_organization_id: string | null
           default_emails: string[] | null
+          default_project_id: string | null
           display_name: string | null
+          email_each_expense: boolean
+          home_municipality: string | null
           id: string
           is_default_email: boolean | null
           updated_at: string
@@ -89,8 +645,12 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          current_organization_id?: string | null
           default_emails?: string[] | null
+          default_project_id?: string | null
           display_name?: string | null
+          email_each_expense?: boolean
+          home_municipality?: string | null
           id?: string
           is_default_email?: boolean | null
           updated_at?: string
@@ -98,8 +658,12 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          current_organization_id?: string | null
           default_emails?: string[] | null
+          default_project_id?: string | null
           display_name?: string | null
+          email_each_expense?: boolean
+          home_municipality?: string | null
           id?: string
           is_default_email?: boolean | null
           updated_at?: string
@@ -107,12 +671,215 @@ export type Database = {
         }
         Relationships: []
       }
+      projects: {
+        Row: {
+          archived: boolean
+          client_id: string | null
+          code: string | null
+          cost_center_id: string | null
+          created_at: string | null
+          id: string
+          name: string
+          organization_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          archived?: boolean
+          client_id?: string | null
+          code?: string | null
+          cost_center_id?: string | null
+          created_at?: string | null
+          id?: string
+          name: string
+          organization_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          archived?: boolean
+          client_id?: string | null
+          code?: string | null
+          cost_center_id?: string | null
+          created_at?: string | null
+          id?: string
+          name?: string
+          organization_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      trips: {
+        Row: {
+          country: string
+          created_at: string | null
+          daily_rate: number
+          departure_at: string
+          destination: string | null
+          id: string
+          lodging_reimbursed: boolean
+          meals_reimbursed: boolean
+          mode: string
+          return_at: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          country?: string
+          created_at?: string | null
+          daily_rate: number
+          departure_at: string
+          destination?: string | null
+          id?: string
+          lodging_reimbursed?: boolean
+          meals_reimbursed?: boolean
+          mode?: string
+          return_at: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          country?: string
+          created_at?: string | null
+          daily_rate?: number
+          departure_at?: string
+          destination?: string | null
+          id?: string
+          lodging_reimbursed?: boolean
+          meals_reimbursed?: boolean
+          mode?: string
+          return_at?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      vehicles: {
+        Row: {
+          aci_tariff_id: string | null
+          cost_per_km: number
+          created_at: string | null
+          id: string
+          is_default: boolean
+          name: string
+          plate: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          aci_tariff_id?: string | null
+          cost_per_km: number
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          plate?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          aci_tariff_id?: string | null
+          cost_per_km?: number
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          plate?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_invitation: {
+        Args: { p_token: string }
+        Returns: string
+      }
+      approval_inbox: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          amount_eur: number | null
+          approval_status: string
+          category: string | null
+          currency: string | null
+          document_url: string | null
+          expense_date: string | null
+          expense_id: string
+          expense_type: string
+          image_url: string | null
+          merchant: string | null
+          protocol_number: string | null
+          report_id: string
+          report_title: string
+          submitted_at: string | null
+          submitter_name: string | null
+          total: number | null
+          user_id: string
+        }[]
+      }
+      budget_status: {
+        Args: { p_date?: string }
+        Returns: {
+          budget_id: string
+          period_end: string
+          period_start: string
+          spent: number
+        }[]
+      }
+      category_month_totals: {
+        Args: { p_month?: string }
+        Returns: {
+          category: string
+          period: string
+          total: number
+        }[]
+      }
+      consume_function_quota: {
+        Args: { p_function: string; p_user_id: string }
+        Returns: {
+          allowed: boolean
+          daily_limit: number
+        }[]
+      }
+      create_organization: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      decide_expense: {
+        Args: { p_expense_id: string; p_decision: string; p_comment?: string }
+        Returns: string
+      }
+      eur_exchange_rate: {
+        Args: { p_currency: string; p_date: string }
+        Returns: { rate: number; rate_date: string }[]
+      }
+      has_org_role: {
+        Args: { p_organization_id: string; p_roles: string[] }
+        Returns: boolean
+      }
+      is_approver_of: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      organization_members: {
+        Args: { p_organization_id: string }
+        Returns: {
+          created_at: string | null
+          display_name: string | null
+          email: string | null
+          role: string
+          user_id: string
+        }[]
+      }
+      shares_organization: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,112 @@
+// Approvazioni: l'approvatore decide spesa per spesa sulle note inviate dai colleghi.
+// Regole e passaggi di stato sono nel database (funzione decide_expense); qui etichette,
+// validazione del commento e raggruppamento dell'inbox.
+
+export type ApprovalDecision = "approved" | "rejected" | "changes_requested";
+export type ApprovalStatus = "pending" | ApprovalDecision;
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: "In approvazione",
+  approved: "Approvata",
+  rejected: "Rifiutata",
+  changes_requested: "Da modificare",
+};
+
+export const APPROVAL_DECISION_LABELS: Record<ApprovalDecision, string> = {
+  approved: "Approva",
+  rejected: "Rifiuta",
+  changes_requested: "Chiedi modifiche",
+};
+
+export interface ExpenseApproval {
+  id: string;
+  expense_id: string;
+  report_id: string | null;
+  approver_id: string;
+  decision: ApprovalDecision;
+  comment: string | null;
+  created_at: string | null;
+}
+
+// Riga restituita da approval_inbox()
+export interface InboxEntry {
+  expense_id: string;
+  user_id: string;
+  submitter_name: string | null;
+  report_id: string;
+  report_title: string;
+  protocol_number: string | null;
+  submitted_at: string | null;
+  merchant: string | null;
+  expense_date: string | null;
+  total: number | null;
+  currency: string | null;
+  amount_eur: number | null;
+  category: string | null;
+  expense_type: string;
+  image_url: string | null;
+  document_url: string | null;
+  approval_status: ApprovalStatus;
+}
+
+export interface InboxReport {
+  report_id: string;
+  report_title: string;
+  protocol_number: string | null;
+  submitter_name: string | null;
+  submitted_at: string | null;
+  entries: InboxEntry[];
+  pending: number;
+  total_eur: number;
+}
+
+export class ApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+// Rifiuto e richiesta di modifiche vanno motivati
+export function requiresComment(decision: ApprovalDecision): boolean {
+  return decision !== "approved";
+}
+
+export function validateDecision(decision: ApprovalDecision, comment: string): void {
+  if (requiresComment(decision) && !comment.trim()) {
+    throw new ApprovalError("Scrivi un commento per rifiutare o chiedere modifiche");
+  }
+}
+
+// Una card per nota spese, nell'ordine di invio; le spese ancora da decidere in cima
+export function groupInboxByReport(entries: InboxEntry[]): InboxReport[] {
+  const groups = new Map<string, InboxReport>();
+  entries.forEach(entry => {
+    let group = groups.get(entry.report_id);
+    if (!group) {
+      group = {
+        report_id: entry.report_id,
+        report_title: entry.report_title,
+        protocol_number: entry.protocol_number,
+        submitter_name: entry.submitter_name,
+        submitted_at: entry.submitted_at,
+        entries: [],
+        pending: 0,
+        total_eur: 0,
+      };
+      groups.set(entry.report_id, group);
+    }
+    group.entries.push(entry);
+    if (entry.approval_status === "pending") group.pending += 1;
+    const isEuro = !entry.currency || entry.currency.toUpperCase() === "EUR";
+    group.total_eur += entry.amount_eur ?? (isEuro ? entry.total ?? 0 : 0);
+  });
+
+  return Array.from(groups.values()).map(group => ({
+    ...group,
+    total_eur: Math.round(group.total_eur * 100) / 100,
+    entries: [...group.entries].sort(
+      (a, b) => Number(b.approval_status === "pending") - Number(a.approval_status === "pending")
+    ),
+  }));
+}
@@ -0,0 +1,114 @@
+import { projectLabel, type Project } from "@/lib/projects";
+
+// Budget mensili o annuali: complessivi, per categoria o per progetto. Lo speso del periodo
+// lo calcola il database (budget_status); qui soglie, etichette e scelta del budget da mostrare.
+
+export type BudgetPeriod = "monthly" | "annual";
+export type BudgetLevel = "ok" | "warning" | "exceeded";
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  monthly: "Mensile",
+  annual: "Annuale",
+};
+
+// Avviso all'80% del budget, superamento al 100%
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export interface Budget {
+  id: string;
+  user_id: string;
+  organization_id: string | null; // budget dell'organizzazione: conta le spese di tutti i membri
+  period: BudgetPeriod;
+  category: string | null;
+  project_id: string | null;
+  amount: number;
+}
+
+export interface BudgetStatus extends Budget {
+  period_start: string;
+  period_end: string;
+  spent: number;
+  ratio: number;
+}
+
+export class BudgetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetError";
+  }
+}
+
+export function budgetLevel(ratio: number): BudgetLevel {
+  if (ratio >= 1) return "exceeded";
+  if (ratio >= BUDGET_WARNING_RATIO) return "warning";
+  return "ok";
+}
+
+// Soglia superata aggiungendo una spesa (la più alta), null se nessuna
+export function crossedThreshold(spent: number, added: number, amount: number): Exclude<BudgetLevel, "ok"> | null {
+  if (amount <= 0 || added <= 0) return null;
+  const before = budgetLevel(spent / amount);
+  const after = budgetLevel((spent + added) / amount);
+  return after !== before && after !== "ok" ? after : null;
+}
+
+// Budget che conta la spesa, come in budget_status: quello personale del suo proprietario o quello
+// della sua organizzazione, complessivo (senza categoria né progetto) o dello stesso ambito
+export function budgetMatches(
+  budget: Pick<Budget, "user_id" | "organization_id" | "category" | "project_id">,
+  expense: { user_id?: string | null; organization_id?: string | null; category?: string | null; project_id?: string | null }
+): boolean {
+  if (budget.organization_id ? budget.organization_id !== expense.organization_id : budget.user_id !== expense.user_id) return false;
+  if (budget.category && budget.category.toLowerCase() !== (expense.category || "").toLowerCase()) return false;
+  if (budget.project_id && budget.project_id !== expense.project_id) return false;
+  return true;
+}
+
+export function budgetLabel(budget: Pick<Budget, "category" | "project_id">, projects: Project[] = []): string {
+  if (budget.category) return budget.category;
+  if (budget.project_id) {
+    const project = projects.find(p => p.id === budget.project_id);
+    return project ? projectLabel(project) : "Progetto";
+  }
+  return "Tutte le spese";
+}
+
+export function validateBudget(budget: Pick<Budget, "amount" | "category" | "project_id">): void {
+  if (!Number.isFinite(budget.amount) || budget.amount <= 0) {
+    throw new BudgetError("Indica un importo maggiore di zero");
+  }
+  if (budget.category && budget.project_id) {
+    throw new BudgetError("Un budget vale per una categoria oppure per un progetto");
+  }
+}
+
+// Unisce i budget con lo speso restituito da budget_status, dal più vicino al limite
+export function mergeBudgetStatus(
+  budgets: Budget[],
+  rows: { budget_id: string; period_start: string; period_end: string; spent: number }[]
+): BudgetStatus[] {
+  const byId = new Map(rows.map(row => [row.budget_id, row]));
+  return budgets
+    .filter(budget => byId.has(budget.id))
+    .map(budget => {
+      const row = byId.get(budget.id)!;
+      const spent = Math.round(Number(row.spent) * 100) / 100;
+      return {
+        ...budget,
+        period_start: row.period_start,
+        period_end: row.period_end,
+        spent,
+        ratio: spent / budget.amount,
+      };
+    })
+    .sort((a, b) => b.ratio - a.ratio);
+}
+
+// Budget per l'anello accanto al saldo del mese: quello mensile complessivo se c'è,
+// altrimenti il budget mensile più vicino al limite
+export function headlineBudget(statuses: BudgetStatus[]): BudgetStatus | null {
+  const monthly = statuses.filter(s => s.period === "monthly");
+  return monthly.find(s => !s.category && !s.project_id)
+    ?? [...monthly].sort((a, b) => b.ratio - a.ratio)[0]
+    ?? null;
+}
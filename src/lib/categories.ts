@@ -0,0 +1,93 @@
+import {
+  BedDouble,
+  Briefcase,
+  Car,
+  CarTaxiFront,
+  Coffee,
+  Fuel,
+  Luggage,
+  ParkingCircle,
+  Plane,
+  Receipt,
+  ShoppingBag,
+  TrainFront,
+  Utensils,
+  type LucideIcon,
+} from "lucide-react";
+
+export interface Category {
+  id: string;
+  user_id: string | null; // null = tassonomia condivisa
+  name: string;
+  icon: string;
+  color: string;
+  parent_group: string;
+  sort_order: number;
+}
+
+// Icone selezionabili per le categorie, salvate per nome nella colonna "icon"
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  "utensils": Utensils,
+  "coffee": Coffee,
+  "bed-double": BedDouble,
+  "car-taxi-front": CarTaxiFront,
+  "car": Car,
+  "train-front": TrainFront,
+  "plane": Plane,
+  "fuel": Fuel,
+  "parking-circle": ParkingCircle,
+  "briefcase": Briefcase,
+  "luggage": Luggage,
+  "shopping-bag": ShoppingBag,
+  "receipt": Receipt,
+};
+
+export const FALLBACK_CATEGORY_COLOR = "#64748b";
+export const FALLBACK_CATEGORY_NAME = "Altri Costi";
+
+// Stessa tassonomia inserita dalla migration: usata finché il DB non risponde
+export const DEFAULT_CATEGORIES: Category[] = [
+  { name: "Vitto Comune", icon: "utensils", color: "#10b981", parent_group: "Vitto" },
+  { name: "Vitto Oltre Comune", icon: "utensils", color: "#059669", parent_group: "Vitto" },
+  { name: "Vitto Estero", icon: "utensils", color: "#047857", parent_group: "Vitto" },
+  { name: "Alloggio Comune", icon: "bed-double", color: "#8b5cf6", parent_group: "Alloggio" },
+  { name: "Alloggio Oltre Comune", icon: "bed-double", color: "#7c3aed", parent_group: "Alloggio" },
+  { name: "Alloggio Estero", icon: "bed-double", color: "#6d28d9", parent_group: "Alloggio" },
+  { name: "Taxi", icon: "car-taxi-front", color: "#f59e0b", parent_group: "Trasporti" },
+  { name: "Spese trasporti", icon: "train-front", color: "#3b82f6", parent_group: "Trasporti" },
+  { name: "Rimborso Chilometrico", icon: "car", color: "#0ea5e9", parent_group: "Trasporti" },
+  { name: "Spese Rappresentanza", icon: "briefcase", color: "#ec4899", parent_group: "Rappresentanza" },
+  { name: "Indennità di Trasferta", icon: "luggage", color: "#14b8a6", parent_group: "Trasferta" },
+  { name: "Altri Costi", icon: "receipt", color: FALLBACK_CATEGORY_COLOR, parent_group: "Altro" },
+].map((category, index) => ({
+  ...category,
+  id: `default-${index}`,
+  user_id: null,
+  sort_order: (index + 1) * 10,
+}));
+
+export function findCategory(categories: Category[], name: string | null | undefined): Category | undefined {
+  if (!name) return undefined;
+  const lower = name.toLowerCase();
+  return categories.find(c => c.name.toLowerCase() === lower);
+}
+
+export function getCategoryIcon(categories: Category[], name: string | null | undefined): LucideIcon {
+  const category = findCategory(categories, name);
+  return (category && CATEGORY_ICONS[category.icon]) || Receipt;
+}
+
+export function getCategoryColor(categories: Category[], name: string | null | undefined): string {
+  return findCategory(categories, name)?.color || FALLBACK_CATEGORY_COLOR;
+}
+
+// Raggruppa per parent_group mantenendo l'ordine di sort_order
+export function groupCategories(categories: Category[]): Array<{ group: string; categories: Category[] }> {
+  const groups = new Map<string, Category[]>();
+  categories.forEach(category => {
+    const list = groups.get(category.parent_group) || [];
+    list.push(category);
+    groups.set(category.parent_group, list);
+  });
+  return Array.from(groups.entries()).map(([group, list]) => ({ group, categories: list }));
+}
@@ -0,0 +1,197 @@
+// Gazetteer offline dei comuni italiani: l'elenco completo ISTAT (denominazione, sigla della
+// provincia, CAP) viene dal pacchetto comuni-json ed è caricato solo alla prima geocodifica.
+// Le coordinate della sede municipale ci sono per i capoluoghi di provincia e i comuni più
+// frequenti nelle trasferte; per gli altri le chiede a Nominatim geocodeAddress (geocoding.ts).
+
+export interface Comune {
+  name: string;
+  province: string;
+  caps: string[];
+  latitude: number | null;
+  longitude: number | null;
+}
+
+type Row = [name: string, province: string, latitude: number, longitude: number];
+
+const COORDINATES: Row[] = [
+  // Piemonte
+  ["Torino", "TO", 45.0703, 7.6869],
+  ["Alessandria", "AL", 44.9131, 8.615],
+  ["Asti", "AT", 44.9, 8.2069],
+  ["Biella", "BI", 45.5667, 8.05],
+  ["Cuneo", "CN", 44.3844, 7.5426],
+  ["Novara", "NO", 45.4469, 8.6222],
+  ["Verbania", "VB", 45.9214, 8.5519],
+  ["Vercelli", "VC", 45.325, 8.4231],
+  // Valle d'Aosta
+  ["Aosta", "AO", 45.7372, 7.3206],
+  // Lombardia
+  ["Milano", "MI", 45.4642, 9.19],
+  ["Assago", "MI", 45.408, 9.125],
+  ["Cinisello Balsamo", "MI", 45.558, 9.215],
+  ["Legnano", "MI", 45.596, 8.914],
+  ["Rho", "MI", 45.529, 9.04],
+  ["San Donato Milanese", "MI", 45.417, 9.268],
+  ["Segrate", "MI", 45.49, 9.295],
+  ["Sesto San Giovanni", "MI", 45.535, 9.23],
+  ["Bergamo", "BG", 45.695, 9.67],
+  ["Orio al Serio", "BG", 45.673, 9.693],
+  ["Brescia", "BS", 45.5416, 10.2118],
+  ["Como", "CO", 45.8081, 9.0852],
+  ["Cremona", "CR", 45.1333, 10.0333],
+  ["Lecco", "LC", 45.8558, 9.3975],
+  ["Lodi", "LO", 45.3142, 9.5036],
+  ["Mantova", "MN", 45.1564, 10.7914],
+  ["Monza", "MB", 45.5845, 9.2744],
+  ["Pavia", "PV", 45.1847, 9.1582],
+  ["Sondrio", "SO", 46.17, 9.87],
+  ["Varese", "VA", 45.8206, 8.8251],
+  ["Busto Arsizio", "VA", 45.612, 8.851],
+  ["Gallarate", "VA", 45.66, 8.792],
+  ["Somma Lombardo", "VA", 45.6833, 8.7],
+  // Trentino-Alto Adige
+  ["Trento", "TN", 46.0667, 11.1211],
+  ["Bolzano", "BZ", 46.4983, 11.3548],
+  // Veneto
+  ["Venezia", "VE", 45.4408, 12.3155],
+  ["Belluno", "BL", 46.1425, 12.2167],
+  ["Padova", "PD", 45.4064, 11.8768],
+  ["Rovigo", "RO", 45.0703, 11.79],
+  ["Treviso", "TV", 45.6669, 12.243],
+  ["Verona", "VR", 45.4384, 10.9916],
+  ["Vicenza", "VI", 45.5455, 11.5354],
+  // Friuli-Venezia Giulia
+  ["Trieste", "TS", 45.6495, 13.7768],
+  ["Gorizia", "GO", 45.9419, 13.6217],
+  ["Pordenone", "PN", 45.9564, 12.6606],
+  ["Udine", "UD", 46.0711, 13.2346],
+  // Liguria
+  ["Genova", "GE", 44.4056, 8.9463],
+  ["Imperia", "IM", 43.8897, 8.0394],
+  ["La Spezia", "SP", 44.1025, 9.8241],
+  ["Savona", "SV", 44.309, 8.4772],
+  // Emilia-Romagna
+  ["Bologna", "BO", 44.4949, 11.3426],
+  ["Ferrara", "FE", 44.8381, 11.6198],
+  ["Forlì", "FC", 44.2227, 12.0407],
+  ["Cesena", "FC", 44.1391, 12.2431],
+  ["Modena", "MO", 44.6471, 10.9252],
+  ["Parma", "PR", 44.8015, 10.3279],
+  ["Piacenza", "PC", 45.0526, 9.693],
+  ["Ravenna", "RA", 44.4184, 12.2035],
+  ["Reggio nell'Emilia", "RE", 44.6983, 10.6312],
+  ["Rimini", "RN", 44.0678, 12.5695],
+  // Toscana
+  ["Firenze", "FI", 43.7696, 11.2558],
+  ["Arezzo", "AR", 43.4633, 11.8797],
+  ["Grosseto", "GR", 42.7635, 11.1124],
+  ["Livorno", "LI", 43.5485, 10.3106],
+  ["Lucca", "LU", 43.8429, 10.5027],
+  ["Massa", "MS", 44.0354, 10.1396],
+  ["Carrara", "MS", 44.0793, 10.0978],
+  ["Pisa", "PI", 43.7228, 10.4017],
+  ["Pistoia", "PT", 43.9303, 10.9078],
+  ["Prato", "PO", 43.8777, 11.1022],
+  ["Siena", "SI", 43.3188, 11.3308],
+  // Umbria
+  ["Perugia", "PG", 43.1107, 12.3908],
+  ["Terni", "TR", 42.5636, 12.6427],
+  // Marche
+  ["Ancona", "AN", 43.6158, 13.5189],
+  ["Ascoli Piceno", "AP", 42.854, 13.575],
+  ["Fermo", "FM", 43.1606, 13.7181],
+  ["Macerata", "MC", 43.3003, 13.4533],
+  ["Pesaro", "PU", 43.9098, 12.9131],
+  ["Urbino", "PU", 43.7262, 12.6366],
+  // Lazio
+  ["Roma", "RM", 41.9028, 12.4964],
+  ["Fiumicino", "RM", 41.77, 12.24],
+  ["Frosinone", "FR", 41.64, 13.35],
+  ["Latina", "LT", 41.4676, 12.9037],
+  ["Rieti", "RI", 42.4045, 12.8567],
+  ["Viterbo", "VT", 42.4207, 12.1077],
+  // Abruzzo
+  ["L'Aquila", "AQ", 42.3498, 13.3995],
+  ["Chieti", "CH", 42.351, 14.1675],
+  ["Pescara", "PE", 42.4618, 14.2161],
+  ["Teramo", "TE", 42.6589, 13.7044],
+  // Molise
+  ["Campobasso", "CB", 41.5603, 14.6627],
+  ["Isernia", "IS", 41.596, 14.2331],
+  // Campania
+  ["Napoli", "NA", 40.8518, 14.2681],
+  ["Avellino", "AV", 40.9146, 14.7906],
+  ["Benevento", "BN", 41.1298, 14.7826],
+  ["Caserta", "CE", 41.0723, 14.3311],
+  ["Salerno", "SA", 40.6824, 14.7681],
+  // Puglia
+  ["Bari", "BA", 41.1171, 16.8719],
+  ["Barletta", "BT", 41.3196, 16.2839],
+  ["Andria", "BT", 41.227, 16.2955],
+  ["Trani", "BT", 41.2773, 16.4101],
+  ["Brindisi", "BR", 40.6327, 17.9418],
+  ["Foggia", "FG", 41.4622, 15.5446],
+  ["Lecce", "LE", 40.3515, 18.175],
+  ["Taranto", "TA", 40.4644, 17.247],
+  // Basilicata
+  ["Potenza", "PZ", 40.6404, 15.8056],
+  ["Matera", "MT", 40.6663, 16.6043],
+  // Calabria
+  ["Catanzaro", "CZ", 38.9098, 16.5877],
+  ["Cosenza", "CS", 39.2983, 16.2538],
+  ["Crotone", "KR", 39.0808, 17.1272],
+  ["Reggio di Calabria", "RC", 38.1113, 15.6473],
+  ["Vibo Valentia", "VV", 38.6755, 16.1006],
+  // Sicilia
+  ["Palermo", "PA", 38.1157, 13.3615],
+  ["Agrigento", "AG", 37.3111, 13.5765],
+  ["Caltanissetta", "CL", 37.4901, 14.0629],
+  ["Catania", "CT", 37.5079, 15.083],
+  ["Enna", "EN", 37.567, 14.2795],
+  ["Messina", "ME", 38.1938, 15.554],
+  ["Ragusa", "RG", 36.9269, 14.7255],
+  ["Siracusa", "SR", 37.0755, 15.2866],
+  ["Trapani", "TP", 38.0174, 12.5365],
+  // Sardegna
+  ["Cagliari", "CA", 39.2238, 9.1217],
+  ["Carbonia", "SU", 39.1672, 8.5222],
+  ["Nuoro", "NU", 40.3209, 9.3297],
+  ["Olbia", "SS", 40.9234, 9.4983],
+  ["Oristano", "OR", 39.9062, 8.5886],
+  ["Sassari", "SS", 40.7259, 8.5557],
+];
+
+// Nomi d'uso diversi dalla denominazione ISTAT
+export const COMUNE_ALIASES: Record<string, string> = {
+  "reggio emilia": "Reggio nell'Emilia",
+  "reggio calabria": "Reggio di Calabria",
+  "forli": "Forlì",
+  "aquila": "L'Aquila",
+  "spezia": "La Spezia",
+  "monza e brianza": "Monza",
+  "rome": "Roma",
+  "milan": "Milano",
+  "turin": "Torino",
+  "naples": "Napoli",
+  "florence": "Firenze",
+  "venice": "Venezia",
+  "genoa": "Genova",
+};
+
+const coordinatesKey = (name: string, province: string) => `${name.toLowerCase()}|${province}`;
+
+const COORDINATES_BY_COMUNE = new Map(
+  COORDINATES.map(([name, province, latitude, longitude]) => [coordinatesKey(name, province), { latitude, longitude }])
+);
+
+let comuniPromise: Promise<Comune[]> | null = null;
+
+export function loadComuni(): Promise<Comune[]> {
+  comuniPromise ??= import("comuni-json/comuni.json").then(({ default: rows }) =>
+    rows.map(({ nome, sigla, cap }) => {
+      const position = COORDINATES_BY_COMUNE.get(coordinatesKey(nome, sigla));
+      return { name: nome, province: sigla, caps: cap, latitude: position?.latitude ?? null, longitude: position?.longitude ?? null };
+    })
+  );
+  return comuniPromise;
+}
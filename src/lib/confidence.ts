@@ -0,0 +1,30 @@
+// Affidabilità per campo restituita da analyze-receipt
+
+export type AnalyzedField = "amount" | "date" | "category" | "description" | "vat_number" | "address" | "currency";
+
+export interface FieldConfidence {
+  confidence: number | null; // 0..1, null se il modello non l'ha indicata
+  defaulted: boolean; // valore assente o non valido, sostituito con un predefinito
+}
+
+export type FieldConfidenceMap = Partial<Record<AnalyzedField, FieldConfidence>>;
+
+// Sotto questa soglia il campo va confermato dall'utente prima del salvataggio
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Analisi fallita: tutti i campi principali sono valori predefiniti (oggi, 0 €, ...)
+export const FAILED_ANALYSIS_CONFIDENCE: FieldConfidenceMap = {
+  amount: { confidence: 0, defaulted: true },
+  date: { confidence: 0, defaulted: true },
+  category: { confidence: 0, defaulted: true },
+  description: { confidence: 0, defaulted: true },
+};
+
+export function needsReview(info: FieldConfidence | undefined): boolean {
+  if (!info) return false;
+  return info.defaulted || (info.confidence !== null && info.confidence < LOW_CONFIDENCE_THRESHOLD);
+}
+
+export function fieldsToReview(map: FieldConfidenceMap): AnalyzedField[] {
+  return (Object.keys(map) as AnalyzedField[]).filter(field => needsReview(map[field]));
+}
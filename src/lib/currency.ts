@@ -0,0 +1,69 @@
+import type { Expense } from "@/hooks/useExpenses";
+
+// Valute estere: l'importo originale resta in total/currency, i totali usano il controvalore in EUR
+// calcolato dal database con i tassi di riferimento BCE (tabella exchange_rates).
+
+export const BASE_CURRENCY = "EUR";
+
+export interface ExchangeRate {
+  currency: string;
+  rate_date: string; // YYYY-MM-DD
+  rate: number; // unità di valuta per 1 EUR
+}
+
+// Errore dell'aggiornamento dei tassi (Edge Function import-exchange-rates)
+export class ExchangeRateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExchangeRateImportError";
+  }
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  EUR: "€",
+  USD: "$",
+  GBP: "£",
+  JPY: "¥",
+  CHF: "CHF ",
+};
+
+export function normalizeCurrency(currency: string | null | undefined): string {
+  const code = (currency || "").trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : BASE_CURRENCY;
+}
+
+export function isBaseCurrency(currency: string | null | undefined): boolean {
+  return normalizeCurrency(currency) === BASE_CURRENCY;
+}
+
+export function currencySymbol(currency: string | null | undefined): string {
+  const code = normalizeCurrency(currency);
+  return CURRENCY_SYMBOLS[code] ?? `${code} `;
+}
+
+export function formatCurrency(amount: number | null | undefined, currency: string | null | undefined = BASE_CURRENCY): string {
+  const value = (amount || 0).toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${currencySymbol(currency)}${value}`;
+}
+
+// Controvalore in EUR; null se la spesa è in valuta estera e manca il tasso del giorno
+export function expenseAmountEur(expense: Pick<Expense, "amount" | "currency" | "amount_eur">): number | null {
+  if (expense.amount_eur !== null && expense.amount_eur !== undefined) return expense.amount_eur;
+  if (isBaseCurrency(expense.currency)) return expense.amount ?? 0;
+  return null;
+}
+
+export function sumAmountsEur(expenses: Pick<Expense, "amount" | "currency" | "amount_eur">[]): { total: number; unconverted: number } {
+  let total = 0;
+  let unconverted = 0;
+  expenses.forEach(expense => {
+    const eur = expenseAmountEur(expense);
+    if (eur === null) unconverted++;
+    else total += eur;
+  });
+  return { total: Math.round(total * 100) / 100, unconverted };
+}
+
+export function convertToEur(amount: number, rate: number): number {
+  return Math.round((amount / rate) * 100) / 100;
+}
@@ -0,0 +1,78 @@
+import type { Expense } from "@/hooks/useExpenses";
+import { hammingDistance, SIMILAR_HASH_DISTANCE } from "./imageHash";
+
+export interface DuplicateCandidate {
+  merchant: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  image_hash?: string | null;
+}
+
+export type DuplicateReason = "image" | "merchant" | "date" | "amount";
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  image: "stessa foto",
+  merchant: "stesso esercente",
+  date: "stessa data",
+  amount: "stesso importo",
+};
+
+export interface DuplicateMatch {
+  expense: Expense;
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+// Giorni di tolleranza sulla data (scontrini letti a cavallo di mezzanotte o con data errata)
+export const DUPLICATE_DATE_WINDOW_DAYS = 1;
+
+function normalizeMerchant(value: string | null | undefined): string {
+  return (value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\b(s\.?r\.?l\.?s?|s\.?p\.?a\.?|s\.?n\.?c\.?|s\.?a\.?s\.?)\b/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Somiglianza 0..1 tra nomi esercente: parole in comune (Dice), 1 se uno contiene l'altro
+export function merchantSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeMerchant(a);
+  const right = normalizeMerchant(b);
+  if (!left || !right) return 0;
+  if (left === right || left.includes(right) || right.includes(left)) return 1;
+
+  const leftWords = new Set(left.split(" "));
+  const rightWords = new Set(right.split(" "));
+  const common = [...leftWords].filter(word => rightWords.has(word)).length;
+  return (2 * common) / (leftWords.size + rightWords.size);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86_400_000;
+}
+
+export function findDuplicates(candidate: DuplicateCandidate, expenses: Expense[]): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+
+  expenses.forEach(expense => {
+    const reasons: DuplicateReason[] = [];
+
+    const sameImage = !!candidate.image_hash && !!expense.image_hash
+      && hammingDistance(candidate.image_hash, expense.image_hash) <= SIMILAR_HASH_DISTANCE;
+    if (sameImage) reasons.push("image");
+    if (merchantSimilarity(candidate.merchant, expense.merchant) >= 0.6) reasons.push("merchant");
+    if (candidate.date && expense.date && daysBetween(candidate.date, expense.date) <= DUPLICATE_DATE_WINDOW_DAYS) reasons.push("date");
+    if (candidate.amount > 0 && Math.abs(candidate.amount - (expense.amount || 0)) < 0.01) reasons.push("amount");
+
+    // Stessa foto confermata da almeno un dato, oppure stesso importo e data dallo stesso esercente
+    const isDuplicate = sameImage
+      ? reasons.length >= 2
+      : reasons.includes("amount") && reasons.includes("date") && reasons.includes("merchant");
+
+    if (isDuplicate) matches.push({ expense, reasons, score: reasons.length });
+  });
+
+  return matches.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,160 @@
+// Lettura minima dei metadati EXIF delle foto JPEG: posizione GPS e data di scatto.
+// Va letta dal file originale: le immagini ricompresse su canvas perdono l'EXIF.
+
+export interface PhotoMetadata {
+  latitude: number | null;
+  longitude: number | null;
+  capturedAt: Date | null; // ora locale dello scatto (DateTimeOriginal)
+}
+
+const EMPTY_METADATA: PhotoMetadata = { latitude: null, longitude: null, capturedAt: null };
+
+// L'EXIF sta nel segmento APP1 all'inizio del file: basta leggere i primi 128 KB
+const EXIF_READ_BYTES = 128 * 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // posizione del valore nel TIFF (in linea se occupa al massimo 4 byte)
+}
+
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean): Map<number, IfdEntry> {
+  const entries = new Map<number, IfdEntry>();
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = valueCount * (type === TYPE_RATIONAL ? 8 : type === TYPE_LONG ? 4 : type === TYPE_SHORT ? 2 : 1);
+    entries.set(view.getUint16(entry, little), {
+      type,
+      count: valueCount,
+      valueOffset: size <= 4 ? entry + 8 - tiff : view.getUint32(entry + 8, little),
+    });
+  }
+  return entries;
+}
+
+function readAscii(view: DataView, tiff: number, entry: IfdEntry | undefined): string | null {
+  if (!entry || entry.type !== TYPE_ASCII) return null;
+  let text = "";
+  for (let i = 0; i < entry.count; i++) {
+    const position = tiff + entry.valueOffset + i;
+    if (position >= view.byteLength) break;
+    const code = view.getUint8(position);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+function readLong(view: DataView, tiff: number, entry: IfdEntry | undefined, little: boolean): number | null {
+  if (!entry) return null;
+  if (entry.type === TYPE_LONG) return view.getUint32(tiff + entry.valueOffset, little);
+  if (entry.type === TYPE_SHORT) return view.getUint16(tiff + entry.valueOffset, little);
+  return null;
+}
+
+// Gradi, minuti, secondi (3 RATIONAL) -> gradi decimali
+function readCoordinate(view: DataView, tiff: number, entry: IfdEntry | undefined, ref: string | null, little: boolean): number | null {
+  if (!entry || entry.type !== TYPE_RATIONAL || entry.count < 3) return null;
+  const start = tiff + entry.valueOffset;
+  if (start + 24 > view.byteLength) return null;
+
+  const parts = [0, 1, 2].map((i) => {
+    const numerator = view.getUint32(start + i * 8, little);
+    const denominator = view.getUint32(start + i * 8 + 4, little);
+    return denominator === 0 ? 0 : numerator / denominator;
+  });
+  const value = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  return ref === "S" || ref === "W" ? -value : value;
+}
+
+// "2026:10:18 14:32:05" (senza fuso: ora locale del telefono)
+export function parseExifDate(value: string | null): Date | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return isNaN(date.getTime()) || year < 1990 ? null : date;
+}
+
+export function parseExif(buffer: ArrayBuffer): PhotoMetadata {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return EMPTY_METADATA;
+
+  // Cerca il segmento APP1 "Exif\0\0" tra i marker JPEG
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // inizio dei dati dell'immagine
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return parseTiff(view, offset + 10);
+    }
+    offset += 2 + length;
+  }
+  return EMPTY_METADATA;
+}
+
+function parseTiff(view: DataView, tiff: number): PhotoMetadata {
+  if (tiff + 8 > view.byteLength) return EMPTY_METADATA;
+  const byteOrder = view.getUint16(tiff);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return EMPTY_METADATA;
+  const little = byteOrder === 0x4949;
+
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+
+  const exifOffset = readLong(view, tiff, ifd0.get(TAG_EXIF_IFD), little);
+  const exifIfd = exifOffset ? readIfd(view, tiff, exifOffset, little) : new Map<number, IfdEntry>();
+  const capturedAt = parseExifDate(readAscii(view, tiff, exifIfd.get(TAG_DATE_TIME_ORIGINAL)))
+    ?? parseExifDate(readAscii(view, tiff, ifd0.get(TAG_DATE_TIME)));
+
+  let latitude: number | null = null;
+  let longitude: number | null = null;
+  const gpsOffset = readLong(view, tiff, ifd0.get(TAG_GPS_IFD), little);
+  if (gpsOffset) {
+    const gps = readIfd(view, tiff, gpsOffset, little);
+    latitude = readCoordinate(view, tiff, gps.get(TAG_GPS_LATITUDE), readAscii(view, tiff, gps.get(TAG_GPS_LATITUDE_REF)), little);
+    longitude = readCoordinate(view, tiff, gps.get(TAG_GPS_LONGITUDE), readAscii(view, tiff, gps.get(TAG_GPS_LONGITUDE_REF)), little);
+    // 0,0 è il valore scritto da alcune fotocamere senza fix GPS
+    if (latitude === 0 && longitude === 0) latitude = longitude = null;
+  }
+
+  return { latitude, longitude, capturedAt };
+}
+
+export async function readPhotoMetadata(file: File): Promise<PhotoMetadata> {
+  try {
+    return parseExif(await file.slice(0, EXIF_READ_BYTES).arrayBuffer());
+  } catch (error) {
+    console.warn("EXIF read error:", error);
+    return EMPTY_METADATA;
+  }
+}
+
+// Data della spesa ricavata dallo scatto (yyyy-MM-dd, ora locale)
+export function captureDateOf(metadata: PhotoMetadata): string | null {
+  const date = metadata.capturedAt;
+  if (!date) return null;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,112 @@
+import { format } from "date-fns";
+import { it } from "date-fns/locale";
+
+// Note spese: raggruppano le spese di un periodo o di una trasferta.
+// Transizioni e protocollo sono garantiti dal database (trigger expense_report_lifecycle);
+// qui servono per mostrare solo le azioni consentite.
+
+export type ExpenseReportStatus = "draft" | "submitted" | "approved" | "reimbursed";
+
+export interface ExpenseReport {
+  id: string;
+  user_id: string;
+  title: string;
+  period_start: string | null;
+  period_end: string | null;
+  trip_id: string | null;
+  organization_id?: string | null;
+  status: ExpenseReportStatus;
+  protocol_number: string | null;
+  total_eur: number;
+  expense_count: number;
+  sent_to_email: string | null;
+  submitted_at: string | null;
+  approved_at: string | null;
+  reimbursed_at: string | null;
+  created_at: string | null;
+}
+
+export const REPORT_STATUS_LABELS: Record<ExpenseReportStatus, string> = {
+  draft: "Bozza",
+  submitted: "Inviata",
+  approved: "Approvata",
+  reimbursed: "Rimborsata",
+};
+
+// Chi cambia lo stato: il richiedente invia, l'approvatore approva o rimanda in bozza con le
+// decisioni sulle singole spese (decide_expense), la contabilità segna il rimborso
+export type ReportActor = "owner" | "approver" | "accountant";
+
+// Il richiedente ritira la nota solo finché nessuno ha deciso e segna il rimborso
+// solo delle note personali (senza organizzazione): vedi canTransition
+export const REPORT_TRANSITIONS: Record<ExpenseReportStatus, Partial<Record<ExpenseReportStatus, ReportActor[]>>> = {
+  draft: { submitted: ["owner"] },
+  submitted: { approved: ["approver"], draft: ["approver", "owner"] },
+  approved: { reimbursed: ["accountant", "owner"] },
+  reimbursed: {},
+};
+
+export interface TransitionContext {
+  personal?: boolean; // nota senza organizzazione
+  decided?: boolean; // l'approvatore ha già deciso almeno una spesa
+}
+
+export class ExpenseReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpenseReportError";
+  }
+}
+
+export function canTransition(
+  from: ExpenseReportStatus,
+  to: ExpenseReportStatus,
+  actor: ReportActor,
+  { personal = false, decided = false }: TransitionContext = {}
+): boolean {
+  if (!REPORT_TRANSITIONS[from][to]?.includes(actor)) return false;
+  if (actor === "owner" && from === "submitted") return !decided;
+  if (actor === "owner" && to === "reimbursed") return personal;
+  return true;
+}
+
+// Dopo l'invio le spese della nota non si modificano più
+export function isReportLocked(status: ExpenseReportStatus | null | undefined): boolean {
+  return !!status && status !== "draft";
+}
+
+// Come la funzione expense_report_lifecycle: NS-2026-0001
+export function formatProtocolNumber(year: number, sequence: number): string {
+  return `NS-${year}-${String(sequence).padStart(4, "0")}`;
+}
+
+interface ReportCandidate {
+  date: string | null;
+  trip_id?: string | null;
+}
+
+export function reportPeriod(expenses: ReportCandidate[]): { period_start: string | null; period_end: string | null } {
+  const dates = expenses.map(e => e.date).filter((d): d is string => !!d).sort();
+  return { period_start: dates[0] ?? null, period_end: dates[dates.length - 1] ?? null };
+}
+
+// Trasferta comune a tutte le spese selezionate (solo diarie e spese della stessa trasferta)
+export function commonTripId(expenses: ReportCandidate[]): string | null {
+  const trips = new Set(expenses.map(e => e.trip_id ?? null));
+  const [only] = Array.from(trips);
+  return trips.size === 1 ? only : null;
+}
+
+// "Nota spese ottobre 2026" oppure "Nota spese 28 set – 3 ott 2026"
+export function defaultReportTitle(expenses: ReportCandidate[]): string {
+  const { period_start, period_end } = reportPeriod(expenses);
+  if (!period_start || !period_end) return "Nota spese";
+
+  const start = new Date(period_start);
+  const end = new Date(period_end);
+  if (period_start.slice(0, 7) === period_end.slice(0, 7)) {
+    return `Nota spese ${format(start, "MMMM yyyy", { locale: it })}`;
+  }
+  const startPattern = start.getFullYear() === end.getFullYear() ? "d MMM" : "d MMM yyyy";
+  return `Nota spese ${format(start, startPattern, { locale: it })} – ${format(end, "d MMM yyyy", { locale: it })}`;
+}
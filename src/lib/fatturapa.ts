@@ -0,0 +1,232 @@
+import type { ExpenseItem, VatSummary } from "@/hooks/useExpenses";
+
+// Fattura elettronica FatturaPA (XML, eventualmente firmato CAdES come .xml.p7m),
+// letta interamente nel browser: nessuna chiamata all'IA.
+
+export interface ParsedInvoice {
+  merchant: string;
+  vat_number: string;
+  address: string;
+  date: string; // YYYY-MM-DD
+  number: string;
+  currency: string;
+  total: number;
+  vat_breakdown: VatSummary[];
+  items: ExpenseItem[];
+}
+
+export class FatturaPAError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FatturaPAError";
+  }
+}
+
+export function isFatturaPAFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return name.endsWith(".xml") || name.endsWith(".p7m") || file.type === "text/xml" || file.type === "application/xml";
+}
+
+// --- Busta p7m (CMS SignedData, DER) ---
+
+interface Asn1Node {
+  tag: number;
+  constructed: boolean;
+  content: Uint8Array;
+  children: Asn1Node[];
+}
+
+const END_OF_CONTENTS = -1;
+
+// Legge un TLV a partire da offset; supporta le lunghezze indefinite usate da alcuni software di firma
+function readAsn1(bytes: Uint8Array, offset: number): { node: Asn1Node; next: number } {
+  const tag = bytes[offset];
+  const constructed = (tag & 0x20) !== 0;
+  let pos = offset + 1;
+
+  let length = bytes[pos++];
+  if (length === 0x80) {
+    length = END_OF_CONTENTS;
+  } else if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) length = length * 256 + bytes[pos++];
+  }
+
+  if (length === END_OF_CONTENTS) {
+    const children: Asn1Node[] = [];
+    while (bytes[pos] !== 0x00 || bytes[pos + 1] !== 0x00) {
+      if (pos >= bytes.length) throw new FatturaPAError("Busta p7m troncata");
+      const child = readAsn1(bytes, pos);
+      children.push(child.node);
+      pos = child.next;
+    }
+    return { node: { tag, constructed, content: new Uint8Array(), children }, next: pos + 2 };
+  }
+
+  const end = pos + length;
+  if (end > bytes.length) throw new FatturaPAError("Busta p7m troncata");
+  const content = bytes.subarray(pos, end);
+  const children: Asn1Node[] = [];
+  if (constructed) {
+    let childPos = pos;
+    while (childPos < end) {
+      const child = readAsn1(bytes, childPos);
+      children.push(child.node);
+      childPos = child.next;
+    }
+  }
+  return { node: { tag, constructed, content, children }, next: end };
+}
+
+// OCTET STRING primitiva o spezzata in frammenti (forma costruita)
+function octetStringBytes(node: Asn1Node): Uint8Array {
+  if (!node.constructed) return node.content;
+  const parts = node.children.map(octetStringBytes);
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+// ContentInfo -> [0] SignedData -> encapContentInfo -> [0] eContent
+export function extractSignedContent(der: Uint8Array): Uint8Array {
+  const { node: contentInfo } = readAsn1(der, 0);
+  const signedData = contentInfo.children[1]?.children[0];
+  const encapContentInfo = signedData?.children.find(child => child.tag === 0x30 && child.children[0]?.tag === 0x06);
+  const eContent = encapContentInfo?.children[1]?.children[0];
+  if (!eContent) throw new FatturaPAError("Il file p7m non contiene la fattura firmata");
+  return octetStringBytes(eContent);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/\s+/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Rispetta l'encoding dichiarato nel prologo XML (alcuni gestionali usano ancora ISO-8859-1)
+function decodeXml(bytes: Uint8Array): string {
+  const head = new TextDecoder("ascii").decode(bytes.subarray(0, 200));
+  const encoding = head.match(/encoding=["']([\w-]+)["']/i)?.[1] || "utf-8";
+  try {
+    return new TextDecoder(encoding).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+export function unwrapInvoiceBytes(bytes: Uint8Array): string {
+  // XML in chiaro (eventuale BOM UTF-8)
+  const start = bytes[0] === 0xef ? 3 : 0;
+  if (bytes[start] === 0x3c /* < */) return decodeXml(bytes.subarray(start));
+
+  // p7m binario (DER) oppure p7m codificato base64
+  const der = bytes[0] === 0x30 ? bytes : decodeBase64(new TextDecoder("ascii").decode(bytes));
+  return decodeXml(extractSignedContent(der));
+}
+
+// --- Tracciato FatturaPA ---
+
+// Gli elementi del tracciato non sono qualificati: si cerca per localName ignorando i prefissi
+function child(parent: Element | null | undefined, name: string): Element | null {
+  if (!parent) return null;
+  return Array.from(parent.children).find(el => el.localName === name) || null;
+}
+
+function path(parent: Element | null | undefined, ...names: string[]): Element | null {
+  return names.reduce<Element | null>((node, name) => child(node, name), parent || null);
+}
+
+function children(parent: Element | null | undefined, name: string): Element[] {
+  if (!parent) return [];
+  return Array.from(parent.children).filter(el => el.localName === name);
+}
+
+function text(el: Element | null): string {
+  return el?.textContent?.trim() || "";
+}
+
+function amount(el: Element | null): number {
+  const value = parseFloat(text(el));
+  return Number.isFinite(value) ? value : 0;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function parseFatturaPA(xml: string): ParsedInvoice {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const root = doc.documentElement;
+  if (!root || root.localName !== "FatturaElettronica") {
+    throw new FatturaPAError("Il file non è una fattura elettronica FatturaPA");
+  }
+
+  const header = child(root, "FatturaElettronicaHeader");
+  const supplier = child(header, "CedentePrestatore");
+  const registry = path(supplier, "DatiAnagrafici", "Anagrafica");
+  const merchant = text(child(registry, "Denominazione"))
+    || [text(child(registry, "Nome")), text(child(registry, "Cognome"))].filter(Boolean).join(" ");
+
+  const taxId = path(supplier, "DatiAnagrafici", "IdFiscaleIVA");
+  const country = text(child(taxId, "IdPaese"));
+  const code = text(child(taxId, "IdCodice"));
+  const vat_number = country && country !== "IT" ? `${country}${code}` : code;
+
+  const seat = child(supplier, "Sede");
+  const street = [text(child(seat, "Indirizzo")), text(child(seat, "NumeroCivico"))].filter(Boolean).join(" ");
+  const province = text(child(seat, "Provincia"));
+  const city = [text(child(seat, "CAP")), text(child(seat, "Comune")), province && `(${province})`].filter(Boolean).join(" ");
+  const nation = text(child(seat, "Nazione"));
+  const address = [street, city, nation && nation !== "IT" ? nation : ""].filter(Boolean).join(", ");
+
+  // Un file può contenere un lotto di fatture: si importa la prima
+  const body = child(root, "FatturaElettronicaBody");
+  if (!body) throw new FatturaPAError("Fattura senza corpo (FatturaElettronicaBody)");
+
+  const general = path(body, "DatiGenerali", "DatiGeneraliDocumento");
+  const goods = child(body, "DatiBeniServizi");
+
+  const vat_breakdown: VatSummary[] = children(goods, "DatiRiepilogo").map(summary => ({
+    vat_rate: amount(child(summary, "AliquotaIVA")),
+    taxable: amount(child(summary, "ImponibileImporto")),
+    tax: amount(child(summary, "Imposta")),
+    nature: text(child(summary, "Natura")) || null,
+  }));
+
+  const items: ExpenseItem[] = children(goods, "DettaglioLinee").map(line => {
+    const quantity = amount(child(line, "Quantita"));
+    return {
+      name: text(child(line, "Descrizione")),
+      quantity: quantity || 1,
+      unit_price: amount(child(line, "PrezzoUnitario")),
+      vat_rate: child(line, "AliquotaIVA") ? amount(child(line, "AliquotaIVA")) : null,
+    };
+  });
+
+  // ImportoTotaleDocumento è facoltativo: in sua assenza imponibile + imposta del riepilogo
+  const declaredTotal = child(general, "ImportoTotaleDocumento");
+  const total = declaredTotal
+    ? amount(declaredTotal)
+    : round2(vat_breakdown.reduce((sum, row) => sum + row.taxable + row.tax, 0));
+
+  return {
+    merchant,
+    vat_number,
+    address,
+    date: text(child(general, "Data")),
+    number: text(child(general, "Numero")),
+    currency: text(child(general, "Divisa")) || "EUR",
+    total,
+    vat_breakdown,
+    items,
+  };
+}
+
+export async function readFatturaPA(file: File): Promise<ParsedInvoice> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return parseFatturaPA(unwrapInvoiceBytes(bytes));
+}
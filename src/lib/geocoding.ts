@@ -0,0 +1,230 @@
+import { COMUNE_ALIASES, loadComuni, type Comune } from "./comuni";
+import type { LocationSource } from "./location";
+import {
+  addressSegments,
+  extractMunicipality,
+  foreignCountryOf,
+  isStreetSegment,
+  normalizePlaceName,
+} from "../../supabase/functions/_shared/geo";
+
+// Geocodifica degli indirizzi stampati sugli scontrini: coordinate per la mappa e
+// comune/provincia/paese salvati con la spesa. La scelta Comune / Oltre Comune / Estero la fa
+// analyze-receipt; il riconoscimento dell'indirizzo è lo stesso (supabase/functions/_shared/geo.ts).
+// Il provider si sceglie con VITE_GEOCODING_PROVIDER ("gazetteer", predefinito, oppure "nominatim");
+// il gazetteer offline resta comunque il ripiego se il servizio esterno non risponde.
+
+export interface GeocodedPlace {
+  latitude: number | null;
+  longitude: number | null;
+  municipality: string | null;
+  province: string | null; // sigla (MI, RM...)
+  country: string | null; // ISO 3166-1 alpha-2
+  source: string; // provider che ha risolto l'indirizzo
+}
+
+export interface GeocodingProvider {
+  readonly name: string;
+  geocode(address: string): Promise<GeocodedPlace | null>;
+}
+
+interface ComuneIndex {
+  byName: Map<string, Comune[]>;
+  searchKeys: string[]; // nomi più lunghi prima: "San Donato Milanese" prima di "San Donato"
+}
+
+let indexPromise: Promise<ComuneIndex> | null = null;
+
+function loadComuneIndex(): Promise<ComuneIndex> {
+  indexPromise ??= loadComuni().then((comuni) => {
+    const byName = new Map<string, Comune[]>();
+    comuni.forEach((comune) => {
+      const key = normalizePlaceName(comune.name);
+      byName.set(key, [...(byName.get(key) || []), comune]);
+    });
+    Object.entries(COMUNE_ALIASES).forEach(([alias, name]) => {
+      const target = byName.get(normalizePlaceName(name));
+      if (target) byName.set(alias, target);
+    });
+    return { byName, searchKeys: Array.from(byName.keys()).sort((a, b) => b.length - a.length) };
+  });
+  return indexPromise;
+}
+
+// Omonimi (Castro BG / LE...): decide la provincia, altrimenti il CAP
+function findComune(index: ComuneIndex, name: string, province?: string | null, cap?: string | null): Comune | null {
+  const matches = index.byName.get(normalizePlaceName(name)) || [];
+  return matches.find((c) => province && c.province === province)
+    || matches.find((c) => cap && c.caps.includes(cap))
+    || matches[0]
+    || null;
+}
+
+// Cerca un comune in fondo alle parti dell'indirizzo, dall'ultima alla prima (la via viene prima
+// del comune). Dopo un nome di via serve il numero civico: "Via Roma 12 Bergamo" sì, "Corso Como" no.
+function scanForComune(index: ComuneIndex, segments: string[]): Comune | null {
+  for (const segment of [...segments].reverse()) {
+    for (const key of index.searchKeys) {
+      if (segment !== key && !segment.endsWith(` ${key}`)) continue;
+      const before = segment.slice(0, segment.length - key.length).trim();
+      if (before && isStreetSegment(before) && !/\d$/.test(before)) continue;
+      return index.byName.get(key)?.[0] || null;
+    }
+  }
+  return null;
+}
+
+function placeFromComune(comune: Comune): GeocodedPlace {
+  return {
+    latitude: comune.latitude,
+    longitude: comune.longitude,
+    municipality: comune.name,
+    province: comune.province,
+    country: "IT",
+    source: "gazetteer",
+  };
+}
+
+// Offline: riconosce il comune nell'indirizzo e usa le coordinate della sede municipale
+export const gazetteerProvider: GeocodingProvider = {
+  name: "gazetteer",
+  async geocode(address) {
+    const segments = addressSegments(address);
+    if (segments.length === 0) return null;
+    const abroad = (country: string) => ({ latitude: null, longitude: null, municipality: null, province: null, country, source: "gazetteer" });
+
+    // Il paese scritto in fondo all'indirizzo prevale sul CAP ("12 Rue de Rivoli, 75001 Paris, France")
+    const declaredCountry = foreignCountryOf(segments.slice(-1));
+    if (declaredCountry) return abroad(declaredCountry);
+
+    const index = await loadComuneIndex();
+    const extracted = extractMunicipality(address);
+    if (extracted) {
+      const comune = findComune(index, extracted.name, extracted.province, extracted.cap);
+      if (comune) return placeFromComune(comune);
+      // Comune leggibile ma non in elenco: niente coordinate, il nome basta per la categoria
+      return { latitude: null, longitude: null, municipality: extracted.name, province: extracted.province, country: "IT", source: "gazetteer" };
+    }
+
+    const scanned = scanForComune(index, segments);
+    if (scanned) return placeFromComune(scanned);
+
+    // Nessun comune riconoscibile: basta il nome di un paese altrove nell'indirizzo
+    const country = foreignCountryOf(segments);
+    return country ? abroad(country) : null;
+  },
+};
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  address?: Record<string, string>;
+}
+
+const NOMINATIM_INTERVAL_MS = 1000;
+let nominatimQueue: Promise<unknown> = Promise.resolve();
+
+// Le richieste a Nominatim passano in fila, a un secondo l'una dall'altra (anche in un lotto di scontrini)
+function queueNominatim<T>(task: () => Promise<T>): Promise<T> {
+  const run = nominatimQueue.then(task);
+  nominatimQueue = run.catch(() => undefined).then(() => new Promise((resolve) => setTimeout(resolve, NOMINATIM_INTERVAL_MS)));
+  return run;
+}
+
+// OpenStreetMap Nominatim: un indirizzo per volta, massimo una richiesta al secondo
+export const nominatimProvider: GeocodingProvider = {
+  name: "nominatim",
+  async geocode(address) {
+    const params = new URLSearchParams({ q: address, format: "jsonv2", addressdetails: "1", limit: "1", "accept-language": "it" });
+    const response = await queueNominatim(() => fetch(`https://nominatim.openstreetmap.org/search?${params}`));
+    if (!response.ok) throw new Error(`Nominatim HTTP ${response.status}`);
+
+    const [result] = (await response.json()) as NominatimResult[];
+    if (!result) return null;
+
+    const details = result.address || {};
+    const provinceCode = details["ISO3166-2-lvl6"]?.match(/^IT-([A-Z]{2})$/)?.[1] ?? null;
+    return {
+      latitude: parseFloat(result.lat),
+      longitude: parseFloat(result.lon),
+      municipality: details.city || details.town || details.village || details.municipality || null,
+      province: provinceCode,
+      country: details.country_code?.toUpperCase() || null,
+      source: "nominatim",
+    };
+  },
+};
+
+const PROVIDERS: Record<string, GeocodingProvider> = {
+  gazetteer: gazetteerProvider,
+  nominatim: nominatimProvider,
+};
+
+export function getGeocodingProvider(): GeocodingProvider {
+  const name = (import.meta.env.VITE_GEOCODING_PROVIDER || "gazetteer").toLowerCase();
+  return PROVIDERS[name] || gazetteerProvider;
+}
+
+async function resolvePlace(address: string, provider: GeocodingProvider): Promise<GeocodedPlace | null> {
+  try {
+    const place = await provider.geocode(address);
+    if (place || provider === gazetteerProvider) return place;
+  } catch (error) {
+    console.warn(`Geocoding error (${provider.name}):`, error);
+  }
+  return gazetteerProvider.geocode(address);
+}
+
+// Il gazetteer ha le coordinate solo di alcuni comuni: per gli altri luoghi riconosciuti,
+// esteri compresi, la posizione sulla mappa la chiediamo a Nominatim. Comune, provincia e
+// paese restano quelli del gazetteer; le coordinate di un altro paese vengono scartate.
+async function withCoordinates(place: GeocodedPlace, address: string): Promise<GeocodedPlace> {
+  try {
+    const located = await nominatimProvider.geocode(address);
+    if (typeof located?.latitude !== "number" || typeof located.longitude !== "number") return place;
+    if (place.country && located.country && located.country !== place.country) return place;
+    return { ...place, latitude: located.latitude, longitude: located.longitude };
+  } catch (error) {
+    console.warn("Geocoding error (nominatim):", error);
+    return place;
+  }
+}
+
+export async function geocodeAddress(address: string | null | undefined, provider = getGeocodingProvider()): Promise<GeocodedPlace | null> {
+  if (!address?.trim()) return null;
+  const place = await resolvePlace(address, provider);
+  if (!place || typeof place.latitude === "number" || provider === nominatimProvider) return place;
+  return withCoordinates(place, address);
+}
+
+interface PlaceColumns {
+  municipality: string | null;
+  province: string | null;
+  country: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  location_source?: LocationSource | null;
+}
+
+// Colonne della spesa dal luogo risolto. Le coordinate dell'EXIF o del dispositivo
+// restano: quelle dell'indirizzo (sede del comune) sono solo un ripiego per la mappa.
+export function placeColumns(
+  place: GeocodedPlace | null,
+  current: { latitude?: number | null; longitude?: number | null; location_source?: LocationSource | null }
+): PlaceColumns {
+  const columns: PlaceColumns = {
+    municipality: place?.municipality ?? null,
+    province: place?.province ?? null,
+    country: place?.country ?? null,
+  };
+  const hasOwnPosition = typeof current.latitude === "number" && current.location_source !== "address";
+  if (hasOwnPosition) return columns;
+
+  const located = typeof place?.latitude === "number" && typeof place?.longitude === "number";
+  return {
+    ...columns,
+    latitude: located ? place.latitude : null,
+    longitude: located ? place.longitude : null,
+    location_source: located ? "address" : null,
+  };
+}
@@ -0,0 +1,70 @@
+// Hash percettivo (dHash 64 bit) per riconoscere la stessa foto scattata due volte:
+// resiste a ricompressione, ridimensionamento e piccole variazioni di luce.
+
+const HASH_WIDTH = 9; // 9 colonne -> 8 confronti per riga
+const HASH_HEIGHT = 8;
+
+// Distanza di Hamming entro la quale due hash sono considerati la stessa immagine
+export const SIMILAR_HASH_DISTANCE = 10;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Immagine non leggibile"));
+    img.src = src;
+  });
+}
+
+// Confronta ogni pixel in scala di grigi con il vicino a destra: 1 se più luminoso
+export function dHashFromGrayscale(gray: ArrayLike<number>): string {
+  let hex = "";
+  let nibble = 0;
+  let bits = 0;
+
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = gray[y * HASH_WIDTH + x];
+      const right = gray[y * HASH_WIDTH + x + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      bits++;
+      if (bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+export async function computeImageHash(dataUrl: string): Promise<string> {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas non disponibile");
+
+  ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const gray = new Array<number>(HASH_WIDTH * HASH_HEIGHT);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return dHashFromGrayscale(gray);
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
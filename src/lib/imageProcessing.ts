@@ -0,0 +1,349 @@
+// Elaborazione delle foto degli scontrini prima dell'analisi e del caricamento:
+// rilevamento dei bordi del foglio, correzione prospettica, raddrizzamento,
+// scala di grigi e contrasto. Tutto su canvas, nel browser.
+
+export interface Point {
+  x: number; // coordinate normalizzate 0..1 rispetto all'immagine originale
+  y: number;
+}
+
+// Angoli del documento in senso orario: alto-sinistra, alto-destra, basso-destra, basso-sinistra
+export type Quad = [Point, Point, Point, Point];
+
+export const FULL_FRAME: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+const DETECTION_SIZE = 256; // lato lungo dell'immagine usata per trovare i bordi
+const SOURCE_MAX_DIM = 3000; // limite di memoria per la foto originale
+const OUTPUT_MAX_DIM = 2048; // gli scontrini lunghi restano leggibili anche in fondo
+const OUTPUT_QUALITY = 0.85;
+const MIN_DOCUMENT_AREA = 0.15;
+const MAX_SKEW_DEGREES = 8;
+
+// --- Funzioni pure (testate in src/test/imageProcessing.test.ts) ---
+
+export function otsuThreshold(gray: ArrayLike<number>): number {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i] | 0]++;
+
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = gray.length - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+function quadArea(quad: Quad): number {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+function isConvex(quad: Quad): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross !== 0) {
+      if (sign !== 0 && Math.sign(cross) !== sign) return false;
+      sign = Math.sign(cross);
+    }
+  }
+  return true;
+}
+
+// Il foglio (chiaro) sullo sfondo (più scuro): componente chiara più estesa e suoi punti estremi.
+// Restituisce null se non c'è un documento riconoscibile (foto già ritagliata, sfondo chiaro...).
+export function detectDocumentCorners(gray: ArrayLike<number>, width: number, height: number): Quad | null {
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(width * height);
+  let bright = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (gray[i] > threshold) {
+      mask[i] = 1;
+      bright++;
+    }
+  }
+  if (bright < mask.length * MIN_DOCUMENT_AREA || bright > mask.length * 0.95) return null;
+
+  // Componente connessa più grande (4-connessione)
+  const labels = new Int32Array(width * height);
+  const stack: number[] = [];
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    label++;
+    let size = 0;
+    stack.push(start);
+    labels[start] = label;
+    while (stack.length > 0) {
+      const index = stack.pop() as number;
+      size++;
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && n < mask.length && mask[n] && !labels[n]) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+
+  let tl = { x: 0, y: 0, score: Infinity };
+  let br = { x: 0, y: 0, score: -Infinity };
+  let tr = { x: 0, y: 0, score: -Infinity };
+  let bl = { x: 0, y: 0, score: Infinity };
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== bestLabel) continue;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    if (x + y < tl.score) tl = { x, y, score: x + y };
+    if (x + y > br.score) br = { x, y, score: x + y };
+    if (x - y > tr.score) tr = { x, y, score: x - y };
+    if (x - y < bl.score) bl = { x, y, score: x - y };
+  }
+
+  const normalize = (p: { x: number; y: number }): Point => ({
+    x: Math.min(1, (p.x + 0.5) / width),
+    y: Math.min(1, (p.y + 0.5) / height),
+  });
+  const quad: Quad = [normalize(tl), normalize(tr), normalize(br), normalize(bl)];
+  if (quadArea(quad) < MIN_DOCUMENT_AREA || !isConvex(quad)) return null;
+  return quad;
+}
+
+// Omografia che porta i 4 punti `from` nei 4 punti `to` (8 incognite, h33 = 1)
+export function solveHomography(from: Point[], to: Point[]): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Eliminazione di Gauss con pivot parziale
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    if (Math.abs(a[col][col]) < 1e-12) throw new Error("Angoli degeneri");
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+}
+
+export function applyHomography(h: number[], p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+}
+
+// Inclinazione delle righe di testo (gradi): l'angolo che massimizza la varianza
+// delle somme per riga dei pixel scuri (profilo di proiezione)
+export function estimateSkewAngle(gray: ArrayLike<number>, width: number, height: number): number {
+  const threshold = otsuThreshold(gray);
+  const dark: Array<[number, number]> = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] < threshold) dark.push([x - width / 2, y - height / 2]);
+    }
+  }
+  if (dark.length < 50) return 0;
+
+  let bestAngle = 0;
+  let bestScore = -Infinity;
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += 0.5) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Float64Array(diagonal * 2);
+    for (const [x, y] of dark) {
+      rows[Math.round(y * cos - x * sin) + diagonal]++;
+    }
+    let score = 0;
+    for (let i = 1; i < rows.length; i++) score += (rows[i] - rows[i - 1]) ** 2;
+    if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+// Allunga i livelli tra il 1° e il 99° percentile su tutta la scala 0..255
+export function stretchContrast(gray: Uint8ClampedArray): Uint8ClampedArray {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  const cut = gray.length * 0.01;
+  let low = 0;
+  let high = 255;
+  for (let acc = 0; low < 255 && acc + histogram[low] <= cut; low++) acc += histogram[low];
+  for (let acc = 0; high > 0 && acc + histogram[high] <= cut; high--) acc += histogram[high];
+  if (high - low < 10) return gray;
+
+  const out = new Uint8ClampedArray(gray.length);
+  const scale = 255 / (high - low);
+  for (let i = 0; i < gray.length; i++) out[i] = (gray[i] - low) * scale;
+  return out;
+}
+
+// --- Canvas ---
+
+function toGrayscale(data: Uint8ClampedArray): Uint8ClampedArray {
+  const gray = new Uint8ClampedArray(data.length / 4);
+  for (let i = 0, j = 0; i < data.length; i += 4, j++) {
+    gray[j] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true }) as CanvasRenderingContext2D;
+  return { canvas, ctx };
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Immagine non leggibile"));
+    img.src = src;
+  });
+}
+
+function grayscaleOf(source: CanvasImageSource, width: number, height: number, maxDim: number) {
+  const scale = Math.min(1, maxDim / Math.max(width, height));
+  const { ctx, canvas } = createCanvas(width * scale, height * scale);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return { gray: toGrayscale(ctx.getImageData(0, 0, canvas.width, canvas.height).data), width: canvas.width, height: canvas.height };
+}
+
+// Angoli rilevati automaticamente (o tutta l'immagine se il foglio non si distingue dallo sfondo)
+export function detectCorners(img: HTMLImageElement): Quad {
+  const { gray, width, height } = grayscaleOf(img, img.naturalWidth, img.naturalHeight, DETECTION_SIZE);
+  return detectDocumentCorners(gray, width, height) ?? FULL_FRAME;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Raddrizza il quadrilatero in un rettangolo, in scala di grigi
+function warpToRectangle(img: HTMLImageElement, quad: Quad): { gray: Uint8ClampedArray; width: number; height: number } {
+  const sourceScale = Math.min(1, SOURCE_MAX_DIM / Math.max(img.naturalWidth, img.naturalHeight));
+  const source = grayscaleOf(img, img.naturalWidth, img.naturalHeight, SOURCE_MAX_DIM);
+  const corners = quad.map(p => ({ x: p.x * source.width, y: p.y * source.height }));
+
+  const naturalWidth = Math.max(distance(corners[0], corners[1]), distance(corners[3], corners[2])) / sourceScale;
+  const naturalHeight = Math.max(distance(corners[0], corners[3]), distance(corners[1], corners[2])) / sourceScale;
+  const outScale = Math.min(1, OUTPUT_MAX_DIM / Math.max(naturalWidth, naturalHeight)) * sourceScale;
+  const width = Math.max(1, Math.round(naturalWidth * outScale));
+  const height = Math.max(1, Math.round(naturalHeight * outScale));
+
+  const target: Point[] = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const h = solveHomography(target, corners);
+
+  const gray = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = applyHomography(h, { x: x + 0.5, y: y + 0.5 });
+      const sx = Math.min(source.width - 1.001, Math.max(0, p.x - 0.5));
+      const sy = Math.min(source.height - 1.001, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i = y0 * source.width + x0;
+      gray[y * width + x] =
+        source.gray[i] * (1 - fx) * (1 - fy) +
+        source.gray[i + 1] * fx * (1 - fy) +
+        source.gray[i + source.width] * (1 - fx) * fy +
+        source.gray[i + source.width + 1] * fx * fy;
+    }
+  }
+
+  return { gray, width, height };
+}
+
+function grayToCanvas(gray: Uint8ClampedArray, width: number, height: number) {
+  const { canvas, ctx } = createCanvas(width, height);
+  const imageData = ctx.createImageData(width, height);
+  for (let i = 0, j = 0; j < gray.length; i += 4, j++) {
+    imageData.data[i] = imageData.data[i + 1] = imageData.data[i + 2] = gray[j];
+    imageData.data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+function rotateCanvas(source: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const { canvas, ctx } = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+// Ritaglio prospettico, raddrizzamento, scala di grigi e contrasto -> JPEG data URL
+export function enhanceReceipt(img: HTMLImageElement, quad: Quad): string {
+  const { gray, width, height } = warpToRectangle(img, quad);
+
+  let result = grayToCanvas(stretchContrast(gray), width, height);
+
+  const preview = grayscaleOf(result, result.width, result.height, 600);
+  const skew = estimateSkewAngle(preview.gray, preview.width, preview.height);
+  if (Math.abs(skew) >= 0.5) result = rotateCanvas(result, -skew);
+
+  return result.toDataURL("image/jpeg", OUTPUT_QUALITY);
+}
@@ -0,0 +1,70 @@
+import { readPhotoMetadata } from "./exif";
+
+// Posizione e data di scatto di un giustificativo: prima l'EXIF della foto,
+// poi la posizione del dispositivo se la foto è appena stata scattata.
+
+// "address": coordinate ricavate dall'indirizzo stampato (src/lib/geocoding.ts)
+export type LocationSource = "exif" | "device" | "address";
+
+export interface ReceiptLocation {
+  latitude: number | null;
+  longitude: number | null;
+  location_source: LocationSource | null;
+  captured_at: string | null; // ISO, dalla data di scatto EXIF
+}
+
+// Oltre questo intervallo la posizione attuale non è più quella dello scontrino
+const RECENT_CAPTURE_MS = 2 * 60 * 60 * 1000;
+const GEOLOCATION_TIMEOUT_MS = 8000;
+const POSITION_MAX_AGE_MS = 5 * 60 * 1000;
+
+export function isRecentCapture(capturedAt: Date, now = new Date()): boolean {
+  const age = now.getTime() - capturedAt.getTime();
+  return age >= -RECENT_CAPTURE_MS && age <= RECENT_CAPTURE_MS;
+}
+
+// Una sola richiesta alla volta: nelle acquisizioni multiple il permesso viene chiesto una volta
+let pendingPosition: Promise<GeolocationCoordinates | null> | null = null;
+
+export function getDevicePosition(): Promise<GeolocationCoordinates | null> {
+  if (typeof navigator === "undefined" || !navigator.geolocation) return Promise.resolve(null);
+  if (!pendingPosition) {
+    pendingPosition = new Promise<GeolocationCoordinates | null>((resolve) => {
+      navigator.geolocation.getCurrentPosition(
+        (position) => resolve(position.coords),
+        (error) => {
+          console.warn("Geolocation error:", error.message);
+          resolve(null);
+        },
+        { enableHighAccuracy: false, timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: POSITION_MAX_AGE_MS }
+      );
+    }).finally(() => {
+      pendingPosition = null;
+    });
+  }
+  return pendingPosition;
+}
+
+export async function resolveReceiptLocation(file: File): Promise<ReceiptLocation> {
+  // PDF e fatture elettroniche: la posizione attuale non dice dove è stata fatta la spesa
+  if (!file.type.startsWith("image/")) {
+    return { latitude: null, longitude: null, location_source: null, captured_at: null };
+  }
+
+  const metadata = await readPhotoMetadata(file);
+  const captured_at = metadata.capturedAt ? metadata.capturedAt.toISOString() : null;
+
+  if (metadata.latitude !== null && metadata.longitude !== null) {
+    return { latitude: metadata.latitude, longitude: metadata.longitude, location_source: "exif", captured_at };
+  }
+
+  // Senza data di scatto fa fede la data del file (foto appena scattata dalla fotocamera)
+  if (isRecentCapture(metadata.capturedAt ?? new Date(file.lastModified))) {
+    const coords = await getDevicePosition();
+    if (coords) {
+      return { latitude: coords.latitude, longitude: coords.longitude, location_source: "device", captured_at };
+    }
+  }
+
+  return { latitude: null, longitude: null, location_source: null, captured_at };
+}
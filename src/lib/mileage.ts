@@ -0,0 +1,134 @@
+// Rimborsi chilometrici: viaggi con l'auto propria, senza scontrino.
+// Importo = km percorsi x costo chilometrico ACI del veicolo.
+
+export type ExpenseType = "receipt" | "mileage" | "per_diem";
+
+// Colonna "Tipo" degli export CSV
+export const EXPENSE_TYPE_LABELS: Record<ExpenseType, string> = {
+  receipt: "Scontrino",
+  mileage: "Chilometrico",
+  per_diem: "Indennità",
+};
+
+export const MILEAGE_CATEGORY_NAME = "Rimborso Chilometrico";
+
+export interface AciTariff {
+  year: number;
+  brand: string;
+  model: string;
+  fuel: string | null;
+  cost_per_km: number;
+}
+
+export class AciTariffCsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AciTariffCsvError";
+  }
+}
+
+export function isMileageExpense(expense: { expense_type?: string | null }): boolean {
+  return expense.expense_type === "mileage";
+}
+
+// Arrotondato al centesimo; la distanza di andata e ritorno è già sommata nei km
+export function computeMileageAmount(distanceKm: number, costPerKm: number): number {
+  if (!(distanceKm > 0) || !(costPerKm > 0)) return 0;
+  return Math.round(distanceKm * costPerKm * 100) / 100;
+}
+
+// Usato come "esercente" della spesa: "Milano → Bergamo"
+export function mileageRoute(origin: string, destination: string, roundTrip = false): string {
+  const route = `${origin.trim()} → ${destination.trim()}`;
+  return roundTrip ? `${route} (A/R)` : route;
+}
+
+export function formatKm(km: number | null | undefined): string {
+  return `${(km ?? 0).toLocaleString("it-IT", { maximumFractionDigits: 1 })} km`;
+}
+
+export function formatCostPerKm(cost: number | null | undefined): string {
+  return `€${(cost ?? 0).toLocaleString("it-IT", { minimumFractionDigits: 4, maximumFractionDigits: 4 })}/km`;
+}
+
+// "0,5123", "0.5123", "€ 0,51" -> numero
+export function parseDecimal(value: string): number | null {
+  let cleaned = value.replace(/[€\s]/g, "");
+  if (cleaned.includes(",")) cleaned = cleaned.replace(/\./g, "").replace(",", ".");
+  const number = parseFloat(cleaned);
+  return Number.isFinite(number) ? number : null;
+}
+
+function splitLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') { current += '"'; i++; }
+      else quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/[^a-z€/]+/g, " ").trim();
+
+function findColumn(header: string[], candidates: RegExp[]): number {
+  for (const candidate of candidates) {
+    const index = header.findIndex(cell => candidate.test(cell));
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+// CSV ricavato dalle tabelle ACI dei costi chilometrici (separatore ";", "," o tabulazione).
+// Colonne riconosciute: Marca, Modello (o Serie), Alimentazione, Anno, Costo km.
+export function parseAciTariffCsv(text: string, defaultYear = new Date().getFullYear()): AciTariff[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) throw new AciTariffCsvError("Il file non contiene tariffe");
+
+  const delimiter = [";", "\t", ","].find(candidate => lines[0].includes(candidate)) || ";";
+  const header = splitLine(lines[0], delimiter).map(normalizeHeader);
+
+  const brandCol = findColumn(header, [/^marca/, /^brand/, /^casa/]);
+  const modelCol = findColumn(header, [/^modello/, /^serie/, /^model/, /^descrizione/]);
+  const fuelCol = findColumn(header, [/alimentazione/, /carburante/, /^fuel/]);
+  const yearCol = findColumn(header, [/^anno/, /^year/]);
+  const costCol = findColumn(header, [/costo.*km/, /€\/km/, /euro.*km/, /cost.*km/]);
+
+  if (brandCol < 0 || modelCol < 0 || costCol < 0) {
+    throw new AciTariffCsvError("Formato non riconosciuto: servono le colonne Marca, Modello e Costo km");
+  }
+
+  const tariffs = new Map<string, AciTariff>();
+  lines.slice(1).forEach(line => {
+    const cells = splitLine(line, delimiter);
+    const brand = cells[brandCol]?.trim();
+    const model = cells[modelCol]?.trim();
+    const cost = parseDecimal(cells[costCol] || "");
+    const year = yearCol >= 0 ? parseInt(cells[yearCol] || "", 10) : defaultYear;
+    // Oltre 10 €/km è quasi certamente un costo annuo finito nella colonna sbagliata
+    if (!brand || !model || !cost || cost <= 0 || cost > 10) return;
+
+    const tariff: AciTariff = {
+      year: Number.isFinite(year) ? year : defaultYear,
+      brand,
+      model,
+      fuel: fuelCol >= 0 ? cells[fuelCol]?.trim() || null : null,
+      cost_per_km: cost,
+    };
+    // Righe duplicate: vale l'ultima (stessa chiave univoca della tabella aci_tariffs)
+    tariffs.set(`${tariff.year}|${brand}|${model}`, tariff);
+  });
+
+  if (tariffs.size === 0) throw new AciTariffCsvError("Nessuna tariffa valida nel file");
+  return Array.from(tariffs.values());
+}
@@ -0,0 +1,102 @@
+// Organizzazioni: i membri condividono note spese e approvazioni secondo il ruolo.
+// I permessi veri sono nelle policy RLS (has_org_role); qui etichette e controlli
+// usati dall'interfaccia per mostrare solo le azioni consentite.
+
+export type OrgRole = "member" | "approver" | "accountant" | "admin";
+
+export const ORG_ROLES: OrgRole[] = ["member", "approver", "accountant", "admin"];
+
+export const ORG_ROLE_LABELS: Record<OrgRole, string> = {
+  member: "Membro",
+  approver: "Approvatore",
+  accountant: "Contabilità",
+  admin: "Amministratore",
+};
+
+export const ORG_ROLE_DESCRIPTIONS: Record<OrgRole, string> = {
+  member: "Vede solo le proprie spese",
+  approver: "Approva le note spese del team",
+  accountant: "Vede le note del team e segna i rimborsi",
+  admin: "Gestisce membri, inviti e ruoli",
+};
+
+export interface Organization {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+// Organizzazione con il ruolo dell'utente corrente
+export interface OrganizationWithRole extends Organization {
+  role: OrgRole;
+}
+
+// Riga restituita da organization_members()
+export interface OrganizationMember {
+  user_id: string;
+  role: OrgRole;
+  display_name: string | null;
+  email: string | null;
+  created_at: string | null;
+}
+
+export interface Invitation {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: OrgRole;
+  token: string;
+  invited_by: string | null;
+  accepted_at: string | null;
+  expires_at: string;
+  created_at: string | null;
+}
+
+export class OrganizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrganizationError";
+  }
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function canManageMembers(role: OrgRole | null | undefined): boolean {
+  return role === "admin";
+}
+
+// Approvatori, contabili e amministratori leggono le spese condivise con l'organizzazione
+export function canViewTeamExpenses(role: OrgRole | null | undefined): boolean {
+  return role === "approver" || role === "accountant" || role === "admin";
+}
+
+export function canMarkReimbursed(role: OrgRole | null | undefined): boolean {
+  return role === "accountant" || role === "admin";
+}
+
+export function normalizeInviteEmail(email: string): string {
+  const normalized = email.trim().toLowerCase();
+  if (!EMAIL_REGEX.test(normalized)) {
+    throw new OrganizationError("Indirizzo email non valido");
+  }
+  return normalized;
+}
+
+export function isInvitationOpen(invitation: Pick<Invitation, "accepted_at" | "expires_at">, now = new Date()): boolean {
+  return !invitation.accepted_at && new Date(invitation.expires_at).getTime() > now.getTime();
+}
+
+export function invitationUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/+$/, "")}/invito/${token}`;
+}
+
+// Amministratori prima, poi per nome
+export function sortMembers(members: OrganizationMember[]): OrganizationMember[] {
+  return [...members].sort((a, b) => {
+    const byRole = ORG_ROLES.indexOf(b.role) - ORG_ROLES.indexOf(a.role);
+    if (byRole !== 0) return byRole;
+    return (a.display_name || a.email || "").localeCompare(b.display_name || b.email || "", "it");
+  });
+}
@@ -0,0 +1,56 @@
+import * as pdfjs from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.js?url";
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Fatture di hotel e compagnie aeree: oltre queste pagine il resto è quasi sempre condizioni generali.
+// Le pagine escluse si segnalano in revisione e restano registrate sulla spesa (skipped_pages).
+export const MAX_PDF_PAGES = 5;
+
+// Più alto della foto scontrino (1024): le fatture A4 hanno testo piccolo
+const PAGE_MAX_DIMENSION = 1600;
+
+export function isPdfFile(file: File): boolean {
+  return file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+}
+
+export interface RenderedPdf {
+  pages: string[]; // JPEG data URL, una per pagina renderizzata
+  pageCount: number; // pagine totali del documento
+}
+
+// Rasterizza le prime pagine del PDF in JPEG da inviare all'analisi e da usare come anteprima
+export async function renderPdfPages(file: File, maxPages = MAX_PDF_PAGES): Promise<RenderedPdf> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjs.getDocument({ data }).promise;
+
+  try {
+    const pages: string[] = [];
+    const count = Math.min(pdf.numPages, maxPages);
+
+    for (let pageNumber = 1; pageNumber <= count; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const scale = PAGE_MAX_DIMENSION / Math.max(baseViewport.width, baseViewport.height);
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas non disponibile");
+
+      // Sfondo bianco: i PDF trasparenti diventerebbero neri in JPEG
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      pages.push(canvas.toDataURL("image/jpeg", 0.75));
+      page.cleanup();
+    }
+
+    return { pages, pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,148 @@
+import { addDays, format, startOfDay } from "date-fns";
+
+// Indennità di trasferta (art. 51, c. 5 TUIR): al posto dei pasti a piè di lista si riconosce
+// una diaria giornaliera, esente fino ai limiti di legge; la parte eccedente è imponibile.
+// Forfettario: solo diaria. Misto: diaria ridotta di 1/3 per il vitto o l'alloggio
+// rimborsati con i giustificativi, di 2/3 se sono rimborsati entrambi.
+
+export type PerDiemMode = "forfettario" | "misto";
+
+export const PER_DIEM_CATEGORY_NAME = "Indennità di Trasferta";
+
+// Limiti giornalieri esenti
+export const PER_DIEM_CEILINGS = { italy: 46.48, abroad: 77.47 };
+
+// Ore fuori sede nella giornata per la diaria intera o per metà
+export const FULL_DAY_HOURS = 12;
+export const HALF_DAY_HOURS = 6;
+
+// Paesi proposti nel calcolatore; "XX" raccoglie gli altri paesi esteri
+export const PER_DIEM_COUNTRIES: Record<string, string> = {
+  IT: "Italia",
+  AT: "Austria",
+  BE: "Belgio",
+  HR: "Croazia",
+  FR: "Francia",
+  DE: "Germania",
+  GR: "Grecia",
+  MC: "Monaco",
+  NL: "Paesi Bassi",
+  PT: "Portogallo",
+  GB: "Regno Unito",
+  SM: "San Marino",
+  SI: "Slovenia",
+  ES: "Spagna",
+  US: "Stati Uniti",
+  CH: "Svizzera",
+  XX: "Altro paese estero",
+};
+
+export interface PerDiemTrip {
+  departure: Date;
+  return: Date;
+  country: string; // ISO 3166-1 alpha-2
+  mode: PerDiemMode;
+  mealsReimbursed: boolean; // solo misto: vitto rimborsato a piè di lista
+  lodgingReimbursed: boolean; // solo misto: alloggio rimborsato a piè di lista
+  dailyRate: number; // diaria giornaliera riconosciuta dall'azienda
+}
+
+export interface PerDiemLine {
+  date: string; // yyyy-MM-dd
+  hours: number;
+  fraction: number; // 1, 0.5 o 0
+  amount: number;
+  non_taxable: number;
+  taxable: number;
+}
+
+export class PerDiemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PerDiemError";
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function isAbroad(country: string | null | undefined): boolean {
+  return !!country && country.toUpperCase() !== "IT";
+}
+
+export function perDiemCeiling(trip: Pick<PerDiemTrip, "country" | "mode" | "mealsReimbursed" | "lodgingReimbursed">): number {
+  const base = isAbroad(trip.country) ? PER_DIEM_CEILINGS.abroad : PER_DIEM_CEILINGS.italy;
+  if (trip.mode === "forfettario") return base;
+  const reductions = (trip.mealsReimbursed ? 1 : 0) + (trip.lodgingReimbursed ? 1 : 0);
+  return round2((base * (3 - reductions)) / 3);
+}
+
+// La diaria copre i pasti, salvo nel misto con il vitto rimborsato a parte
+export function perDiemCoversMeals(trip: Pick<PerDiemTrip, "mode" | "mealsReimbursed">): boolean {
+  return trip.mode === "forfettario" || !trip.mealsReimbursed;
+}
+
+export function dayFraction(hours: number): number {
+  if (hours >= FULL_DAY_HOURS) return 1;
+  if (hours >= HALF_DAY_HOURS) return 0.5;
+  return 0;
+}
+
+// Una riga per ogni giorno di calendario toccato dalla trasferta (ora locale)
+export function computePerDiem(trip: PerDiemTrip): PerDiemLine[] {
+  if (!(trip.return.getTime() > trip.departure.getTime())) {
+    throw new PerDiemError("Il rientro deve essere successivo alla partenza");
+  }
+  if (!(trip.dailyRate >= 0)) throw new PerDiemError("Diaria giornaliera non valida");
+
+  const ceiling = perDiemCeiling(trip);
+  const lines: PerDiemLine[] = [];
+
+  for (let day = startOfDay(trip.departure); day < trip.return; day = addDays(day, 1)) {
+    const from = Math.max(day.getTime(), trip.departure.getTime());
+    const to = Math.min(addDays(day, 1).getTime(), trip.return.getTime());
+    const hours = (to - from) / 3_600_000;
+    const fraction = dayFraction(hours);
+    const amount = round2(trip.dailyRate * fraction);
+    const nonTaxable = Math.min(amount, round2(ceiling * fraction));
+
+    lines.push({
+      date: format(day, "yyyy-MM-dd"),
+      hours: Math.round(hours * 10) / 10,
+      fraction,
+      amount,
+      non_taxable: nonTaxable,
+      taxable: round2(amount - nonTaxable),
+    });
+  }
+  return lines;
+}
+
+const isMealReceipt = (category: string | null | undefined) => /^Vitto\b/i.test(category || "");
+
+interface ConflictCandidate {
+  date: string | null;
+  category: string | null;
+  expense_type?: string | null;
+  per_diem_covers_meals?: boolean | null;
+}
+
+// Giorni con una diaria che copre i pasti e anche uno scontrino "Vitto ...": doppio rimborso
+export function findPerDiemConflicts(expenses: ConflictCandidate[]): Set<string> {
+  const allowanceDays = new Set<string>();
+  const mealDays = new Set<string>();
+  expenses.forEach(expense => {
+    if (!expense.date) return;
+    if (expense.expense_type === "per_diem") {
+      if (expense.per_diem_covers_meals !== false) allowanceDays.add(expense.date);
+    } else if (isMealReceipt(expense.category)) {
+      mealDays.add(expense.date);
+    }
+  });
+  return new Set([...allowanceDays].filter(day => mealDays.has(day)));
+}
+
+// La spesa è una delle voci in conflitto (la diaria o lo scontrino di vitto)
+export function isPerDiemConflict(expense: ConflictCandidate, conflictDays: Set<string>): boolean {
+  if (!expense.date || !conflictDays.has(expense.date)) return false;
+  return expense.expense_type === "per_diem" || isMealReceipt(expense.category);
+}
@@ -0,0 +1,109 @@
+import type { Expense } from "@/hooks/useExpenses";
+import { expenseAmountEur } from "@/lib/currency";
+
+// Progetti, centri di costo e clienti: ogni spesa può indicare il progetto da rifatturare.
+// Il progetto porta con sé cliente e centro di costo, modificabili sulla singola spesa.
+
+export interface Client {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  name: string;
+  vat_number: string | null;
+}
+
+export interface CostCenter {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  code: string;
+  name: string | null;
+}
+
+export interface Project {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  name: string;
+  code: string | null;
+  client_id: string | null;
+  cost_center_id: string | null;
+  archived: boolean;
+}
+
+// Colonne di expenses valorizzate dai selettori
+export interface ProjectAssignment {
+  project_id: string | null;
+  cost_center_id: string | null;
+  client_id: string | null;
+}
+
+export interface ProjectTotal {
+  id: string | null; // null = spese senza progetto
+  name: string;
+  client: string | null;
+  value: number;
+  color: string;
+}
+
+export const EMPTY_ASSIGNMENT: ProjectAssignment = { project_id: null, cost_center_id: null, client_id: null };
+
+export const NO_PROJECT_LABEL = "Senza progetto";
+
+const NO_PROJECT_COLOR = "#94a3b8";
+
+// Palette per i grafici: i progetti non hanno un colore proprio come le categorie
+export const PROJECT_COLORS = ["#6366f1", "#0ea5e9", "#10b981", "#f59e0b", "#ec4899", "#8b5cf6", "#14b8a6", "#ef4444"];
+
+export function projectLabel(project: Pick<Project, "name" | "code">): string {
+  return project.code ? `${project.code} · ${project.name}` : project.name;
+}
+
+export function costCenterLabel(costCenter: Pick<CostCenter, "code" | "name">): string {
+  return costCenter.name ? `${costCenter.code} · ${costCenter.name}` : costCenter.code;
+}
+
+// Scegliendo un progetto cliente e centro di costo passano a quelli del progetto,
+// se li definisce; togliendo il progetto restano quelli già indicati
+export function assignProject(current: ProjectAssignment, project: Project | null): ProjectAssignment {
+  if (!project) return { ...current, project_id: null };
+  return {
+    project_id: project.id,
+    client_id: project.client_id ?? current.client_id,
+    cost_center_id: project.cost_center_id ?? current.cost_center_id,
+  };
+}
+
+export function assignmentOf(expense: Partial<ProjectAssignment>): ProjectAssignment {
+  return {
+    project_id: expense.project_id ?? null,
+    cost_center_id: expense.cost_center_id ?? null,
+    client_id: expense.client_id ?? null,
+  };
+}
+
+// Totali in EUR per progetto, dal più alto; le spese senza progetto in un'unica voce
+export function groupExpensesByProject(
+  expenses: Pick<Expense, "amount" | "currency" | "amount_eur" | "project_id">[],
+  projects: Project[],
+  clients: Client[] = []
+): ProjectTotal[] {
+  const totals = new Map<string | null, number>();
+  expenses.forEach(e => {
+    const key = e.project_id && projects.some(p => p.id === e.project_id) ? e.project_id : null;
+    totals.set(key, (totals.get(key) || 0) + (expenseAmountEur(e) ?? 0));
+  });
+
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id, value], index) => {
+      const project = id ? projects.find(p => p.id === id) : undefined;
+      return {
+        id,
+        name: project ? projectLabel(project) : NO_PROJECT_LABEL,
+        client: clients.find(c => c.id === project?.client_id)?.name ?? null,
+        value: Math.round(value * 100) / 100,
+        color: project ? PROJECT_COLORS[index % PROJECT_COLORS.length] : NO_PROJECT_COLOR,
+      };
+    });
+}
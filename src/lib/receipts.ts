@@ -0,0 +1,274 @@
+import { supabase, SUPABASE_URL, SUPABASE_ANON_KEY } from "@/integrations/supabase/client";
+import type { ExpenseItem } from "@/hooks/useExpenses";
+import { isPdfFile, renderPdfPages } from "./pdf";
+import type { FieldConfidenceMap } from "./confidence";
+import { detectCorners, enhanceReceipt, loadImage, type Quad } from "./imageProcessing";
+
+// Passaggi comuni all'acquisizione singola (ImageAnalyzer) e multipla (BatchCapture)
+
+export interface ReceiptDraft {
+  merchant: string;
+  expense_date: string;
+  total: number;
+  currency: string;
+  category: string;
+  vat_number?: string;
+  address?: string;
+  items: ExpenseItem[];
+}
+
+export interface ReceiptAnalysis {
+  draft: ReceiptDraft;
+  confidence: FieldConfidenceMap;
+}
+
+// Dati dell'utente e della foto che completano la risposta del modello
+export interface AnalysisContext {
+  fallbackDate?: string | null; // data di scatto (EXIF) se lo scontrino non riporta la data
+}
+
+export interface PreparedReceipt {
+  pages: string[]; // JPEG data URL inviate all'analisi; la prima è anche la miniatura
+  pageCount: number; // pagine totali del documento (solo PDF)
+  corners?: Quad; // angoli del ritaglio applicato (solo foto)
+}
+
+// Codici di errore di analyze-receipt (supabase/functions/analyze-receipt/schema.ts
+// e middleware comune supabase/functions/_shared/auth.ts)
+export type AnalysisErrorCode =
+  | "UNAUTHORIZED"
+  | "QUOTA_EXCEEDED"
+  | "QUOTA_UNAVAILABLE"
+  | "INVALID_REQUEST"
+  | "NOT_A_RECEIPT"
+  | "INVALID_MODEL_OUTPUT"
+  | "PROVIDER_RATE_LIMITED"
+  | "PROVIDER_ERROR"
+  | "SERVER_MISCONFIGURED"
+  | "SERVER_ERROR"
+  | "NETWORK_ERROR";
+
+export const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorCode, { title: string; description: string }> = {
+  UNAUTHORIZED: { title: "Sessione scaduta", description: "Esci e accedi di nuovo per analizzare gli scontrini." },
+  QUOTA_EXCEEDED: { title: "Limite giornaliero raggiunto", description: "Hai esaurito le analisi di oggi. Compila i dati a mano." },
+  QUOTA_UNAVAILABLE: { title: "Servizio di analisi non disponibile", description: "Impossibile verificare il limite giornaliero. Riprova più tardi o compila i dati a mano." },
+  INVALID_REQUEST: { title: "Immagine non valida", description: "Il file non è stato letto correttamente. Riprova a selezionarlo." },
+  NOT_A_RECEIPT: { title: "Scontrino non riconosciuto", description: "L'immagine non sembra uno scontrino o una fattura. Compila i dati a mano." },
+  INVALID_MODEL_OUTPUT: { title: "Lettura incompleta", description: "Non è stato possibile leggere i dati con certezza. Compila i dati a mano." },
+  PROVIDER_RATE_LIMITED: { title: "Servizio occupato", description: "Troppe analisi in corso. Riprova tra qualche minuto o compila i dati a mano." },
+  PROVIDER_ERROR: { title: "Servizio di analisi non disponibile", description: "Riprova più tardi o compila i dati a mano." },
+  SERVER_MISCONFIGURED: { title: "Analisi non configurata", description: "Contatta l'amministratore. Nel frattempo compila i dati a mano." },
+  SERVER_ERROR: { title: "Errore Analisi", description: "Errore imprevisto del server. Compila i dati a mano." },
+  NETWORK_ERROR: { title: "Connessione assente", description: "Impossibile raggiungere il server. Verifica la connessione." },
+};
+
+export class ReceiptAnalysisError extends Error {
+  code: AnalysisErrorCode;
+  retryAfterSeconds: number | null; // header Retry-After delle risposte 429
+
+  constructor(code: AnalysisErrorCode, message?: string, retryAfterSeconds: number | null = null) {
+    super(message || ANALYSIS_ERROR_MESSAGES[code].title);
+    this.name = "ReceiptAnalysisError";
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+function parseRetryAfter(response: Response): number | null {
+  const seconds = parseInt(response.headers.get("Retry-After") || "", 10);
+  return Number.isFinite(seconds) ? seconds : null;
+}
+
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 3600) return `tra ${Math.max(1, Math.ceil(seconds / 60))} minuti`;
+  const hours = Math.ceil(seconds / 3600);
+  return hours === 1 ? "tra un'ora" : `tra ${hours} ore`;
+}
+
+export function analysisErrorMessage(error: unknown): { title: string; description: string } {
+  const code = error instanceof ReceiptAnalysisError ? error.code : "SERVER_ERROR";
+  const message = ANALYSIS_ERROR_MESSAGES[code];
+  if (code === "QUOTA_EXCEEDED" && (error as ReceiptAnalysisError).retryAfterSeconds) {
+    const retry = formatRetryAfter((error as ReceiptAnalysisError).retryAfterSeconds as number);
+    return { ...message, description: `Nuove analisi disponibili ${retry}. Nel frattempo compila i dati a mano.` };
+  }
+  return message;
+}
+
+export function emptyReceiptDraft(): ReceiptDraft {
+  return {
+    merchant: "",
+    expense_date: new Date().toISOString().split("T")[0],
+    total: 0,
+    currency: "EUR",
+    category: "",
+    vat_number: "",
+    address: "",
+    items: []
+  };
+}
+
+export function compressImage(file: File): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const img = new Image();
+      img.onload = () => {
+        const canvas = document.createElement("canvas");
+        let { width, height } = img;
+
+        // OTTIMIZZAZIONE: Ridotto maxDim a 1024 per velocizzare l'upload
+        const maxDim = 1024;
+        if (width > maxDim || height > maxDim) {
+          if (width > height) { height = (height / width) * maxDim; width = maxDim; }
+          else { width = (width / height) * maxDim; height = maxDim; }
+        }
+        canvas.width = width; canvas.height = height;
+        const ctx = canvas.getContext("2d");
+        ctx?.drawImage(img, 0, 0, width, height);
+        resolve(canvas.toDataURL("image/jpeg", 0.7));
+      };
+      img.src = e.target?.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
+export function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Foto: ritaglio sui bordi del foglio (rilevati o scelti nell'editor), raddrizzamento e contrasto.
+// Se l'elaborazione fallisce si usa la semplice compressione.
+export async function processReceiptPhoto(file: File, corners?: Quad): Promise<PreparedReceipt> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const quad = corners ?? detectCorners(img);
+    return { pages: [enhanceReceipt(img, quad)], pageCount: 1, corners: quad };
+  } catch (error) {
+    console.warn("Receipt enhancement failed, using plain compression:", error);
+    return { pages: [await compressImage(file)], pageCount: 1 };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function prepareReceipt(file: File): Promise<PreparedReceipt> {
+  if (!isPdfFile(file)) return processReceiptPhoto(file);
+  return renderPdfPages(file);
+}
+
+// Pagine del PDF oltre MAX_PDF_PAGES, non inviate all'analisi
+export function skippedPageCount(prepared: Pick<PreparedReceipt, "pages" | "pageCount">): number {
+  return Math.max(0, prepared.pageCount - prepared.pages.length);
+}
+
+export async function analyzeReceiptPages(pages: string[], accessToken: string | undefined, context: AnalysisContext = {}): Promise<ReceiptAnalysis> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/analyze-receipt`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+      'apikey': SUPABASE_ANON_KEY
+    },
+    body: JSON.stringify({ images: pages })
+  }).catch(() => {
+    throw new ReceiptAnalysisError("NETWORK_ERROR");
+  });
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success || !result.data) {
+    console.warn("Dati incompleti o errore API:", result);
+    const code: AnalysisErrorCode = result?.code && result.code in ANALYSIS_ERROR_MESSAGES
+      ? result.code
+      : response.status === 401 ? "UNAUTHORIZED" : "SERVER_ERROR";
+    throw new ReceiptAnalysisError(code, result?.error, parseRetryAfter(response));
+  }
+
+  const receivedData = result.data;
+
+  // MAPPING DEI DATI DALL'IA
+  const draft: ReceiptDraft = {
+    merchant: receivedData.description || "Sconosciuto",
+    // Usa la data restituita dall'IA se presente, altrimenti quella di scatto o oggi
+    expense_date: receivedData.date || context.fallbackDate || new Date().toISOString().split("T")[0],
+    total: receivedData.amount || 0,
+    currency: receivedData.currency || "EUR",
+    category: receivedData.category || "",
+    vat_number: receivedData.vat_number || "",
+    address: receivedData.address || "",
+    items: Array.isArray(receivedData.items) ? receivedData.items : []
+  };
+
+  return { draft, confidence: receivedData.confidence || {} };
+}
+
+export interface UploadedReceipt {
+  imageUrl: string;
+  documentUrl: string | null;
+  documentBase64?: string; // PDF originale da allegare all'email
+}
+
+// Carica la miniatura JPEG e, per i PDF, il documento originale accanto ad essa
+export async function uploadReceiptFiles(userId: string, file: File, thumbnail: string): Promise<UploadedReceipt> {
+  const basePath = `${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const blob = await (await fetch(thumbnail)).blob();
+
+  await supabase.storage.from("receipts").upload(`${basePath}.jpg`, blob, { upsert: true });
+  const { data: { publicUrl } } = supabase.storage.from("receipts").getPublicUrl(`${basePath}.jpg`);
+
+  if (!isPdfFile(file)) return { imageUrl: publicUrl, documentUrl: null };
+
+  const { error: uploadError } = await supabase.storage
+    .from("receipts")
+    .upload(`${basePath}.pdf`, file, { upsert: true, contentType: "application/pdf" });
+  if (uploadError) throw uploadError;
+
+  return {
+    imageUrl: publicUrl,
+    documentUrl: supabase.storage.from("receipts").getPublicUrl(`${basePath}.pdf`).data.publicUrl,
+    documentBase64: await readAsDataUrl(file)
+  };
+}
+
+export class ExpenseEmailError extends Error {
+  retryAfterSeconds: number | null; // valorizzato solo se è stata superata la quota giornaliera
+
+  constructor(message: string, retryAfterSeconds: number | null = null) {
+    super(message);
+    this.name = "ExpenseEmailError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Invio tramite send-expense-email: spesa singola ({ expense, imageBase64 }), riepilogo ({ batch })
+// o nota spese ({ report_id }, letta dal database dalla funzione)
+export async function sendExpenseEmail(payload: Record<string, unknown>, accessToken: string | undefined): Promise<void> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/send-expense-email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+      'apikey': SUPABASE_ANON_KEY
+    },
+    body: JSON.stringify(payload)
+  });
+
+  if (response.status === 429) {
+    throw new ExpenseEmailError("Limite giornaliero di email raggiunto", parseRetryAfter(response) ?? 0);
+  }
+  if (!response.ok) throw new ExpenseEmailError("Errore email");
+}
+
+export function emailErrorDescription(error: unknown, fallback: string): string {
+  if (error instanceof ExpenseEmailError && error.retryAfterSeconds !== null) {
+    return `Limite giornaliero di email raggiunto: riprova ${formatRetryAfter(error.retryAfterSeconds)}.`;
+  }
+  return fallback;
+}
@@ -0,0 +1,67 @@
+// Trend del report mensile: confronto con il mese precedente e con lo stesso mese
+// dell'anno prima. I totali per categoria li aggrega il database (category_month_totals).
+
+export type TrendPeriod = "current" | "previous" | "last_year";
+
+export interface CategoryMonthTotal {
+  period: string;
+  category: string;
+  total: number;
+}
+
+export interface Trend {
+  current: number;
+  previous: number;
+  lastYear: number;
+  vsPrevious: number | null; // variazione percentuale, null se il periodo di confronto è vuoto
+  vsLastYear: number | null;
+}
+
+export interface MonthTrends {
+  overall: Trend;
+  byCategory: Map<string, Trend>;
+}
+
+const EMPTY_TOTALS: Record<TrendPeriod, number> = { current: 0, previous: 0, last_year: 0 };
+
+export function percentChange(current: number, base: number): number | null {
+  if (base <= 0) return null;
+  return Math.round(((current - base) / base) * 100);
+}
+
+function toTrend(totals: Record<TrendPeriod, number>): Trend {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    current: round(totals.current),
+    previous: round(totals.previous),
+    lastYear: round(totals.last_year),
+    vsPrevious: percentChange(totals.current, totals.previous),
+    vsLastYear: percentChange(totals.current, totals.last_year),
+  };
+}
+
+export function buildMonthTrends(rows: CategoryMonthTotal[]): MonthTrends {
+  const overall = { ...EMPTY_TOTALS };
+  const byCategory = new Map<string, Record<TrendPeriod, number>>();
+
+  rows.forEach(row => {
+    if (!(row.period in EMPTY_TOTALS)) return;
+    const period = row.period as TrendPeriod;
+    const total = Number(row.total) || 0;
+    const totals = byCategory.get(row.category) ?? { ...EMPTY_TOTALS };
+    totals[period] += total;
+    overall[period] += total;
+    byCategory.set(row.category, totals);
+  });
+
+  return {
+    overall: toTrend(overall),
+    byCategory: new Map(Array.from(byCategory, ([category, totals]) => [category, toTrend(totals)])),
+  };
+}
+
+// "+12%", "-5%", "=" se invariato
+export function formatTrend(percent: number): string {
+  if (percent === 0) return "=";
+  return `${percent > 0 ? "+" : "-"}${Math.abs(percent)}%`;
+}
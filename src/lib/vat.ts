@@ -0,0 +1,24 @@
+// Partita IVA italiana: 11 cifre, l'ultima è un carattere di controllo (algoritmo di Luhn)
+
+export function normalizePartitaIva(value: string | null | undefined): string {
+  return (value || "").toUpperCase().replace(/^IT/, "").replace(/[\s.\-/]/g, "");
+}
+
+export function isValidPartitaIva(value: string | null | undefined): boolean {
+  const digits = normalizePartitaIva(value);
+  if (!/^\d{11}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    let n = parseInt(digits[i], 10);
+    // Cifre in posizione pari (2ª, 4ª, ...) raddoppiate
+    if (i % 2 === 1) {
+      n *= 2;
+      if (n > 9) n -= 9;
+    }
+    sum += n;
+  }
+
+  const check = (10 - (sum % 10)) % 10;
+  return check === parseInt(digits[10], 10);
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Building2, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useOrganizations } from "@/hooks/useOrganizations";
+import { useToast } from "@/hooks/use-toast";
+import { AuthScreen } from "@/components/AuthScreen";
+import { ORG_ROLE_DESCRIPTIONS, ORG_ROLE_LABELS } from "@/lib/organizations";
+
+const AcceptInvitation = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, loading } = useAuth();
+  const { receivedInvitations, loading: invitationsLoading, acceptInvitation } = useOrganizations();
+  const { toast } = useToast();
+  const [accepting, setAccepting] = useState(false);
+
+  const invitation = receivedInvitations.find(inv => inv.token === token);
+
+  // Invito già accettato o non indirizzato a questo account: si torna all'app
+  useEffect(() => {
+    if (user && !invitationsLoading && !invitation) {
+      toast({ title: "Invito non valido", description: "È scaduto, è già stato usato o è per un altro indirizzo email.", variant: "destructive" });
+      navigate("/", { replace: true });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, invitationsLoading, invitation]);
+
+  const handleAccept = async () => {
+    if (!token) return;
+    setAccepting(true);
+    try {
+      await acceptInvitation(token);
+      toast({ title: "Benvenuto nel team", description: invitation?.organization_name ?? undefined });
+      navigate("/", { replace: true });
+    } catch (error) {
+      console.error("Accept invitation error:", error);
+      toast({ title: "Errore", description: error instanceof Error ? error.message : "Riprova.", variant: "destructive" });
+      setAccepting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="shimmer w-16 h-16 rounded-full" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthScreen />;
+  }
+
+  if (invitationsLoading || !invitation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-transparent p-6 animate-fade-in">
+      <div className="w-full max-w-md bg-card rounded-3xl card-shadow p-8 text-center space-y-6">
+        <div className="mx-auto w-14 h-14 rounded-2xl bg-indigo-500/10 text-indigo-600 flex items-center justify-center">
+          <Building2 className="w-7 h-7" strokeWidth={1.5} />
+        </div>
+        <div className="space-y-2">
+          <h1 className="text-xl font-bold text-foreground">{invitation.organization_name || "Organizzazione"}</h1>
+          <p className="text-sm text-muted-foreground">
+            Sei stato invitato come <span className="font-semibold text-foreground">{ORG_ROLE_LABELS[invitation.role]}</span>.{" "}
+            {ORG_ROLE_DESCRIPTIONS[invitation.role]}.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigate("/")} className="flex-1 h-14 rounded-full">
+            Più tardi
+          </Button>
+          <Button onClick={handleAccept} disabled={accepting} className="flex-1 h-14 rounded-full font-bold">
+            {accepting ? <Loader2 className="w-5 h-5 animate-spin" /> : "Accetta invito"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
@@ -0,0 +1,23 @@
+import { useAuth } from "@/hooks/useAuth";
+import { AuthScreen } from "@/components/AuthScreen";
+import { ApprovalInbox } from "@/components/ApprovalInbox";
+
+const Approvals = () => {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="shimmer w-16 h-16 rounded-full" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthScreen />;
+  }
+
+  return <ApprovalInbox />;
+};
+
+export default Approvals;
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { ApprovalError, groupInboxByReport, validateDecision, type InboxEntry } from "@/lib/approvals";
+
+const entry = (overrides: Partial<InboxEntry>): InboxEntry => ({
+  expense_id: "e1",
+  user_id: "u1",
+  submitter_name: "Marta",
+  report_id: "r1",
+  report_title: "Nota spese ottobre 2026",
+  protocol_number: "NS-2026-0001",
+  submitted_at: "2026-10-18T10:00:00Z",
+  merchant: "Bar Centrale",
+  expense_date: "2026-10-02",
+  total: 10,
+  currency: "EUR",
+  amount_eur: null,
+  category: "Vitto",
+  expense_type: "receipt",
+  image_url: null,
+  document_url: null,
+  approval_status: "pending",
+  ...overrides,
+});
+
+describe("approvals", () => {
+  it("requires a comment to reject or request changes", () => {
+    expect(() => validateDecision("approved", "")).not.toThrow();
+    expect(() => validateDecision("rejected", "  ")).toThrow(ApprovalError);
+    expect(() => validateDecision("changes_requested", "Manca la fattura")).not.toThrow();
+  });
+
+  it("groups the inbox by report with pending expenses first", () => {
+    const groups = groupInboxByReport([
+      entry({ expense_id: "e1", approval_status: "approved" }),
+      entry({ expense_id: "e2", total: 25.5, currency: "USD", amount_eur: 23.4 }),
+      entry({ expense_id: "e3", report_id: "r2", report_title: "Trasferta Parigi" }),
+    ]);
+    expect(groups).toHaveLength(2);
+    expect(groups[0].entries.map(e => e.expense_id)).toEqual(["e2", "e1"]);
+    expect(groups[0].pending).toBe(1);
+    expect(groups[0].total_eur).toBe(33.4);
+    expect(groups[1].report_title).toBe("Trasferta Parigi");
+  });
+});
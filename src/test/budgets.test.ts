@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  BudgetError,
+  budgetLabel,
+  budgetLevel,
+  budgetMatches,
+  crossedThreshold,
+  headlineBudget,
+  mergeBudgetStatus,
+  validateBudget,
+  type Budget,
+} from "@/lib/budgets";
+
+const budget = (id: string, overrides: Partial<Budget> = {}): Budget => ({
+  id,
+  user_id: "u1",
+  organization_id: null,
+  period: "monthly",
+  category: null,
+  project_id: null,
+  amount: 100,
+  ...overrides,
+});
+
+describe("budgets", () => {
+  it("reports the highest threshold crossed by a new expense", () => {
+    expect(budgetLevel(0.5)).toBe("ok");
+    expect(budgetLevel(0.8)).toBe("warning");
+    expect(budgetLevel(1.2)).toBe("exceeded");
+    expect(crossedThreshold(70, 15, 100)).toBe("warning");
+    expect(crossedThreshold(70, 40, 100)).toBe("exceeded");
+    expect(crossedThreshold(85, 10, 100)).toBeNull();
+    expect(crossedThreshold(120, 10, 100)).toBeNull();
+    expect(crossedThreshold(10, 5, 100)).toBeNull();
+  });
+
+  it("matches overall, category and project budgets", () => {
+    const expense = { user_id: "u1", organization_id: null, category: "Taxi", project_id: "p1" };
+    expect(budgetMatches(budget("a"), expense)).toBe(true);
+    expect(budgetMatches(budget("b", { category: "taxi" }), expense)).toBe(true);
+    expect(budgetMatches(budget("c", { category: "Vitto Comune" }), expense)).toBe(false);
+    expect(budgetMatches(budget("d", { project_id: "p2" }), expense)).toBe(false);
+    expect(budgetLabel(budget("a"))).toBe("Tutte le spese");
+    expect(budgetLabel(budget("b", { category: "Taxi" }))).toBe("Taxi");
+  });
+
+  it("matches only the budgets whose scope counts the expense", () => {
+    const personal = { user_id: "u1", organization_id: null, category: "Taxi", project_id: null };
+    const shared = { ...personal, organization_id: "o1" };
+    expect(budgetMatches(budget("mine"), personal)).toBe(true);
+    expect(budgetMatches(budget("mine"), shared)).toBe(true);
+    expect(budgetMatches(budget("theirs", { user_id: "u2" }), personal)).toBe(false);
+    expect(budgetMatches(budget("org", { user_id: "u2", organization_id: "o1" }), shared)).toBe(true);
+    expect(budgetMatches(budget("org", { organization_id: "o1" }), personal)).toBe(false);
+    expect(budgetMatches(budget("other", { organization_id: "o2" }), shared)).toBe(false);
+  });
+
+  it("rejects empty amounts and double scopes", () => {
+    expect(() => validateBudget({ amount: 0, category: null, project_id: null })).toThrow(BudgetError);
+    expect(() => validateBudget({ amount: 10, category: "Taxi", project_id: "p1" })).toThrow(BudgetError);
+  });
+
+  it("merges spend and picks the headline monthly budget", () => {
+    const budgets = [budget("total", { amount: 1000 }), budget("taxi", { category: "Taxi" }), budget("year", { period: "annual" })];
+    const rows = [
+      { budget_id: "total", period_start: "2026-10-01", period_end: "2026-10-31", spent: 400 },
+      { budget_id: "taxi", period_start: "2026-10-01", period_end: "2026-10-31", spent: 90 },
+      { budget_id: "year", period_start: "2026-01-01", period_end: "2026-12-31", spent: 150 },
+    ];
+    const statuses = mergeBudgetStatus(budgets, rows);
+    expect(statuses.map(s => s.id)).toEqual(["year", "taxi", "total"]);
+    expect(headlineBudget(statuses)?.id).toBe("total");
+    expect(headlineBudget(statuses.filter(s => s.id !== "total"))?.id).toBe("taxi");
+    expect(headlineBudget([])).toBeNull();
+  });
+});
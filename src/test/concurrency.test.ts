@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "@/lib/concurrency";
+
+const tick = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+  it("never runs more than the limit at once and keeps result order", async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick(ms);
+      running--;
+      return index;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map(r => r.status === "fulfilled" && r.value)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("keeps going after a failure", async () => {
+    const results = await mapWithConcurrency([1, 2, 3], 3, async (n) => {
+      if (n === 2) throw new Error("boom");
+      return n;
+    });
+
+    expect(results.map(r => r.status)).toEqual(["fulfilled", "rejected", "fulfilled"]);
+  });
+});
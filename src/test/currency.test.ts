@@ -0,0 +1,13 @@
+import { describe, it, expect } from "vitest";
+import { formatCurrency, sumAmountsEur } from "@/lib/currency";
+
+describe("EUR totals", () => {
+  it("uses the converted amount and counts foreign expenses without a rate", () => {
+    expect(sumAmountsEur([
+      { amount: 10, currency: "EUR" },
+      { amount: 100, currency: "USD", amount_eur: 91.57 },
+      { amount: 50, currency: "GBP", amount_eur: null },
+    ])).toEqual({ total: 101.57, unconverted: 1 });
+    expect(formatCurrency(12345.5, "USD")).toBe("$12.345,50");
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import type { Expense } from "@/hooks/useExpenses";
+import { findDuplicates, merchantSimilarity } from "@/lib/duplicates";
+import { dHashFromGrayscale, hammingDistance } from "@/lib/imageHash";
+
+function expense(overrides: Partial<Expense>): Expense {
+  return {
+    id: "e1",
+    user_id: "u1",
+    merchant: "Bar Centrale S.r.l.",
+    date: "2026-09-14",
+    amount: 12.5,
+    currency: "EUR",
+    category: "Vitto Comune",
+    image_url: null,
+    created_at: "2026-09-14T10:00:00Z",
+    updated_at: "2026-09-14T10:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("image hash", () => {
+  it("produces 64-bit hashes comparable by Hamming distance", () => {
+    const gradient = Array.from({ length: 72 }, (_, i) => 255 - (i % 9) * 20);
+    const hash = dHashFromGrayscale(gradient);
+    expect(hash).toBe("ffffffffffffffff");
+    expect(hammingDistance(hash, "fffffffffffffff0")).toBe(4);
+    expect(hammingDistance(hash, "ff")).toBe(Infinity);
+  });
+});
+
+describe("duplicate detection", () => {
+  it("ignores legal forms and punctuation when comparing merchants", () => {
+    expect(merchantSimilarity("BAR CENTRALE SRL", "Bar Centrale S.r.l.")).toBe(1);
+    expect(merchantSimilarity("Trattoria da Mario", "Pizzeria Napoli")).toBe(0);
+  });
+
+  it("flags same merchant, amount and date", () => {
+    const matches = findDuplicates(
+      { merchant: "Bar Centrale", date: "2026-09-14", amount: 12.5 },
+      [expense({}), expense({ id: "e2", amount: 30 })]
+    );
+    expect(matches.map(m => m.expense.id)).toEqual(["e1"]);
+    expect(matches[0].reasons).toEqual(["merchant", "date", "amount"]);
+  });
+
+  it("flags the same photo even when the date was misread", () => {
+    const matches = findDuplicates(
+      { merchant: "Bar Centrale", date: "2026-10-01", amount: 12.5, image_hash: "ffffffffffffffff" },
+      [expense({ image_hash: "fffffffffffffff7" })]
+    );
+    expect(matches[0].reasons).toContain("image");
+  });
+
+  it("does not flag a different receipt from the same merchant", () => {
+    expect(findDuplicates(
+      { merchant: "Bar Centrale", date: "2026-09-20", amount: 12.5 },
+      [expense({})]
+    )).toEqual([]);
+  });
+});
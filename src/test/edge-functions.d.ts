@@ -0,0 +1,15 @@
+// Tipi per importare nei test i moduli delle Edge Function, scritti per Deno.
+// Nei test Deno è uno stub (vi.stubGlobal) con le sole API usate da quei moduli.
+declare const Deno: {
+  env: { get(name: string): string | undefined };
+  readTextFile(path: string): Promise<string>;
+};
+
+// Gli URL esm.sh puntano agli stessi pacchetti installati con npm (vi.mock nei test)
+declare module "https://esm.sh/zod@3.23.8" {
+  export * from "zod";
+}
+
+declare module "https://esm.sh/@supabase/supabase-js@2.45.0" {
+  export * from "@supabase/supabase-js";
+}
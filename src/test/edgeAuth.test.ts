@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { withAuth } from "../../supabase/functions/_shared/auth";
+import { consumeDailyQuota, QuotaExceededError, QuotaUnavailableError } from "../../supabase/functions/_shared/quota";
+
+// createClient di esm.sh sostituito: getUser per il client dell'utente, rpc per quello service role
+const supabase = vi.hoisted(() => ({
+  getUser: vi.fn(),
+  rpc: vi.fn(),
+  createClient: vi.fn(),
+}));
+
+vi.mock("https://esm.sh/@supabase/supabase-js@2.45.0", () => ({
+  createClient: supabase.createClient.mockImplementation(() => ({
+    auth: { getUser: supabase.getUser },
+    rpc: supabase.rpc,
+  })),
+}));
+
+const ENV: Record<string, string> = {
+  SUPABASE_URL: "https://project.supabase.co",
+  SUPABASE_ANON_KEY: "anon-key",
+  SUPABASE_SERVICE_ROLE_KEY: "service-key",
+};
+
+function request(headers: Record<string, string> = { Authorization: "Bearer user-jwt" }, method = "POST") {
+  return new Request("https://project.supabase.co/functions/v1/analyze-receipt", { method, headers });
+}
+
+const quotaRow = (allowed: boolean) => ({ data: [{ allowed, daily_limit: 100 }], error: null });
+
+describe("edge function auth and quota", () => {
+  beforeEach(() => {
+    vi.stubGlobal("Deno", { env: { get: (name: string) => ENV[name] } });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    supabase.getUser.mockResolvedValue({ data: { user: { id: "u1" } }, error: null });
+    supabase.rpc.mockResolvedValue(quotaRow(true));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("answers CORS preflights without authentication", async () => {
+    const handler = vi.fn();
+    const response = await withAuth("analyze-receipt", handler)(request({}, "OPTIONS"));
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 without a bearer token or with an invalid session", async () => {
+    const handler = vi.fn();
+    const missing = await withAuth("analyze-receipt", handler)(request({}));
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toMatchObject({ success: false, code: "UNAUTHORIZED" });
+    expect(supabase.createClient).not.toHaveBeenCalled();
+
+    supabase.getUser.mockResolvedValue({ data: { user: null }, error: { message: "JWT expired" } });
+    const expired = await withAuth("analyze-receipt", handler)(request());
+    expect(expired.status).toBe(401);
+    expect(await expired.json()).toMatchObject({ code: "UNAUTHORIZED", error: "Sessione non valida" });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("passes the user and a client bound to the caller's JWT to the handler", async () => {
+    const handler = vi.fn(async () => new Response("ok"));
+    const response = await withAuth("analyze-receipt", handler)(request());
+    expect(await response.text()).toBe("ok");
+    expect(supabase.createClient).toHaveBeenCalledWith("https://project.supabase.co", "anon-key", {
+      global: { headers: { Authorization: "Bearer user-jwt" } },
+    });
+    expect(handler).toHaveBeenCalledWith(expect.any(Request), expect.objectContaining({ user: { id: "u1" } }));
+  });
+
+  it("returns 429 with Retry-After once the daily quota is used up", async () => {
+    supabase.rpc.mockResolvedValue(quotaRow(false));
+    const handler = vi.fn(async (_req: Request, { user }: { user: { id: string } }) => {
+      await consumeDailyQuota(user.id, "analyze-receipt");
+      return new Response("ok");
+    });
+
+    const response = await withAuth("analyze-receipt", handler)(request());
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ success: false, code: "QUOTA_EXCEEDED", limit: 100 });
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    expect(retryAfter).toBeGreaterThanOrEqual(1);
+    expect(retryAfter).toBeLessThanOrEqual(86_400);
+    expect(supabase.rpc).toHaveBeenCalledWith("consume_function_quota", { p_user_id: "u1", p_function: "analyze-receipt" });
+  });
+
+  it("returns 503 when the quota cannot be checked", async () => {
+    const handler = vi.fn(async () => {
+      await consumeDailyQuota("u1", "analyze-receipt");
+      return new Response("ok");
+    });
+
+    supabase.rpc.mockResolvedValue({ data: null, error: { message: "connection refused" } });
+    const unreachable = await withAuth("analyze-receipt", handler)(request());
+    expect(unreachable.status).toBe(503);
+    expect(await unreachable.json()).toMatchObject({ success: false, code: "QUOTA_UNAVAILABLE" });
+
+    vi.stubGlobal("Deno", { env: { get: (name: string) => (name === "SUPABASE_SERVICE_ROLE_KEY" ? undefined : ENV[name]) } });
+    expect((await withAuth("analyze-receipt", handler)(request())).status).toBe(503);
+  });
+
+  it("lets other handler errors through", async () => {
+    const handler = vi.fn(async () => {
+      throw new Error("bug");
+    });
+    await expect(withAuth("analyze-receipt", handler)(request())).rejects.toThrow("bug");
+  });
+
+  it("counts requests with the service role client", async () => {
+    await expect(consumeDailyQuota("u1", "send-expense-email")).resolves.toBeUndefined();
+    expect(supabase.createClient).toHaveBeenCalledWith("https://project.supabase.co", "service-key", {
+      auth: { persistSession: false },
+    });
+
+    supabase.rpc.mockResolvedValue(quotaRow(false));
+    await expect(consumeDailyQuota("u1", "send-expense-email")).rejects.toBeInstanceOf(QuotaExceededError);
+    supabase.rpc.mockResolvedValue({ data: [], error: null });
+    await expect(consumeDailyQuota("u1", "send-expense-email")).rejects.toBeInstanceOf(QuotaUnavailableError);
+  });
+});
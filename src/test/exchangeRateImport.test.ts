@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { ExchangeRateCsvError, parseEcbCsv } from "../../supabase/functions/import-exchange-rates/ecb";
+
+describe("ECB CSV import", () => {
+  it("reads the historical file with one column per currency", () => {
+    const csv = "Date,USD,JPY,CYP,\n2024-01-05,1.0921,158.09,N/A,\n2024-01-04,1.0953,158.55,N/A,\n";
+    expect(parseEcbCsv(csv)).toEqual([
+      { currency: "USD", rate_date: "2024-01-05", rate: 1.0921 },
+      { currency: "JPY", rate_date: "2024-01-05", rate: 158.09 },
+      { currency: "USD", rate_date: "2024-01-04", rate: 1.0953 },
+      { currency: "JPY", rate_date: "2024-01-04", rate: 158.55 },
+    ]);
+  });
+
+  it("reads the daily file with spelled-out dates", () => {
+    const csv = "Date, USD, GBP, \n05 January 2024, 1.0921, 0.86, \n";
+    expect(parseEcbCsv(csv)).toEqual([
+      { currency: "USD", rate_date: "2024-01-05", rate: 1.0921 },
+      { currency: "GBP", rate_date: "2024-01-05", rate: 0.86 },
+    ]);
+  });
+
+  it("reads the Data Portal export by column name, whatever the column order", () => {
+    const csv = [
+      "\uFEFFkey,obs_value,time_period,currency_denom,currency,TITLE",
+      'EXR.D.CHF.EUR.SP00.A,0.9305,2024-01-05,EUR,CHF,"Swiss franc, euro"',
+    ].join("\r\n");
+    expect(parseEcbCsv(csv)).toEqual([{ currency: "CHF", rate_date: "2024-01-05", rate: 0.9305 }]);
+  });
+
+  it("skips missing values and bad rows", () => {
+    const csv = [
+      "KEY,FREQ,CURRENCY,CURRENCY_DENOM,EXR_TYPE,EXR_SUFFIX,TIME_PERIOD,OBS_VALUE",
+      "EXR.D.USD.EUR.SP00.A,D,USD,EUR,SP00,A,2024-01-05,",
+      "EXR.D.USD.EUR.SP00.A,D,USD,EUR,SP00,A,2024-01-04,-1.09",
+      "EXR.D.USD.EUR.SP00.A,D,USD,EUR,SP00,A,04/01/2024,1.09",
+      "EXR.D.US.EUR.SP00.A,D,US,EUR,SP00,A,2024-01-04,1.09",
+      "EXR.D.EUR.USD.SP00.A,D,EUR,USD,SP00,A,2024-01-04,0.91",
+      "EXR.D.GBP.EUR.SP00.A,D,GBP,EUR,SP00,A,2024-01-04,0.8634",
+    ].join("\n");
+    expect(parseEcbCsv(csv)).toEqual([{ currency: "GBP", rate_date: "2024-01-04", rate: 0.8634 }]);
+
+    const historical = "Date,USD\nnot a date,1.09\n2024-01-05,\n2024-01-04,1.0953\n";
+    expect(parseEcbCsv(historical)).toEqual([{ currency: "USD", rate_date: "2024-01-04", rate: 1.0953 }]);
+  });
+
+  it("rejects unrelated, empty or rate-less files", () => {
+    expect(() => parseEcbCsv("Data,Esercente\n2024-01-05,Bar")).toThrow(ExchangeRateCsvError);
+    expect(() => parseEcbCsv("Date,USD\n")).toThrow("Il file non contiene tassi di cambio");
+    expect(() => parseEcbCsv("Date,USD\n2024-01-05,N/A\n")).toThrow("Nessun tasso valido nel file");
+  });
+});
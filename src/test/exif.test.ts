@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { captureDateOf, parseExif, parseExifDate } from "@/lib/exif";
+import { isRecentCapture } from "@/lib/location";
+
+// JPEG minimo con APP1 Exif (little endian): IFD0 -> Exif IFD (DateTimeOriginal) e GPS IFD
+function buildJpeg({ lat, latRef, lng, lngRef, date }: { lat: number[]; latRef: string; lng: number[]; lngRef: string; date: string }) {
+  const tiff = new DataView(new ArrayBuffer(256));
+  let cursor = 0;
+  const u16 = (v: number) => { tiff.setUint16(cursor, v, true); cursor += 2; };
+  const u32 = (v: number) => { tiff.setUint32(cursor, v, true); cursor += 4; };
+  const entry = (tag: number, type: number, count: number, value: number) => { u16(tag); u16(type); u32(count); u32(value); };
+
+  const IFD0 = 8, EXIF = 40, GPS = 60, DATE = 120, LAT = 140, LNG = 164;
+  u16(0x4949); u16(42); u32(IFD0);
+
+  cursor = IFD0; u16(2);
+  entry(0x8769, 4, 1, EXIF);
+  entry(0x8825, 4, 1, GPS);
+  u32(0);
+
+  cursor = EXIF; u16(1);
+  entry(0x9003, 2, date.length + 1, DATE);
+  u32(0);
+
+  cursor = GPS; u16(4);
+  entry(1, 2, 2, latRef.charCodeAt(0));
+  entry(2, 5, 3, LAT);
+  entry(3, 2, 2, lngRef.charCodeAt(0));
+  entry(4, 5, 3, LNG);
+  u32(0);
+
+  [...date].forEach((c, i) => tiff.setUint8(DATE + i, c.charCodeAt(0)));
+  cursor = LAT; lat.forEach(v => { u32(Math.round(v * 100)); u32(100); });
+  cursor = LNG; lng.forEach(v => { u32(Math.round(v * 100)); u32(100); });
+
+  const exifHeader = [0x45, 0x78, 0x69, 0x66, 0, 0];
+  const segmentLength = 2 + exifHeader.length + tiff.byteLength;
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff,
+    ...exifHeader,
+    ...new Uint8Array(tiff.buffer),
+    0xff, 0xda, 0, 2,
+  ]).buffer;
+}
+
+describe("EXIF", () => {
+  it("reads GPS coordinates and the capture date", () => {
+    const metadata = parseExif(buildJpeg({
+      lat: [45, 27, 51.12], latRef: "N",
+      lng: [9, 11, 24], lngRef: "E",
+      date: "2026:10:18 14:32:05",
+    }));
+    expect(metadata.latitude).toBeCloseTo(45.4642, 4);
+    expect(metadata.longitude).toBeCloseTo(9.19, 4);
+    expect(captureDateOf(metadata)).toBe("2026-10-18");
+  });
+
+  it("makes southern and western coordinates negative", () => {
+    const metadata = parseExif(buildJpeg({ lat: [33, 52, 0], latRef: "S", lng: [151, 12, 0], lngRef: "W", date: "2026:01:02 08:00:00" }));
+    expect(metadata.latitude).toBeLessThan(0);
+    expect(metadata.longitude).toBeLessThan(0);
+  });
+
+  it("returns empty metadata for files without EXIF", () => {
+    expect(parseExif(new Uint8Array([0x25, 0x50, 0x44, 0x46]).buffer)).toEqual({ latitude: null, longitude: null, capturedAt: null });
+    expect(parseExifDate("0000:00:00 00:00:00")).toBeNull();
+  });
+
+  it("uses the device position only for fresh captures", () => {
+    const now = new Date(2026, 9, 18, 12, 0, 0);
+    expect(isRecentCapture(new Date(2026, 9, 18, 11, 30, 0), now)).toBe(true);
+    expect(isRecentCapture(new Date(2026, 9, 17, 12, 0, 0), now)).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  canTransition,
+  commonTripId,
+  defaultReportTitle,
+  formatProtocolNumber,
+  isReportLocked,
+  reportPeriod,
+} from "@/lib/expenseReports";
+
+describe("expense reports", () => {
+  it("allows only the lifecycle transitions", () => {
+    expect(canTransition("draft", "submitted", "owner")).toBe(true);
+    expect(canTransition("submitted", "draft", "approver")).toBe(true);
+    expect(canTransition("submitted", "approved", "approver")).toBe(true);
+    expect(canTransition("approved", "reimbursed", "accountant")).toBe(true);
+    expect(canTransition("draft", "approved", "approver")).toBe(false);
+    expect(canTransition("approved", "draft", "approver")).toBe(false);
+    expect(canTransition("reimbursed", "draft", "accountant")).toBe(false);
+  });
+
+  it("lets the owner submit, withdraw before any decision and close personal reports", () => {
+    expect(canTransition("submitted", "approved", "owner")).toBe(false);
+    expect(canTransition("submitted", "draft", "owner")).toBe(true);
+    expect(canTransition("submitted", "draft", "owner", { decided: true })).toBe(false);
+    expect(canTransition("submitted", "draft", "approver", { decided: true })).toBe(true);
+    expect(canTransition("approved", "reimbursed", "owner")).toBe(false);
+    expect(canTransition("approved", "reimbursed", "owner", { personal: true })).toBe(true);
+    expect(canTransition("draft", "submitted", "accountant")).toBe(false);
+    expect(canTransition("approved", "reimbursed", "approver")).toBe(false);
+  });
+
+  it("locks expenses once the report leaves the draft state", () => {
+    expect(isReportLocked("draft")).toBe(false);
+    expect(isReportLocked(null)).toBe(false);
+    expect(isReportLocked("submitted")).toBe(true);
+    expect(isReportLocked("reimbursed")).toBe(true);
+  });
+
+  it("formats protocol numbers like the database", () => {
+    expect(formatProtocolNumber(2026, 7)).toBe("NS-2026-0007");
+    expect(formatProtocolNumber(2026, 12345)).toBe("NS-2026-12345");
+  });
+
+  it("derives period, trip and default title from the selected expenses", () => {
+    const expenses = [
+      { date: "2026-10-03", trip_id: "t1" },
+      { date: "2026-09-28", trip_id: "t1" },
+      { date: null, trip_id: "t1" },
+    ];
+    expect(reportPeriod(expenses)).toEqual({ period_start: "2026-09-28", period_end: "2026-10-03" });
+    expect(commonTripId(expenses)).toBe("t1");
+    expect(commonTripId([...expenses, { date: "2026-10-04" }])).toBeNull();
+    expect(defaultReportTitle(expenses)).toBe("Nota spese 28 set – 3 ott 2026");
+    expect(defaultReportTitle([{ date: "2026-10-01" }, { date: "2026-10-20" }])).toBe("Nota spese ottobre 2026");
+    expect(defaultReportTitle([])).toBe("Nota spese");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { FatturaPAError, parseFatturaPA, unwrapInvoiceBytes } from "@/lib/fatturapa";
+
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<p:FatturaElettronica versione="FPR12" xmlns:p="http://ivaservizi.agenziaentrate.gov.it/docs/xsd/fatture/v1.2">
+  <FatturaElettronicaHeader>
+    <CedentePrestatore>
+      <DatiAnagrafici>
+        <IdFiscaleIVA><IdPaese>IT</IdPaese><IdCodice>00743110157</IdCodice></IdFiscaleIVA>
+        <Anagrafica><Denominazione>Hotel Duomo S.r.l.</Denominazione></Anagrafica>
+      </DatiAnagrafici>
+      <Sede>
+        <Indirizzo>Via Roma</Indirizzo><NumeroCivico>1</NumeroCivico>
+        <CAP>50122</CAP><Comune>Firenze</Comune><Provincia>FI</Provincia><Nazione>IT</Nazione>
+      </Sede>
+    </CedentePrestatore>
+  </FatturaElettronicaHeader>
+  <FatturaElettronicaBody>
+    <DatiGenerali>
+      <DatiGeneraliDocumento>
+        <TipoDocumento>TD01</TipoDocumento><Divisa>EUR</Divisa>
+        <Data>2026-09-14</Data><Numero>A/123</Numero>
+        <ImportoTotaleDocumento>122.00</ImportoTotaleDocumento>
+      </DatiGeneraliDocumento>
+    </DatiGenerali>
+    <DatiBeniServizi>
+      <DettaglioLinee>
+        <NumeroLinea>1</NumeroLinea><Descrizione>Pernottamento</Descrizione>
+        <Quantita>2.00</Quantita><PrezzoUnitario>50.00</PrezzoUnitario>
+        <PrezzoTotale>100.00</PrezzoTotale><AliquotaIVA>10.00</AliquotaIVA>
+      </DettaglioLinee>
+      <DettaglioLinee>
+        <NumeroLinea>2</NumeroLinea><Descrizione>Tassa di soggiorno</Descrizione>
+        <PrezzoUnitario>12.00</PrezzoUnitario><PrezzoTotale>12.00</PrezzoTotale>
+        <AliquotaIVA>0.00</AliquotaIVA><Natura>N1</Natura>
+      </DettaglioLinee>
+      <DatiRiepilogo><AliquotaIVA>10.00</AliquotaIVA><ImponibileImporto>100.00</ImponibileImporto><Imposta>10.00</Imposta></DatiRiepilogo>
+      <DatiRiepilogo><AliquotaIVA>0.00</AliquotaIVA><Natura>N1</Natura><ImponibileImporto>12.00</ImponibileImporto><Imposta>0.00</Imposta></DatiRiepilogo>
+    </DatiBeniServizi>
+  </FatturaElettronicaBody>
+</p:FatturaElettronica>`;
+
+// TLV DER minimale per costruire una busta p7m di prova
+function tlv(tag: number, ...parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const header = length < 0x80
+    ? [tag, length]
+    : [tag, 0x82, (length >> 8) & 0xff, length & 0xff];
+  const out = new Uint8Array(header.length + length);
+  out.set(header);
+  let offset = header.length;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
+
+const OID_SIGNED_DATA = new Uint8Array([0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x02]);
+const OID_DATA = new Uint8Array([0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x01]);
+
+function buildP7m(content: Uint8Array, chunkSize?: number): Uint8Array {
+  const eContent = chunkSize
+    ? tlv(0x24, ...Array.from({ length: Math.ceil(content.length / chunkSize) }, (_, i) =>
+        tlv(0x04, content.subarray(i * chunkSize, (i + 1) * chunkSize))))
+    : tlv(0x04, content);
+  const signedData = tlv(0x30,
+    tlv(0x02, new Uint8Array([1])),
+    tlv(0x31),
+    tlv(0x30, OID_DATA, tlv(0xa0, eContent)),
+  );
+  return tlv(0x30, OID_SIGNED_DATA, tlv(0xa0, signedData));
+}
+
+describe("FatturaPA", () => {
+  it("extracts supplier, totals, VAT breakdown and lines", () => {
+    const invoice = parseFatturaPA(XML);
+    expect(invoice.merchant).toBe("Hotel Duomo S.r.l.");
+    expect(invoice.vat_number).toBe("00743110157");
+    expect(invoice.address).toBe("Via Roma 1, 50122 Firenze (FI)");
+    expect(invoice.date).toBe("2026-09-14");
+    expect(invoice.number).toBe("A/123");
+    expect(invoice.total).toBe(122);
+    expect(invoice.vat_breakdown).toEqual([
+      { vat_rate: 10, taxable: 100, tax: 10, nature: null },
+      { vat_rate: 0, taxable: 12, tax: 0, nature: "N1" },
+    ]);
+    expect(invoice.items).toEqual([
+      { name: "Pernottamento", quantity: 2, unit_price: 50, vat_rate: 10 },
+      { name: "Tassa di soggiorno", quantity: 1, unit_price: 12, vat_rate: 0 },
+    ]);
+  });
+
+  it("falls back to the VAT summary when the document total is missing", () => {
+    const invoice = parseFatturaPA(XML.replace(/<ImportoTotaleDocumento>.*<\/ImportoTotaleDocumento>/, ""));
+    expect(invoice.total).toBe(122);
+  });
+
+  it("unwraps signed p7m envelopes, including chunked and base64 ones", () => {
+    const bytes = new TextEncoder().encode(XML);
+    expect(parseFatturaPA(unwrapInvoiceBytes(buildP7m(bytes))).merchant).toBe("Hotel Duomo S.r.l.");
+    expect(parseFatturaPA(unwrapInvoiceBytes(buildP7m(bytes, 100))).total).toBe(122);
+
+    const base64 = btoa(String.fromCharCode(...buildP7m(bytes)));
+    expect(parseFatturaPA(unwrapInvoiceBytes(new TextEncoder().encode(base64))).number).toBe("A/123");
+  });
+
+  it("rejects XML that is not an electronic invoice", () => {
+    expect(() => parseFatturaPA("<ordine><numero>1</numero></ordine>")).toThrow(FatturaPAError);
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { gazetteerProvider, geocodeAddress, placeColumns } from "@/lib/geocoding";
+
+// Risposta di Nominatim con le sole parti lette da nominatimProvider
+function stubNominatim(result: { lat: string; lon: string; country_code: string } | null) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(result
+    ? [{ lat: result.lat, lon: result.lon, address: { country_code: result.country_code } }]
+    : [])));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("geocoding", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("resolves the comune after the CAP with its province", async () => {
+    const place = await gazetteerProvider.geocode("Via Roma 1, 20121 Milano (MI)");
+    expect(place).toMatchObject({ municipality: "Milano", province: "MI", country: "IT" });
+    expect(place?.latitude).toBeCloseTo(45.46, 1);
+  });
+
+  it("does not mistake a street name for the comune", async () => {
+    const place = await gazetteerProvider.geocode("Via Roma 12, Bergamo");
+    expect(place?.municipality).toBe("Bergamo");
+  });
+
+  it("knows every ISTAT comune, with coordinates only where available", async () => {
+    const place = await gazetteerProvider.geocode("Via Manzoni 3, 20090 Buccinasco MI");
+    expect(place).toMatchObject({ municipality: "Buccinasco", province: "MI", latitude: null });
+  });
+
+  it("recognises foreign addresses", async () => {
+    const place = await gazetteerProvider.geocode("12 Rue de Rivoli, 75001 Paris, France");
+    expect(place).toMatchObject({ country: "FR", municipality: null });
+  });
+
+  it("does not read country names inside street names", async () => {
+    expect(await gazetteerProvider.geocode("Corso Francia 10, 10138 Torino")).toMatchObject({ municipality: "Torino", country: "IT" });
+    expect(await gazetteerProvider.geocode("Piazza di Spagna, Roma")).toMatchObject({ municipality: "Roma", province: "RM" });
+    expect(await gazetteerProvider.geocode("Via Monaco")).toBeNull();
+    expect(await gazetteerProvider.geocode("Corso Como 1")).toBeNull();
+    expect(await gazetteerProvider.geocode("Via Roma 12 Bergamo")).toMatchObject({ municipality: "Bergamo" });
+  });
+
+  it("tells homonymous comuni apart by province or CAP", async () => {
+    expect(await gazetteerProvider.geocode("Via Garibaldi 1, Castro (LE)")).toMatchObject({ municipality: "Castro", province: "LE" });
+    expect(await gazetteerProvider.geocode("Via Garibaldi 1, 24063 Castro")).toMatchObject({ municipality: "Castro", province: "BG" });
+  });
+
+  it("asks Nominatim for the position of comuni without coordinates", async () => {
+    const fetchMock = stubNominatim({ lat: "45.4297", lon: "9.1063", country_code: "it" });
+    const place = await geocodeAddress("Via Manzoni 3, 20090 Buccinasco MI", gazetteerProvider);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(place).toMatchObject({ municipality: "Buccinasco", province: "MI", country: "IT", latitude: 45.4297, longitude: 9.1063 });
+  });
+
+  it("keeps the gazetteer place when Nominatim has no usable position", async () => {
+    stubNominatim({ lat: "48.85", lon: "2.35", country_code: "fr" });
+    expect(await geocodeAddress("Via Manzoni 3, 20090 Buccinasco MI", gazetteerProvider))
+      .toMatchObject({ municipality: "Buccinasco", latitude: null, longitude: null });
+
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 503 })));
+    expect(await geocodeAddress("Via Manzoni 3, 20090 Buccinasco MI", gazetteerProvider))
+      .toMatchObject({ municipality: "Buccinasco", latitude: null });
+  });
+
+  it("does not call Nominatim when the gazetteer already has coordinates", async () => {
+    const fetchMock = stubNominatim(null);
+    expect(await geocodeAddress("Via Roma 1, 20121 Milano (MI)", gazetteerProvider)).toMatchObject({ municipality: "Milano" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("keeps EXIF coordinates and only falls back to the address position", async () => {
+    const place = await gazetteerProvider.geocode("Corso Italia 5, 50123 Firenze FI");
+    expect(placeColumns(place, { latitude: 45.1, longitude: 9.1, location_source: "exif" })).not.toHaveProperty("latitude");
+    expect(placeColumns(place, {})).toMatchObject({ location_source: "address", municipality: "Firenze" });
+  });
+});
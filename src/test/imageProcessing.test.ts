@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { applyHomography, detectDocumentCorners, otsuThreshold, solveHomography, stretchContrast } from "@/lib/imageProcessing";
+
+// Foglio chiaro (quadrilatero) su sfondo scuro
+function syntheticPhoto(width: number, height: number, inside: (x: number, y: number) => boolean) {
+  const gray = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) gray[y * width + x] = inside(x, y) ? 230 : 40;
+  }
+  return gray;
+}
+
+describe("image processing", () => {
+  it("splits a bimodal histogram between the two peaks", () => {
+    const gray = [...new Array(100).fill(30), ...new Array(100).fill(200)];
+    const threshold = otsuThreshold(gray);
+    expect(threshold).toBeGreaterThanOrEqual(30);
+    expect(threshold).toBeLessThan(200);
+  });
+
+  it("finds the corners of a bright sheet on a dark background", () => {
+    const gray = syntheticPhoto(100, 100, (x, y) => x >= 20 && x < 80 && y >= 10 && y < 90);
+    const quad = detectDocumentCorners(gray, 100, 100);
+    expect(quad).not.toBeNull();
+    const [tl, tr, br, bl] = quad!;
+    expect(tl.x).toBeCloseTo(0.2, 1);
+    expect(tl.y).toBeCloseTo(0.1, 1);
+    expect(tr.x).toBeCloseTo(0.8, 1);
+    expect(br.y).toBeCloseTo(0.9, 1);
+    expect(bl.x).toBeCloseTo(0.2, 1);
+  });
+
+  it("returns null when no sheet stands out", () => {
+    const gray = syntheticPhoto(50, 50, () => true);
+    expect(detectDocumentCorners(gray, 50, 50)).toBeNull();
+  });
+
+  it("maps each source corner onto its target corner", () => {
+    const from = [{ x: 10, y: 5 }, { x: 90, y: 12 }, { x: 85, y: 95 }, { x: 5, y: 80 }];
+    const to = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 150 }, { x: 0, y: 150 }];
+    const h = solveHomography(from, to);
+    from.forEach((p, i) => {
+      const mapped = applyHomography(h, p);
+      expect(mapped.x).toBeCloseTo(to[i].x, 6);
+      expect(mapped.y).toBeCloseTo(to[i].y, 6);
+    });
+  });
+
+  it("stretches a washed-out image to the full range", () => {
+    const gray = new Uint8ClampedArray(1000).map((_, i) => 100 + (i % 51));
+    const out = stretchContrast(gray);
+    expect(Math.min(...out)).toBeLessThanOrEqual(5);
+    expect(Math.max(...out)).toBeGreaterThanOrEqual(250);
+  });
+});
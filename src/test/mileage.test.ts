@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { AciTariffCsvError, computeMileageAmount, mileageRoute, parseAciTariffCsv } from "@/lib/mileage";
+
+describe("mileage", () => {
+  it("parses ACI tables with semicolons and decimal commas", () => {
+    const csv = [
+      "\uFEFFMarca;Modello;Alimentazione;Anno;Costo km (€/km)",
+      "FIAT;Panda 1.0 Hybrid;Ibrido benzina;2026;0,4521",
+      "VOLKSWAGEN;\"Golf 2.0 TDI; 150 CV\";Gasolio;2026;0,6187",
+      "FIAT;Panda 1.0 Hybrid;Ibrido benzina;2026;0,4530",
+    ].join("\n");
+    const tariffs = parseAciTariffCsv(csv);
+    expect(tariffs).toHaveLength(2);
+    expect(tariffs[0]).toEqual({ year: 2026, brand: "FIAT", model: "Panda 1.0 Hybrid", fuel: "Ibrido benzina", cost_per_km: 0.453 });
+    expect(tariffs[1].model).toBe("Golf 2.0 TDI; 150 CV");
+  });
+
+  it("uses the default year when the file has no year column", () => {
+    const tariffs = parseAciTariffCsv("Marca,Modello,Costo km\nRenault,Clio,0.41", 2025);
+    expect(tariffs[0]).toMatchObject({ year: 2025, fuel: null, cost_per_km: 0.41 });
+  });
+
+  it("rejects files without the required columns", () => {
+    expect(() => parseAciTariffCsv("Marca;Modello\nFIAT;Panda")).toThrow(AciTariffCsvError);
+  });
+
+  it("computes the reimbursement rounded to the cent", () => {
+    expect(computeMileageAmount(123.4, 0.4521)).toBe(55.79);
+    expect(computeMileageAmount(0, 0.45)).toBe(0);
+    expect(mileageRoute(" Milano ", "Bergamo", true)).toBe("Milano → Bergamo (A/R)");
+  });
+});
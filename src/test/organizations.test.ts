@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import {
+  OrganizationError,
+  canManageMembers,
+  canMarkReimbursed,
+  canViewTeamExpenses,
+  invitationUrl,
+  isInvitationOpen,
+  normalizeInviteEmail,
+  sortMembers,
+  type OrganizationMember,
+} from "@/lib/organizations";
+
+describe("organizations", () => {
+  it("maps roles to the permissions granted by the policies", () => {
+    expect(canViewTeamExpenses("member")).toBe(false);
+    expect(canViewTeamExpenses("approver")).toBe(true);
+    expect(canMarkReimbursed("approver")).toBe(false);
+    expect(canMarkReimbursed("accountant")).toBe(true);
+    expect(canManageMembers("accountant")).toBe(false);
+    expect(canManageMembers("admin")).toBe(true);
+    expect(canViewTeamExpenses(null)).toBe(false);
+  });
+
+  it("validates and normalizes invitation emails", () => {
+    expect(normalizeInviteEmail("  Mario.Rossi@Example.IT ")).toBe("mario.rossi@example.it");
+    expect(() => normalizeInviteEmail("mario")).toThrow(OrganizationError);
+  });
+
+  it("treats accepted or expired invitations as closed", () => {
+    const now = new Date("2026-10-19T10:00:00Z");
+    expect(isInvitationOpen({ accepted_at: null, expires_at: "2026-10-20T00:00:00Z" }, now)).toBe(true);
+    expect(isInvitationOpen({ accepted_at: null, expires_at: "2026-10-18T00:00:00Z" }, now)).toBe(false);
+    expect(isInvitationOpen({ accepted_at: "2026-10-19T09:00:00Z", expires_at: "2026-10-20T00:00:00Z" }, now)).toBe(false);
+  });
+
+  it("builds invitation links and sorts admins first", () => {
+    expect(invitationUrl("https://app.example.it/", "abc")).toBe("https://app.example.it/invito/abc");
+
+    const member = (user_id: string, role: OrganizationMember["role"], display_name: string): OrganizationMember => ({
+      user_id, role, display_name, email: null, created_at: null,
+    });
+    const sorted = sortMembers([member("1", "member", "Zeno"), member("2", "admin", "Bruno"), member("3", "member", "Anna")]);
+    expect(sorted.map(m => m.user_id)).toEqual(["2", "3", "1"]);
+  });
+});
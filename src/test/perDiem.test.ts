@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { PerDiemError, computePerDiem, findPerDiemConflicts, perDiemCeiling } from "@/lib/perDiem";
+
+const trip = {
+  country: "IT",
+  mode: "forfettario" as const,
+  mealsReimbursed: false,
+  lodgingReimbursed: false,
+  dailyRate: 50,
+};
+
+describe("per diem", () => {
+  it("applies the Italian and foreign ceilings, reduced in the mixed regime", () => {
+    expect(perDiemCeiling(trip)).toBe(46.48);
+    expect(perDiemCeiling({ ...trip, country: "FR" })).toBe(77.47);
+    expect(perDiemCeiling({ ...trip, mode: "misto", mealsReimbursed: true })).toBe(30.99);
+    expect(perDiemCeiling({ ...trip, country: "DE", mode: "misto", mealsReimbursed: true, lodgingReimbursed: true })).toBe(25.82);
+  });
+
+  it("splits the trip by calendar day with full and half allowances", () => {
+    const lines = computePerDiem({
+      ...trip,
+      departure: new Date(2026, 9, 12, 14, 0),
+      return: new Date(2026, 9, 14, 4, 30),
+    });
+    expect(lines.map(l => [l.date, l.fraction])).toEqual([
+      ["2026-10-12", 0.5],
+      ["2026-10-13", 1],
+      ["2026-10-14", 0],
+    ]);
+    expect(lines[1]).toMatchObject({ amount: 50, non_taxable: 46.48, taxable: 3.52 });
+    expect(lines[0]).toMatchObject({ amount: 25, non_taxable: 23.24, taxable: 1.76 });
+  });
+
+  it("rejects a return before the departure", () => {
+    const departure = new Date(2026, 9, 12, 14, 0);
+    expect(() => computePerDiem({ ...trip, departure, return: departure })).toThrow(PerDiemError);
+  });
+
+  it("flags days with both an allowance covering meals and a meal receipt", () => {
+    const conflicts = findPerDiemConflicts([
+      { date: "2026-10-13", category: "Indennità di Trasferta", expense_type: "per_diem", per_diem_covers_meals: true },
+      { date: "2026-10-13", category: "Vitto Oltre Comune", expense_type: "receipt" },
+      { date: "2026-10-14", category: "Indennità di Trasferta", expense_type: "per_diem", per_diem_covers_meals: false },
+      { date: "2026-10-14", category: "Vitto Oltre Comune", expense_type: "receipt" },
+    ]);
+    expect([...conflicts]).toEqual(["2026-10-13"]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_ASSIGNMENT,
+  NO_PROJECT_LABEL,
+  assignProject,
+  costCenterLabel,
+  groupExpensesByProject,
+  projectLabel,
+  type Project,
+} from "@/lib/projects";
+
+const project = (id: string, overrides: Partial<Project> = {}): Project => ({
+  id,
+  user_id: "u1",
+  organization_id: null,
+  name: `Progetto ${id}`,
+  code: null,
+  client_id: null,
+  cost_center_id: null,
+  archived: false,
+  ...overrides,
+});
+
+describe("projects", () => {
+  it("labels projects and cost centres with their codes", () => {
+    expect(projectLabel({ name: "Audit Rossi", code: "P-12" })).toBe("P-12 · Audit Rossi");
+    expect(projectLabel({ name: "Audit Rossi", code: null })).toBe("Audit Rossi");
+    expect(costCenterLabel({ code: "CC01", name: null })).toBe("CC01");
+  });
+
+  it("takes client and cost centre from the selected project", () => {
+    const current = { project_id: null, client_id: "c-old", cost_center_id: "cc-old" };
+    expect(assignProject(current, project("p1", { client_id: "c1" }))).toEqual({
+      project_id: "p1",
+      client_id: "c1",
+      cost_center_id: "cc-old",
+    });
+    expect(assignProject({ ...EMPTY_ASSIGNMENT, project_id: "p1", client_id: "c1" }, null)).toEqual({
+      project_id: null,
+      client_id: "c1",
+      cost_center_id: null,
+    });
+  });
+
+  it("groups totals by project with unknown projects under a single entry", () => {
+    const projects = [project("p1", { code: "P1", client_id: "c1" }), project("p2")];
+    const totals = groupExpensesByProject(
+      [
+        { amount: 10, currency: "EUR", amount_eur: null, project_id: "p1" },
+        { amount: 30, currency: "EUR", amount_eur: null, project_id: "p2" },
+        { amount: 5, currency: "EUR", amount_eur: null, project_id: null },
+        { amount: 2.5, currency: "EUR", amount_eur: null, project_id: "deleted" },
+        { amount: 100, currency: "USD", amount_eur: 90, project_id: "p1" },
+      ],
+      projects,
+      [{ id: "c1", user_id: "u1", organization_id: null, name: "Rossi Srl", vat_number: null }]
+    );
+    expect(totals.map(t => [t.id, t.value])).toEqual([["p1", 100], ["p2", 30], [null, 7.5]]);
+    expect(totals[0]).toMatchObject({ name: "P1 · Progetto p1", client: "Rossi Srl" });
+    expect(totals[2].name).toBe(NO_PROJECT_LABEL);
+  });
+});
@@ -0,0 +1,109 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { analyzeWithCache, buildCacheKey, readCachedAnalysis, type CachedAnalysis } from "../../supabase/functions/analyze-receipt/cache";
+import { createMockProvider } from "../../supabase/functions/analyze-receipt/providers";
+
+vi.mock("https://esm.sh/zod@3.23.8", () => import("zod"));
+
+const CATEGORIES = ["Vitto Comune", "Taxi", "Altri Costi"];
+const IMAGES = [{ mimeType: "image/jpeg", data: "/9j/4AAQSkZJRg==" }];
+const ANSWER = { amount: 12.5, date: "2026-01-15", category: "Vitto Comune", description: "Bar Centrale", currency: "EUR" };
+
+// Client Supabase con la sola tabella analysis_cache: una voce (o nessuna) e le scritture ricevute
+function cacheClient(entry: CachedAnalysis | null) {
+  const filters: Record<string, unknown> = {};
+  const updates: Record<string, unknown>[] = [];
+  const upserts: Record<string, unknown>[] = [];
+  const query = {
+    select: () => query,
+    eq: (column: string, value: unknown) => {
+      filters[column] = value;
+      return query;
+    },
+    maybeSingle: async () => ({ data: entry, error: null }),
+    update: (values: Record<string, unknown>) => {
+      updates.push(values);
+      return { eq: async () => ({ error: null }) };
+    },
+    upsert: async (values: Record<string, unknown>) => {
+      upserts.push(values);
+      return { error: null };
+    },
+  };
+  return { client: { from: () => query } as unknown as SupabaseClient, filters, updates, upserts };
+}
+
+function analyze(client: SupabaseClient, consumeQuota = vi.fn(async () => {})) {
+  const provider = createMockProvider(JSON.stringify(ANSWER));
+  const generate = vi.spyOn(provider, "generate");
+  const result = analyzeWithCache({ supabaseClient: client, userId: "u1", provider, prompt: "PROMPT", images: IMAGES, categories: CATEGORIES, consumeQuota });
+  return { result, generate, consumeQuota };
+}
+
+describe("analyze-receipt cache", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("changes the key with provider, model or prompt, not with the base64 layout", async () => {
+    const key = await buildCacheKey(IMAGES, { name: "gemini", model: "gemini-1.5-flash" }, "PROMPT");
+    expect(key.contentHash).toMatch(/^[0-9a-f]{64}$/);
+
+    const otherProvider = await buildCacheKey(IMAGES, { name: "openai", model: "gemini-1.5-flash" }, "PROMPT");
+    const otherModel = await buildCacheKey(IMAGES, { name: "gemini", model: "gemini-2.0-flash" }, "PROMPT");
+    const otherPrompt = await buildCacheKey(IMAGES, { name: "gemini", model: "gemini-1.5-flash" }, "PROMPT v2");
+    expect(otherProvider).toEqual({ ...key, provider: "openai" });
+    expect(otherModel).toEqual({ ...key, model: "gemini-2.0-flash" });
+    expect(otherPrompt.promptHash).not.toBe(key.promptHash);
+    expect(otherPrompt.contentHash).toBe(key.contentHash);
+
+    const wrapped = await buildCacheKey([{ mimeType: "image/jpeg", data: "/9j/4AAQ\nSkZJRg==" }], { name: "gemini", model: "gemini-1.5-flash" }, "PROMPT");
+    expect(wrapped).toEqual(key);
+  });
+
+  it("looks entries up by user, image, provider, model and prompt", async () => {
+    const { client, filters } = cacheClient(null);
+    const key = await buildCacheKey(IMAGES, { name: "gemini", model: "gemini-1.5-flash" }, "PROMPT");
+    expect(await readCachedAnalysis(client, "u1", key)).toBeNull();
+    expect(filters).toEqual({
+      user_id: "u1",
+      content_hash: key.contentHash,
+      provider: "gemini",
+      model: "gemini-1.5-flash",
+      prompt_hash: key.promptHash,
+    });
+  });
+
+  it("serves a valid entry without calling the provider or consuming the quota", async () => {
+    const { client, updates, upserts } = cacheClient({ id: "c1", raw_response: JSON.stringify(ANSWER), hits: 2 });
+    const { result, generate, consumeQuota } = analyze(client);
+
+    expect(await result).toMatchObject({ cached: true, data: { description: "Bar Centrale" } });
+    expect(generate).not.toHaveBeenCalled();
+    expect(consumeQuota).not.toHaveBeenCalled();
+    expect(updates).toEqual([expect.objectContaining({ hits: 3 })]);
+    expect(upserts).toHaveLength(0);
+  });
+
+  it("re-fetches an entry that no longer validates and charges it against the quota", async () => {
+    const stale = JSON.stringify({ ...ANSWER, category: "Categoria eliminata" });
+    const { client, updates, upserts } = cacheClient({ id: "c1", raw_response: stale, hits: 5 });
+    const { result, generate, consumeQuota } = analyze(client);
+
+    expect(await result).toMatchObject({ cached: false, data: { category: "Vitto Comune" } });
+    expect(consumeQuota).toHaveBeenCalledTimes(1);
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(updates).toHaveLength(0);
+    expect(upserts).toEqual([expect.objectContaining({ user_id: "u1", raw_response: JSON.stringify(ANSWER), repaired: false })]);
+  });
+
+  it("does not call the provider when the quota is exhausted", async () => {
+    const { client, upserts } = cacheClient(null);
+    const { result, generate } = analyze(client, vi.fn(async () => { throw new Error("Limite giornaliero raggiunto"); }));
+
+    await expect(result).rejects.toThrow("Limite giornaliero raggiunto");
+    expect(generate).not.toHaveBeenCalled();
+    expect(upserts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { applyGeographicScope, detectGeographicScope } from "../../supabase/functions/_shared/geo";
+
+describe("analyze-receipt geographic scope", () => {
+  it("does not read country names inside street names", () => {
+    expect(detectGeographicScope("Corso Francia 10, 10138 Torino", "EUR", "Milano")).toBe("Oltre Comune");
+    expect(detectGeographicScope("Corso Francia 10, 10138 Torino", "EUR", "Torino")).toBe("Comune");
+    expect(detectGeographicScope("Piazza di Spagna, Roma", "EUR", "Milano")).toBeNull();
+    expect(detectGeographicScope("Via Monaco", "EUR", "Milano")).toBeNull();
+    expect(detectGeographicScope("Via Monaco 5, 20121 Milano MI", "EUR", "Milano")).toBe("Comune");
+  });
+
+  it("still recognises foreign addresses", () => {
+    expect(detectGeographicScope("12 Rue de Rivoli, 75001 Paris, France", "EUR", "Milano")).toBe("Estero");
+    expect(detectGeographicScope("Calle Mayor 1, Madrid, Spagna", "EUR", "Milano")).toBe("Estero");
+    expect(detectGeographicScope("Bahnhofstrasse 1, Zurich", "CHF", "Milano")).toBe("Estero");
+  });
+
+  it("moves Vitto and Alloggio to the scope of the address", () => {
+    const rome = detectGeographicScope("Piazza Navona 1, 00186 Roma RM", "EUR", "Milano");
+    expect(applyGeographicScope("Vitto Comune", rome)).toBe("Vitto Oltre Comune");
+    expect(applyGeographicScope("Alloggio Oltre Comune", detectGeographicScope("Piazza Navona 1, 00186 Roma RM", "EUR", "roma"))).toBe("Alloggio Comune");
+    expect(applyGeographicScope("Carburante", rome)).toBe("Carburante");
+    expect(applyGeographicScope("Vitto Comune", null)).toBe("Vitto Comune");
+  });
+});
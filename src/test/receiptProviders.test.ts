@@ -0,0 +1,67 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { createMockProvider, getProviderFromEnv } from "../../supabase/functions/analyze-receipt/providers";
+
+function stubDeno(env: Record<string, string>, files: Record<string, string> = {}) {
+  vi.stubGlobal("Deno", {
+    env: { get: (name: string) => env[name] },
+    readTextFile: async (path: string) => files[path] ?? Promise.reject(new Error(`File non trovato: ${path}`)),
+  });
+}
+
+const request = { prompt: "Analizza lo scontrino", images: [{ mimeType: "image/jpeg", data: "AAAA" }] };
+
+describe("analyze-receipt providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("uses Gemini by default and needs its API key", async () => {
+    stubDeno({ GEMINI_API_KEY: "key" });
+    expect(await getProviderFromEnv()).toMatchObject({ name: "gemini", model: "gemini-1.5-flash" });
+
+    stubDeno({ gemini_api_key: "key", GEMINI_MODEL: "gemini-2.0-flash" });
+    expect(await getProviderFromEnv()).toMatchObject({ name: "gemini", model: "gemini-2.0-flash" });
+
+    stubDeno({});
+    await expect(getProviderFromEnv()).rejects.toThrow("GEMINI_API_KEY");
+  });
+
+  it("selects the OpenAI-compatible provider regardless of case", async () => {
+    stubDeno({ RECEIPT_AI_PROVIDER: "OpenAI", OPENAI_API_KEY: "key" });
+    expect(await getProviderFromEnv()).toMatchObject({ name: "openai", model: "gpt-4o-mini" });
+
+    stubDeno({ RECEIPT_AI_PROVIDER: "openai", OPENAI_API_KEY: "key", OPENAI_MODEL: "llava" });
+    expect(await getProviderFromEnv()).toMatchObject({ name: "openai", model: "llava" });
+
+    stubDeno({ RECEIPT_AI_PROVIDER: "openai", GEMINI_API_KEY: "key" });
+    await expect(getProviderFromEnv()).rejects.toThrow("OPENAI_API_KEY");
+  });
+
+  it("rejects unknown providers", async () => {
+    stubDeno({ RECEIPT_AI_PROVIDER: "claude" });
+    await expect(getProviderFromEnv()).rejects.toThrow("Provider AI sconosciuto: claude");
+  });
+
+  it("answers with the built-in fixture without network or API keys", async () => {
+    stubDeno({ RECEIPT_AI_PROVIDER: "mock" });
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = await getProviderFromEnv();
+    expect(provider).toMatchObject({ name: "mock", model: "fixture" });
+    const first = JSON.parse(await provider.generate(request));
+    expect(first).toMatchObject({ amount: 12.5, date: "2026-01-15", category: "Vitto Comune", currency: "EUR" });
+    expect(first.items).toHaveLength(2);
+    expect(await provider.generate({ ...request, images: [] })).toBe(JSON.stringify(first));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("returns the raw fixture read from RECEIPT_AI_FIXTURE", async () => {
+    stubDeno({ RECEIPT_AI_PROVIDER: "mock", RECEIPT_AI_FIXTURE: "/fixtures/bad.txt" }, { "/fixtures/bad.txt": "non è JSON" });
+    expect(await (await getProviderFromEnv()).generate(request)).toBe("non è JSON");
+    expect(await createMockProvider("{}").generate(request)).toBe("{}");
+
+    stubDeno({ RECEIPT_AI_PROVIDER: "mock", RECEIPT_AI_FIXTURE: "/fixtures/missing.txt" });
+    await expect(getProviderFromEnv()).rejects.toThrow("File non trovato");
+  });
+});
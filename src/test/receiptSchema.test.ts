@@ -0,0 +1,93 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import { AnalysisError, generateValidAnalysis, validateModelResponse } from "../../supabase/functions/analyze-receipt/schema";
+import type { ProviderRequest, ReceiptAnalysisProvider } from "../../supabase/functions/analyze-receipt/providers";
+
+vi.mock("https://esm.sh/zod@3.23.8", () => import("zod"));
+
+const CATEGORIES = ["Vitto Comune", "Vitto Oltre Comune", "Taxi", "Altri Costi"];
+
+const VALID = {
+  amount: 12.5,
+  date: "2026-01-15",
+  category: "Vitto Comune",
+  description: "Bar Centrale",
+  currency: "EUR",
+};
+
+// Provider che restituisce le risposte indicate, una per chiamata
+function scriptedProvider(...responses: string[]) {
+  const generate = vi.fn(async (_request: ProviderRequest) => responses.shift() ?? "");
+  const provider: ReceiptAnalysisProvider = { name: "test", model: "scripted", generate };
+  return { provider, generate };
+}
+
+describe("analyze-receipt schema", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("accepts a valid answer, also inside a markdown fence, and fills the optional fields", () => {
+    const result = validateModelResponse("```json\n" + JSON.stringify(VALID) + "\n```", CATEGORIES);
+    expect(result).toEqual({
+      success: true,
+      data: { ...VALID, vat_number: "", address: "", items: [], confidence: {} },
+    });
+    expect(validateModelResponse(JSON.stringify({ ...VALID, category: "vitto comune " }), CATEGORIES).success).toBe(true);
+  });
+
+  it("rejects malformed JSON", () => {
+    expect(validateModelResponse("Non riesco a leggere lo scontrino", CATEGORIES))
+      .toEqual({ success: false, issues: ["la risposta non contiene un oggetto JSON"] });
+    const broken = validateModelResponse('{"amount": 12,5, "date": "2026-01-15"}', CATEGORIES);
+    expect(broken.success).toBe(false);
+    expect(broken.issues?.[0]).toMatch(/^JSON non valido/);
+  });
+
+  it("rejects categories outside the taxonomy and missing or malformed fields", () => {
+    const outside = validateModelResponse(JSON.stringify({ ...VALID, category: "Cena aziendale" }), CATEGORIES);
+    expect(outside).toEqual({ success: false, issues: ["category: deve essere una delle categorie ammesse"] });
+
+    const { amount, currency, ...incomplete } = VALID;
+    const missing = validateModelResponse(JSON.stringify({ ...incomplete, date: "15/01/2026" }), CATEGORIES);
+    expect(missing.success).toBe(false);
+    const issues = missing.issues ?? [];
+    expect(new Set(issues.map(issue => issue.split(":")[0]))).toEqual(new Set(["amount", "date", "currency"]));
+    expect(issues).toContain("date: deve essere nel formato YYYY-MM-DD");
+  });
+
+  it("reports documents that are not receipts with their own code", () => {
+    expect(() => validateModelResponse('{"error": "Non è uno scontrino"}', CATEGORIES))
+      .toThrow(expect.objectContaining({ code: "NOT_A_RECEIPT", status: 422, message: "Non è uno scontrino" }));
+  });
+
+  it("does not call the model again when the first answer is valid", async () => {
+    const { provider, generate } = scriptedProvider(JSON.stringify(VALID));
+    const result = await generateValidAnalysis(provider, "PROMPT", [], CATEGORIES);
+    expect(result).toMatchObject({ repaired: false, rawText: JSON.stringify(VALID), data: { amount: 12.5 } });
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends an invalid answer back once with the errors and uses the correction", async () => {
+    const wrong = JSON.stringify({ ...VALID, category: "Cena aziendale" });
+    const { provider, generate } = scriptedProvider(wrong, JSON.stringify(VALID));
+    const images = [{ mimeType: "image/jpeg", data: "AAAA" }];
+
+    const result = await generateValidAnalysis(provider, "PROMPT", images, CATEGORIES);
+    expect(result).toMatchObject({ repaired: true, rawText: JSON.stringify(VALID), data: { category: "Vitto Comune" } });
+    expect(generate).toHaveBeenCalledTimes(2);
+    const repair = generate.mock.calls[1][0];
+    expect(repair.images).toBe(images);
+    expect(repair.prompt).toContain("PROMPT");
+    expect(repair.prompt).toContain(wrong);
+    expect(repair.prompt).toContain("category: deve essere una delle categorie ammesse");
+  });
+
+  it("fails with INVALID_MODEL_OUTPUT when the correction is invalid too", async () => {
+    const { provider, generate } = scriptedProvider("niente JSON", JSON.stringify({ ...VALID, amount: -3 }));
+    const error = await generateValidAnalysis(provider, "PROMPT", [], CATEGORIES).catch(e => e);
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error).toMatchObject({ code: "INVALID_MODEL_OUTPUT", status: 422, issues: ["amount: deve essere maggiore di zero"] });
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+});
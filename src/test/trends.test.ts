@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { buildMonthTrends, formatTrend, percentChange } from "@/lib/trends";
+
+describe("trends", () => {
+  it("computes percentage changes against a non-empty base", () => {
+    expect(percentChange(88, 100)).toBe(-12);
+    expect(percentChange(150, 100)).toBe(50);
+    expect(percentChange(50, 0)).toBeNull();
+    expect(formatTrend(12)).toBe("+12%");
+    expect(formatTrend(-5)).toBe("-5%");
+    expect(formatTrend(0)).toBe("=");
+  });
+
+  it("builds overall and per-category trends from the aggregated rows", () => {
+    const trends = buildMonthTrends([
+      { period: "current", category: "Taxi", total: 60 },
+      { period: "previous", category: "Taxi", total: 40 },
+      { period: "last_year", category: "Taxi", total: 120 },
+      { period: "current", category: "Alloggio Comune", total: 140 },
+      { period: "previous", category: "Vitto Comune", total: 160 },
+    ]);
+    expect(trends.overall).toMatchObject({ current: 200, previous: 200, lastYear: 120, vsPrevious: 0, vsLastYear: 67 });
+    expect(trends.byCategory.get("Taxi")).toMatchObject({ vsPrevious: 50, vsLastYear: -50 });
+    expect(trends.byCategory.get("Alloggio Comune")?.vsPrevious).toBeNull();
+    expect(trends.byCategory.get("Vitto Comune")).toMatchObject({ current: 0, vsPrevious: -100 });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { isValidPartitaIva, normalizePartitaIva } from "@/lib/vat";
+
+describe("partita IVA", () => {
+  it("accepts a number with a valid check digit", () => {
+    expect(isValidPartitaIva("00743110157")).toBe(true);
+    expect(isValidPartitaIva("01114601006")).toBe(true);
+  });
+
+  it("accepts the IT prefix and separators", () => {
+    expect(isValidPartitaIva("IT 00743110157")).toBe(true);
+    expect(normalizePartitaIva("it-007.431.101.57")).toBe("00743110157");
+  });
+
+  it("rejects a wrong check digit or length", () => {
+    expect(isValidPartitaIva("00743110158")).toBe(false);
+    expect(isValidPartitaIva("0074311015")).toBe(false);
+    expect(isValidPartitaIva("")).toBe(false);
+    expect(isValidPartitaIva(null)).toBe(false);
+  });
+});
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// Elenco ISTAT dei comuni (src/lib/comuni.ts), solo i campi usati
+declare module "comuni-json/comuni.json" {
+  const comuni: Array<{ nome: string; sigla: string; cap: string[] }>;
+  export default comuni;
+}
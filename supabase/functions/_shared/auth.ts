@@ -0,0 +1,45 @@
+// Middleware comune alle Edge Function: CORS, JWT dell'utente obbligatorio e quote giornaliere.
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { corsHeaders, jsonResponse } from "./cors.ts";
+import { QuotaExceededError, QuotaUnavailableError, quotaExceededResponse, quotaUnavailableResponse } from "./quota.ts";
+
+export interface AuthContext {
+  user: User;
+  // Client con il JWT del chiamante: le query rispettano le policy RLS dell'utente
+  supabaseClient: SupabaseClient;
+}
+
+type AuthenticatedHandler = (req: Request, context: AuthContext) => Promise<Response>;
+
+export function withAuth(functionName: string, handler: AuthenticatedHandler): (req: Request) => Promise<Response> {
+  return async (req) => {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse({ success: false, code: "UNAUTHORIZED", error: "Autenticazione richiesta" }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error } = await supabaseClient.auth.getUser();
+    if (error || !user) {
+      console.error(`[${functionName}] Unauthorized access attempt`, error);
+      return jsonResponse({ success: false, code: "UNAUTHORIZED", error: "Sessione non valida" }, 401);
+    }
+
+    try {
+      return await handler(req, { user, supabaseClient });
+    } catch (e) {
+      if (e instanceof QuotaExceededError) return quotaExceededResponse(e);
+      if (e instanceof QuotaUnavailableError) return quotaUnavailableResponse(e);
+      throw e;
+    }
+  };
+}
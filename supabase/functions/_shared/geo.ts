@@ -0,0 +1,121 @@
+// Decisione deterministica Comune / Oltre Comune / Estero a partire dall'indirizzo estratto.
+// Unica implementazione, usata da analyze-receipt e dal client (src/lib/geocoding.ts):
+// niente import, così gira sia in Deno sia nel bundle Vite.
+
+export type GeographicScope = "Comune" | "Oltre Comune" | "Estero";
+
+export const DEFAULT_HOME_MUNICIPALITY = "Milano";
+
+// Gruppi di categorie che hanno le varianti Comune / Oltre Comune / Estero
+const SCOPED_CATEGORY = /^(Vitto|Alloggio)\b/i;
+
+// Nome del paese (normalizzato) -> codice ISO 3166-1 alpha-2
+const FOREIGN_COUNTRIES: Record<string, string> = {
+  "francia": "FR", "france": "FR",
+  "germania": "DE", "germany": "DE", "deutschland": "DE",
+  "spagna": "ES", "spain": "ES", "espana": "ES",
+  "svizzera": "CH", "switzerland": "CH", "schweiz": "CH", "suisse": "CH",
+  "austria": "AT", "osterreich": "AT",
+  "regno unito": "GB", "united kingdom": "GB", "england": "GB", "london": "GB",
+  "belgio": "BE", "belgium": "BE", "belgique": "BE",
+  "paesi bassi": "NL", "netherlands": "NL", "nederland": "NL",
+  "portogallo": "PT", "portugal": "PT",
+  "grecia": "GR", "greece": "GR",
+  "slovenia": "SI",
+  "croazia": "HR", "croatia": "HR",
+  "stati uniti": "US", "united states": "US", "usa": "US",
+  "san marino": "SM",
+  "monaco": "MC", "principaute de monaco": "MC",
+};
+
+const ITALY_NAMES = ["italia", "italy"];
+
+// Parole che aprono un nome di via: "Corso Francia" o "Piazza di Spagna" non indicano un paese
+const STREET_PREFIXES = ["via", "viale", "piazza", "piazzale", "corso", "largo", "vicolo", "strada", "p za", "p le", "v le", "c so"];
+
+export function normalizePlaceName(text: string | null | undefined): string {
+  return (text || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function containsWord(haystack: string, needle: string): boolean {
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+export function isStreetSegment(segment: string): boolean {
+  return STREET_PREFIXES.some((prefix) => segment === prefix || segment.startsWith(`${prefix} `));
+}
+
+// Parti dell'indirizzo separate da virgole, normalizzate
+export function addressSegments(address: string): string[] {
+  return address.split(",").map(normalizePlaceName).filter(Boolean);
+}
+
+// Paese estero nominato in una parte dell'indirizzo che non sia un nome di via
+// ("Corso Francia", "Piazza di Spagna", "Via Monaco" sono indirizzi italiani)
+export function foreignCountryOf(segments: string[]): string | null {
+  for (const segment of segments) {
+    if (isStreetSegment(segment)) continue;
+    const keyword = Object.keys(FOREIGN_COUNTRIES).find((name) => containsWord(segment, name));
+    if (keyword) return FOREIGN_COUNTRIES[keyword];
+  }
+  return null;
+}
+
+// Comune, CAP e sigla provincia da un indirizzo italiano ("Via Roma 1, 20121 Milano (MI)")
+export function extractMunicipality(address: string): { name: string; province: string | null; cap: string | null } | null {
+  const afterCap = address.match(/\b(\d{5})\s+([^,\d(]+?)\s*(?:\(?\b([A-Z]{2})\b\)?)?\s*(?:,|$)/);
+  if (afterCap) return afterCap[2].trim() ? { name: afterCap[2].trim(), province: afterCap[3] || null, cap: afterCap[1] } : null;
+
+  const withProvince = address.match(/,\s*([^,\d(]+?)\s*\(?\b([A-Z]{2})\b\)?\s*(?:,\s*(?:Italia|Italy))?\s*$/);
+  if (withProvince) return { name: withProvince[1].trim(), province: withProvince[2], cap: null };
+
+  return null;
+}
+
+export function municipalityScope(municipality: string, homeMunicipality: string | null | undefined): GeographicScope {
+  return normalizePlaceName(municipality) === normalizePlaceName(homeMunicipality || DEFAULT_HOME_MUNICIPALITY)
+    ? "Comune"
+    : "Oltre Comune";
+}
+
+export function detectGeographicScope(
+  address: string,
+  currency: string,
+  homeMunicipality: string
+): GeographicScope | null {
+  if (currency && currency !== "EUR") return "Estero";
+
+  const segments = addressSegments(address || "");
+  if (segments.length === 0) return null;
+
+  // Il paese scritto in fondo all'indirizzo prevale sul CAP ("12 Rue de Rivoli, 75001 Paris, France")
+  if (foreignCountryOf(segments.slice(-1))) return "Estero";
+
+  const municipality = extractMunicipality(address);
+  if (municipality) return municipalityScope(municipality.name, homeMunicipality);
+
+  // Senza comune riconoscibile il nome di un paese altrove nell'indirizzo basta
+  if (foreignCountryOf(segments)) return "Estero";
+
+  // Nessun comune riconoscibile: decidiamo solo se l'indirizzo dichiara il paese
+  if (ITALY_NAMES.some((name) => containsWord(segments.join(" "), name))) {
+    const lastSegment = normalizePlaceName(address.split(",").slice(-2, -1)[0]);
+    if (lastSegment) return municipalityScope(lastSegment, homeMunicipality);
+  }
+
+  return null;
+}
+
+// "Vitto Oltre Comune" + "Comune" -> "Vitto Comune". Le altre categorie restano invariate.
+export function applyGeographicScope(category: string, scope: GeographicScope | null): string {
+  if (!scope) return category;
+  const match = category.match(SCOPED_CATEGORY);
+  if (!match) return category;
+  const group = match[1].charAt(0).toUpperCase() + match[1].slice(1).toLowerCase();
+  return `${group} ${scope}`;
+}
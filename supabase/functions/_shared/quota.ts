@@ -0,0 +1,66 @@
+// Quote giornaliere per utente (tabella function_usage, giorno UTC).
+// Limiti in function_quotas; il conteggio è atomico nella funzione SQL consume_function_quota,
+// che solo il service role può chiamare: né limite né costo arrivano dal client.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { jsonResponse } from "./cors.ts";
+
+export class QuotaExceededError extends Error {
+  limit: number;
+  retryAfterSeconds: number;
+
+  constructor(functionName: string, limit: number) {
+    super(`Limite giornaliero di ${limit} richieste raggiunto per ${functionName}.`);
+    this.name = "QuotaExceededError";
+    this.limit = limit;
+    this.retryAfterSeconds = secondsUntilNextUtcDay();
+  }
+}
+
+// Quota non verificabile (configurazione o database non raggiungibile): la richiesta è rifiutata
+export class QuotaUnavailableError extends Error {
+  constructor(functionName: string) {
+    super(`Impossibile verificare la quota giornaliera di ${functionName}. Riprova più tardi.`);
+    this.name = "QuotaUnavailableError";
+  }
+}
+
+function secondsUntilNextUtcDay(now = new Date()): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((next - now.getTime()) / 1000));
+}
+
+// Registra una richiesta dell'utente e lancia QuotaExceededError se il limite del giorno è superato
+export async function consumeDailyQuota(userId: string, functionName: string): Promise<void> {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!serviceRoleKey) {
+    console.error(`[${functionName}] SUPABASE_SERVICE_ROLE_KEY mancante: quota non verificabile`);
+    throw new QuotaUnavailableError(functionName);
+  }
+
+  const adminClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+  const { data, error } = await adminClient.rpc("consume_function_quota", {
+    p_user_id: userId,
+    p_function: functionName,
+  });
+
+  const result = Array.isArray(data) ? data[0] : null;
+  if (error || !result) {
+    console.error(`[${functionName}] Controllo quota fallito:`, error?.message ?? "nessun risultato");
+    throw new QuotaUnavailableError(functionName);
+  }
+  if (!result.allowed) throw new QuotaExceededError(functionName, result.daily_limit);
+}
+
+export function quotaExceededResponse(error: QuotaExceededError): Response {
+  return jsonResponse(
+    { success: false, code: "QUOTA_EXCEEDED", error: error.message, limit: error.limit },
+    429,
+    { "Retry-After": String(error.retryAfterSeconds) }
+  );
+}
+
+export function quotaUnavailableResponse(error: QuotaUnavailableError): Response {
+  return jsonResponse({ success: false, code: "QUOTA_UNAVAILABLE", error: error.message }, 503);
+}
@@ -0,0 +1,149 @@
+// Cache delle analisi (tabella analysis_cache), per utente.
+// La chiave è lo SHA-256 dei byte delle pagine: la stessa foto riaperta o reinviata
+// non viene rimandata al provider finché modello e prompt restano gli stessi.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { ReceiptAnalysisProvider, ReceiptImage } from "./providers.ts";
+import { PROMPT_VERSION } from "./prompt.ts";
+import { generateValidAnalysis, validateModelResponse, type ValidatedAnalysis } from "./schema.ts";
+
+export interface CacheKey {
+  contentHash: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  promptHash: string;
+}
+
+export interface CachedAnalysis {
+  id: string;
+  raw_response: string;
+  hits: number;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256(bytes: Uint8Array): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Hash dei byte decodificati (non del testo base64): spazi, a capo o prefissi data URL diversi
+// non cambiano la chiave. Per i documenti multipagina si combinano gli hash delle pagine in ordine.
+export async function hashReceiptImages(images: ReceiptImage[]): Promise<string> {
+  const pageHashes = await Promise.all(images.map((image) => sha256(base64ToBytes(image.data))));
+  if (pageHashes.length === 1) return pageHashes[0];
+  return sha256(new TextEncoder().encode(pageHashes.join(":")));
+}
+
+export function hashPrompt(prompt: string): Promise<string> {
+  return sha256(new TextEncoder().encode(prompt));
+}
+
+// Stessa immagine, stesso provider, stesso modello e stesso prompt -> stessa chiave
+export async function buildCacheKey(
+  images: ReceiptImage[],
+  provider: Pick<ReceiptAnalysisProvider, "name" | "model">,
+  prompt: string
+): Promise<CacheKey> {
+  return {
+    contentHash: await hashReceiptImages(images),
+    provider: provider.name,
+    model: provider.model,
+    promptVersion: PROMPT_VERSION,
+    promptHash: await hashPrompt(prompt),
+  };
+}
+
+export async function readCachedAnalysis(supabaseClient: SupabaseClient, userId: string, key: CacheKey): Promise<CachedAnalysis | null> {
+  const { data, error } = await supabaseClient
+    .from("analysis_cache")
+    .select("id, raw_response, hits")
+    .eq("user_id", userId)
+    .eq("content_hash", key.contentHash)
+    .eq("provider", key.provider)
+    .eq("model", key.model)
+    .eq("prompt_hash", key.promptHash)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[analyze-receipt] Lettura cache fallita:", error.message);
+    return null;
+  }
+  return data;
+}
+
+export async function markCacheHit(supabaseClient: SupabaseClient, entry: CachedAnalysis): Promise<void> {
+  const { error } = await supabaseClient
+    .from("analysis_cache")
+    .update({ hits: entry.hits + 1, last_hit_at: new Date().toISOString() })
+    .eq("id", entry.id);
+  if (error) console.warn("[analyze-receipt] Aggiornamento cache fallito:", error.message);
+}
+
+export async function writeCachedAnalysis(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  key: CacheKey,
+  rawResponse: string,
+  repaired: boolean
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from("analysis_cache")
+    .upsert({
+      user_id: userId,
+      content_hash: key.contentHash,
+      provider: key.provider,
+      model: key.model,
+      prompt_version: key.promptVersion,
+      prompt_hash: key.promptHash,
+      raw_response: rawResponse,
+      repaired,
+    }, { onConflict: "user_id,content_hash,provider,model,prompt_hash" });
+  if (error) console.warn("[analyze-receipt] Scrittura cache fallita:", error.message);
+}
+
+export interface CachedAnalysisRequest {
+  supabaseClient: SupabaseClient;
+  userId: string;
+  provider: ReceiptAnalysisProvider;
+  prompt: string;
+  images: ReceiptImage[];
+  categories: string[];
+  consumeQuota: () => Promise<void>; // chiamato solo prima di interrogare il provider
+}
+
+// Risposta in cache se rispetta ancora lo schema (le categorie dell'utente possono cambiare),
+// altrimenti nuova chiamata al provider, a carico della quota, che riscrive la voce in cache
+export async function analyzeWithCache({
+  supabaseClient,
+  userId,
+  provider,
+  prompt,
+  images,
+  categories,
+  consumeQuota,
+}: CachedAnalysisRequest): Promise<{ data: ValidatedAnalysis; cached: boolean }> {
+  const key = await buildCacheKey(images, provider, prompt);
+  const entry = await readCachedAnalysis(supabaseClient, userId, key);
+  const cachedResult = entry ? validateModelResponse(entry.raw_response, categories) : null;
+
+  if (entry && cachedResult?.success) {
+    console.log(`[analyze-receipt] Cache hit ${key.contentHash.substring(0, 12)} (${provider.name}/${provider.model})`);
+    await markCacheHit(supabaseClient, entry);
+    return { data: cachedResult.data, cached: true };
+  }
+
+  await consumeQuota();
+  console.log(`[analyze-receipt] Chiamata a ${provider.name} (${provider.model}), ${images.length} pagina/e...`);
+  const generated = await generateValidAnalysis(provider, prompt, images, categories);
+  await writeCachedAnalysis(supabaseClient, userId, key, generated.rawText, generated.repaired);
+  return { data: generated.data, cached: false };
+}
@@ -1,169 +1,150 @@
 // @ts-nocheck
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { withAuth } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { consumeDailyQuota, QuotaExceededError, QuotaUnavailableError } from "../_shared/quota.ts";
+import { getProviderFromEnv, ProviderError } from "./providers.ts";
+import { buildReceiptPrompt, DEFAULT_CATEGORIES } from "./prompt.ts";
+import { matchCategory, sanitizeAnalysis } from "./parse.ts";
+import { AnalysisError } from "./schema.ts";
+import { analyzeWithCache } from "./cache.ts";
+import { applyGeographicScope, detectGeographicScope, DEFAULT_HOME_MUNICIPALITY } from "../_shared/geo.ts";
 
 interface AnalyzeRequest {
-  image: string; // base64 data URL
+  image?: string; // base64 data URL (singola foto, client precedenti)
+  images?: string[]; // base64 data URL, una per pagina (PDF multipagina)
 }
 
-function parseGeminiResponse(rawText: string) {
-  console.log("[analyze-receipt] Parsing raw text:", rawText);
+// Pagine massime inviate al modello per una singola richiesta (MAX_PDF_PAGES in src/lib/pdf.ts)
+const MAX_PAGES = 5;
 
-  // 1. TENTATIVO JSON (Regex Aggressiva)
-  // Estrae tutto ciò che è compreso tra la prima parentesi graffa aperta e l'ultima chiusa
-  try {
-    const jsonMatch = rawText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const cleanJson = jsonMatch[0];
-      console.log("[analyze-receipt] JSON estratto via Regex:", cleanJson);
-      return JSON.parse(cleanJson);
-    }
-  } catch (e) {
-    console.warn("[analyze-receipt] JSON Regex fallito:", e);
-  }
+// "data:image/jpeg;base64,..." -> { mimeType, data }
+function parseDataUrl(image: string) {
+  let mimeType = "image/jpeg";
+  let data = image;
 
-  // 2. TENTATIVO FALLBACK (Pipe) - Legacy
-  if (rawText.includes("|")) {
-    const parts = rawText.split("|").map(p => p.trim());
-    if (parts.length >= 3) {
-      let amountStr = parts[0].replace(/[^0-9.,]/g, "").replace(",", ".");
-      return {
-        amount: parseFloat(amountStr) || 0,
-        category: parts[1],
-        description: parts[2],
-        date: new Date().toISOString().split("T")[0] // Fallback date for legacy format
-      };
-    }
+  if (image.includes(",")) {
+    const parts = image.split(",");
+    data = parts[1];
+    const mimeMatch = parts[0].match(/:(.*?);/);
+    if (mimeMatch) mimeType = mimeMatch[1];
   }
-  throw new Error("Formato risposta non riconosciuto (Né JSON valido né Pipe)");
+
+  return { mimeType, data };
+}
+
+interface UserContext {
+  homeMunicipality: string;
+  categories: string[];
+}
+
+// Comune di riferimento (profiles.home_municipality) e categorie visibili all'utente autenticato
+async function getUserContext(supabaseClient: SupabaseClient, user: User): Promise<UserContext> {
+  const [profileResult, categoriesResult] = await Promise.all([
+    supabaseClient
+      .from("profiles")
+      .select("home_municipality")
+      .eq("id", user.id)
+      .maybeSingle(),
+    supabaseClient
+      .from("categories")
+      .select("name")
+      .order("sort_order", { ascending: true }),
+  ]);
+
+  if (profileResult.error) console.warn("[analyze-receipt] Lettura profilo fallita:", profileResult.error.message);
+  if (categoriesResult.error) console.warn("[analyze-receipt] Lettura categorie fallita:", categoriesResult.error.message);
+
+  const categories = (categoriesResult.data || []).map((c) => c.name);
+
+  return {
+    homeMunicipality: profileResult.data?.home_municipality?.trim() || DEFAULT_HOME_MUNICIPALITY,
+    categories: categories.length > 0 ? categories : DEFAULT_CATEGORIES,
+  };
 }
 
-serve(async (req) => {
-  // CORS Preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+function toAnalysisError(error: unknown): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+  if (error instanceof ProviderError) {
+    return error.status === 429
+      ? new AnalysisError("PROVIDER_RATE_LIMITED", "Servizio di analisi sovraccarico")
+      : new AnalysisError("PROVIDER_ERROR", error.message);
   }
+  return new AnalysisError("SERVER_ERROR", (error as Error)?.message || "Errore sconosciuto nel server");
+}
 
+serve(withAuth("analyze-receipt", async (req, { user, supabaseClient }) => {
   try {
-    // 1. VERIFICA API KEY
-    const API_KEY = Deno.env.get("GEMINI_API_KEY") || Deno.env.get("gemini_api_key");
-    
-    if (!API_KEY) {
-      console.error("[analyze-receipt] ERRORE CRITICO: API Key mancante.");
-      throw new Error("Configurazione Server incompleta.");
+    // 1. SELEZIONE PROVIDER (RECEIPT_AI_PROVIDER)
+    const provider = await getProviderFromEnv().catch((error) => {
+      throw new AnalysisError("SERVER_MISCONFIGURED", error.message);
+    });
+
+    const { image, images }: AnalyzeRequest = await req.json().catch(() => {
+      throw new AnalysisError("INVALID_REQUEST", "Corpo della richiesta non valido.");
+    });
+    const pages = images && images.length > 0 ? images : image ? [image] : [];
+    if (pages.length === 0) throw new AnalysisError("INVALID_REQUEST", "Payload immagine vuoto.");
+    // Il client invia al massimo MAX_PDF_PAGES pagine e registra le altre sulla spesa: qui non si scarta nulla in silenzio
+    if (pages.length > MAX_PAGES) {
+      throw new AnalysisError("INVALID_REQUEST", `Troppe pagine: massimo ${MAX_PAGES} per analisi.`);
     }
 
-    const { image }: AnalyzeRequest = await req.json();
-    if (!image) throw new Error("Payload immagine vuoto.");
-
     // 2. GESTIONE BASE64
-    let mimeType = "image/jpeg";
-    let base64Data = image;
-
-    if (image.includes(",")) {
-      const parts = image.split(",");
-      base64Data = parts[1];
-      const mimeMatch = parts[0].match(/:(.*?);/);
-      if (mimeMatch) mimeType = mimeMatch[1];
-    }
+    const receiptImages = pages.map(parseDataUrl);
 
     // 3. PROMPT RIGIDO E CATEGORIE
-    const prompt = `Analizza lo scontrino e estrai: Importo Totale, Data, Categoria e Nome Esercente.
-    
-    CATEGORIE AMMESSE (USARE SOLO QUESTE):
-    - Vitto Oltre Comune
-    - Alloggio Oltre Comune
-    - Vitto Estero
-    - Alloggio Estero
-    - Vitto Comune
-    - Alloggio Comune
-    - Taxi
-    - Spese trasporti
-    - Spese Rappresentanza
-    - Altri Costi
-
-    LOGICA GEOGRAFICA (COMUNE DI RIFERIMENTO: MILANO):
-    - Se l'indirizzo/città è MILANO -> Usa categorie "...Comune".
-    - Se l'indirizzo/città NON è Milano (es. Roma, Napoli, Monza) -> Usa categorie "...Oltre Comune".
-    - Se Valuta estera o indirizzo estero -> Usa categorie "...Estero".
-
-    FORMATO OUTPUT OBBLIGATORIO (JSON):
-    Restituisci SOLO un oggetto JSON valido nel seguente formato, senza markdown (no \`\`\`), senza commenti:
-    {"amount": 12.50, "date": "YYYY-MM-DD", "category": "Vitto Comune", "description": "Nome Esercente"}
-
-    IMPORTANTE:
-    - La data deve essere in formato ISO YYYY-MM-DD. Se non trovi la data, usa la data di oggi.
-    - L'importo deve essere un numero (usa il punto per i decimali).
-
-    Se non riesci a generare il JSON, restituisci un errore JSON valido.`;
-
-    console.log("[analyze-receipt] Chiamata a gemini-1.5-flash...");
-
-    // 4. CHIAMATA GEMINI (ENDPOINT AGGIORNATO)
-    // URL Corretto: gemini-1.5-flash
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${API_KEY}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{
-            parts: [
-              { text: prompt },
-              { inline_data: { mime_type: mimeType, data: base64Data } }
-            ]
-          }],
-          generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 800,
-          },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error(`[analyze-receipt] GEMINI API ERROR (${response.status}):`, errorBody);
-      throw new Error(`Errore AI Provider: ${response.status} - ${errorBody.substring(0, 150)}...`);
+    const { homeMunicipality, categories } = await getUserContext(supabaseClient, user);
+    const prompt = buildReceiptPrompt({ homeMunicipality, categories, pageCount: receiptImages.length });
+
+    // 4. CACHE: stessa immagine, stesso modello e stesso prompt -> risposta già validata.
+    // 5. Altrimenti chiamata al provider e validazione (con un tentativo di correzione):
+    //    solo le chiamate al provider consumano la quota giornaliera, non le risposte in cache
+    const { data, cached } = await analyzeWithCache({
+      supabaseClient,
+      userId: user.id,
+      provider,
+      prompt,
+      images: receiptImages,
+      categories,
+      consumeQuota: () => consumeDailyQuota(user.id, "analyze-receipt"),
+    });
+    const sanitizedData = sanitizeAnalysis(data);
+
+    // 6. COMUNE / OLTRE COMUNE / ESTERO DALL'INDIRIZZO
+    const category = matchCategory(sanitizedData.category, categories);
+    // Categoria fuori tassonomia: sostituita con "Altri Costi", va confermata dall'utente
+    if (category.toLowerCase() !== sanitizedData.category.trim().toLowerCase()) {
+      sanitizedData.confidence.category = { confidence: 0, defaulted: true };
     }
-
-    const result = await response.json();
-    const rawText = result.candidates?.[0]?.content?.parts?.[0]?.text || "";
-    
-    console.log("[analyze-receipt] Risposta Grezza:", rawText);
-
-    // Parsing
-    const data = parseGeminiResponse(rawText);
-
-    const sanitizedData = {
-      amount: typeof data.amount === "number" ? data.amount : (parseFloat(String(data.amount).replace(',', '.')) || 0),
-      category: data.category || "Altri Costi",
-      description: data.description || "Spesa",
-      date: data.date || new Date().toISOString().split("T")[0]
-    };
+    const scope = detectGeographicScope(sanitizedData.address, sanitizedData.currency, homeMunicipality);
+    const scopedCategory = applyGeographicScope(category, scope);
+    sanitizedData.category = categories.includes(scopedCategory) ? scopedCategory : category;
 
     return new Response(
-      JSON.stringify({ success: true, data: sanitizedData }),
+      JSON.stringify({ success: true, data: sanitizedData, cached }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
 
   } catch (error: any) {
-    console.error("[analyze-receipt] SERVER_ERROR_CAUGHT:", error);
+    // Gestito dal middleware: 429 con Retry-After, 503 se la quota non è verificabile
+    if (error instanceof QuotaExceededError || error instanceof QuotaUnavailableError) throw error;
+
+    const analysisError = toAnalysisError(error);
+    console.error(`[analyze-receipt] ${analysisError.code}:`, error);
     return new Response(
       JSON.stringify({ 
         success: false, 
-        error: error.message || "Errore sconosciuto nel server",
+        code: analysisError.code,
+        error: analysisError.message,
+        issues: analysisError.issues,
         details: "Controlla i log della Edge Function."
       }),
       { 
-        status: 500,
+        status: analysisError.status,
         headers: { ...corsHeaders, "Content-Type": "application/json" } 
       }
     );
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -0,0 +1,128 @@
+// Normalizzazione della risposta del modello già validata (schema.ts), comune a tutti i provider
+
+export type RawAnalysis = Record<string, unknown>;
+
+// Campi per cui il client riceve affidabilità e indicazione di valore predefinito
+export const ANALYZED_FIELDS = ["amount", "date", "category", "description", "vat_number", "address", "currency"] as const;
+export type AnalyzedField = typeof ANALYZED_FIELDS[number];
+
+export interface FieldConfidence {
+  confidence: number | null; // 0..1 dichiarata dal modello, null se non indicata
+  defaulted: boolean; // valore assente o non valido, sostituito con un predefinito
+}
+
+// Converte "1,50" / "1.50" / 1.5 in numero, 0 se non interpretabile
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return isFinite(value) ? value : 0;
+  return parseFloat(String(value ?? "").replace(",", ".")) || 0;
+}
+
+// Partita IVA: 11 cifre con carattere di controllo (Luhn). Restituisce "" se non valida.
+function sanitizeVatNumber(value: unknown): string {
+  const digits = String(value ?? "").toUpperCase().replace(/^IT/, "").replace(/[\s.\-/]/g, "");
+  if (!/^\d{11}$/.test(digits)) return "";
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    let n = parseInt(digits[i], 10);
+    if (i % 2 === 1) {
+      n *= 2;
+      if (n > 9) n -= 9;
+    }
+    sum += n;
+  }
+  return (10 - (sum % 10)) % 10 === parseInt(digits[10], 10) ? digits : "";
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "€": "EUR",
+  "$": "USD",
+  "£": "GBP",
+  "¥": "JPY",
+  "FR": "CHF",
+  "SFR": "CHF",
+};
+
+// Codice ISO 4217 a 3 lettere, EUR se assente o non riconosciuto
+function sanitizeCurrency(value: unknown): string {
+  const raw = String(value ?? "").trim().toUpperCase();
+  if (/^[A-Z]{3}$/.test(raw)) return raw;
+  return CURRENCY_SYMBOLS[raw] || "EUR";
+}
+
+// Normalizza le righe dello scontrino restituite dal modello
+function sanitizeItems(rawItems: unknown) {
+  if (!Array.isArray(rawItems)) return [];
+
+  return (rawItems as Array<Record<string, unknown> | null>)
+    .map((item) => ({
+      name: String(item?.name ?? "").trim(),
+      quantity: toNumber(item?.quantity) || 1,
+      unit_price: toNumber(item?.unit_price),
+      vat_rate: item?.vat_rate === null || item?.vat_rate === undefined || item?.vat_rate === ""
+        ? null
+        : toNumber(item?.vat_rate),
+    }))
+    .filter((item) => item.name.length > 0);
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== null && value !== undefined && String(value).trim() !== "";
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function toConfidence(value: unknown): number | null {
+  if (!isPresent(value)) return null;
+  const n = toNumber(value);
+  // Alcuni modelli rispondono in percentuale (0-100)
+  const normalized = n > 1 ? n / 100 : n;
+  return Math.min(1, Math.max(0, normalized));
+}
+
+export function sanitizeAnalysis(data: RawAnalysis) {
+  const amount = toNumber(data.amount);
+  const vatNumber = sanitizeVatNumber(data.vat_number);
+  const currency = sanitizeCurrency(data.currency);
+  const rawCurrency = String(data.currency ?? "").trim().toUpperCase();
+
+  const defaulted: Record<AnalyzedField, boolean> = {
+    amount: amount <= 0,
+    date: !isIsoDate(data.date),
+    category: !(typeof data.category === "string" && data.category),
+    description: !(typeof data.description === "string" && data.description),
+    // Partita IVA o valuta presenti ma non valide vengono scartate
+    vat_number: isPresent(data.vat_number) && !vatNumber,
+    address: false,
+    currency: currency !== rawCurrency && !CURRENCY_SYMBOLS[rawCurrency],
+  };
+
+  const rawConfidence = (data.confidence && typeof data.confidence === "object" ? data.confidence : {}) as Record<string, unknown>;
+  const confidence = Object.fromEntries(
+    ANALYZED_FIELDS.map((field) => [field, {
+      confidence: defaulted[field] ? 0 : toConfidence(rawConfidence[field]),
+      defaulted: defaulted[field],
+    }])
+  ) as Record<AnalyzedField, FieldConfidence>;
+
+  return {
+    amount,
+    category: defaulted.category ? "Altri Costi" : data.category as string,
+    description: defaulted.description ? "Spesa" : data.description as string,
+    date: defaulted.date ? new Date().toISOString().split("T")[0] : data.date as string,
+    vat_number: vatNumber,
+    address: typeof data.address === "string" ? data.address.trim() : "",
+    currency,
+    items: sanitizeItems(data.items),
+    confidence
+  };
+}
+
+// Riporta la categoria del modello alla grafia della tassonomia; se non ammessa usa "Altri Costi"
+export function matchCategory(category: string, allowed: string[]): string {
+  const exact = allowed.find((name) => name.toLowerCase() === category.trim().toLowerCase());
+  if (exact) return exact;
+  return allowed.find((name) => name === "Altri Costi") || allowed[allowed.length - 1] || category;
+}
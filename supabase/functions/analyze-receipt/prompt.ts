@@ -0,0 +1,72 @@
+// Prompt condiviso da tutti i provider: cambiare modello non richiede di riscriverlo.
+
+// Da incrementare a ogni modifica del testo: invalida le analisi in cache (analysis_cache)
+export const PROMPT_VERSION = "2026-10-18.2";
+
+// Tassonomia storica, usata se la tabella categories non è leggibile
+export const DEFAULT_CATEGORIES = [
+  "Vitto Oltre Comune",
+  "Alloggio Oltre Comune",
+  "Vitto Estero",
+  "Alloggio Estero",
+  "Vitto Comune",
+  "Alloggio Comune",
+  "Taxi",
+  "Spese trasporti",
+  "Spese Rappresentanza",
+  "Altri Costi",
+];
+
+export interface PromptOptions {
+  homeMunicipality: string;
+  categories: string[];
+  pageCount?: number; // pagine dello stesso documento (PDF multipagina)
+}
+
+export function buildReceiptPrompt({ homeMunicipality, categories, pageCount = 1 }: PromptOptions): string {
+  const home = homeMunicipality.toUpperCase();
+  const categoryList = categories.map((name) => `  - ${name}`).join("\n");
+  const pagesNote = pageCount > 1
+    ? `\n  Le ${pageCount} immagini sono pagine consecutive dello STESSO documento (fattura PDF): restituisci un solo oggetto, con il totale finale del documento e le righe di tutte le pagine.\n`
+    : "";
+
+  return `Analizza lo scontrino e estrai: Importo Totale, Data, Categoria, Nome Esercente, Partita IVA, Indirizzo, Valuta e Righe (articoli).
+${pagesNote}
+  CATEGORIE AMMESSE (USARE SOLO QUESTE):
+${categoryList}
+
+  LOGICA GEOGRAFICA (COMUNE DI RIFERIMENTO: ${home}):
+  - Se l'indirizzo/città è ${home} -> Usa categorie "...Comune".
+  - Se l'indirizzo/città è un altro comune italiano -> Usa categorie "...Oltre Comune".
+  - Se Valuta estera o indirizzo estero -> Usa categorie "...Estero".
+
+  FORMATO OUTPUT OBBLIGATORIO (JSON):
+  Restituisci SOLO un oggetto JSON valido nel seguente formato, senza markdown (no \`\`\`), senza commenti:
+  {"amount": 12.50, "date": "YYYY-MM-DD", "category": "Vitto Comune", "description": "Nome Esercente", "vat_number": "01234567890", "address": "Via Roma 1, 20121 Milano (MI)", "currency": "EUR", "items": [{"name": "Caffè", "quantity": 2, "unit_price": 1.20, "vat_rate": 10}], "confidence": {"amount": 0.95, "date": 0.9, "category": 0.7, "description": 0.9, "vat_number": 0.8, "address": 0.6, "currency": 0.99}}
+
+  IMPORTANTE:
+  - La data deve essere in formato ISO YYYY-MM-DD. Se non trovi la data, usa null (NON inventarla).
+  - L'importo deve essere un numero (usa il punto per i decimali).
+  - "vat_number" è la Partita IVA dell'esercente (11 cifre, senza prefisso IT). Se non presente usa "".
+  - "address" è l'indirizzo dell'esercente come stampato (via, CAP, città, provincia, eventuale paese). Se non presente usa "".
+  - "currency" è il codice ISO 4217 a 3 lettere della valuta del totale (es. EUR, USD, GBP, CHF).
+  - "items" contiene una riga per ogni articolo stampato: nome, quantità, prezzo unitario e aliquota IVA in percentuale (es. 22, 10, 4). Se l'aliquota non è indicata usa null. Se non ci sono righe leggibili usa [].
+  - "confidence" indica, per ogni campo, quanto sei sicuro del valore letto: numero da 0 a 1. Usa valori bassi (< 0.7) se il testo è sfocato, tagliato, ambiguo o se hai dedotto il valore invece di leggerlo.
+
+  Se non riesci a generare il JSON, restituisci un errore JSON valido.`;
+}
+
+// Secondo tentativo: stesso prompt, con la risposta precedente e gli errori di validazione
+export function buildRepairPrompt(basePrompt: string, previousResponse: string, issues: string[]): string {
+  return `${basePrompt}
+
+  CORREZIONE RICHIESTA:
+  La tua risposta precedente non rispetta il formato richiesto.
+  Risposta precedente:
+  ${previousResponse.substring(0, 2000)}
+
+  Errori:
+${issues.map((issue) => `  - ${issue}`).join("\n")}
+
+  Restituisci di nuovo SOLO l'oggetto JSON corretto, rileggendo lo scontrino.`;
+}
@@ -0,0 +1,169 @@
+// Provider di analisi scontrini.
+//
+// Il provider viene scelto con la variabile d'ambiente RECEIPT_AI_PROVIDER:
+// - "gemini" (default): GEMINI_API_KEY, GEMINI_MODEL (default gemini-1.5-flash)
+// - "openai": qualsiasi endpoint compatibile con /chat/completions
+//   OPENAI_API_KEY, OPENAI_BASE_URL (default https://api.openai.com/v1), OPENAI_MODEL (default gpt-4o-mini)
+// - "mock": risposta deterministica, senza rete. RECEIPT_AI_FIXTURE può indicare
+//   il percorso di un file con la risposta grezza da restituire.
+//
+// Ogni provider riceve lo stesso prompt e restituisce il testo grezzo del modello:
+// prompt e parsing restano indipendenti dal modello usato.
+
+export interface ReceiptImage {
+  mimeType: string;
+  data: string; // base64 senza prefisso data URL
+}
+
+export interface ProviderRequest {
+  prompt: string;
+  images: ReceiptImage[];
+}
+
+export interface ReceiptAnalysisProvider {
+  name: string;
+  model: string;
+  generate(request: ProviderRequest): Promise<string>;
+}
+
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(provider: string, status: number, body: string) {
+    super(`Errore AI Provider (${provider}): ${status} - ${body.substring(0, 150)}...`);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
+
+const GENERATION_TEMPERATURE = 0.1;
+const MAX_OUTPUT_TOKENS = 2048;
+
+export function createGeminiProvider(apiKey: string, model = "gemini-1.5-flash"): ReceiptAnalysisProvider {
+  return {
+    name: "gemini",
+    model,
+    async generate({ prompt, images }) {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            contents: [{
+              parts: [
+                { text: prompt },
+                ...images.map((image) => ({ inline_data: { mime_type: image.mimeType, data: image.data } })),
+              ],
+            }],
+            generationConfig: {
+              temperature: GENERATION_TEMPERATURE,
+              maxOutputTokens: MAX_OUTPUT_TOKENS,
+            },
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`[analyze-receipt] GEMINI API ERROR (${response.status}):`, errorBody);
+        throw new ProviderError("gemini", response.status, errorBody);
+      }
+
+      const result = await response.json();
+      return result.candidates?.[0]?.content?.parts?.[0]?.text || "";
+    },
+  };
+}
+
+export function createOpenAICompatibleProvider(
+  apiKey: string,
+  baseUrl = "https://api.openai.com/v1",
+  model = "gpt-4o-mini"
+): ReceiptAnalysisProvider {
+  return {
+    name: "openai",
+    model,
+    async generate({ prompt, images }) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          temperature: GENERATION_TEMPERATURE,
+          max_tokens: MAX_OUTPUT_TOKENS,
+          messages: [{
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              ...images.map((image) => ({
+                type: "image_url",
+                image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+              })),
+            ],
+          }],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`[analyze-receipt] OPENAI API ERROR (${response.status}):`, errorBody);
+        throw new ProviderError("openai", response.status, errorBody);
+      }
+
+      const result = await response.json();
+      return result.choices?.[0]?.message?.content || "";
+    },
+  };
+}
+
+const DEFAULT_FIXTURE = JSON.stringify({
+  amount: 12.5,
+  date: "2026-01-15",
+  category: "Vitto Comune",
+  description: "Bar Mock",
+  vat_number: "00743110157",
+  address: "Piazza del Duomo 1, 20122 Milano (MI)",
+  currency: "EUR",
+  items: [
+    { name: "Caffè", quantity: 2, unit_price: 1.25, vat_rate: 10 },
+    { name: "Panino", quantity: 1, unit_price: 10, vat_rate: 10 },
+  ],
+});
+
+// Provider locale: stessa risposta a parità di fixture, indipendentemente dall'immagine
+export function createMockProvider(fixture = DEFAULT_FIXTURE): ReceiptAnalysisProvider {
+  return {
+    name: "mock",
+    model: "fixture",
+    generate() {
+      return Promise.resolve(fixture);
+    },
+  };
+}
+
+export async function getProviderFromEnv(): Promise<ReceiptAnalysisProvider> {
+  const providerName = (Deno.env.get("RECEIPT_AI_PROVIDER") || "gemini").toLowerCase();
+
+  switch (providerName) {
+    case "mock": {
+      const fixturePath = Deno.env.get("RECEIPT_AI_FIXTURE");
+      return createMockProvider(fixturePath ? await Deno.readTextFile(fixturePath) : undefined);
+    }
+    case "openai": {
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      if (!apiKey) throw new Error("Configurazione Server incompleta (OPENAI_API_KEY).");
+      return createOpenAICompatibleProvider(apiKey, Deno.env.get("OPENAI_BASE_URL"), Deno.env.get("OPENAI_MODEL"));
+    }
+    case "gemini": {
+      const apiKey = Deno.env.get("GEMINI_API_KEY") || Deno.env.get("gemini_api_key");
+      if (!apiKey) throw new Error("Configurazione Server incompleta (GEMINI_API_KEY).");
+      return createGeminiProvider(apiKey, Deno.env.get("GEMINI_MODEL"));
+    }
+    default:
+      throw new Error(`Provider AI sconosciuto: ${providerName}`);
+  }
+}
@@ -0,0 +1,136 @@
+// Schema rigido della risposta del modello: ciò che non lo rispetta viene rimandato
+// al modello una volta con l'elenco degli errori, poi la richiesta fallisce con un codice tipizzato.
+import { z } from "https://esm.sh/zod@3.23.8";
+import { buildRepairPrompt } from "./prompt.ts";
+import type { ReceiptAnalysisProvider, ReceiptImage } from "./providers.ts";
+
+// Codici restituiti al client (src/lib/receipts.ts li traduce in messaggi)
+export type AnalysisErrorCode =
+  | "INVALID_REQUEST"
+  | "NOT_A_RECEIPT"
+  | "INVALID_MODEL_OUTPUT"
+  | "PROVIDER_RATE_LIMITED"
+  | "PROVIDER_ERROR"
+  | "SERVER_MISCONFIGURED"
+  | "SERVER_ERROR";
+
+const ERROR_STATUS: Record<AnalysisErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  NOT_A_RECEIPT: 422,
+  INVALID_MODEL_OUTPUT: 422,
+  PROVIDER_RATE_LIMITED: 503,
+  PROVIDER_ERROR: 502,
+  SERVER_MISCONFIGURED: 500,
+  SERVER_ERROR: 500,
+};
+
+export class AnalysisError extends Error {
+  code: AnalysisErrorCode;
+  status: number;
+  issues: string[];
+
+  constructor(code: AnalysisErrorCode, message: string, issues: string[] = []) {
+    super(message);
+    this.name = "AnalysisError";
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.issues = issues;
+  }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Un giorno di tolleranza per i fusi orari (scontrini esteri emessi "domani" rispetto all'Italia)
+function isNotInFuture(date: string, today: Date): boolean {
+  const limit = new Date(today.getTime() + 86_400_000).toISOString().split("T")[0];
+  return date <= limit;
+}
+
+export function buildAnalysisSchema(categories: string[], today = new Date()) {
+  const allowed = categories.map((name) => name.toLowerCase());
+
+  return z.object({
+    amount: z.number({ invalid_type_error: "deve essere un numero (punto per i decimali)" })
+      .positive("deve essere maggiore di zero"),
+    date: z.string()
+      .regex(ISO_DATE, "deve essere nel formato YYYY-MM-DD")
+      .refine((value) => !isNaN(new Date(value).getTime()), "non è una data valida")
+      .refine((value) => isNotInFuture(value, today), "non può essere nel futuro")
+      .nullable(),
+    category: z.string()
+      .refine((value) => allowed.includes(value.trim().toLowerCase()), "deve essere una delle categorie ammesse"),
+    description: z.string(),
+    vat_number: z.string().optional().default(""),
+    address: z.string().optional().default(""),
+    currency: z.string().regex(/^[A-Z]{3}$/, "deve essere un codice ISO 4217 di 3 lettere maiuscole"),
+    items: z.array(z.object({
+      name: z.string(),
+      quantity: z.number().positive(),
+      unit_price: z.number(),
+      vat_rate: z.number().min(0).max(100).nullable(),
+    })).optional().default([]),
+    confidence: z.record(z.number().min(0).max(1)).optional().default({}),
+  });
+}
+
+export type ValidatedAnalysis = z.infer<ReturnType<typeof buildAnalysisSchema>>;
+
+// Campi opposti dichiarati assenti: l'unione si restringe anche senza strictNullChecks (tsconfig del client, test)
+export type ValidationResult =
+  | { success: true; data: ValidatedAnalysis; issues?: undefined }
+  | { success: false; data?: undefined; issues: string[] };
+
+// Estrae il JSON (anche se racchiuso in ```json ... ```) e lo valida
+export function validateModelResponse(rawText: string, categories: string[]): ValidationResult {
+  const start = rawText.indexOf("{");
+  const end = rawText.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    return { success: false, issues: ["la risposta non contiene un oggetto JSON"] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawText.slice(start, end + 1));
+  } catch (e) {
+    return { success: false, issues: [`JSON non valido: ${(e as Error).message}`] };
+  }
+
+  // Il prompt consente al modello di rispondere {"error": "..."} se l'immagine non è uno scontrino
+  if (parsed && typeof parsed === "object" && "error" in parsed && !("amount" in parsed)) {
+    throw new AnalysisError("NOT_A_RECEIPT", String((parsed as { error: unknown }).error || "Documento non riconosciuto"));
+  }
+
+  const result = buildAnalysisSchema(categories).safeParse(parsed);
+  if (result.success) return { success: true, data: result.data };
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => `${issue.path.join(".") || "risposta"}: ${issue.message}`),
+  };
+}
+
+// Chiede l'analisi al modello; se la risposta non rispetta lo schema la rimanda una volta con gli errori
+export async function generateValidAnalysis(
+  provider: ReceiptAnalysisProvider,
+  prompt: string,
+  images: ReceiptImage[],
+  categories: string[]
+): Promise<{ data: ValidatedAnalysis; rawText: string; repaired: boolean }> {
+  const rawText = await provider.generate({ prompt, images });
+  console.log("[analyze-receipt] Risposta Grezza:", rawText);
+
+  const first = validateModelResponse(rawText, categories);
+  if (first.success) return { data: first.data, rawText, repaired: false };
+
+  console.warn("[analyze-receipt] Risposta non valida, nuovo tentativo:", first.issues);
+  const repairedText = await provider.generate({
+    prompt: buildRepairPrompt(prompt, rawText, first.issues),
+    images,
+  });
+  console.log("[analyze-receipt] Risposta Corretta:", repairedText);
+
+  const second = validateModelResponse(repairedText, categories);
+  if (second.success) return { data: second.data, rawText: repairedText, repaired: true };
+
+  throw new AnalysisError("INVALID_MODEL_OUTPUT", "Il modello non ha restituito dati validi", second.issues);
+}
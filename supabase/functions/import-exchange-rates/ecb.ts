@@ -0,0 +1,106 @@
+// Cambi di riferimento BCE: unità di valuta per 1 EUR. Arrivano dal Data Portal (download
+// diretto) oppure da un CSV caricato da un amministratore; in entrambi i casi li legge parseEcbCsv.
+
+export interface ExchangeRate {
+  currency: string;
+  rate_date: string; // YYYY-MM-DD
+  rate: number; // unità di valuta per 1 EUR
+}
+
+export class ExchangeRateCsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExchangeRateCsvError";
+  }
+}
+
+const BASE_CURRENCY = "EUR";
+const DATA_PORTAL_URL = "https://data-api.ecb.europa.eu/service/data/EXR/D..EUR.SP00.A";
+
+export function ecbRatesUrl(startDate: string, endDate: string): string {
+  const params = new URLSearchParams({ startPeriod: startDate, endPeriod: endDate, format: "csvdata" });
+  return `${DATA_PORTAL_URL}?${params}`;
+}
+
+const MONTHS: Record<string, string> = {
+  january: "01", february: "02", march: "03", april: "04", may: "05", june: "06",
+  july: "07", august: "08", september: "09", october: "10", november: "11", december: "12",
+};
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') { current += '"'; i++; }
+      else quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+// "2024-01-05" (storico) oppure "05 January 2024" (file giornaliero)
+function parseEcbDate(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const match = value.match(/^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/);
+  if (!match) return null;
+  const month = MONTHS[match[2].toLowerCase()];
+  return month ? `${match[3]}-${month}-${match[1].padStart(2, "0")}` : null;
+}
+
+function parseRate(value: string): number | null {
+  const rate = parseFloat(value);
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+// Accetta i CSV della BCE: eurofxref.csv / eurofxref-hist.csv (una colonna per valuta)
+// e l'export del Data Portal (serie EXR, colonne CURRENCY / TIME_PERIOD / OBS_VALUE)
+export function parseEcbCsv(text: string): ExchangeRate[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) throw new ExchangeRateCsvError("Il file non contiene tassi di cambio");
+
+  const header = splitCsvLine(lines[0]).map(cell => cell.toUpperCase());
+  const rates: ExchangeRate[] = [];
+
+  const currencyCol = header.indexOf("CURRENCY");
+  const periodCol = header.indexOf("TIME_PERIOD");
+  const valueCol = header.indexOf("OBS_VALUE");
+  const denomCol = header.indexOf("CURRENCY_DENOM");
+
+  if (currencyCol >= 0 && periodCol >= 0 && valueCol >= 0) {
+    lines.slice(1).forEach(line => {
+      const cells = splitCsvLine(line);
+      if (denomCol >= 0 && cells[denomCol] && cells[denomCol].toUpperCase() !== "EUR") return;
+      const currency = (cells[currencyCol] || "").toUpperCase();
+      const rateDate = parseEcbDate(cells[periodCol] || "");
+      const rate = parseRate(cells[valueCol] || "");
+      if (/^[A-Z]{3}$/.test(currency) && currency !== BASE_CURRENCY && rateDate && rate) {
+        rates.push({ currency, rate_date: rateDate, rate });
+      }
+    });
+  } else if (header[0] === "DATE") {
+    lines.slice(1).forEach(line => {
+      const cells = splitCsvLine(line);
+      const rateDate = parseEcbDate(cells[0]);
+      if (!rateDate) return;
+      header.forEach((currency, index) => {
+        if (index === 0 || !/^[A-Z]{3}$/.test(currency) || currency === BASE_CURRENCY) return;
+        const rate = parseRate(cells[index] || "");
+        if (rate) rates.push({ currency, rate_date: rateDate, rate });
+      });
+    });
+  } else {
+    throw new ExchangeRateCsvError("Formato non riconosciuto: usa il CSV dei cambi di riferimento BCE");
+  }
+
+  if (rates.length === 0) throw new ExchangeRateCsvError("Nessun tasso valido nel file");
+  return rates;
+}
@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { withAuth } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/cors.ts";
+import { consumeDailyQuota, QuotaExceededError, QuotaUnavailableError } from "../_shared/quota.ts";
+import { ecbRatesUrl, ExchangeRateCsvError, parseEcbCsv, type ExchangeRate } from "./ecb.ts";
+
+// I tassi sono condivisi da tutti gli utenti e li scrive solo questa funzione, con il service role.
+// Chiunque può scaricarli dalla BCE (il client sceglie solo da quale data); il CSV della BCE
+// caricato a mano lo accettano solo gli amministratori della piattaforma (app_metadata.role,
+// impostato dal service role: l'utente non può attribuirselo).
+
+interface ImportRatesRequest {
+  start_date?: string; // download: YYYY-MM-DD; senza, dal giorno dopo l'ultimo tasso salvato
+  csv?: string; // testo di eurofxref.csv / eurofxref-hist.csv / export del Data Portal
+}
+
+const FIRST_ECB_DATE = "1999-01-04";
+const DEFAULT_HISTORY_DAYS = 365;
+const UPSERT_CHUNK_SIZE = 1000;
+const MAX_CSV_LENGTH = 10 * 1024 * 1024;
+
+const isoDate = (date: Date): string => date.toISOString().split("T")[0];
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return isoDate(d);
+}
+
+// Un anno per richiesta alla BCE, per tenere contenute le risposte dello storico completo
+function yearRanges(startDate: string, endDate: string): Array<[string, string]> {
+  const ranges: Array<[string, string]> = [];
+  for (let from = startDate; from <= endDate; from = addDays(from, DEFAULT_HISTORY_DAYS)) {
+    const to = addDays(from, DEFAULT_HISTORY_DAYS - 1);
+    ranges.push([from, to < endDate ? to : endDate]);
+  }
+  return ranges;
+}
+
+const isRateAdmin = (user: User): boolean => user.app_metadata?.role === "admin";
+
+async function upsertRates(adminClient: SupabaseClient, rates: ExchangeRate[]): Promise<void> {
+  const rows = rates.map(rate => ({ ...rate, source: "ECB" }));
+  for (let start = 0; start < rows.length; start += UPSERT_CHUNK_SIZE) {
+    const { error } = await adminClient
+      .from("exchange_rates")
+      .upsert(rows.slice(start, start + UPSERT_CHUNK_SIZE), { onConflict: "currency,rate_date" });
+    if (error) throw error;
+  }
+}
+
+async function downloadRates(adminClient: SupabaseClient, startDate: string | undefined): Promise<ExchangeRate[]> {
+  const today = isoDate(new Date());
+  if (!startDate) {
+    const { data: latest, error } = await adminClient
+      .from("exchange_rates")
+      .select("rate_date")
+      .order("rate_date", { ascending: false })
+      .limit(1);
+    if (error) throw error;
+    startDate = latest && latest.length > 0
+      ? addDays(latest[0].rate_date, 1)
+      : addDays(today, -DEFAULT_HISTORY_DAYS);
+  }
+  if (startDate < FIRST_ECB_DATE) startDate = FIRST_ECB_DATE;
+
+  const rates: ExchangeRate[] = [];
+  for (const [from, to] of yearRanges(startDate, today)) {
+    const response = await fetch(ecbRatesUrl(from, to), { headers: { Accept: "text/csv" } });
+    // 404 = nessuna osservazione nel periodo (ad es. solo giorni festivi)
+    if (response.status === 404) continue;
+    if (!response.ok) throw new Error(`BCE non raggiungibile (HTTP ${response.status})`);
+
+    try {
+      rates.push(...parseEcbCsv(await response.text()));
+    } catch (error) {
+      if (!(error instanceof ExchangeRateCsvError)) throw error;
+    }
+  }
+  return rates;
+}
+
+serve(withAuth("import-exchange-rates", async (req, { user }) => {
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!serviceRoleKey) {
+      console.error("[import-exchange-rates] Missing SUPABASE_SERVICE_ROLE_KEY");
+      throw new Error("Configurazione server mancante.");
+    }
+
+    const { start_date, csv }: ImportRatesRequest = await req.json().catch(() => ({}));
+    if (start_date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(start_date)) {
+      return jsonResponse({ success: false, code: "INVALID_DATE", error: "Data di inizio non valida" }, 400);
+    }
+    if (csv !== undefined) {
+      if (!isRateAdmin(user)) {
+        return jsonResponse({ success: false, code: "FORBIDDEN", error: "Solo un amministratore può caricare il CSV dei cambi" }, 403);
+      }
+      if (typeof csv !== "string" || csv.length > MAX_CSV_LENGTH) {
+        return jsonResponse({ success: false, code: "INVALID_CSV", error: "File CSV non valido o troppo grande" }, 400);
+      }
+    }
+
+    await consumeDailyQuota(user.id, "import-exchange-rates");
+
+    const adminClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    let rates: ExchangeRate[];
+    if (csv !== undefined) {
+      try {
+        rates = parseEcbCsv(csv);
+      } catch (error) {
+        if (!(error instanceof ExchangeRateCsvError)) throw error;
+        return jsonResponse({ success: false, code: "INVALID_CSV", error: error.message }, 400);
+      }
+    } else {
+      rates = await downloadRates(adminClient, start_date);
+    }
+
+    await upsertRates(adminClient, rates);
+    const currencies = new Set(rates.map(rate => rate.currency)).size;
+    return jsonResponse({ success: true, imported: rates.length, currencies });
+  } catch (error) {
+    if (error instanceof QuotaExceededError || error instanceof QuotaUnavailableError) throw error;
+    console.error("[import-exchange-rates] Error:", error);
+    return jsonResponse({ success: false, code: "IMPORT_FAILED", error: "Impossibile importare i tassi della BCE" }, 502);
+  }
+}));
@@ -1,10 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { withAuth } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { consumeDailyQuota, QuotaExceededError, QuotaUnavailableError } from "../_shared/quota.ts";
+import { formatAmount, formatDate, renderReportPdf, type ReportData } from "./reportPdf.ts";
 
 interface ExpenseData {
   merchant: string;
@@ -12,13 +11,30 @@ interface ExpenseData {
   total: number;
   currency: string;
   category: string;
-  items: Array<{ name: string; quantity: number; price: number }>;
+  items: Array<{ name: string; quantity: number; unit_price: number; vat_rate: number | null }>;
+  amount_eur?: number | null; // controvalore al cambio BCE, calcolato qui se la valuta non è EUR
+  exchange_rate_date?: string | null;
 }
 
-interface SendEmailRequest {
-  to: string[];
+interface BatchEntry {
   expense: ExpenseData;
   imageBase64: string;
+  documentBase64?: string;
+}
+
+interface SendEmailRequest {
+  to: string[];
+  expense?: ExpenseData;
+  imageBase64?: string;
+  documentBase64?: string; // PDF originale, allegato accanto alla miniatura
+  batch?: BatchEntry[]; // Acquisizione multipla: una sola email riepilogativa
+  report_id?: string; // Nota spese inviata: riepilogo in PDF e link ai giustificativi
+  approval_url?: string | null; // inbox degli approvatori nell'app
+}
+
+interface Attachment {
+  filename: string;
+  content: string;
 }
 
 // Simple HTML escaping function
@@ -31,49 +47,298 @@ const escapeHtml = (unsafe: string | number): string => {
     .replace(/'/g, "&#039;");
 };
 
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+const stripDataUrl = (value: string): string => value.includes(",") ? value.split(",")[1] : value;
+
+const isEuro = (currency: string): boolean => !currency || currency.toUpperCase() === "EUR";
+
+// Stesso tasso usato dal database per expenses.amount_eur (funzione eur_exchange_rate)
+async function withEurAmount(supabaseClient: SupabaseClient, expense: ExpenseData): Promise<ExpenseData> {
+  if (isEuro(expense.currency)) return { ...expense, amount_eur: expense.total };
+  if (expense.amount_eur !== undefined && expense.amount_eur !== null) return expense;
+
+  const { data, error } = await supabaseClient.rpc("eur_exchange_rate", {
+    p_currency: expense.currency.toUpperCase(),
+    p_date: expense.date || new Date().toISOString().split("T")[0],
+  });
+  if (error || !data || data.length === 0) {
+    if (error) console.warn("[send-expense-email] Exchange rate lookup failed:", error.message);
+    return { ...expense, amount_eur: null };
   }
+  return {
+    ...expense,
+    amount_eur: Math.round((expense.total / data[0].rate) * 100) / 100,
+    exchange_rate_date: data[0].rate_date,
+  };
+}
 
-  try {
-    // 1. Verify Authentication
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('Missing Authorization header');
-    }
+// Riga "≈ EUR ..." sotto gli importi in valuta estera
+function eurEquivalent(expense: ExpenseData): string {
+  if (isEuro(expense.currency)) return "";
+  if (expense.amount_eur === null || expense.amount_eur === undefined) return "Controvalore EUR non disponibile";
+  const rateDate = expense.exchange_rate_date
+    ? ` (cambio BCE del ${new Date(expense.exchange_rate_date).toLocaleDateString("it-IT")})`
+    : "";
+  return `≈ EUR ${expense.amount_eur.toFixed(2)}${rateDate}`;
+}
 
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
+// Email riepilogativa per l'acquisizione multipla: tabella delle spese e un allegato per scontrino
+function renderBatchEmail(batch: BatchEntry[]): { subject: string; html: string; attachments: Attachment[] } {
+  // Totale in EUR; gli importi senza cambio restano nella valuta originale
+  let totalEur = 0;
+  const unconverted = new Map<string, number>();
+  batch.forEach(({ expense }) => {
+    if (expense.amount_eur !== null && expense.amount_eur !== undefined) totalEur += expense.amount_eur;
+    else unconverted.set(expense.currency, (unconverted.get(expense.currency) || 0) + expense.total);
+  });
+  const totalLabel = [
+    `EUR ${totalEur.toFixed(2)}`,
+    ...Array.from(unconverted.entries()).map(([currency, total]) => `${currency} ${total.toFixed(2)}`)
+  ].join(" + ");
+
+  const attachments: Attachment[] = [];
+  batch.forEach(({ imageBase64, documentBase64 }, index) => {
+    const number = String(index + 1).padStart(2, "0");
+    if (imageBase64) attachments.push({ filename: `scontrino-${number}.jpg`, content: stripDataUrl(imageBase64) });
+    if (documentBase64) attachments.push({ filename: `documento-${number}.pdf`, content: stripDataUrl(documentBase64) });
+  });
+
+  const rows = batch.map(({ expense }, index) => {
+    const date = expense.date ? new Date(expense.date).toLocaleDateString("it-IT") : "-";
+    return `
+          <tr>
+            <td style="padding: 8px 4px; border-bottom: 1px solid #e2e8f0; color: #64748b;">${index + 1}</td>
+            <td style="padding: 8px 4px; border-bottom: 1px solid #e2e8f0;">${escapeHtml(date)}</td>
+            <td style="padding: 8px 4px; border-bottom: 1px solid #e2e8f0;">${escapeHtml(expense.merchant || "Non specificato")}<br><span style="color: #64748b; font-size: 12px;">${escapeHtml(expense.category || "Non categorizzato")}</span></td>
+            <td style="padding: 8px 4px; border-bottom: 1px solid #e2e8f0; text-align: right; white-space: nowrap;">${escapeHtml(expense.currency)} ${expense.total.toFixed(2)}${isEuro(expense.currency) ? "" : `<br><span style="color: #64748b; font-size: 12px;">${escapeHtml(eurEquivalent(expense))}</span>`}</td>
+          </tr>`;
+  }).join("");
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #020617 0%, #0f172a 100%); color: white; padding: 24px; border-radius: 12px 12px 0 0; }
+    .content { background: #f8fafc; padding: 24px; border-radius: 0 0 12px 12px; }
+    .total { font-size: 24px; font-weight: 700; color: #0891b2; }
+    .footer { text-align: center; padding: 16px; color: #94a3b8; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1 style="margin: 0; font-size: 20px;">📝 Nota Spese</h1>
+      <p style="margin: 8px 0 0; opacity: 0.8;">${batch.length} spese registrate</p>
+    </div>
+    <div class="content">
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px; background: white; border-radius: 8px;">
+        <tbody>${rows}
+        </tbody>
+      </table>
+      <p style="margin: 16px 0 0; text-align: right;">Totale: <span class="total">${escapeHtml(totalLabel)}</span></p>
+    </div>
+    <div class="footer">
+      Inviato tramite Nota Spese App
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+  return { subject: `Nota Spese: ${batch.length} spese - ${totalLabel}`, html, attachments };
+}
+
+// Nota spese letta dal database con il client del chiamante (RLS): protocollo, totali e
+// spese non arrivano mai dalla richiesta. Solo il richiedente, e solo dopo l'invio.
+async function loadReport(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  reportId: string,
+  approvalUrl: string | null
+): Promise<ReportData> {
+  const { data: report, error } = await supabaseClient
+    .from("expense_reports")
+    .select("id, user_id, status, protocol_number, title, period_start, period_end, total_eur")
+    .eq("id", reportId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!report || report.user_id !== userId) {
+    throw new Error("Nota spese non trovata.");
+  }
+  if (report.status === "draft" || !report.protocol_number) {
+    throw new Error("La nota spese non è ancora stata inviata.");
+  }
+
+  const { data: expenses, error: expensesError } = await supabaseClient
+    .from("expenses")
+    .select("merchant, expense_date, total, currency, amount_eur, category, image_url, document_url")
+    .eq("report_id", reportId)
+    .is("deleted_at", null)
+    .order("expense_date", { ascending: true });
+  if (expensesError) throw expensesError;
+
+  return {
+    protocol_number: report.protocol_number,
+    title: report.title,
+    period_start: report.period_start,
+    period_end: report.period_end,
+    total_eur: Number(report.total_eur) || 0,
+    approval_url: approvalUrl,
+    entries: (expenses || []).map((e) => ({
+      merchant: e.merchant,
+      date: e.expense_date,
+      total: e.total,
+      currency: e.currency || "EUR",
+      amount_eur: e.amount_eur,
+      category: e.category,
+      image_url: e.image_url,
+      document_url: e.document_url,
+    })),
+  };
+}
+
+// Email della nota spese: il dettaglio è nel PDF allegato, i giustificativi restano in archivio (link)
+async function renderReportEmail(report: ReportData): Promise<{ subject: string; html: string; attachments: Attachment[] }> {
+  const protocol = report.protocol_number || "bozza";
+  const totalLabel = `EUR ${formatAmount(report.total_eur)}`;
 
-    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+  const rows = report.entries.map((entry) => {
+    const links = [
+      entry.image_url ? `<a href="${escapeHtml(entry.image_url)}" style="color: #0891b2;">scontrino</a>` : "",
+      entry.document_url ? `<a href="${escapeHtml(entry.document_url)}" style="color: #0891b2;">documento</a>` : "",
+    ].filter(Boolean).join(" · ");
+    return `
+          <tr>
+            <td style="padding: 8px 4px; border-bottom: 1px solid #e2e8f0;">${escapeHtml(formatDate(entry.date))}</td>
+            <td style="padding: 8px 4px; border-bottom: 1px solid #e2e8f0;">${escapeHtml(entry.merchant || "Non specificato")}<br><span style="color: #64748b; font-size: 12px;">${escapeHtml(entry.category || "Non categorizzato")}${links ? ` · ${links}` : ""}</span></td>
+            <td style="padding: 8px 4px; border-bottom: 1px solid #e2e8f0; text-align: right; white-space: nowrap;">${escapeHtml(entry.currency)} ${(entry.total ?? 0).toFixed(2)}</td>
+          </tr>`;
+  }).join("");
 
-    if (authError || !user) {
-      console.error("[send-expense-email] Unauthorized access attempt", authError);
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #020617 0%, #0f172a 100%); color: white; padding: 24px; border-radius: 12px 12px 0 0; }
+    .content { background: #f8fafc; padding: 24px; border-radius: 0 0 12px 12px; }
+    .total { font-size: 24px; font-weight: 700; color: #0891b2; }
+    .footer { text-align: center; padding: 16px; color: #94a3b8; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1 style="margin: 0; font-size: 20px;">📝 Nota Spese ${escapeHtml(protocol)}</h1>
+      <p style="margin: 8px 0 0; opacity: 0.8;">${escapeHtml(report.title)} · ${escapeHtml(formatDate(report.period_start))} - ${escapeHtml(formatDate(report.period_end))}</p>
+    </div>
+    <div class="content">
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px; background: white; border-radius: 8px;">
+        <tbody>${rows}
+        </tbody>
+      </table>
+      <p style="margin: 16px 0 0; text-align: right;">Totale: <span class="total">${escapeHtml(totalLabel)}</span></p>
+      <p style="margin: 8px 0 0; color: #64748b; font-size: 12px;">Riepilogo completo nel PDF allegato.</p>
+      ${report.approval_url ? `<p style="margin: 16px 0 0; text-align: center;"><a href="${escapeHtml(report.approval_url)}" style="display: inline-block; padding: 10px 20px; border-radius: 999px; background: #0891b2; color: white; text-decoration: none; font-weight: 600;">Approva nell'app</a></p>` : ""}
+    </div>
+    <div class="footer">
+      Inviato tramite Nota Spese App
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+  const attachments: Attachment[] = [{ filename: `nota-spese-${protocol}.pdf`, content: await renderReportPdf(report) }];
+  return { subject: `Nota Spese ${protocol}: ${report.title} - ${totalLabel}`, html, attachments };
+}
+
+async function sendWithResend(
+  apiKey: string,
+  email: { to: string[]; subject: string; html: string; attachments: Attachment[] }
+): Promise<Response> {
+  console.log(`[send-expense-email] Sending email to ${email.to.length} recipients...`);
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: "Nota Spese <notifiche@insightnode.it>",
+      ...email,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("[send-expense-email] Resend API error:", response.status, errorText);
+    throw new Error(`Errore invio email (Resend API): ${response.status}`);
+  }
+
+  const emailResponse = await response.json();
+  console.log("[send-expense-email] Email sent successfully:", emailResponse);
+
+  return new Response(
+    JSON.stringify({ success: true, id: emailResponse.id }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
     }
+  );
+}
 
+serve(withAuth("send-expense-email", async (req, { user, supabaseClient }) => {
+  try {
     const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
     if (!RESEND_API_KEY) {
       console.error("[send-expense-email] Missing RESEND_API_KEY");
       throw new Error("Configurazione server mancante (API Key).");
     }
 
-    const { to, expense, imageBase64 }: SendEmailRequest = await req.json();
+    const { to, expense, imageBase64, documentBase64, batch, report_id, approval_url }: SendEmailRequest = await req.json();
+
+    if (!to || to.length === 0) {
+      throw new Error("Dati mancanti per l'invio dell'email.");
+    }
+
+    // Una email (singola o riepilogativa) consuma una richiesta della quota giornaliera
+    await consumeDailyQuota(user.id, "send-expense-email");
+
+    if (report_id) {
+      const report = await loadReport(supabaseClient, user.id, report_id, approval_url ?? null);
+      const { subject, html, attachments } = await renderReportEmail(report);
+      return await sendWithResend(RESEND_API_KEY, { to, subject, html, attachments });
+    }
+
+    if (batch && batch.length > 0) {
+      const converted = await Promise.all(batch.map(async (entry) => ({
+        ...entry,
+        expense: await withEurAmount(supabaseClient, entry.expense),
+      })));
+      const { subject, html, attachments } = renderBatchEmail(converted);
+      return await sendWithResend(RESEND_API_KEY, { to, subject, html, attachments });
+    }
 
-    if (!to || to.length === 0 || !expense) {
+    if (!expense) {
       throw new Error("Dati mancanti per l'invio dell'email.");
     }
 
+    const convertedExpense = await withEurAmount(supabaseClient, expense);
+
     // Extract base64 data safely
-    const base64Data = imageBase64.includes(",") ? imageBase64.split(",")[1] : imageBase64;
+    const base64Data = stripDataUrl(imageBase64 || "");
+
+    const attachments: Attachment[] = [{ filename: "scontrino.jpg", content: base64Data }];
+    if (documentBase64) {
+      attachments.push({ filename: "documento.pdf", content: stripDataUrl(documentBase64) });
+    }
 
     const formattedDate = expense.date
       ? new Date(expense.date).toLocaleDateString("it-IT", {
@@ -130,14 +395,15 @@ serve(async (req) => {
       <div class="field">
         <div class="label">Totale</div>
         <div class="total">${safeCurrency} ${safeTotal}</div>
+        ${isEuro(expense.currency) ? "" : `<div style="font-size: 13px; color: #64748b;">${escapeHtml(eurEquivalent(convertedExpense))}</div>`}
       </div>
       ${expense.items && expense.items.length > 0 ? `
       <div class="items">
         <div class="label" style="margin-bottom: 8px;">Articoli</div>
         ${expense.items.map((item) => `
           <div style="display: flex; justify-content: space-between; padding: 4px 0; border-bottom: 1px solid #e2e8f0;">
-            <span>${escapeHtml(item.name)} (x${escapeHtml(item.quantity)})</span>
-            <span>${safeCurrency} ${item.price.toFixed(2)}</span>
+            <span>${escapeHtml(item.name)} (x${escapeHtml(item.quantity)})${item.vat_rate !== null && item.vat_rate !== undefined ? ` <span style="color: #64748b; font-size: 12px;">IVA ${escapeHtml(item.vat_rate)}%</span>` : ""}</span>
+            <span>${safeCurrency} ${(item.quantity * item.unit_price).toFixed(2)}</span>
           </div>
         `).join("")}
       </div>
@@ -151,45 +417,15 @@ serve(async (req) => {
 </html>
     `;
 
-    console.log(`[send-expense-email] Sending email to ${to.length} recipients...`);
-
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${RESEND_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        from: "Nota Spese <notifiche@insightnode.it>",
-        to: to,
-        // Subject typically plain text, but good to be careful. JSON.stringify handles basic escaping for JSON payload.
-        subject: `Nota Spese: ${expense.merchant || "Nuova spesa"} - ${expense.currency} ${expense.total.toFixed(2)}`,
-        html: emailHtml,
-        attachments: [
-          {
-            filename: "scontrino.jpg",
-            content: base64Data,
-          },
-        ],
-      }),
+    return await sendWithResend(RESEND_API_KEY, {
+      to,
+      // Subject typically plain text, but good to be careful. JSON.stringify handles basic escaping for JSON payload.
+      subject: `Nota Spese: ${expense.merchant || "Nuova spesa"} - ${expense.currency} ${expense.total.toFixed(2)}`,
+      html: emailHtml,
+      attachments,
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("[send-expense-email] Resend API error:", response.status, errorText);
-      throw new Error(`Errore invio email (Resend API): ${response.status}`);
-    }
-
-    const emailResponse = await response.json();
-    console.log("[send-expense-email] Email sent successfully:", emailResponse);
-
-    return new Response(
-      JSON.stringify({ success: true, id: emailResponse.id }),
-      {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
   } catch (error: any) {
+    if (error instanceof QuotaExceededError || error instanceof QuotaUnavailableError) throw error;
     console.error("[send-expense-email] Error:", error.message);
     return new Response(
       JSON.stringify({ error: error.message }),
@@ -199,4 +435,4 @@ serve(async (req) => {
       }
     );
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
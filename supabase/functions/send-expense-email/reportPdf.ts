@@ -0,0 +1,141 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+
+export interface ReportEntry {
+  merchant: string | null;
+  date: string | null;
+  total: number | null;
+  currency: string;
+  amount_eur: number | null;
+  category: string | null;
+  image_url?: string | null;
+  document_url?: string | null;
+}
+
+export interface ReportData {
+  protocol_number: string | null;
+  title: string;
+  period_start: string | null;
+  period_end: string | null;
+  total_eur: number;
+  approval_url?: string | null; // inbox degli approvatori nell'app
+  entries: ReportEntry[];
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const ROW_HEIGHT = 30;
+
+const INK = rgb(0.06, 0.09, 0.16);
+const MUTED = rgb(0.39, 0.45, 0.55);
+const ACCENT = rgb(0.03, 0.57, 0.7);
+const RULE = rgb(0.89, 0.91, 0.94);
+
+// I font standard usano la codifica WinAnsi: frecce e simboli fuori set vanno sostituiti
+const WIN_ANSI_EXTRA = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+function pdfSafe(text: string): string {
+  return text
+    .replace(/\u2192/g, "->")
+    .split("")
+    .map((char) => (char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRA.includes(char) ? char : "?"))
+    .join("");
+}
+
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  let value = pdfSafe(text);
+  if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+  while (value.length > 1 && font.widthOfTextAtSize(`${value}...`, size) > maxWidth) {
+    value = value.slice(0, -1);
+  }
+  return `${value}...`;
+}
+
+export const formatDate = (value: string | null): string =>
+  value ? new Date(value).toLocaleDateString("it-IT") : "-";
+
+export const formatAmount = (value: number): string =>
+  value.toLocaleString("it-IT", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// PDF della nota spese: intestazione con protocollo e periodo, tabella delle spese, totale in EUR
+export async function renderReportPdf(report: ReportData): Promise<string> {
+  const pdf = await PDFDocument.create();
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  pdf.setTitle(pdfSafe(`${report.protocol_number || ""} ${report.title}`.trim()));
+
+  const pages: PDFPage[] = [];
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  pages.push(page);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const text = (value: string, x: number, size: number, font = regular, color = INK) =>
+    page.drawText(pdfSafe(value), { x, y, size, font, color });
+  const textRight = (value: string, right: number, size: number, font = regular, color = INK) =>
+    page.drawText(pdfSafe(value), { x: right - font.widthOfTextAtSize(pdfSafe(value), size), y, size, font, color });
+
+  // Intestazione
+  y -= 18;
+  text("Nota Spese", MARGIN, 20, bold);
+  if (report.protocol_number) textRight(`Protocollo ${report.protocol_number}`, PAGE_WIDTH - MARGIN, 11, bold, ACCENT);
+  y -= 22;
+  text(fitText(report.title, regular, 12, PAGE_WIDTH - 2 * MARGIN), MARGIN, 12);
+  y -= 16;
+  text(`Periodo: ${formatDate(report.period_start)} - ${formatDate(report.period_end)}`, MARGIN, 10, regular, MUTED);
+  y -= 24;
+
+  const columns = { index: MARGIN, date: MARGIN + 28, merchant: MARGIN + 100, amountRight: PAGE_WIDTH - MARGIN };
+  const merchantWidth = columns.amountRight - columns.merchant - 110;
+
+  const drawHeader = () => {
+    text("#", columns.index, 9, bold, MUTED);
+    text("Data", columns.date, 9, bold, MUTED);
+    text("Esercente / Categoria", columns.merchant, 9, bold, MUTED);
+    textRight("Importo", columns.amountRight, 9, bold, MUTED);
+    y -= 8;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 1, color: RULE });
+    y -= 14;
+  };
+  drawHeader();
+
+  report.entries.forEach((entry, index) => {
+    if (y < MARGIN + ROW_HEIGHT + 40) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      pages.push(page);
+      y = PAGE_HEIGHT - MARGIN - 10;
+      drawHeader();
+    }
+
+    const total = entry.total ?? 0;
+    const isEuro = !entry.currency || entry.currency.toUpperCase() === "EUR";
+    text(String(index + 1), columns.index, 10, regular, MUTED);
+    text(formatDate(entry.date), columns.date, 10);
+    text(fitText(entry.merchant || "Non specificato", regular, 10, merchantWidth), columns.merchant, 10);
+    textRight(`${isEuro ? "EUR" : entry.currency} ${formatAmount(total)}`, columns.amountRight, 10, bold);
+    y -= 12;
+    text(fitText(entry.category || "Non categorizzato", regular, 8, merchantWidth), columns.merchant, 8, regular, MUTED);
+    if (!isEuro) {
+      const eur = entry.amount_eur !== null ? `~ EUR ${formatAmount(entry.amount_eur)}` : "cambio non disponibile";
+      textRight(eur, columns.amountRight, 8, regular, MUTED);
+    }
+    y -= 8;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.5, color: RULE });
+    y -= ROW_HEIGHT - 20;
+  });
+
+  y -= 12;
+  text(`${report.entries.length} spese`, MARGIN, 10, regular, MUTED);
+  textRight(`Totale EUR ${formatAmount(report.total_eur)}`, columns.amountRight, 14, bold, ACCENT);
+
+  pages.forEach((p, index) => {
+    const label = `Pagina ${index + 1} di ${pages.length}`;
+    p.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font: regular,
+      color: MUTED,
+    });
+  });
+
+  return await pdf.saveAsBase64();
+}
@@ -0,0 +1,3 @@
+-- Comune di riferimento per la scelta tra categorie "...Comune", "...Oltre Comune" ed "...Estero"
+alter table public.profiles
+add column if not exists home_municipality text;
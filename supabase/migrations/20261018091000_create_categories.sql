@@ -0,0 +1,42 @@
+-- Tassonomia delle categorie di spesa.
+-- Le righe con user_id null sono la tassonomia condivisa, le altre sono categorie personali.
+create table if not exists public.categories (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users on delete cascade,
+  name text not null,
+  icon text not null default 'receipt',
+  color text not null default '#64748b',
+  parent_group text not null default 'Altro',
+  sort_order integer not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create unique index if not exists categories_owner_name_idx
+on public.categories (coalesce(user_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+
+alter table public.categories enable row level security;
+
+create policy "Users can view shared and own categories" on public.categories for select using (user_id is null or auth.uid() = user_id);
+create policy "Users can insert own categories" on public.categories for insert with check (auth.uid() = user_id);
+create policy "Users can update own categories" on public.categories for update using (auth.uid() = user_id);
+create policy "Users can delete own categories" on public.categories for delete using (auth.uid() = user_id);
+
+create trigger update_categories_updated_at
+before update on public.categories
+for each row
+execute function public.update_updated_at_column();
+
+-- Categorie storiche del prompt di analyze-receipt
+insert into public.categories (user_id, name, icon, color, parent_group, sort_order) values
+  (null, 'Vitto Comune', 'utensils', '#10b981', 'Vitto', 10),
+  (null, 'Vitto Oltre Comune', 'utensils', '#059669', 'Vitto', 20),
+  (null, 'Vitto Estero', 'utensils', '#047857', 'Vitto', 30),
+  (null, 'Alloggio Comune', 'bed-double', '#8b5cf6', 'Alloggio', 40),
+  (null, 'Alloggio Oltre Comune', 'bed-double', '#7c3aed', 'Alloggio', 50),
+  (null, 'Alloggio Estero', 'bed-double', '#6d28d9', 'Alloggio', 60),
+  (null, 'Taxi', 'car-taxi-front', '#f59e0b', 'Trasporti', 70),
+  (null, 'Spese trasporti', 'train-front', '#3b82f6', 'Trasporti', 80),
+  (null, 'Spese Rappresentanza', 'briefcase', '#ec4899', 'Rappresentanza', 90),
+  (null, 'Altri Costi', 'receipt', '#64748b', 'Altro', 100)
+on conflict do nothing;
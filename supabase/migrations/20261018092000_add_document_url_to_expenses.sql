@@ -0,0 +1,4 @@
+-- Documento originale (es. fattura PDF) caricato nel bucket receipts;
+-- image_url resta la miniatura JPEG della prima pagina
+alter table public.expenses
+add column if not exists document_url text;
@@ -0,0 +1,4 @@
+-- Riepilogo IVA per aliquota, valorizzato dalle fatture elettroniche FatturaPA importate
+-- Formato: [{ "vat_rate": 22, "taxable": 100.00, "tax": 22.00, "nature": null }]
+alter table public.expenses
+add column if not exists vat_breakdown jsonb;
@@ -0,0 +1,7 @@
+-- Hash percettivo (dHash 64 bit, esadecimale) della foto dello scontrino,
+-- usato per segnalare i possibili duplicati prima del salvataggio
+alter table public.expenses
+add column if not exists image_hash text;
+
+create index if not exists expenses_user_expense_date_idx
+on public.expenses (user_id, expense_date);
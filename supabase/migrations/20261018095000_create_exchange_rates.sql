@@ -0,0 +1,100 @@
+-- Tassi di cambio di riferimento BCE: unità di valuta per 1 EUR, un valore per giorno lavorativo.
+-- Sono dati condivisi: tutti gli utenti autenticati li leggono e possono importare il CSV della BCE.
+create table if not exists public.exchange_rates (
+  currency text not null check (currency ~ '^[A-Z]{3}$'),
+  rate_date date not null,
+  rate numeric not null check (rate > 0),
+  source text not null default 'ECB',
+  created_at timestamptz default now(),
+  primary key (currency, rate_date)
+);
+
+alter table public.exchange_rates enable row level security;
+
+create policy "Authenticated users can view exchange rates" on public.exchange_rates for select to authenticated using (true);
+create policy "Authenticated users can import exchange rates" on public.exchange_rates for insert to authenticated with check (true);
+create policy "Authenticated users can update exchange rates" on public.exchange_rates for update to authenticated using (true);
+
+-- Importo originale (total + currency) e controvalore in EUR usato per tutti i totali
+alter table public.expenses
+add column if not exists amount_eur numeric,
+add column if not exists exchange_rate numeric,
+add column if not exists exchange_rate_date date;
+
+-- Ultimo tasso disponibile alla data della spesa (la BCE non pubblica nei festivi e nei weekend).
+-- Oltre 14 giorni di distanza il tasso non viene considerato valido.
+create or replace function public.eur_exchange_rate(p_currency text, p_date date)
+returns table (rate numeric, rate_date date)
+language sql
+stable
+as $$
+  select r.rate, r.rate_date
+  from public.exchange_rates r
+  where r.currency = upper(p_currency)
+    and r.rate_date <= coalesce(p_date, current_date)
+    and r.rate_date > coalesce(p_date, current_date) - 14
+  order by r.rate_date desc
+  limit 1
+$$;
+
+create or replace function public.set_expense_amount_eur()
+returns trigger
+language plpgsql
+as $$
+declare
+  found_rate record;
+begin
+  new.amount_eur := null;
+  new.exchange_rate := null;
+  new.exchange_rate_date := null;
+
+  if new.total is null then
+    return new;
+  end if;
+
+  if coalesce(upper(new.currency), 'EUR') = 'EUR' then
+    new.amount_eur := new.total;
+    new.exchange_rate := 1;
+    return new;
+  end if;
+
+  select * into found_rate from public.eur_exchange_rate(new.currency, new.expense_date);
+  if found then
+    new.amount_eur := round(new.total / found_rate.rate, 2);
+    new.exchange_rate := found_rate.rate;
+    new.exchange_rate_date := found_rate.rate_date;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger set_expenses_amount_eur
+before insert or update of total, currency, expense_date on public.expenses
+for each row
+execute function public.set_expense_amount_eur();
+
+-- Dopo un'importazione di tassi si convertono le spese rimaste senza controvalore (di tutti gli utenti)
+create or replace function public.convert_pending_expenses()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.expenses
+  set currency = upper(currency)
+  where amount_eur is null
+    and total is not null
+    and coalesce(upper(currency), 'EUR') <> 'EUR';
+  return null;
+end;
+$$;
+
+create trigger convert_pending_expenses_after_rates
+after insert or update on public.exchange_rates
+for each statement
+execute function public.convert_pending_expenses();
+
+-- Spese esistenti
+update public.expenses set currency = coalesce(upper(currency), 'EUR');
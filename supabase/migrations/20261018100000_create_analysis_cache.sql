@@ -0,0 +1,27 @@
+-- Cache delle analisi degli scontrini: stessa immagine, stesso modello e stesso prompt
+-- restituiscono la risposta già ottenuta senza richiamare il provider.
+-- Conserva anche la risposta grezza del modello per verificare cosa ha letto.
+create table if not exists public.analysis_cache (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid not null references auth.users on delete cascade,
+  content_hash text not null, -- SHA-256 dei byte delle pagine inviate
+  provider text not null,
+  model text not null,
+  prompt_version text not null,
+  prompt_hash text not null, -- SHA-256 del prompt effettivo (categorie e comune dell'utente inclusi)
+  raw_response text not null,
+  repaired boolean not null default false, -- risposta ottenuta con il tentativo di correzione
+  hits integer not null default 0,
+  created_at timestamptz default now(),
+  last_hit_at timestamptz
+);
+
+create unique index if not exists analysis_cache_lookup_idx
+on public.analysis_cache (user_id, content_hash, provider, model, prompt_hash);
+
+alter table public.analysis_cache enable row level security;
+
+create policy "Users can view own analysis cache" on public.analysis_cache for select using (auth.uid() = user_id);
+create policy "Users can insert own analysis cache" on public.analysis_cache for insert with check (auth.uid() = user_id);
+create policy "Users can update own analysis cache" on public.analysis_cache for update using (auth.uid() = user_id);
+create policy "Users can delete own analysis cache" on public.analysis_cache for delete using (auth.uid() = user_id);
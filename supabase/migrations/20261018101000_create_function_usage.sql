@@ -0,0 +1,56 @@
+-- Utilizzo giornaliero delle Edge Function per utente (giorno UTC), per le quote
+-- di analyze-receipt e send-expense-email. Le righe si scrivono solo tramite consume_function_quota.
+create table if not exists public.function_usage (
+  user_id uuid not null references auth.users on delete cascade,
+  function_name text not null,
+  usage_date date not null default (now() at time zone 'utc')::date,
+  request_count integer not null default 0,
+  updated_at timestamptz default now(),
+  primary key (user_id, function_name, usage_date)
+);
+
+alter table public.function_usage enable row level security;
+
+create policy "Users can view own function usage" on public.function_usage for select using (auth.uid() = user_id);
+
+-- Incrementa il contatore del giorno e restituisce false (senza incrementare) se supererebbe il limite
+create or replace function public.consume_function_quota(p_function text, p_limit integer, p_cost integer default 1)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_count integer;
+begin
+  if auth.uid() is null then
+    return false;
+  end if;
+
+  insert into public.function_usage (user_id, function_name, usage_date, request_count)
+  values (auth.uid(), p_function, (now() at time zone 'utc')::date, 0)
+  on conflict (user_id, function_name, usage_date) do nothing;
+
+  select request_count into current_count
+  from public.function_usage
+  where user_id = auth.uid()
+    and function_name = p_function
+    and usage_date = (now() at time zone 'utc')::date
+  for update;
+
+  if current_count + p_cost > p_limit then
+    return false;
+  end if;
+
+  update public.function_usage
+  set request_count = request_count + p_cost, updated_at = now()
+  where user_id = auth.uid()
+    and function_name = p_function
+    and usage_date = (now() at time zone 'utc')::date;
+
+  return true;
+end;
+$$;
+
+revoke all on function public.consume_function_quota(text, integer, integer) from public, anon;
+grant execute on function public.consume_function_quota(text, integer, integer) to authenticated;
@@ -0,0 +1,6 @@
+-- Provenienza delle coordinate (EXIF della foto o posizione del dispositivo)
+-- e data di scatto letta dall'EXIF
+alter table public.expenses
+add column if not exists location_source text
+  check (location_source in ('exif', 'device')),
+add column if not exists captured_at timestamptz;
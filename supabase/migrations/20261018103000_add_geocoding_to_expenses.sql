@@ -0,0 +1,15 @@
+-- Luogo della spesa risolto dall'indirizzo dello scontrino (src/lib/geocoding.ts):
+-- il comune decide Comune / Oltre Comune, le coordinate servono alla mappa
+-- quando la foto non ha GPS
+alter table public.expenses
+add column if not exists municipality text,
+add column if not exists province text,
+add column if not exists country text;
+
+-- Coordinate ricavate dall'indirizzo
+alter table public.expenses
+drop constraint if exists expenses_location_source_check;
+
+alter table public.expenses
+add constraint expenses_location_source_check
+  check (location_source in ('exif', 'device', 'address'));
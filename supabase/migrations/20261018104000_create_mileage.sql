@@ -0,0 +1,68 @@
+-- Rimborsi chilometrici: viaggi di lavoro con l'auto propria, senza scontrino.
+-- L'importo è km percorsi x costo chilometrico ACI del veicolo.
+
+-- Tabelle ACI dei costi chilometrici (una riga per modello e anno), importate da CSV.
+-- Come i cambi BCE sono dati condivisi tra tutti gli utenti autenticati.
+create table if not exists public.aci_tariffs (
+  id uuid primary key default gen_random_uuid(),
+  year integer not null check (year between 2000 and 2100),
+  brand text not null,
+  model text not null,
+  fuel text,
+  cost_per_km numeric not null check (cost_per_km > 0),
+  source text not null default 'ACI',
+  created_at timestamptz default now()
+);
+
+create unique index if not exists aci_tariffs_year_brand_model_idx
+on public.aci_tariffs (year, brand, model);
+
+alter table public.aci_tariffs enable row level security;
+
+create policy "Authenticated users can view ACI tariffs" on public.aci_tariffs for select to authenticated using (true);
+create policy "Authenticated users can import ACI tariffs" on public.aci_tariffs for insert to authenticated with check (true);
+create policy "Authenticated users can update ACI tariffs" on public.aci_tariffs for update to authenticated using (true);
+
+-- Veicoli dell'utente: il costo al km viene copiato dalla tariffa ACI scelta
+-- (o inserito a mano), così le nuove tabelle non cambiano i rimborsi già registrati
+create table if not exists public.vehicles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  plate text,
+  aci_tariff_id uuid references public.aci_tariffs(id) on delete set null,
+  cost_per_km numeric not null check (cost_per_km > 0),
+  is_default boolean not null default false,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+alter table public.vehicles enable row level security;
+
+create policy "Users can view own vehicles" on public.vehicles for select using (auth.uid() = user_id);
+create policy "Users can insert own vehicles" on public.vehicles for insert with check (auth.uid() = user_id);
+create policy "Users can update own vehicles" on public.vehicles for update using (auth.uid() = user_id);
+create policy "Users can delete own vehicles" on public.vehicles for delete using (auth.uid() = user_id);
+
+create trigger update_vehicles_updated_at
+before update on public.vehicles
+for each row
+execute function public.update_updated_at_column();
+
+-- Tipo di spesa e dati del viaggio
+alter table public.expenses
+add column if not exists expense_type text not null default 'receipt'
+  check (expense_type in ('receipt', 'mileage')),
+add column if not exists origin text,
+add column if not exists destination text,
+add column if not exists distance_km numeric,
+add column if not exists cost_per_km numeric,
+add column if not exists vehicle_id uuid references public.vehicles(id) on delete set null;
+
+alter table public.expenses
+add constraint expenses_mileage_check
+  check (expense_type <> 'mileage' or (distance_km > 0 and cost_per_km > 0));
+
+insert into public.categories (user_id, name, icon, color, parent_group, sort_order) values
+  (null, 'Rimborso Chilometrico', 'car', '#0ea5e9', 'Trasporti', 85)
+on conflict do nothing;
@@ -0,0 +1,48 @@
+-- Indennità di trasferta: la trasferta (partenza, rientro, paese, regime) genera
+-- una spesa "per_diem" per ogni giorno, con la quota imponibile oltre i limiti esenti.
+create table if not exists public.trips (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  destination text,
+  country text not null default 'IT',
+  departure_at timestamptz not null,
+  return_at timestamptz not null,
+  mode text not null default 'forfettario' check (mode in ('forfettario', 'misto')),
+  meals_reimbursed boolean not null default false,
+  lodging_reimbursed boolean not null default false,
+  daily_rate numeric not null check (daily_rate >= 0),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  constraint trips_dates_check check (return_at > departure_at)
+);
+
+alter table public.trips enable row level security;
+
+create policy "Users can view own trips" on public.trips for select using (auth.uid() = user_id);
+create policy "Users can insert own trips" on public.trips for insert with check (auth.uid() = user_id);
+create policy "Users can update own trips" on public.trips for update using (auth.uid() = user_id);
+create policy "Users can delete own trips" on public.trips for delete using (auth.uid() = user_id);
+
+create trigger update_trips_updated_at
+before update on public.trips
+for each row
+execute function public.update_updated_at_column();
+
+-- Righe di diaria: eliminando la trasferta si eliminano anche le sue giornate
+alter table public.expenses
+drop constraint if exists expenses_expense_type_check;
+
+alter table public.expenses
+add constraint expenses_expense_type_check
+  check (expense_type in ('receipt', 'mileage', 'per_diem'));
+
+alter table public.expenses
+add column if not exists trip_id uuid references public.trips(id) on delete cascade,
+add column if not exists taxable_amount numeric,
+add column if not exists per_diem_covers_meals boolean;
+
+create index if not exists expenses_trip_id_idx on public.expenses (trip_id);
+
+insert into public.categories (user_id, name, icon, color, parent_group, sort_order) values
+  (null, 'Indennità di Trasferta', 'luggage', '#14b8a6', 'Trasferta', 95)
+on conflict do nothing;
@@ -0,0 +1,212 @@
+-- Note spese: raggruppano le spese di un periodo o di una trasferta e le inviano in un'unica
+-- email con PDF. Ciclo di vita: draft -> submitted -> approved -> reimbursed
+-- (una nota inviata può tornare in bozza finché non è approvata).
+create table if not exists public.expense_reports (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null,
+  period_start date,
+  period_end date,
+  trip_id uuid references public.trips(id) on delete set null,
+  status text not null default 'draft'
+    check (status in ('draft', 'submitted', 'approved', 'reimbursed')),
+  protocol_year integer,
+  protocol_seq integer,
+  protocol_number text, -- NS-2026-0001, assegnato al primo invio
+  total_eur numeric not null default 0,
+  expense_count integer not null default 0,
+  sent_to_email text,
+  submitted_at timestamptz,
+  approved_at timestamptz,
+  reimbursed_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create unique index if not exists expense_reports_protocol_idx
+on public.expense_reports (user_id, protocol_year, protocol_seq);
+
+alter table public.expense_reports enable row level security;
+
+create policy "Users can view own expense reports" on public.expense_reports for select using (auth.uid() = user_id);
+create policy "Users can insert own expense reports" on public.expense_reports for insert with check (auth.uid() = user_id);
+create policy "Users can update own expense reports" on public.expense_reports for update using (auth.uid() = user_id);
+-- Solo le bozze si possono eliminare: le note inviate restano nel protocollo
+create policy "Users can delete own draft expense reports" on public.expense_reports for delete using (auth.uid() = user_id and status = 'draft');
+
+create trigger update_expense_reports_updated_at
+before update on public.expense_reports
+for each row
+execute function public.update_updated_at_column();
+
+-- Contatore del protocollo per utente e anno (accesso solo dalle funzioni qui sotto)
+create table if not exists public.expense_report_counters (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  year integer not null,
+  last_seq integer not null default 0,
+  primary key (user_id, year)
+);
+
+alter table public.expense_report_counters enable row level security;
+
+alter table public.expenses
+add column if not exists report_id uuid references public.expense_reports(id) on delete set null;
+
+create index if not exists expenses_report_id_idx on public.expenses (report_id);
+
+-- Stato e protocollo non si scrivono a mano: nuove note sempre in bozza, transizioni
+-- controllate, numero progressivo assegnato al primo invio e mantenuto se la nota torna in bozza
+create or replace function public.expense_report_lifecycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  next_seq integer;
+begin
+  if tg_op = 'INSERT' then
+    new.status := 'draft';
+    new.protocol_year := null;
+    new.protocol_seq := null;
+    new.protocol_number := null;
+    new.total_eur := 0;
+    new.expense_count := 0;
+    return new;
+  end if;
+
+  new.protocol_year := old.protocol_year;
+  new.protocol_seq := old.protocol_seq;
+  new.protocol_number := old.protocol_number;
+
+  if new.status = old.status then
+    return new;
+  end if;
+
+  if not (
+    (old.status = 'draft' and new.status = 'submitted')
+    or (old.status = 'submitted' and new.status in ('approved', 'draft'))
+    or (old.status = 'approved' and new.status = 'reimbursed')
+  ) then
+    raise exception 'Transizione non consentita: % -> %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  if new.status = 'submitted' then
+    if old.expense_count = 0 then
+      raise exception 'La nota spese non contiene spese' using errcode = 'check_violation';
+    end if;
+    new.submitted_at := now();
+    if old.protocol_number is null then
+      new.protocol_year := extract(year from now())::integer;
+      insert into public.expense_report_counters (user_id, year, last_seq)
+      values (new.user_id, new.protocol_year, 1)
+      on conflict (user_id, year) do update set last_seq = expense_report_counters.last_seq + 1
+      returning last_seq into next_seq;
+      new.protocol_seq := next_seq;
+      new.protocol_number := 'NS-' || new.protocol_year || '-' || lpad(next_seq::text, 4, '0');
+    end if;
+  elsif new.status = 'approved' then
+    new.approved_at := now();
+  elsif new.status = 'reimbursed' then
+    new.reimbursed_at := now();
+  elsif new.status = 'draft' then
+    new.submitted_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger expense_report_lifecycle
+before insert or update on public.expense_reports
+for each row
+execute function public.expense_report_lifecycle();
+
+-- Totali in EUR (controvalore BCE per le valute estere) e numero di spese
+create or replace function public.refresh_expense_report_totals(p_report_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.expense_reports r
+  set
+    total_eur = coalesce((
+      select sum(coalesce(e.amount_eur, case when e.currency = 'EUR' then e.total end, 0))
+      from public.expenses e
+      where e.report_id = p_report_id and e.deleted_at is null
+    ), 0),
+    expense_count = (
+      select count(*)
+      from public.expenses e
+      where e.report_id = p_report_id and e.deleted_at is null
+    )
+  where r.id = p_report_id;
+$$;
+
+-- Le spese di una nota inviata sono bloccate: niente modifiche, spostamenti o eliminazioni
+create or replace function public.expenses_report_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  report_status text;
+begin
+  if tg_op <> 'INSERT' and old.report_id is not null then
+    select status into report_status from public.expense_reports where id = old.report_id;
+    -- Nota già eliminata (on delete set null): nessun blocco
+    if report_status is not null and report_status <> 'draft' then
+      raise exception 'Spesa bloccata: la nota spese è già stata inviata'
+        using errcode = 'check_violation';
+    end if;
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+
+  if new.report_id is not null then
+    select status into report_status from public.expense_reports where id = new.report_id;
+    if report_status <> 'draft' then
+      raise exception 'La nota spese è già stata inviata' using errcode = 'check_violation';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger expenses_report_lock
+before insert or update or delete on public.expenses
+for each row
+execute function public.expenses_report_lock();
+
+create or replace function public.expenses_report_totals()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op <> 'INSERT' and old.report_id is not null then
+    perform public.refresh_expense_report_totals(old.report_id);
+  end if;
+  if tg_op <> 'DELETE' and new.report_id is not null then
+    if tg_op = 'INSERT' or new.report_id is distinct from old.report_id
+       or new.total is distinct from old.total
+       or new.amount_eur is distinct from old.amount_eur
+       or new.deleted_at is distinct from old.deleted_at then
+      perform public.refresh_expense_report_totals(new.report_id);
+    end if;
+  end if;
+  return null;
+end;
+$$;
+
+create trigger expenses_report_totals
+after insert or update or delete on public.expenses
+for each row
+execute function public.expenses_report_totals();
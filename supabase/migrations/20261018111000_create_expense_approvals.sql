@@ -0,0 +1,255 @@
+-- Approvazioni: chi riceve le note spese di un collega (profiles.default_emails) e ha un account
+-- è il suo approvatore. Decide spesa per spesa (approva, rifiuta, chiede modifiche) e ogni
+-- decisione resta nello storico expense_approvals.
+alter table public.expenses
+add column if not exists approval_status text
+  check (approval_status in ('pending', 'approved', 'rejected', 'changes_requested'));
+
+create table if not exists public.expense_approvals (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references public.expenses(id) on delete cascade,
+  report_id uuid references public.expense_reports(id) on delete set null,
+  approver_id uuid not null references auth.users(id) on delete cascade,
+  decision text not null check (decision in ('approved', 'rejected', 'changes_requested')),
+  comment text,
+  created_at timestamptz default now()
+);
+
+create index if not exists expense_approvals_expense_idx
+on public.expense_approvals (expense_id, created_at desc);
+
+alter table public.expense_approvals enable row level security;
+
+-- Storico in sola lettura: si scrive solo tramite decide_expense
+create policy "Users can view approvals of own expenses" on public.expense_approvals for select
+using (exists (select 1 from public.expenses e where e.id = expense_id and e.user_id = auth.uid()));
+create policy "Approvers can view own decisions" on public.expense_approvals for select
+using (approver_id = auth.uid());
+
+-- L'utente corrente approva le spese di p_user_id (mai le proprie)
+create or replace function public.is_approver_of(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_user_id <> auth.uid() and exists (
+    select 1
+    from public.profiles p, unnest(p.default_emails) as recipient
+    where p.user_id = p_user_id
+      and lower(recipient) = lower(auth.email())
+  );
+$$;
+
+-- Lo stato di approvazione cambia solo con una decisione (o con i trigger qui sotto);
+-- togliere la spesa dalla nota lo azzera, modificarla dopo la decisione la rimette in attesa
+create or replace function public.expenses_approval_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.approval_status is distinct from old.approval_status
+     and coalesce(current_setting('app.approval_decision', true), '') <> 'on' then
+    raise exception 'Lo stato di approvazione lo decide l''approvatore'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if new.report_id is distinct from old.report_id then
+    new.approval_status := null;
+  elsif old.approval_status in ('approved', 'changes_requested')
+        and (to_jsonb(new) - 'approval_status' - 'updated_at') <> (to_jsonb(old) - 'approval_status' - 'updated_at') then
+    new.approval_status := 'pending';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger expenses_approval_guard
+before update on public.expenses
+for each row
+execute function public.expenses_approval_guard();
+
+-- Le spese di una nota inviata restano bloccate, tranne che per lo stato di approvazione
+create or replace function public.expenses_report_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  report_status text;
+begin
+  if tg_op = 'UPDATE'
+     and (to_jsonb(new) - 'approval_status' - 'updated_at') = (to_jsonb(old) - 'approval_status' - 'updated_at') then
+    return new;
+  end if;
+
+  if tg_op <> 'INSERT' and old.report_id is not null then
+    select status into report_status from public.expense_reports where id = old.report_id;
+    -- Nota già eliminata (on delete set null): nessun blocco
+    if report_status is not null and report_status <> 'draft' then
+      raise exception 'Spesa bloccata: la nota spese è già stata inviata'
+        using errcode = 'check_violation';
+    end if;
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+
+  if new.report_id is not null then
+    select status into report_status from public.expense_reports where id = new.report_id;
+    if report_status <> 'draft' then
+      raise exception 'La nota spese è già stata inviata' using errcode = 'check_violation';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- All'invio le spese senza decisione (o con modifiche richieste) tornano in attesa;
+-- le spese rifiutate vanno tolte dalla nota prima di inviarla di nuovo
+create or replace function public.expense_report_approvals()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status = 'draft' and new.status = 'submitted' then
+    if exists (
+      select 1 from public.expenses
+      where report_id = new.id and deleted_at is null and approval_status = 'rejected'
+    ) then
+      raise exception 'Togli dalla nota le spese rifiutate prima di inviarla'
+        using errcode = 'check_violation';
+    end if;
+
+    perform set_config('app.approval_decision', 'on', true);
+    update public.expenses
+    set approval_status = 'pending'
+    where report_id = new.id
+      and deleted_at is null
+      and (approval_status is null or approval_status = 'changes_requested');
+    perform set_config('app.approval_decision', 'off', true);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger expense_report_approvals
+after update on public.expense_reports
+for each row
+execute function public.expense_report_approvals();
+
+-- Inbox dell'approvatore: spese delle note inviate dai colleghi che lo indicano come destinatario
+create or replace function public.approval_inbox()
+returns table (
+  expense_id uuid,
+  user_id uuid,
+  submitter_name text,
+  report_id uuid,
+  report_title text,
+  protocol_number text,
+  submitted_at timestamptz,
+  merchant text,
+  expense_date date,
+  total numeric,
+  currency text,
+  amount_eur numeric,
+  category text,
+  expense_type text,
+  image_url text,
+  document_url text,
+  approval_status text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    e.id,
+    e.user_id,
+    coalesce(p.display_name, u.email::text),
+    r.id,
+    r.title,
+    r.protocol_number,
+    r.submitted_at,
+    e.merchant,
+    e.expense_date,
+    e.total,
+    e.currency,
+    e.amount_eur,
+    e.category,
+    e.expense_type,
+    e.image_url,
+    e.document_url,
+    coalesce(e.approval_status, 'pending')
+  from public.expense_reports r
+  join public.expenses e on e.report_id = r.id and e.deleted_at is null
+  left join public.profiles p on p.user_id = r.user_id
+  left join auth.users u on u.id = r.user_id
+  where r.status = 'submitted'
+    and public.is_approver_of(r.user_id)
+  order by r.submitted_at, e.expense_date;
+$$;
+
+-- Decisione su una spesa. Quando tutte le spese della nota hanno una decisione la nota avanza:
+-- approvata se sono tutte approvate, altrimenti torna in bozza al richiedente
+create or replace function public.decide_expense(p_expense_id uuid, p_decision text, p_comment text default null)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expense public.expenses;
+  v_report_status text;
+  v_open integer;
+  v_negative integer;
+  v_next_status text;
+begin
+  if p_decision not in ('approved', 'rejected', 'changes_requested') then
+    raise exception 'Decisione non valida: %', p_decision using errcode = 'check_violation';
+  end if;
+  if p_decision <> 'approved' and coalesce(btrim(p_comment), '') = '' then
+    raise exception 'Scrivi un commento per rifiutare o chiedere modifiche' using errcode = 'check_violation';
+  end if;
+
+  select * into v_expense from public.expenses where id = p_expense_id and deleted_at is null;
+  if not found or v_expense.report_id is null or not public.is_approver_of(v_expense.user_id) then
+    raise exception 'Spesa non trovata' using errcode = 'insufficient_privilege';
+  end if;
+
+  select status into v_report_status from public.expense_reports where id = v_expense.report_id;
+  if v_report_status <> 'submitted' then
+    raise exception 'La nota spese non è in approvazione' using errcode = 'check_violation';
+  end if;
+
+  insert into public.expense_approvals (expense_id, report_id, approver_id, decision, comment)
+  values (p_expense_id, v_expense.report_id, auth.uid(), p_decision, nullif(btrim(p_comment), ''));
+
+  perform set_config('app.approval_decision', 'on', true);
+  update public.expenses set approval_status = p_decision where id = p_expense_id;
+  perform set_config('app.approval_decision', 'off', true);
+
+  select
+    count(*) filter (where coalesce(approval_status, 'pending') = 'pending'),
+    count(*) filter (where approval_status in ('rejected', 'changes_requested'))
+  into v_open, v_negative
+  from public.expenses
+  where report_id = v_expense.report_id and deleted_at is null;
+
+  v_next_status := v_report_status;
+  if v_open = 0 then
+    v_next_status := case when v_negative = 0 then 'approved' else 'draft' end;
+    update public.expense_reports set status = v_next_status where id = v_expense.report_id;
+  end if;
+
+  return v_next_status;
+end;
+$$;
@@ -0,0 +1,386 @@
+-- Organizzazioni: più utenti condividono note spese e approvazioni. Ogni membro ha un ruolo:
+--   member      vede solo le proprie spese
+--   approver    vede le spese del team e le approva
+--   accountant  vede le spese del team e segna le note come rimborsate
+--   admin       tutto quanto sopra, più gestione di membri e inviti
+-- Le spese restano dell'utente che le crea; organization_id indica il team con cui sono condivise.
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (btrim(name) <> ''),
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.memberships (
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null default 'member'
+    check (role in ('member', 'approver', 'accountant', 'admin')),
+  created_at timestamptz default now(),
+  primary key (organization_id, user_id)
+);
+
+create index if not exists memberships_user_idx on public.memberships (user_id);
+
+create table if not exists public.invitations (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  email text not null,
+  role text not null default 'member'
+    check (role in ('member', 'approver', 'accountant', 'admin')),
+  token uuid not null unique default gen_random_uuid(),
+  invited_by uuid references auth.users(id) on delete set null,
+  accepted_at timestamptz,
+  expires_at timestamptz not null default now() + interval '14 days',
+  created_at timestamptz default now()
+);
+
+-- Un solo invito aperto per indirizzo e organizzazione
+create unique index if not exists invitations_open_email_idx
+on public.invitations (organization_id, lower(email))
+where accepted_at is null;
+
+create trigger update_organizations_updated_at
+before update on public.organizations
+for each row
+execute function public.update_updated_at_column();
+
+alter table public.profiles
+add column if not exists current_organization_id uuid references public.organizations(id) on delete set null;
+
+alter table public.expenses
+add column if not exists organization_id uuid references public.organizations(id) on delete set null;
+
+alter table public.expense_reports
+add column if not exists organization_id uuid references public.organizations(id) on delete set null;
+
+create index if not exists expenses_organization_idx on public.expenses (organization_id);
+create index if not exists expense_reports_organization_idx on public.expense_reports (organization_id);
+
+-- Ruolo dell'utente corrente nell'organizzazione (security definer: le policy di memberships
+-- la usano a loro volta e non devono richiamarsi)
+create or replace function public.has_org_role(p_organization_id uuid, p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_organization_id is not null and exists (
+    select 1 from public.memberships
+    where organization_id = p_organization_id
+      and user_id = auth.uid()
+      and role = any (p_roles)
+  );
+$$;
+
+-- L'utente corrente e p_user_id fanno parte della stessa organizzazione
+create or replace function public.shares_organization(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.memberships mine
+    join public.memberships theirs on theirs.organization_id = mine.organization_id
+    where mine.user_id = auth.uid() and theirs.user_id = p_user_id
+  );
+$$;
+
+-- Approvatore: indicato tra i destinatari (come prima) oppure approver/admin di
+-- un'organizzazione di cui p_user_id è membro
+create or replace function public.is_approver_of(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_user_id <> auth.uid() and (
+    exists (
+      select 1
+      from public.profiles p, unnest(p.default_emails) as recipient
+      where p.user_id = p_user_id
+        and lower(recipient) = lower(auth.email())
+    )
+    or exists (
+      select 1
+      from public.memberships mine
+      join public.memberships theirs on theirs.organization_id = mine.organization_id
+      where mine.user_id = auth.uid()
+        and mine.role in ('approver', 'admin')
+        and theirs.user_id = p_user_id
+    )
+  );
+$$;
+
+-- Spese e note nuove prendono l'organizzazione attiva del profilo
+create or replace function public.stamp_organization_id()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.organization_id is null then
+    select current_organization_id into new.organization_id
+    from public.profiles
+    where user_id = new.user_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger expenses_stamp_organization
+before insert on public.expenses
+for each row
+execute function public.stamp_organization_id();
+
+create trigger expense_reports_stamp_organization
+before insert on public.expense_reports
+for each row
+execute function public.stamp_organization_id();
+
+-- L'organizzazione attiva deve essere una di cui si è membri
+create or replace function public.profiles_check_organization()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.current_organization_id is not null
+     and new.current_organization_id is distinct from old.current_organization_id
+     and not exists (
+       select 1 from public.memberships
+       where organization_id = new.current_organization_id and user_id = new.user_id
+     ) then
+    raise exception 'Non fai parte di questa organizzazione' using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger profiles_check_organization
+before update on public.profiles
+for each row
+execute function public.profiles_check_organization();
+
+-- Ogni organizzazione conserva almeno un amministratore; chi esce perde l'organizzazione attiva
+create or replace function public.memberships_guard()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.role = 'admin'
+     and (tg_op = 'DELETE' or new.role <> 'admin')
+     and not exists (
+       select 1 from public.memberships
+       where organization_id = old.organization_id and role = 'admin' and user_id <> old.user_id
+     )
+     -- Eliminando l'organizzazione i membri vanno via tutti insieme
+     and exists (select 1 from public.organizations where id = old.organization_id) then
+    raise exception 'L''organizzazione deve avere almeno un amministratore' using errcode = 'check_violation';
+  end if;
+
+  if tg_op = 'DELETE' then
+    update public.profiles
+    set current_organization_id = null
+    where user_id = old.user_id and current_organization_id = old.organization_id;
+    return old;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger memberships_guard
+before update or delete on public.memberships
+for each row
+execute function public.memberships_guard();
+
+-- Crea l'organizzazione con l'utente corrente come amministratore e la rende attiva
+create or replace function public.create_organization(p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_organization_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Accesso richiesto' using errcode = 'insufficient_privilege';
+  end if;
+  if coalesce(btrim(p_name), '') = '' then
+    raise exception 'Indica un nome per l''organizzazione' using errcode = 'check_violation';
+  end if;
+
+  insert into public.organizations (name, created_by)
+  values (btrim(p_name), auth.uid())
+  returning id into v_organization_id;
+
+  insert into public.memberships (organization_id, user_id, role)
+  values (v_organization_id, auth.uid(), 'admin');
+
+  update public.profiles set current_organization_id = v_organization_id where user_id = auth.uid();
+
+  return v_organization_id;
+end;
+$$;
+
+-- Accetta un invito indirizzato all'email dell'utente corrente
+create or replace function public.accept_invitation(p_token uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation public.invitations;
+begin
+  select * into v_invitation from public.invitations where token = p_token;
+  if not found or lower(v_invitation.email) <> lower(auth.email()) then
+    raise exception 'Invito non trovato' using errcode = 'insufficient_privilege';
+  end if;
+  if v_invitation.accepted_at is not null then
+    raise exception 'Invito già utilizzato' using errcode = 'check_violation';
+  end if;
+  if v_invitation.expires_at < now() then
+    raise exception 'Invito scaduto' using errcode = 'check_violation';
+  end if;
+
+  insert into public.memberships (organization_id, user_id, role)
+  values (v_invitation.organization_id, auth.uid(), v_invitation.role)
+  on conflict (organization_id, user_id) do nothing;
+
+  update public.invitations set accepted_at = now() where id = v_invitation.id;
+
+  update public.profiles
+  set current_organization_id = v_invitation.organization_id
+  where user_id = auth.uid() and current_organization_id is null;
+
+  return v_invitation.organization_id;
+end;
+$$;
+
+-- Policy ----------------------------------------------------------------------------------
+
+alter table public.organizations enable row level security;
+alter table public.memberships enable row level security;
+alter table public.invitations enable row level security;
+
+create policy "Members can view their organizations" on public.organizations for select
+using (public.has_org_role(id, array['member', 'approver', 'accountant', 'admin']));
+-- Chi ha un invito aperto vede il nome dell'organizzazione che lo invita
+create policy "Invitees can view inviting organizations" on public.organizations for select
+using (exists (
+  select 1 from public.invitations i
+  where i.organization_id = organizations.id
+    and i.accepted_at is null
+    and lower(i.email) = lower(auth.email())
+));
+create policy "Admins can update their organizations" on public.organizations for update
+using (public.has_org_role(id, array['admin']));
+create policy "Admins can delete their organizations" on public.organizations for delete
+using (public.has_org_role(id, array['admin']));
+
+create policy "Members can view memberships of their organizations" on public.memberships for select
+using (public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin']));
+create policy "Admins can update memberships" on public.memberships for update
+using (public.has_org_role(organization_id, array['admin']))
+with check (public.has_org_role(organization_id, array['admin']));
+create policy "Admins can remove members and members can leave" on public.memberships for delete
+using (user_id = auth.uid() or public.has_org_role(organization_id, array['admin']));
+
+create policy "Admins and invitees can view invitations" on public.invitations for select
+using (public.has_org_role(organization_id, array['admin']) or lower(email) = lower(auth.email()));
+create policy "Admins can create invitations" on public.invitations for insert
+with check (public.has_org_role(organization_id, array['admin']) and invited_by = auth.uid());
+create policy "Admins can revoke invitations" on public.invitations for delete
+using (public.has_org_role(organization_id, array['admin']));
+
+-- Spese: le proprie sempre; approvatori, contabili e amministratori vedono quelle condivise
+-- con l'organizzazione, contabili e amministratori possono correggerle
+drop policy if exists "Users can view their own expenses" on public.expenses;
+drop policy if exists "Users can insert their own expenses" on public.expenses;
+drop policy if exists "Users can update their own expenses" on public.expenses;
+drop policy if exists "Users can delete their own expenses" on public.expenses;
+drop policy if exists "Users can view own expenses" on public.expenses;
+drop policy if exists "Users can insert own expenses" on public.expenses;
+drop policy if exists "Users can update own expenses" on public.expenses;
+drop policy if exists "Users can delete own expenses" on public.expenses;
+
+create policy "Users and their organization can view expenses" on public.expenses for select
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['approver', 'accountant', 'admin']));
+create policy "Users can insert own expenses" on public.expenses for insert
+with check (
+  auth.uid() = user_id
+  and (organization_id is null or public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin']))
+);
+create policy "Users and accountants can update expenses" on public.expenses for update
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['accountant', 'admin']))
+with check (auth.uid() = user_id or public.has_org_role(organization_id, array['accountant', 'admin']));
+create policy "Users can delete own expenses" on public.expenses for delete
+using (auth.uid() = user_id);
+
+-- Note spese: stesso schema; il rimborso lo segna la contabilità
+drop policy if exists "Users can view own expense reports" on public.expense_reports;
+drop policy if exists "Users can insert own expense reports" on public.expense_reports;
+drop policy if exists "Users can update own expense reports" on public.expense_reports;
+
+create policy "Users and their organization can view expense reports" on public.expense_reports for select
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['approver', 'accountant', 'admin']));
+create policy "Users can insert own expense reports" on public.expense_reports for insert
+with check (
+  auth.uid() = user_id
+  and (organization_id is null or public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin']))
+);
+create policy "Users and accountants can update expense reports" on public.expense_reports for update
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['accountant', 'admin']))
+with check (auth.uid() = user_id or public.has_org_role(organization_id, array['accountant', 'admin']));
+
+-- Storico approvazioni visibile a chi vede la spesa per conto dell'organizzazione
+create policy "Organization can view approvals" on public.expense_approvals for select
+using (exists (
+  select 1 from public.expenses e
+  where e.id = expense_id
+    and public.has_org_role(e.organization_id, array['approver', 'accountant', 'admin'])
+));
+
+-- Profili: i colleghi vedono nome e destinatari (servono a elenchi membri e inbox)
+drop policy if exists "Users can view their own profile" on public.profiles;
+drop policy if exists "Users can view own profile" on public.profiles;
+drop policy if exists "Users can view their own profile." on public.profiles;
+
+create policy "Users and colleagues can view profiles" on public.profiles for select
+using (auth.uid() = id or auth.uid() = user_id or public.shares_organization(user_id));
+
+-- Elenco membri con nome ed email (auth.users non è leggibile dal client)
+create or replace function public.organization_members(p_organization_id uuid)
+returns table (
+  user_id uuid,
+  role text,
+  display_name text,
+  email text,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.user_id, m.role, p.display_name, u.email::text, m.created_at
+  from public.memberships m
+  left join public.profiles p on p.user_id = m.user_id
+  left join auth.users u on u.id = m.user_id
+  where m.organization_id = p_organization_id
+    and public.has_org_role(p_organization_id, array['member', 'approver', 'accountant', 'admin'])
+  order by m.created_at;
+$$;
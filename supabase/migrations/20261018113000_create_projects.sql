@@ -0,0 +1,113 @@
+-- Progetti, centri di costo e clienti: le trasferte si rifatturano al cliente, quindi ogni spesa
+-- può indicare il progetto (e con esso cliente e centro di costo). Le anagrafiche create con
+-- un'organizzazione attiva sono condivise con i suoi membri.
+create table if not exists public.clients (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  organization_id uuid references public.organizations(id) on delete cascade,
+  name text not null check (btrim(name) <> ''),
+  vat_number text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.cost_centers (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  organization_id uuid references public.organizations(id) on delete cascade,
+  code text not null check (btrim(code) <> ''),
+  name text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.projects (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  organization_id uuid references public.organizations(id) on delete cascade,
+  name text not null check (btrim(name) <> ''),
+  code text,
+  client_id uuid references public.clients(id) on delete set null,
+  cost_center_id uuid references public.cost_centers(id) on delete set null,
+  archived boolean not null default false,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists clients_organization_idx on public.clients (organization_id);
+create index if not exists cost_centers_organization_idx on public.cost_centers (organization_id);
+create index if not exists projects_organization_idx on public.projects (organization_id);
+
+alter table public.expenses
+add column if not exists project_id uuid references public.projects(id) on delete set null,
+add column if not exists cost_center_id uuid references public.cost_centers(id) on delete set null,
+add column if not exists client_id uuid references public.clients(id) on delete set null;
+
+create index if not exists expenses_project_idx on public.expenses (project_id);
+
+-- Progetto proposto per le nuove spese
+alter table public.profiles
+add column if not exists default_project_id uuid references public.projects(id) on delete set null;
+
+create trigger update_clients_updated_at
+before update on public.clients
+for each row
+execute function public.update_updated_at_column();
+
+create trigger update_cost_centers_updated_at
+before update on public.cost_centers
+for each row
+execute function public.update_updated_at_column();
+
+create trigger update_projects_updated_at
+before update on public.projects
+for each row
+execute function public.update_updated_at_column();
+
+create trigger clients_stamp_organization
+before insert on public.clients
+for each row
+execute function public.stamp_organization_id();
+
+create trigger cost_centers_stamp_organization
+before insert on public.cost_centers
+for each row
+execute function public.stamp_organization_id();
+
+create trigger projects_stamp_organization
+before insert on public.projects
+for each row
+execute function public.stamp_organization_id();
+
+alter table public.clients enable row level security;
+alter table public.cost_centers enable row level security;
+alter table public.projects enable row level security;
+
+-- Stesse regole per le tre anagrafiche: le vedono il proprietario e i membri dell'organizzazione,
+-- le modificano il proprietario e gli amministratori
+create policy "Users and their organization can view clients" on public.clients for select
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin']));
+create policy "Users can insert own clients" on public.clients for insert
+with check (auth.uid() = user_id and (organization_id is null or public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin'])));
+create policy "Users and admins can update clients" on public.clients for update
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['admin']));
+create policy "Users and admins can delete clients" on public.clients for delete
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['admin']));
+
+create policy "Users and their organization can view cost centers" on public.cost_centers for select
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin']));
+create policy "Users can insert own cost centers" on public.cost_centers for insert
+with check (auth.uid() = user_id and (organization_id is null or public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin'])));
+create policy "Users and admins can update cost centers" on public.cost_centers for update
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['admin']));
+create policy "Users and admins can delete cost centers" on public.cost_centers for delete
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['admin']));
+
+create policy "Users and their organization can view projects" on public.projects for select
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin']));
+create policy "Users can insert own projects" on public.projects for insert
+with check (auth.uid() = user_id and (organization_id is null or public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin'])));
+create policy "Users and admins can update projects" on public.projects for update
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['admin']));
+create policy "Users and admins can delete projects" on public.projects for delete
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['admin']));
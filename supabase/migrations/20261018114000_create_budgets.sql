@@ -0,0 +1,86 @@
+-- Budget mensili o annuali: complessivi, per categoria o per progetto. I budget personali
+-- contano le spese dell'utente; quelli dell'organizzazione (creati dagli amministratori)
+-- contano le spese condivise da tutti i membri.
+create table if not exists public.budgets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  organization_id uuid references public.organizations(id) on delete cascade,
+  period text not null default 'monthly' check (period in ('monthly', 'annual')),
+  category text, -- nome della categoria (come expenses.category)
+  project_id uuid references public.projects(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (category is null or project_id is null)
+);
+
+-- Un solo budget per ambito e periodo
+create unique index if not exists budgets_scope_idx
+on public.budgets (
+  coalesce(organization_id, user_id),
+  period,
+  coalesce(lower(category), ''),
+  coalesce(project_id, '00000000-0000-0000-0000-000000000000'::uuid)
+);
+
+alter table public.budgets enable row level security;
+
+create policy "Users and their organization can view budgets" on public.budgets for select
+using (auth.uid() = user_id or public.has_org_role(organization_id, array['member', 'approver', 'accountant', 'admin']));
+create policy "Users and admins can insert budgets" on public.budgets for insert
+with check (auth.uid() = user_id and (organization_id is null or public.has_org_role(organization_id, array['admin'])));
+create policy "Users and admins can update budgets" on public.budgets for update
+using (
+  (auth.uid() = user_id and organization_id is null)
+  or public.has_org_role(organization_id, array['admin'])
+);
+create policy "Users and admins can delete budgets" on public.budgets for delete
+using (
+  (auth.uid() = user_id and organization_id is null)
+  or public.has_org_role(organization_id, array['admin'])
+);
+
+create trigger update_budgets_updated_at
+before update on public.budgets
+for each row
+execute function public.update_updated_at_column();
+
+-- Speso nel periodo che contiene p_date per ogni budget visibile (mese o anno solare).
+-- Security definer: i budget dell'organizzazione sommano anche spese che il membro non vede.
+create or replace function public.budget_status(p_date date default current_date)
+returns table (
+  budget_id uuid,
+  period_start date,
+  period_end date,
+  spent numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    b.id,
+    bounds.period_start,
+    bounds.period_end,
+    coalesce((
+      select sum(coalesce(e.amount_eur, case when upper(coalesce(e.currency, 'EUR')) = 'EUR' then e.total end))
+      from public.expenses e
+      where e.deleted_at is null
+        and e.expense_date between bounds.period_start and bounds.period_end
+        and (case when b.organization_id is null then e.user_id = b.user_id else e.organization_id = b.organization_id end)
+        and (b.category is null or lower(e.category) = lower(b.category))
+        and (b.project_id is null or e.project_id = b.project_id)
+    ), 0)
+  from public.budgets b
+  cross join lateral (
+    select
+      start_date as period_start,
+      (start_date + case when b.period = 'monthly' then interval '1 month' else interval '1 year' end - interval '1 day')::date as period_end
+    from (
+      select date_trunc(case when b.period = 'monthly' then 'month' else 'year' end, p_date)::date as start_date
+    ) s
+  ) bounds
+  where b.user_id = auth.uid()
+     or public.has_org_role(b.organization_id, array['member', 'approver', 'accountant', 'admin']);
+$$;
@@ -0,0 +1,32 @@
+-- Totali per categoria del mese richiesto, del mese precedente e dello stesso mese
+-- dell'anno prima, per il trend del report mensile. Solo le spese dell'utente, in EUR
+-- (controvalore BCE; le spese in valuta senza cambio restano fuori come nei totali dell'app).
+create or replace function public.category_month_totals(p_month date default current_date)
+returns table (
+  period text, -- 'current' | 'previous' | 'last_year'
+  category text,
+  total numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  with periods (period, period_start) as (
+    values
+      ('current', date_trunc('month', p_month)::date),
+      ('previous', (date_trunc('month', p_month) - interval '1 month')::date),
+      ('last_year', (date_trunc('month', p_month) - interval '1 year')::date)
+  )
+  select
+    p.period,
+    coalesce(e.category, 'Altro'),
+    sum(coalesce(e.amount_eur, case when upper(coalesce(e.currency, 'EUR')) = 'EUR' then e.total end))
+  from periods p
+  join public.expenses e
+    on e.expense_date >= p.period_start
+   and e.expense_date < (p.period_start + interval '1 month')::date
+  where e.user_id = auth.uid()
+    and e.deleted_at is null
+  group by p.period, coalesce(e.category, 'Altro')
+  having sum(coalesce(e.amount_eur, case when upper(coalesce(e.currency, 'EUR')) = 'EUR' then e.total end)) is not null;
+$$;
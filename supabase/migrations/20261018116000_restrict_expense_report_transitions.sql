@@ -0,0 +1,134 @@
+-- Chi può cambiare lo stato di una nota spese: il richiedente la invia; approvazione e
+-- ritorno in bozza arrivano solo dalle decisioni dell'approvatore (decide_expense);
+-- il rimborso lo segnano contabili e amministratori dell'organizzazione.
+create or replace function public.expense_report_lifecycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  next_seq integer;
+  from_approval boolean := coalesce(current_setting('app.approval_decision', true), '') = 'on';
+begin
+  if tg_op = 'INSERT' then
+    new.status := 'draft';
+    new.protocol_year := null;
+    new.protocol_seq := null;
+    new.protocol_number := null;
+    new.total_eur := 0;
+    new.expense_count := 0;
+    return new;
+  end if;
+
+  new.protocol_year := old.protocol_year;
+  new.protocol_seq := old.protocol_seq;
+  new.protocol_number := old.protocol_number;
+
+  if new.status = old.status then
+    return new;
+  end if;
+
+  if not (
+    (old.status = 'draft' and new.status = 'submitted')
+    or (old.status = 'submitted' and new.status in ('approved', 'draft'))
+    or (old.status = 'approved' and new.status = 'reimbursed')
+  ) then
+    raise exception 'Transizione non consentita: % -> %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  if new.status = 'submitted' and auth.uid() is distinct from old.user_id then
+    raise exception 'Solo il richiedente può inviare la nota spese'
+      using errcode = 'insufficient_privilege';
+  end if;
+  if old.status = 'submitted' and not from_approval then
+    raise exception 'La nota spese la approva o la rimanda in bozza l''approvatore, spesa per spesa'
+      using errcode = 'insufficient_privilege';
+  end if;
+  if new.status = 'reimbursed' and not public.has_org_role(old.organization_id, array['accountant', 'admin']) then
+    raise exception 'Il rimborso lo segna la contabilità dell''organizzazione'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if new.status = 'submitted' then
+    if old.expense_count = 0 then
+      raise exception 'La nota spese non contiene spese' using errcode = 'check_violation';
+    end if;
+    new.submitted_at := now();
+    if old.protocol_number is null then
+      new.protocol_year := extract(year from now())::integer;
+      insert into public.expense_report_counters (user_id, year, last_seq)
+      values (new.user_id, new.protocol_year, 1)
+      on conflict (user_id, year) do update set last_seq = expense_report_counters.last_seq + 1
+      returning last_seq into next_seq;
+      new.protocol_seq := next_seq;
+      new.protocol_number := 'NS-' || new.protocol_year || '-' || lpad(next_seq::text, 4, '0');
+    end if;
+  elsif new.status = 'approved' then
+    new.approved_at := now();
+  elsif new.status = 'reimbursed' then
+    new.reimbursed_at := now();
+  elsif new.status = 'draft' then
+    new.submitted_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Come prima, ma l'avanzamento della nota avviene dentro la decisione (app.approval_decision),
+-- l'unico modo per approvarla o rimandarla in bozza
+create or replace function public.decide_expense(p_expense_id uuid, p_decision text, p_comment text default null)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expense public.expenses;
+  v_report_status text;
+  v_open integer;
+  v_negative integer;
+  v_next_status text;
+begin
+  if p_decision not in ('approved', 'rejected', 'changes_requested') then
+    raise exception 'Decisione non valida: %', p_decision using errcode = 'check_violation';
+  end if;
+  if p_decision <> 'approved' and coalesce(btrim(p_comment), '') = '' then
+    raise exception 'Scrivi un commento per rifiutare o chiedere modifiche' using errcode = 'check_violation';
+  end if;
+
+  select * into v_expense from public.expenses where id = p_expense_id and deleted_at is null;
+  if not found or v_expense.report_id is null or not public.is_approver_of(v_expense.user_id) then
+    raise exception 'Spesa non trovata' using errcode = 'insufficient_privilege';
+  end if;
+
+  select status into v_report_status from public.expense_reports where id = v_expense.report_id;
+  if v_report_status <> 'submitted' then
+    raise exception 'La nota spese non è in approvazione' using errcode = 'check_violation';
+  end if;
+
+  insert into public.expense_approvals (expense_id, report_id, approver_id, decision, comment)
+  values (p_expense_id, v_expense.report_id, auth.uid(), p_decision, nullif(btrim(p_comment), ''));
+
+  perform set_config('app.approval_decision', 'on', true);
+  update public.expenses set approval_status = p_decision where id = p_expense_id;
+
+  select
+    count(*) filter (where coalesce(approval_status, 'pending') = 'pending'),
+    count(*) filter (where approval_status in ('rejected', 'changes_requested'))
+  into v_open, v_negative
+  from public.expenses
+  where report_id = v_expense.report_id and deleted_at is null;
+
+  v_next_status := v_report_status;
+  if v_open = 0 then
+    v_next_status := case when v_negative = 0 then 'approved' else 'draft' end;
+    update public.expense_reports set status = v_next_status where id = v_expense.report_id;
+  end if;
+  perform set_config('app.approval_decision', 'off', true);
+
+  return v_next_status;
+end;
+$$;
@@ -0,0 +1,4 @@
+-- Le spese si inviano con la nota spese: l'email a ogni spesa salvata (e il riepilogo
+-- dell'acquisizione multipla) parte solo se l'utente la richiede
+alter table public.profiles
+add column if not exists email_each_expense boolean not null default false;
@@ -0,0 +1,84 @@
+-- Il controvalore in EUR lo calcola il database (set_expense_amount_eur, anche dopo ogni
+-- importazione di tassi con convert_pending_expenses, per le spese di tutti gli utenti):
+-- non è una modifica dell'utente, quindi passa anche sulle spese bloccate e non rimette
+-- in attesa quelle già approvate.
+
+-- Dati della spesa modificabili dall'utente: esclusi i campi calcolati e lo stato di
+-- approvazione; la valuta conta a meno di maiuscole (convert_pending_expenses la normalizza)
+create or replace function public.expense_user_fields(p_expense public.expenses)
+returns jsonb
+language sql
+immutable
+as $$
+  select (to_jsonb(p_expense) - 'approval_status' - 'updated_at' - 'amount_eur' - 'exchange_rate' - 'exchange_rate_date')
+    || jsonb_build_object('currency', upper(p_expense.currency));
+$$;
+
+create or replace function public.expenses_approval_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.approval_status is distinct from old.approval_status
+     and coalesce(current_setting('app.approval_decision', true), '') <> 'on' then
+    raise exception 'Lo stato di approvazione lo decide l''approvatore'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if new.report_id is distinct from old.report_id then
+    new.approval_status := null;
+  elsif old.approval_status in ('approved', 'changes_requested')
+        and public.expense_user_fields(new) <> public.expense_user_fields(old) then
+    new.approval_status := 'pending';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Le spese di una nota inviata restano bloccate, tranne che per lo stato di approvazione
+-- e per il controvalore in EUR
+create or replace function public.expenses_report_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  report_status text;
+begin
+  if tg_op = 'UPDATE' and public.expense_user_fields(new) = public.expense_user_fields(old) then
+    return new;
+  end if;
+
+  if tg_op <> 'INSERT' and old.report_id is not null then
+    select status into report_status from public.expense_reports where id = old.report_id;
+    -- Nota già eliminata (on delete set null): nessun blocco
+    if report_status is not null and report_status <> 'draft' then
+      raise exception 'Spesa bloccata: la nota spese è già stata inviata'
+        using errcode = 'check_violation';
+    end if;
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+
+  if new.report_id is not null then
+    select status into report_status from public.expense_reports where id = new.report_id;
+    if report_status <> 'draft' then
+      raise exception 'La nota spese è già stata inviata' using errcode = 'check_violation';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Il controvalore si ricalcola a ogni modifica: un valore scritto a mano (anche su una spesa
+-- bloccata, che ora lascia passare i campi calcolati) viene sempre sovrascritto
+drop trigger if exists set_expenses_amount_eur on public.expenses;
+create trigger set_expenses_amount_eur
+before insert or update on public.expenses
+for each row
+execute function public.set_expense_amount_eur();
@@ -0,0 +1,63 @@
+-- Quote giornaliere decise dal server: il limite per funzione sta in function_quotas e ogni
+-- richiesta costa sempre 1. Solo le Edge Function (service role) registrano l'utilizzo.
+create table if not exists public.function_quotas (
+  function_name text primary key,
+  daily_limit integer not null check (daily_limit > 0),
+  updated_at timestamptz default now()
+);
+
+-- Nessuna policy: la tabella si legge e si modifica solo con il service role
+alter table public.function_quotas enable row level security;
+
+insert into public.function_quotas (function_name, daily_limit)
+values ('analyze-receipt', 100), ('send-expense-email', 50)
+on conflict (function_name) do nothing;
+
+drop function if exists public.consume_function_quota(text, integer, integer);
+
+-- Registra una richiesta di p_user_id; allowed = false (senza incrementare) se supererebbe
+-- il limite del giorno o se la funzione non ha una quota configurata
+create or replace function public.consume_function_quota(p_user_id uuid, p_function text)
+returns table (allowed boolean, daily_limit integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_limit integer;
+  v_count integer;
+begin
+  select q.daily_limit into v_limit from public.function_quotas q where q.function_name = p_function;
+  if p_user_id is null or v_limit is null then
+    return query select false, coalesce(v_limit, 0);
+    return;
+  end if;
+
+  insert into public.function_usage (user_id, function_name, usage_date, request_count)
+  values (p_user_id, p_function, (now() at time zone 'utc')::date, 0)
+  on conflict (user_id, function_name, usage_date) do nothing;
+
+  select u.request_count into v_count
+  from public.function_usage u
+  where u.user_id = p_user_id
+    and u.function_name = p_function
+    and u.usage_date = (now() at time zone 'utc')::date
+  for update;
+
+  if v_count + 1 > v_limit then
+    return query select false, v_limit;
+    return;
+  end if;
+
+  update public.function_usage u
+  set request_count = u.request_count + 1, updated_at = now()
+  where u.user_id = p_user_id
+    and u.function_name = p_function
+    and u.usage_date = (now() at time zone 'utc')::date;
+
+  return query select true, v_limit;
+end;
+$$;
+
+revoke all on function public.consume_function_quota(uuid, text) from public, anon, authenticated;
+grant execute on function public.consume_function_quota(uuid, text) to service_role;
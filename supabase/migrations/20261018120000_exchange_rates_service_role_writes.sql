@@ -0,0 +1,10 @@
+-- I tassi BCE sono condivisi da tutti: gli utenti li leggono soltanto. Li scrive la Edge Function
+-- import-exchange-rates con il service role, scaricandoli direttamente dalla BCE.
+drop policy if exists "Authenticated users can import exchange rates" on public.exchange_rates;
+drop policy if exists "Authenticated users can update exchange rates" on public.exchange_rates;
+
+revoke insert, update, delete on public.exchange_rates from anon, authenticated;
+
+insert into public.function_quotas (function_name, daily_limit)
+values ('import-exchange-rates', 10)
+on conflict (function_name) do nothing;
@@ -0,0 +1,30 @@
+-- Proprietario e organizzazione si fissano all'inserimento (stamp_organization_id): la policy di
+-- update lascia modificare la spesa a contabili e amministratori, non riassegnarla a un altro
+-- utente, e nemmeno il proprietario può spostarla in un'organizzazione di cui non fa parte.
+create or replace function public.keep_expense_ownership()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'Il proprietario non si può cambiare' using errcode = 'insufficient_privilege';
+  end if;
+  if new.organization_id is distinct from old.organization_id then
+    raise exception 'L''organizzazione non si può cambiare' using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists expenses_keep_ownership on public.expenses;
+create trigger expenses_keep_ownership
+before update of user_id, organization_id on public.expenses
+for each row
+execute function public.keep_expense_ownership();
+
+drop trigger if exists expense_reports_keep_ownership on public.expense_reports;
+create trigger expense_reports_keep_ownership
+before update of user_id, organization_id on public.expense_reports
+for each row
+execute function public.keep_expense_ownership();
@@ -0,0 +1,4 @@
+-- PDF oltre le pagine analizzabili (MAX_PDF_PAGES): quante pagine finali non sono state lette
+-- dall'analisi, per ricordare di controllare i dati sul documento originale
+alter table public.expenses
+add column if not exists skipped_pages integer not null default 0 check (skipped_pages >= 0);
@@ -0,0 +1,90 @@
+-- Note spese che non devono restare bloccate: il richiedente può ritirare una nota in
+-- approvazione finché nessuno ha deciso (approvatore senza account, destinatario sbagliato)
+-- e, senza organizzazione, segna da sé il rimborso della nota approvata.
+create or replace function public.expense_report_lifecycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  next_seq integer;
+  from_approval boolean := coalesce(current_setting('app.approval_decision', true), '') = 'on';
+begin
+  if tg_op = 'INSERT' then
+    new.status := 'draft';
+    new.protocol_year := null;
+    new.protocol_seq := null;
+    new.protocol_number := null;
+    new.total_eur := 0;
+    new.expense_count := 0;
+    return new;
+  end if;
+
+  new.protocol_year := old.protocol_year;
+  new.protocol_seq := old.protocol_seq;
+  new.protocol_number := old.protocol_number;
+
+  if new.status = old.status then
+    return new;
+  end if;
+
+  if not (
+    (old.status = 'draft' and new.status = 'submitted')
+    or (old.status = 'submitted' and new.status in ('approved', 'draft'))
+    or (old.status = 'approved' and new.status = 'reimbursed')
+  ) then
+    raise exception 'Transizione non consentita: % -> %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  if new.status = 'submitted' and auth.uid() is distinct from old.user_id then
+    raise exception 'Solo il richiedente può inviare la nota spese'
+      using errcode = 'insufficient_privilege';
+  end if;
+  if old.status = 'submitted' and not from_approval then
+    if new.status <> 'draft' or auth.uid() is distinct from old.user_id then
+      raise exception 'La nota spese la approva o la rimanda in bozza l''approvatore, spesa per spesa'
+        using errcode = 'insufficient_privilege';
+    end if;
+    if exists (
+      select 1 from public.expense_approvals
+      where report_id = old.id and created_at >= old.submitted_at
+    ) then
+      raise exception 'L''approvatore ha già iniziato a decidere: la nota non si può più ritirare'
+        using errcode = 'insufficient_privilege';
+    end if;
+  end if;
+  if new.status = 'reimbursed' and not (
+    public.has_org_role(old.organization_id, array['accountant', 'admin'])
+    or (old.organization_id is null and auth.uid() = old.user_id)
+  ) then
+    raise exception 'Il rimborso lo segna la contabilità dell''organizzazione'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if new.status = 'submitted' then
+    if old.expense_count = 0 then
+      raise exception 'La nota spese non contiene spese' using errcode = 'check_violation';
+    end if;
+    new.submitted_at := now();
+    if old.protocol_number is null then
+      new.protocol_year := extract(year from now())::integer;
+      insert into public.expense_report_counters (user_id, year, last_seq)
+      values (new.user_id, new.protocol_year, 1)
+      on conflict (user_id, year) do update set last_seq = expense_report_counters.last_seq + 1
+      returning last_seq into next_seq;
+      new.protocol_seq := next_seq;
+      new.protocol_number := 'NS-' || new.protocol_year || '-' || lpad(next_seq::text, 4, '0');
+    end if;
+  elsif new.status = 'approved' then
+    new.approved_at := now();
+  elsif new.status = 'reimbursed' then
+    new.reimbursed_at := now();
+  elsif new.status = 'draft' then
+    new.submitted_at := null;
+  end if;
+
+  return new;
+end;
+$$;
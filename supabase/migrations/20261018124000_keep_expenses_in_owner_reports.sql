@@ -0,0 +1,44 @@
+-- Una spesa entra solo nelle note spese del suo proprietario: né il richiedente né la contabilità
+-- (policy di update sulle spese) possono aggiungerla alla bozza di un altro utente, cambiandone
+-- totali, email e inbox dell'approvatore
+create or replace function public.expenses_report_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  report_status text;
+  report_owner uuid;
+begin
+  if tg_op = 'UPDATE' and public.expense_user_fields(new) = public.expense_user_fields(old) then
+    return new;
+  end if;
+
+  if tg_op <> 'INSERT' and old.report_id is not null then
+    select status into report_status from public.expense_reports where id = old.report_id;
+    -- Nota già eliminata (on delete set null): nessun blocco
+    if report_status is not null and report_status <> 'draft' then
+      raise exception 'Spesa bloccata: la nota spese è già stata inviata'
+        using errcode = 'check_violation';
+    end if;
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+
+  if new.report_id is not null then
+    select status, user_id into report_status, report_owner from public.expense_reports where id = new.report_id;
+    if report_owner is distinct from new.user_id then
+      raise exception 'La spesa può entrare solo in una nota spese del suo proprietario'
+        using errcode = 'insufficient_privilege';
+    end if;
+    if report_status <> 'draft' then
+      raise exception 'La nota spese è già stata inviata' using errcode = 'check_violation';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
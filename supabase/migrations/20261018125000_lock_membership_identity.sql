@@ -0,0 +1,24 @@
+-- La policy "Admins can update memberships" serve a cambiare il ruolo di un membro: utente e
+-- organizzazione restano quelli dell'adesione, altrimenti un amministratore potrebbe dare la
+-- propria iscrizione (e il ruolo) a chiunque o spostarla in un'altra organizzazione.
+create or replace function public.keep_membership_identity()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'Il membro non si può cambiare: si modifica solo il ruolo' using errcode = 'insufficient_privilege';
+  end if;
+  if new.organization_id is distinct from old.organization_id then
+    raise exception 'L''organizzazione non si può cambiare: si modifica solo il ruolo' using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists memberships_keep_identity on public.memberships;
+create trigger memberships_keep_identity
+before update of user_id, organization_id on public.memberships
+for each row
+execute function public.keep_membership_identity();